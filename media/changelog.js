@@ -0,0 +1,16 @@
+const vscode = acquireVsCodeApi();
+
+// Commit links and the range button (content is rendered by the extension)
+document.getElementById('changelog')?.addEventListener('click', (e) => {
+	const target = e.target;
+	if (!(target instanceof HTMLElement)) {
+		return;
+	}
+
+	if (target.classList.contains('commit-sha')) {
+		e.preventDefault();
+		vscode.postMessage({ command: 'openCommit', sha: target.dataset.sha });
+	} else if (target.id === 'openRange') {
+		vscode.postMessage({ command: 'openRange' });
+	}
+});
@@ -43,6 +43,8 @@ function init(data) {
 	const envSelect = document.getElementById('environment');
 	if (envSelect) envSelect.value = data.environment;
 
+	setPublishMethodFields(data);
+
 	const pubUrlInput = document.getElementById('publishUrl');
 	if (pubUrlInput) pubUrlInput.value = data.publishUrl || '';
 
@@ -64,6 +66,9 @@ function init(data) {
 	const logPathInput = document.getElementById('logPath');
 	if (logPathInput) logPathInput.value = data.logPath || '';
 
+	setRetryFields(data);
+	setHealthCheckFields(data);
+
 	// Handle create mode vs edit mode
 	// Styles handled by CSS now
 
@@ -205,6 +210,22 @@ document.addEventListener('DOMContentLoaded', () => {
 		});
 	}
 
+	// Publish method change (show the fields that apply)
+	const publishMethodSelect = document.getElementById('publishMethod');
+	if (publishMethodSelect) {
+		publishMethodSelect.addEventListener('change', (e) => {
+			applyPublishMethod(e.target.value);
+		});
+	}
+
+	// Container build mode change (Dockerfile fields)
+	const containerBuildModeSelect = document.getElementById('containerBuildMode');
+	if (containerBuildModeSelect) {
+		containerBuildModeSelect.addEventListener('change', () => {
+			applyPublishMethod(document.getElementById('publishMethod').value);
+		});
+	}
+
 	// Deploy button
 	const deployBtn = document.getElementById('btnDeploy');
 	if (deployBtn) {
@@ -213,6 +234,21 @@ document.addEventListener('DOMContentLoaded', () => {
 		});
 	}
 
+	// Remediation buttons in history (content is re-rendered, so delegate from the container)
+	const historyContainer = document.getElementById('historyContainer');
+	if (historyContainer) {
+		historyContainer.addEventListener('click', (e) => {
+			const button = e.target.closest('.btn-remediation');
+			if (button) {
+				vscode.postMessage({
+					command: 'remediate',
+					recordId: button.dataset.recordId,
+					actionIndex: Number(button.dataset.actionIndex),
+				});
+			}
+		});
+	}
+
 	// View Logs button
 	const viewLogsBtn = document.getElementById('btnViewLogs');
 	if (viewLogsBtn) {
@@ -249,19 +285,76 @@ if (form) {
 		e.preventDefault();
 
 		// Validate required fields
-		const publishUrl = document.getElementById('publishUrl').value.trim();
-		const siteName = document.getElementById('siteName').value.trim();
-		const username = document.getElementById('username').value.trim();
+		const publishMethod = document.getElementById('publishMethod').value;
+		const isFileSystem = publishMethod === 'FileSystem';
+		const isZipArtifact = publishMethod === 'ZipArtifact';
+		const isZipDeploy = publishMethod === 'ZipDeploy';
+		const isSsh = publishMethod === 'SSH';
+		const isContainer = publishMethod === 'Container';
+		const needsServer = !isFileSystem && !isZipArtifact;
+		const targetFolder = document.getElementById('targetFolder').value.trim();
+		const artifactFolder = document.getElementById('artifactFolder').value.trim();
+		const kuduUrl = document.getElementById('kuduUrl').value.trim();
+		const kuduAuthType = document.getElementById('kuduAuthType').value;
+		const sshHost = document.getElementById('sshHost').value.trim();
+		const sshRemotePath = document.getElementById('sshRemotePath').value.trim();
+		const sshAuthType = document.getElementById('sshAuthType').value;
+		const containerRepository = document.getElementById('containerRepository').value.trim();
+		const publishUrl = isFileSystem
+			? targetFolder
+			: isZipArtifact
+				? artifactFolder
+				: isZipDeploy
+					? kuduUrl
+					: isSsh
+						? sshHost
+						: isContainer
+							? ''
+							: document.getElementById('publishUrl').value.trim();
+		const siteName =
+			publishMethod === 'MSDeploy' ? document.getElementById('siteName').value.trim() : '';
+		const username = needsServer ? document.getElementById('username').value.trim() : '';
 		const password = document.getElementById('password').value; // Don't trim password
 
 		let errors = [];
-		if (!publishUrl) errors.push('Publish URL is required');
-		if (!siteName) errors.push('Site Name is required');
-		if (!username) errors.push('Username is required');
-
-		// Require password in create mode
-		if (window.currentData && window.currentData.isCreateMode && !password) {
-			errors.push('Password is required for new profiles');
+		if (isFileSystem) {
+			if (!targetFolder) errors.push('Target Folder is required');
+		} else if (isZipArtifact) {
+			if (!artifactFolder) errors.push('Artifact Folder is required');
+		} else if (isZipDeploy) {
+			if (!kuduUrl) errors.push('Kudu (SCM) URL is required');
+			if (kuduAuthType === 'basic' && !username) errors.push('Username is required');
+			if (window.currentData && window.currentData.isCreateMode && !password) {
+				errors.push('Password or token is required for new profiles');
+			}
+		} else if (isSsh) {
+			if (!sshHost) errors.push('Host is required');
+			if (!sshRemotePath) errors.push('Remote Folder is required');
+			if (!username) errors.push('Username is required');
+			// Key logins may have no passphrase
+			if (
+				sshAuthType === 'password' &&
+				window.currentData &&
+				window.currentData.isCreateMode &&
+				!password
+			) {
+				errors.push('Password is required for new profiles');
+			}
+		} else if (isContainer) {
+			// Registry login is optional (local registry, docker login)
+			if (!containerRepository) errors.push('Repository is required');
+			else if (!/^[a-z0-9]+([._\/-][a-z0-9]+)*$/.test(containerRepository)) {
+				errors.push('Repository must be lowercase (letters, digits, . _ - /)');
+			}
+		} else {
+			if (!publishUrl) errors.push('Publish URL is required');
+			if (!siteName) errors.push('Site Name is required');
+			if (!username) errors.push('Username is required');
+
+			// Require password in create mode
+			if (window.currentData && window.currentData.isCreateMode && !password) {
+				errors.push('Password is required for new profiles');
+			}
 		}
 
 		// Show validation errors
@@ -278,10 +371,22 @@ if (form) {
 			siteName: siteName,
 			siteUrl: document.getElementById('siteUrl').value || undefined,
 			username: username,
-			password: document.getElementById('password').value || 'KEEP_EXISTING',
+			// Folder and zip profiles have no credentials
+			password: needsServer ? password || 'KEEP_EXISTING' : '',
+			publishMethod: publishMethod,
+			deleteExistingFiles: isFileSystem
+				? document.getElementById('deleteExistingFiles').checked
+				: isSsh
+					? document.getElementById('sshDeleteExistingFiles').checked
+					: undefined,
+			kuduAuthType: isZipDeploy ? kuduAuthType : undefined,
+			...(isSsh ? getSshFields() : {}),
+			...(isContainer ? getContainerFields() : {}),
 			openBrowserOnDeploy: document.getElementById('openBrowserOnDeploy').checked,
 			enableStdoutLog: document.getElementById('enableStdoutLog').checked,
 			logPath: document.getElementById('logPath').value.trim() || undefined,
+			...getRetryFields(),
+			...getHealthCheckFields(),
 		};
 
 		vscode.postMessage({ command: 'save', data: submitData });
@@ -294,6 +399,7 @@ window.resetForm = function () {
 	const data = window.currentData;
 
 	document.getElementById('environment').value = data.environment;
+	setPublishMethodFields(data);
 	document.getElementById('publishUrl').value = data.publishUrl || '';
 	document.getElementById('siteName').value = data.siteName || '';
 	document.getElementById('siteUrl').value = data.siteUrl || '';
@@ -302,9 +408,215 @@ window.resetForm = function () {
 	document.getElementById('openBrowserOnDeploy').checked = data.openBrowserOnDeploy !== false;
 	document.getElementById('enableStdoutLog').checked = data.enableStdoutLog === true;
 	document.getElementById('logPath').value = data.logPath || '';
+	setRetryFields(data);
+	setHealthCheckFields(data);
 	clearErrors();
 };
 
+function setPublishMethodFields(data) {
+	const method = data.publishMethod || 'MSDeploy';
+
+	const publishMethodSelect = document.getElementById('publishMethod');
+	if (publishMethodSelect) publishMethodSelect.value = method;
+
+	const targetFolderInput = document.getElementById('targetFolder');
+	if (targetFolderInput) {
+		targetFolderInput.value = method === 'FileSystem' ? data.publishUrl || '' : '';
+	}
+
+	const artifactFolderInput = document.getElementById('artifactFolder');
+	if (artifactFolderInput) {
+		artifactFolderInput.value = method === 'ZipArtifact' ? data.publishUrl || '' : '';
+	}
+
+	const kuduUrlInput = document.getElementById('kuduUrl');
+	if (kuduUrlInput) kuduUrlInput.value = method === 'ZipDeploy' ? data.publishUrl || '' : '';
+
+	const kuduAuthTypeSelect = document.getElementById('kuduAuthType');
+	if (kuduAuthTypeSelect) kuduAuthTypeSelect.value = data.kuduAuthType || 'basic';
+
+	setSshFields(method === 'SSH' ? data : {});
+	setContainerFields(method === 'Container' ? data : {});
+
+	const deleteExistingCheckbox = document.getElementById('deleteExistingFiles');
+	if (deleteExistingCheckbox) deleteExistingCheckbox.checked = data.deleteExistingFiles === true;
+
+	applyPublishMethod(method);
+}
+
+function applyPublishMethod(method) {
+	const show = (selector, visible) => {
+		document.querySelectorAll(selector).forEach((el) => {
+			el.style.display = visible ? '' : 'none';
+		});
+	};
+	show('.msdeploy-only', method === 'MSDeploy');
+	show('.filesystem-only', method === 'FileSystem');
+	show('.zipartifact-only', method === 'ZipArtifact');
+	show('.zipdeploy-only', method === 'ZipDeploy');
+	show('.ssh-only', method === 'SSH');
+	show('.container-only', method === 'Container');
+	show(
+		'.dockerfile-only',
+		method === 'Container' &&
+			document.getElementById('containerBuildMode').value === 'dockerfile'
+	);
+	show(
+		'.server-credentials',
+		method === 'MSDeploy' ||
+			method === 'ZipDeploy' ||
+			method === 'SSH' ||
+			method === 'Container'
+	);
+}
+
+function setSshFields(data) {
+	const values = {
+		sshHost: data.publishUrl,
+		sshRemotePath: data.sshRemotePath,
+		sshPrivateKeyPath: data.sshPrivateKeyPath,
+		sshPreCommand: data.sshPreCommand,
+		sshPostCommand: data.sshPostCommand,
+	};
+	for (const [id, value] of Object.entries(values)) {
+		const input = document.getElementById(id);
+		if (input) input.value = value || '';
+	}
+
+	const authType = document.getElementById('sshAuthType');
+	if (authType) authType.value = data.sshAuthType || 'password';
+	const transfer = document.getElementById('sshTransfer');
+	if (transfer) transfer.value = data.sshTransfer || 'rsync';
+	const deleteExisting = document.getElementById('sshDeleteExistingFiles');
+	if (deleteExisting) deleteExisting.checked = data.deleteExistingFiles === true;
+}
+
+function getSshFields() {
+	return {
+		sshRemotePath: document.getElementById('sshRemotePath').value.trim(),
+		sshAuthType: document.getElementById('sshAuthType').value,
+		sshPrivateKeyPath: document.getElementById('sshPrivateKeyPath').value.trim() || undefined,
+		sshTransfer: document.getElementById('sshTransfer').value,
+		sshPreCommand: document.getElementById('sshPreCommand').value.trim() || undefined,
+		sshPostCommand: document.getElementById('sshPostCommand').value.trim() || undefined,
+	};
+}
+
+function setContainerFields(data) {
+	const values = {
+		containerRegistry: data.containerRegistry,
+		containerRepository: data.containerRepository,
+		containerImageTags: data.containerImageTags,
+		dockerfilePath: data.dockerfilePath,
+		dockerfileContext: data.dockerfileContext,
+	};
+	for (const [id, value] of Object.entries(values)) {
+		const input = document.getElementById(id);
+		if (input) input.value = value || '';
+	}
+
+	const buildMode = document.getElementById('containerBuildMode');
+	if (buildMode) buildMode.value = data.containerBuildMode || 'sdk';
+}
+
+function getContainerFields() {
+	const buildMode = document.getElementById('containerBuildMode').value;
+	return {
+		containerRegistry: document.getElementById('containerRegistry').value.trim() || undefined,
+		containerRepository: document.getElementById('containerRepository').value.trim(),
+		containerImageTags: document.getElementById('containerImageTags').value.trim() || undefined,
+		containerBuildMode: buildMode,
+		dockerfilePath:
+			buildMode === 'dockerfile'
+				? document.getElementById('dockerfilePath').value.trim() || undefined
+				: undefined,
+		dockerfileContext:
+			buildMode === 'dockerfile'
+				? document.getElementById('dockerfileContext').value.trim() || undefined
+				: undefined,
+	};
+}
+
+function setRetryFields(data) {
+	const maxAttempts = document.getElementById('retryMaxAttempts');
+	if (maxAttempts) maxAttempts.value = data.retryMaxAttempts || '';
+
+	const backoff = document.getElementById('retryBackoffSeconds');
+	if (backoff) {
+		backoff.value = data.retryBackoffMs !== undefined ? data.retryBackoffMs / 1000 : '';
+	}
+
+	const retryOn = document.getElementById('retryOn');
+	if (retryOn) retryOn.value = (data.retryOn || []).join(', ');
+}
+
+function getRetryFields() {
+	const maxAttempts = parseInt(document.getElementById('retryMaxAttempts').value, 10);
+	if (!maxAttempts || maxAttempts <= 1) {
+		return {};
+	}
+
+	const backoffSeconds = parseFloat(document.getElementById('retryBackoffSeconds').value);
+	const retryOn = document
+		.getElementById('retryOn')
+		.value.split(',')
+		.map((v) => v.trim())
+		.filter((v) => v);
+
+	return {
+		retryMaxAttempts: maxAttempts,
+		retryBackoffMs: isNaN(backoffSeconds) ? undefined : Math.round(backoffSeconds * 1000),
+		retryOn: retryOn.length > 0 ? retryOn : undefined,
+	};
+}
+
+function setHealthCheckFields(data) {
+	const seconds = (ms) => (ms !== undefined ? ms / 1000 : '');
+	document.getElementById('healthCheckUrls').value = (data.healthCheckUrls || []).join(', ');
+	document.getElementById('healthCheckExpectedStatus').value = (
+		data.healthCheckExpectedStatus || []
+	).join(', ');
+	document.getElementById('healthCheckBodyPattern').value = data.healthCheckBodyPattern || '';
+	document.getElementById('healthCheckTimeoutSeconds').value = seconds(data.healthCheckTimeoutMs);
+	document.getElementById('healthCheckRetries').value = data.healthCheckRetries ?? '';
+	document.getElementById('healthCheckRetryDelaySeconds').value = seconds(
+		data.healthCheckRetryDelayMs
+	);
+}
+
+function getHealthCheckFields() {
+	const list = (id) =>
+		document
+			.getElementById(id)
+			.value.split(',')
+			.map((v) => v.trim())
+			.filter((v) => v);
+	const milliseconds = (id) => {
+		const value = parseFloat(document.getElementById(id).value);
+		return isNaN(value) ? undefined : Math.round(value * 1000);
+	};
+
+	const urls = list('healthCheckUrls');
+	if (urls.length === 0) {
+		return {};
+	}
+
+	const expectedStatus = list('healthCheckExpectedStatus')
+		.map((s) => parseInt(s, 10))
+		.filter((s) => !isNaN(s));
+	const retries = parseInt(document.getElementById('healthCheckRetries').value, 10);
+
+	return {
+		healthCheckUrls: urls,
+		healthCheckExpectedStatus: expectedStatus.length > 0 ? expectedStatus : undefined,
+		healthCheckBodyPattern:
+			document.getElementById('healthCheckBodyPattern').value.trim() || undefined,
+		healthCheckTimeoutMs: milliseconds('healthCheckTimeoutSeconds'),
+		healthCheckRetries: isNaN(retries) ? undefined : retries,
+		healthCheckRetryDelayMs: milliseconds('healthCheckRetryDelaySeconds'),
+	};
+}
+
 function clearErrors() {
 	const existing = document.querySelector('.error-box');
 	if (existing) existing.remove();
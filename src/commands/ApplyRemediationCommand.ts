@@ -0,0 +1,93 @@
+import * as vscode from 'vscode';
+import { BaseCommand } from './ICommand';
+import { PublishProfileInfo } from '../models/ProjectModels';
+import { RemediationAction } from '../models/KnownErrorModels';
+import { IPasswordStorage } from '../strategies/IPasswordStorage';
+
+/**
+ * Apply Remediation Command
+ * Runs an action suggested by the known error knowledge base
+ * (from the failure notification or the Profile Info panel)
+ */
+export class ApplyRemediationCommand extends BaseCommand {
+	readonly id = 'dotnet-project-toolkit.applyRemediation';
+
+	constructor(
+		outputChannel: vscode.OutputChannel,
+		private readonly passwordStorage: IPasswordStorage
+	) {
+		super(outputChannel);
+	}
+
+	async execute(item?: unknown): Promise<void> {
+		const args = item as {
+			action?: RemediationAction;
+			profileInfo?: PublishProfileInfo;
+			projectName?: string;
+			csprojPath?: string;
+		};
+		const action = args?.action;
+		const profileInfo = args?.profileInfo;
+
+		if (!action) {
+			return;
+		}
+
+		this.log(`Applying: ${action.kind}${profileInfo ? ` (${profileInfo.fileName})` : ''}`);
+
+		switch (action.kind) {
+			case 'openDocs':
+				if (action.url) {
+					await vscode.env.openExternal(vscode.Uri.parse(action.url));
+				}
+				break;
+
+			case 'reenterCredentials': {
+				if (!profileInfo || !args.projectName) {
+					return;
+				}
+
+				const password = await vscode.window.showInputBox({
+					prompt: `Enter deployment password for ${profileInfo.fileName}`,
+					password: true,
+					ignoreFocusOut: true,
+				});
+				if (!password) {
+					return;
+				}
+
+				const key = this.passwordStorage.generateKey(
+					args.projectName,
+					profileInfo.fileName
+				);
+				await this.passwordStorage.store(key, password);
+
+				const retry = await vscode.window.showInformationMessage(
+					`Credentials updated for ${profileInfo.fileName}.`,
+					'Deploy Again'
+				);
+				if (retry === 'Deploy Again') {
+					await this.redeploy(args, profileInfo);
+				}
+				break;
+			}
+
+			case 'retryWithAppOffline':
+				if (profileInfo) {
+					await this.redeploy(args, { ...profileInfo, enableAppOffline: true });
+				}
+				break;
+		}
+	}
+
+	private async redeploy(
+		args: { projectName?: string; csprojPath?: string },
+		profileInfo: PublishProfileInfo
+	): Promise<void> {
+		await vscode.commands.executeCommand('dotnet-project-toolkit.deployProfile', {
+			profileInfo,
+			projectName: args.projectName,
+			csprojPath: args.csprojPath,
+		});
+	}
+}
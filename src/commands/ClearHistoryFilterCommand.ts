@@ -0,0 +1,25 @@
+import * as vscode from 'vscode';
+import { BaseCommand } from './ICommand';
+import { HistoryViewStateService } from '../services/HistoryViewStateService';
+
+/**
+ * Clear History Filter Command
+ * Shows every deployment again (the grouping is kept)
+ */
+export class ClearHistoryFilterCommand extends BaseCommand {
+	readonly id = 'dotnet-project-toolkit.clearHistoryFilter';
+
+	constructor(
+		outputChannel: vscode.OutputChannel,
+		private readonly onRefresh: () => void,
+		private readonly viewState: HistoryViewStateService
+	) {
+		super(outputChannel);
+	}
+
+	async execute(): Promise<void> {
+		await this.viewState.setFilter({});
+		this.log('Filter cleared');
+		this.onRefresh();
+	}
+}
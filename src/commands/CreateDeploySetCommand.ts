@@ -0,0 +1,87 @@
+import * as vscode from 'vscode';
+import { BaseCommand } from './ICommand';
+import { DeploySetConfigService } from '../services/DeploySetConfigService';
+import { DeploySetMode } from '../models/DeploySetModels';
+import { ProjectScanner } from '../utils/ProjectScanner';
+
+/**
+ * Create Deploy Set Command
+ * Picks project/profile pairs to deploy together
+ */
+export class CreateDeploySetCommand extends BaseCommand {
+	readonly id = 'dotnet-project-toolkit.deploySet.create';
+
+	constructor(
+		outputChannel: vscode.OutputChannel,
+		private readonly deploySets: DeploySetConfigService,
+		private readonly projectScanner: ProjectScanner,
+		private readonly onRefresh: () => void
+	) {
+		super(outputChannel);
+	}
+
+	async execute(): Promise<void> {
+		const name = await vscode.window.showInputBox({
+			prompt: 'Enter Deploy Set Name',
+			placeHolder: 'Staging (API + Client)',
+			validateInput: (value) => (value.trim() ? null : 'Name is required'),
+		});
+		if (!name) {
+			return;
+		}
+
+		const structure = await this.projectScanner.scanWorkspace(
+			vscode.workspace.workspaceFolders?.[0]?.uri.fsPath || ''
+		);
+		const profilePicks = structure.projects.flatMap((project) =>
+			project.profiles.map((profile) => ({
+				label: `${project.name} / ${profile.name}`,
+				description: profile.environment.toUpperCase(),
+				entry: { projectName: project.name, profileName: profile.fileName },
+			}))
+		);
+
+		if (profilePicks.length === 0) {
+			vscode.window.showWarningMessage('No publish profiles found to group.');
+			return;
+		}
+
+		const selected = await vscode.window.showQuickPick(profilePicks, {
+			canPickMany: true,
+			placeHolder: 'Select profiles to deploy together (deployed in this order)',
+		});
+		if (!selected || selected.length === 0) {
+			return;
+		}
+
+		const modePick = await vscode.window.showQuickPick(
+			[
+				{
+					label: 'Sequential',
+					description: 'One after another, stop at the first failure',
+					mode: 'sequential' as DeploySetMode,
+				},
+				{
+					label: 'Parallel',
+					description: 'All at the same time',
+					mode: 'parallel' as DeploySetMode,
+				},
+			],
+			{ placeHolder: 'How should the profiles be deployed?' }
+		);
+		if (!modePick) {
+			return;
+		}
+
+		await this.deploySets.saveSet({
+			id: this.deploySets.generateId(),
+			name: name.trim(),
+			mode: modePick.mode,
+			entries: selected.map((s) => s.entry),
+		});
+
+		this.log(`Created deploy set '${name}' with ${selected.length} profile(s)`);
+		this.onRefresh();
+		vscode.window.showInformationMessage(`Deploy set '${name}' created!`);
+	}
+}
@@ -0,0 +1,39 @@
+import * as vscode from 'vscode';
+import { BaseCommand } from './ICommand';
+import { DeploySetConfigService } from '../services/DeploySetConfigService';
+import { DeploySet } from '../models/DeploySetModels';
+
+/**
+ * Delete Deploy Set Command
+ */
+export class DeleteDeploySetCommand extends BaseCommand {
+	readonly id = 'dotnet-project-toolkit.deploySet.delete';
+
+	constructor(
+		outputChannel: vscode.OutputChannel,
+		private readonly deploySets: DeploySetConfigService,
+		private readonly onRefresh: () => void
+	) {
+		super(outputChannel);
+	}
+
+	async execute(item?: unknown): Promise<void> {
+		const set = (item as { deploySet?: DeploySet })?.deploySet;
+		if (!set) {
+			return;
+		}
+
+		const confirm = await vscode.window.showWarningMessage(
+			`Delete deploy set '${set.name}'?`,
+			{ modal: true },
+			'Delete'
+		);
+		if (confirm !== 'Delete') {
+			return;
+		}
+
+		await this.deploySets.deleteSet(set.id);
+		this.log(`Deleted deploy set '${set.name}'`);
+		this.onRefresh();
+	}
+}
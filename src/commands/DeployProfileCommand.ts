@@ -1,9 +1,63 @@
 import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
 import { ICommand } from './ICommand';
 import { PublishTreeItem } from '../ui/publish/PublishTreeProvider';
 import { HistoryManager } from '../services/HistoryManager';
-import { PublishProfileInfo, DeployEnvironment } from '../models/ProjectModels';
-import { IDeploymentService } from '../services/DeploymentService';
+import { PublishProfileInfo, DeployEnvironment, getProfileTarget } from '../models/ProjectModels';
+import { IDeploymentService, DeploymentResult } from '../services/DeploymentService';
+import { KnownErrorMatch } from '../models/KnownErrorModels';
+import { IPreDeployGateService } from '../services/PreDeployGateService';
+import { PreDeployGateOutcome } from '../models/PreDeployGateModels';
+import { DeploymentRecord, DeploymentStatus, GitCommitInfo } from '../models/DeploymentRecord';
+import { IConfigurationService } from '../services/IConfigurationService';
+import { IDeployPolicyService } from '../services/DeployPolicyService';
+import { PolicyEvaluation } from '../models/DeployPolicyModels';
+import { IHealthCheckService } from '../services/HealthCheckService';
+import { HealthCheckOutcome } from '../models/HealthCheckModels';
+import { IWebhookService } from '../services/WebhookService';
+import { WebhookEvent } from '../models/WebhookModels';
+import { BuildInfo } from '../utils/BuildInfo';
+
+/**
+ * Options for deployments started by another flow (e.g. a deploy set)
+ */
+export interface DeploymentRunOptions {
+	/** Links the history records of one batch run */
+	batch?: { id: string; name: string };
+
+	/** Report into the caller's progress notification instead of opening one */
+	progress?: (message: string) => void;
+
+	/** Prepended to progress messages (e.g. "Api: ") */
+	progressPrefix?: string;
+
+	/** Cancellation for the caller's progress notification */
+	token?: vscode.CancellationToken;
+
+	/** Skip per-deployment notifications and browser opening (the caller summarizes) */
+	quiet?: boolean;
+
+	/** Replaces the publish step (e.g. a rollback); the pre-deployment gate is skipped */
+	run?: (
+		report: (message: string, increment: number) => void,
+		token?: vscode.CancellationToken
+	) => Promise<DeploymentResult>;
+
+	/** Already confirmed by the user: a policy's typed confirmation is not asked again */
+	confirmed?: boolean;
+
+	/** Extra fields for the history record (e.g. what a rollback restored) */
+	record?: Pick<DeploymentRecord, 'type' | 'rollbackOf' | 'rollbackSource' | 'redeployOf'>;
+}
+
+/**
+ * A deployment that passed its checks and has an in-progress history record
+ */
+export interface PreparedDeployment {
+	historyId: string;
+	startTime: Date;
+}
 
 /**
  * Deploy Profile Command
@@ -16,7 +70,12 @@ export class DeployProfileCommand implements ICommand {
 		private readonly outputChannel: vscode.OutputChannel,
 		private readonly onRefresh: () => void,
 		private readonly historyManager: HistoryManager,
-		private readonly deploymentService: IDeploymentService
+		private readonly deploymentService: IDeploymentService,
+		private readonly preDeployGate: IPreDeployGateService,
+		private readonly configService: IConfigurationService,
+		private readonly policyService: IDeployPolicyService,
+		private readonly healthCheckService: IHealthCheckService,
+		private readonly webhookService: IWebhookService
 	) {}
 
 	async execute(item: PublishTreeItem): Promise<void> {
@@ -91,25 +150,98 @@ export class DeployProfileCommand implements ICommand {
 
 		this.outputChannel.appendLine(`[Deploy] Final project path: ${projectPath || 'NOT FOUND'}`);
 
-		// 1. Confirm deployment (for ALL environments)
-		const isProd = profile.environment === DeployEnvironment.Production;
-		const confirmMessage = isProd
-			? `⚠️ Deploy to PRODUCTION environment with profile: ${profile.name}?`
-			: `Deploy to ${environment} environment with profile: ${profile.name}?`;
+		// 1. Policies first: a blocked deployment is never offered for confirmation
+		const git = projectPath
+			? await BuildInfo.readGitInfo(path.dirname(projectPath))
+			: undefined;
+		const evaluation = this.evaluatePolicies(profile, projectName, git);
+		if (!evaluation) {
+			return;
+		}
 
-		const confirm = await vscode.window.showWarningMessage(
-			confirmMessage,
-			{ modal: true },
-			'Deploy',
-			'Cancel'
-		);
+		// 2. Confirm deployment (for ALL environments); a typed confirmation replaces the modal
+		if (evaluation.requireTypedConfirmation) {
+			if (!(await this.confirmTyped(profile))) {
+				return;
+			}
+		} else {
+			const isProd = profile.environment === DeployEnvironment.Production;
+			const confirmMessage = isProd
+				? `⚠️ Deploy to PRODUCTION environment with profile: ${profile.name}?`
+				: `Deploy to ${environment} environment with profile: ${profile.name}?`;
 
-		if (confirm !== 'Deploy') {
-			return;
+			const confirm = await vscode.window.showWarningMessage(
+				confirmMessage,
+				{ modal: true },
+				'Deploy',
+				'Cancel'
+			);
+
+			if (confirm !== 'Deploy') {
+				return;
+			}
+		}
+
+		await this.runDeployment(profile, projectName, projectPath, { confirmed: true });
+	}
+
+	/**
+	 * Run a deployment and record it in history
+	 * Batch deployments call this directly after confirming the whole set up front
+	 */
+	async runDeployment(
+		profile: PublishProfileInfo,
+		projectName: string,
+		projectPath: string | undefined,
+		options: DeploymentRunOptions = {}
+	): Promise<DeploymentStatus> {
+		const prepared = await this.prepareDeployment(profile, projectName, projectPath, options);
+		return typeof prepared === 'string'
+			? prepared
+			: this.publishPrepared(prepared, profile, projectName, projectPath, options);
+	}
+
+	/**
+	 * The part of a deployment that may ask the user something: policies, the production
+	 * source check and the pre-deployment gate. Parallel deploy sets run it one profile at a
+	 * time, then publish side by side
+	 * @returns the deployment to publish, or its final status when it stopped here
+	 */
+	async prepareDeployment(
+		profile: PublishProfileInfo,
+		projectName: string,
+		projectPath: string | undefined,
+		options: DeploymentRunOptions = {}
+	): Promise<PreparedDeployment | DeploymentStatus> {
+		const environment = profile.environment.toUpperCase();
+		const isRollback = options.record?.type === 'rollback';
+		const action = isRollback ? 'Rollback' : 'Deployment';
+
+		// What code is being deployed (a custom run such as a rollback builds nothing)
+		const git =
+			projectPath && !options.run
+				? await BuildInfo.readGitInfo(path.dirname(projectPath))
+				: undefined;
+
+		// Workspace policies (a rollback restores a build that already passed them)
+		if (!isRollback && !(await this.checkPolicies(profile, projectName, git, options))) {
+			return 'cancelled';
+		}
+
+		if (
+			git &&
+			profile.environment === DeployEnvironment.Production &&
+			!(await this.confirmProductionSource(profile, git))
+		) {
+			this.outputChannel.appendLine(
+				`[Deploy] Production deployment of ${profile.name} stopped at the source check`
+			);
+			return 'cancelled';
 		}
 
 		// 2. Add history record (in-progress)
 		const startTime = new Date();
+		const user = await BuildInfo.readUserName(projectPath && path.dirname(projectPath));
 		const historyId = await this.historyManager.addDeployment(
 			{
 				profileName: profile.fileName, // Use fileName for consistent ID
@@ -117,26 +249,97 @@ export class DeployProfileCommand implements ICommand {
 				environment: environment,
 				status: 'in-progress',
 				startTime: startTime.toISOString(),
+				batchId: options.batch?.id,
+				batchName: options.batch?.name,
+				profileTarget: getProfileTarget(profile),
+				git,
+				user,
+				type: 'deploy',
+				...options.record,
 			},
 			profile.path
 		);
+		const prepared: PreparedDeployment = { historyId, startTime };
 
 		// Refresh views to show in-progress
 		this.onRefresh();
+		this.notifyWebhooks(historyId);
 
-		// 3. Start real deployment process
+		// Optional build-and-test gate before publishing (nothing is built for a custom run)
+		if (!projectPath || options.run || !this.preDeployGate.isEnabled()) {
+			return prepared;
+		}
+
+		let status: DeploymentStatus;
 		try {
-			let deploymentResult: any;
+			const gate = await this.runPreDeployGate(profile, projectPath, options);
+			await this.historyManager.updateDeployment(
+				historyId,
+				{ preDeployGate: gate },
+				profile.path
+			);
 
-			await vscode.window.withProgress(
+			if (gate.status === 'failed') {
+				throw new Error(`Pre-deployment gate failed: ${gate.summary}`);
+			}
+			if (gate.status !== 'cancelled') {
+				return prepared;
+			}
+
+			const endTime = new Date();
+			await this.historyManager.updateDeployment(
+				historyId,
 				{
-					location: vscode.ProgressLocation.Notification,
-					title: `Deploying ${profile.name}...`,
-					cancellable: false,
+					status: 'cancelled',
+					endTime: endTime.toISOString(),
+					duration: endTime.getTime() - startTime.getTime(),
 				},
-				async (progress) => {
+				profile.path
+			);
+			if (!options.quiet) {
+				vscode.window.showWarningMessage(`⏹️ ${action} of ${profile.name} was cancelled`);
+			}
+			status = 'cancelled';
+		} catch (error: any) {
+			status = await this.recordFailure(
+				error,
+				prepared,
+				profile,
+				projectName,
+				projectPath,
+				options
+			);
+		}
+
+		this.onRefresh();
+		this.notifyWebhooks(historyId);
+		return status;
+	}
+
+	/**
+	 * Publish a prepared deployment and record the outcome
+	 */
+	async publishPrepared(
+		prepared: PreparedDeployment,
+		profile: PublishProfileInfo,
+		projectName: string,
+		projectPath: string | undefined,
+		options: DeploymentRunOptions = {}
+	): Promise<DeploymentStatus> {
+		const { historyId, startTime } = prepared;
+		const environment = profile.environment.toUpperCase();
+		const isRollback = options.record?.type === 'rollback';
+		const action = isRollback ? 'Rollback' : 'Deployment';
+
+		// 3. Start real deployment process
+		let deploymentResult: DeploymentResult | undefined;
+		try {
+			await this.withDeployProgress(
+				`${isRollback ? 'Rolling back' : 'Deploying'} ${profile.name}...`,
+				options,
+				async (report, token) => {
 					this.outputChannel.appendLine(
-						`[Deploy] Starting deployment for ${profile.name} (${environment})`
+						`[Deploy] Starting ${action.toLowerCase()} for ${profile.name} (${environment})`
 					);
 					this.outputChannel.appendLine(`[Deploy] Project: ${projectName}`);
 					this.outputChannel.appendLine(`[Deploy] Profile Path: ${profile.path}`);
@@ -153,34 +356,190 @@ export class DeployProfileCommand implements ICommand {
 					this.outputChannel.show();
 
 					// Execute real deployment
-					deploymentResult = await this.deploymentService.deploy(
-						projectPath,
-						projectName,
-						profile,
-						(message, increment) => {
-							progress.report({ message, increment });
-						}
-					);
+					deploymentResult = options.run
+						? await options.run(report, token)
+						: await this.deploymentService.deploy(
+								projectPath,
+								projectName,
+								profile,
+								report,
+								token
+							);
 				}
 			);
 
+			// Keep the full dotnet publish output with the history record
+			if (deploymentResult?.output) {
+				await this.historyManager.saveDeploymentLog(
+					historyId,
+					deploymentResult.output,
+					profile.path
+				);
+			}
+
+			// Attach structured diagnostics (capped to keep the history file small)
+			if (deploymentResult?.diagnostics?.length) {
+				await this.historyManager.updateDeployment(
+					historyId,
+					{ diagnostics: deploymentResult.diagnostics.slice(0, 50) },
+					profile.path
+				);
+			}
+
+			// Record how many attempts it took when the profile retried
+			if (deploymentResult?.attempts && deploymentResult.attempts > 1) {
+				await this.historyManager.updateDeployment(
+					historyId,
+					{ attempts: deploymentResult.attempts },
+					profile.path
+				);
+			}
+
+			// Aborted by the user - record distinctly from failures
+			if (deploymentResult?.cancelled) {
+				const endTime = new Date();
+				await this.historyManager.updateDeployment(
+					historyId,
+					{
+						status: 'cancelled',
+						endTime: endTime.toISOString(),
+						duration: endTime.getTime() - startTime.getTime(),
+						// Kudu keeps deploying after we stop waiting
+						kuduDeploymentId: deploymentResult.kuduDeploymentId,
+						remoteSteps: deploymentResult.remoteSteps,
+					},
+					profile.path
+				);
+
+				if (!options.quiet) {
+					vscode.window.showWarningMessage(
+						`⏹️ ${action} of ${profile.name} was cancelled`
+					);
+				}
+				this.outputChannel.appendLine(`[Deploy] ${action} cancelled: ${profile.name}`);
+				return 'cancelled';
+			}
+
 			// Check deployment result
-			if (!deploymentResult.success) {
-				throw new Error(deploymentResult.errorMessage || 'Deployment failed');
+			if (!deploymentResult?.success) {
+				throw new Error(deploymentResult?.errorMessage || `${action} failed`);
 			}
 
-			// 4. Update history with success
+			// Post-deployment health checks decide whether the deployment counts as a success
+			let healthCheck: HealthCheckOutcome | undefined;
+			if (profile.healthCheck) {
+				const settings = profile.healthCheck;
+				healthCheck = await this.withDeployProgress(
+					`Health checks for ${profile.name}...`,
+					options,
+					(report, token) =>
+						this.healthCheckService.run(
+							settings,
+							profile.siteUrl,
+							(message) => report(message, 0),
+							token
+						)
+				);
+				this.outputChannel.appendLine(
+					`[Deploy] Health checks ${healthCheck.status}: ${healthCheck.summary}`
+				);
+			}
+			// Cancelled checks verified nothing: the deployment is not reported as a success
+			const status: DeploymentStatus =
+				healthCheck?.status === 'unhealthy'
+					? 'unhealthy'
+					: healthCheck?.status === 'cancelled'
+						? 'cancelled'
+						: 'success';
+
+			// 4. Update history with the result
 			const endTime = new Date();
 			await this.historyManager.updateDeployment(
 				historyId,
 				{
-					status: 'success',
+					status,
 					endTime: endTime.toISOString(),
 					duration: endTime.getTime() - startTime.getTime(),
+					artifact: deploymentResult.artifact,
+					kuduDeploymentId: deploymentResult.kuduDeploymentId,
+					remoteSteps: deploymentResult.remoteSteps,
+					image: deploymentResult.image,
+					healthCheck,
 				},
 				profile.path
 			);
 
+			// Keep the deployed build so the History view can roll back to it
+			// (only builds whose health checks passed, or that have none, are rolled back to)
+			if (deploymentResult.rollbackPackage) {
+				if (status === 'success') {
+					await this.historyManager.retainPackage(
+						historyId,
+						deploymentResult.rollbackPackage,
+						this.configService.getRollbackPackageCount(),
+						profile.path
+					);
+				} else {
+					await fs.promises.rm(deploymentResult.rollbackPackage, { force: true });
+				}
+			}
+
+			// Batch runs report a single summary instead
+			if (options.quiet) {
+				return status;
+			}
+
+			if (status === 'cancelled') {
+				vscode.window.showWarningMessage(
+					`⏹️ ${profile.name} ${isRollback ? 'rolled back' : 'deployed'}, but its health checks were cancelled`
+				);
+				return 'cancelled';
+			}
+
+			if (status === 'unhealthy') {
+				// Not awaited: the notification stays open until dismissed
+				void this.showUnhealthyNotification(
+					profile,
+					projectName,
+					historyId,
+					healthCheck!,
+					isRollback
+				);
+				return 'unhealthy';
+			}
+
+			const image = deploymentResult.image;
+			if (image) {
+				this.outputChannel.appendLine(
+					`[Deploy] Image: ${image.repository}:${image.tags.join(', ')}` +
+						(image.digest ? ` (${image.digest})` : '')
+				);
+			}
+
+			// Zip artifact profiles have no site to open - point at the package instead
+			const artifact = deploymentResult.artifact;
+			if (artifact) {
+				this.outputChannel.appendLine(
+					`[Deploy] Artifact: ${artifact.path} (sha256 ${artifact.sha256})`
+				);
+				void vscode.window
+					.showInformationMessage(
+						`✅ ${profile.name} packaged: ${path.basename(artifact.path)}`,
+						'Reveal Artifact'
+					)
+					.then((choice) => {
+						if (choice === 'Reveal Artifact') {
+							void vscode.commands.executeCommand(
+								'revealFileInOS',
+								vscode.Uri.file(artifact.path)
+							);
+						}
+					});
+				return 'success';
+			}
+
+			const done = isRollback ? 'rolled back' : 'deployed';
+
 			// 5. Open browser if enabled and URL is available
 			const config = vscode.workspace.getConfiguration('dotnetToolkit');
 			const globalOpenBrowser = config.get<boolean>('openBrowserOnDeploy', true);
@@ -191,13 +550,13 @@ export class DeployProfileCommand implements ICommand {
 				try {
 					await vscode.env.openExternal(vscode.Uri.parse(profile.siteUrl));
 					vscode.window.showInformationMessage(
-						`✅ ${profile.name} deployed. Opened ${profile.siteUrl}`
+						`✅ ${profile.name} ${done}. Opened ${profile.siteUrl}`
 					);
 					this.outputChannel.appendLine(`[Browser] Opened: ${profile.siteUrl}`);
 				} catch (err) {
 					this.outputChannel.appendLine(`[Browser] Failed to open: ${err}`);
 					vscode.window.showInformationMessage(
-						`✅ ${profile.name} deployed successfully!`
+						`✅ ${profile.name} ${done} successfully!`
 					);
 				}
 			} else {
@@ -206,26 +565,324 @@ export class DeployProfileCommand implements ICommand {
 						`[Browser] No site URL configured for this profile`
 					);
 				}
-				vscode.window.showInformationMessage(`✅ ${profile.name} deployed successfully!`);
+				vscode.window.showInformationMessage(`✅ ${profile.name} ${done} successfully!`);
 			}
+			return 'success';
 		} catch (error: any) {
-			// 5. Update history with failure
-			const endTime = new Date();
-			await this.historyManager.updateDeployment(
-				historyId,
-				{
-					status: 'failed',
-					endTime: endTime.toISOString(),
-					duration: endTime.getTime() - startTime.getTime(),
-					errorMessage: error.message || 'Unknown error occurred during deployment',
-				},
-				profile.path
+			return this.recordFailure(
+				error,
+				prepared,
+				profile,
+				projectName,
+				projectPath,
+				options,
+				deploymentResult
 			);
-
-			vscode.window.showErrorMessage(`❌ Deployment failed: ${error.message}`);
-			this.outputChannel.appendLine(`[Error] Deployment failed: ${error.message}`);
 		} finally {
 			this.onRefresh();
+			this.notifyWebhooks(historyId);
+		}
+	}
+
+	/**
+	 * Record a failed deployment in history and tell the user
+	 */
+	private async recordFailure(
+		error: any,
+		prepared: PreparedDeployment,
+		profile: PublishProfileInfo,
+		projectName: string,
+		projectPath: string | undefined,
+		options: DeploymentRunOptions,
+		deploymentResult?: DeploymentResult
+	): Promise<DeploymentStatus> {
+		const action = options.record?.type === 'rollback' ? 'Rollback' : 'Deployment';
+
+		// 5. Known error knowledge base match (consulted by the deployment service)
+		const knownError = deploymentResult?.knownError;
+
+		// 6. Update history with failure
+		const endTime = new Date();
+		await this.historyManager.updateDeployment(
+			prepared.historyId,
+			{
+				status: 'failed',
+				endTime: endTime.toISOString(),
+				duration: endTime.getTime() - prepared.startTime.getTime(),
+				errorMessage:
+					error.message || `Unknown error occurred during ${action.toLowerCase()}`,
+				knownError,
+				kuduDeploymentId: deploymentResult?.kuduDeploymentId,
+				remoteSteps: deploymentResult?.remoteSteps,
+			},
+			profile.path
+		);
+
+		this.outputChannel.appendLine(`[Error] ${action} failed: ${error.message}`);
+		if (knownError) {
+			this.outputChannel.appendLine(`[Hint] ${knownError.title}: ${knownError.explanation}`);
+		}
+
+		if (options.quiet) {
+			// Leave the notification to the batch summary
+		} else if (knownError) {
+			// Not awaited: the notification stays open until dismissed
+			void this.showKnownErrorNotification(knownError, profile, projectName, projectPath);
+		} else {
+			vscode.window.showErrorMessage(`❌ ${action} failed: ${error.message}`);
+		}
+		return 'failed';
+	}
+
+	/**
+	 * Tell the chat webhooks where a deployment stands (in-progress is its start)
+	 */
+	private notifyWebhooks(historyId: string): void {
+		const record = this.historyManager.getAllHistory().find((r) => r.id === historyId);
+		if (!record) {
+			return;
+		}
+
+		const event: WebhookEvent =
+			record.status === 'in-progress'
+				? 'start'
+				: record.status === 'success'
+					? 'success'
+					: record.status === 'cancelled'
+						? 'cancelled'
+						: 'failure';
+		// Not awaited: a slow webhook must not hold up the deployment
+		void this.webhookService.notify(event, record);
+	}
+
+	/**
+	 * Report failed health checks and offer to roll back to the previous successful deployment
+	 */
+	private async showUnhealthyNotification(
+		profile: PublishProfileInfo,
+		projectName: string,
+		historyId: string,
+		healthCheck: HealthCheckOutcome,
+		isRollback: boolean
+	): Promise<void> {
+		const previous = isRollback
+			? undefined
+			: this.historyManager
+					.getAllHistory()
+					.find(
+						(r) =>
+							r.id !== historyId &&
+							r.status === 'success' &&
+							r.type !== 'rollback' &&
+							r.projectName === projectName &&
+							r.profileName === profile.fileName
+					);
+
+		const actions = previous ? ['Roll Back', 'Show Output'] : ['Show Output'];
+		const choice = await vscode.window.showWarningMessage(
+			`⚠️ ${profile.name} ${isRollback ? 'rolled back' : 'deployed'}, but health checks failed: ${healthCheck.summary}`,
+			...actions
+		);
+
+		if (choice === 'Roll Back') {
+			await vscode.commands.executeCommand('dotnet-project-toolkit.rollbackDeployment', {
+				record: previous,
+			});
+		} else if (choice === 'Show Output') {
+			this.outputChannel.show();
+		}
+	}
+
+	/**
+	 * Apply .dotnet-toolkit/policies.json: violations block the deployment outright,
+	 * and the environment may require the profile name to be typed out (unless confirmed)
+	 */
+	private async checkPolicies(
+		profile: PublishProfileInfo,
+		projectName: string,
+		git: GitCommitInfo | undefined,
+		options: DeploymentRunOptions
+	): Promise<boolean> {
+		const evaluation = this.evaluatePolicies(profile, projectName, git);
+		if (!evaluation) {
+			return false;
+		}
+		return (
+			!evaluation.requireTypedConfirmation ||
+			!!options.confirmed ||
+			(await this.confirmTyped(profile))
+		);
+	}
+
+	/**
+	 * Evaluate the workspace policies, reporting any violations
+	 * @returns the evaluation, or undefined when a policy blocks the deployment
+	 */
+	private evaluatePolicies(
+		profile: PublishProfileInfo,
+		projectName: string,
+		git: GitCommitInfo | undefined
+	): PolicyEvaluation | undefined {
+		const evaluation = this.policyService.evaluate(profile, projectName, git);
+		if (evaluation.violations.length > 0) {
+			for (const violation of evaluation.violations) {
+				this.outputChannel.appendLine(
+					`[Policy] ${profile.name} blocked (${violation.rule}): ${violation.message}`
+				);
+			}
+			// Not awaited: batch runs carry on with their other profiles
+			void vscode.window.showErrorMessage(
+				`⛔ Deployment of ${profile.name} blocked by policy: ${evaluation.violations
+					.map((v) => v.message)
+					.join('; ')}`
+			);
+			return undefined;
+		}
+		return evaluation;
+	}
+
+	/**
+	 * Ask the user to type the profile name, as a policy requires
+	 */
+	private async confirmTyped(profile: PublishProfileInfo): Promise<boolean> {
+		const typed = await vscode.window.showInputBox({
+			prompt: `Type "${profile.fileName}" to deploy to ${profile.environment.toUpperCase()}`,
+			ignoreFocusOut: true,
+			validateInput: (v) =>
+				v === profile.fileName ? null : `Enter ${profile.fileName} to confirm`,
+		});
+		if (typed !== profile.fileName) {
+			this.outputChannel.appendLine(
+				`[Policy] ${profile.name} not confirmed, deployment stopped`
+			);
+			return false;
+		}
+		return true;
+	}
+
+	/**
+	 * Ask before deploying uncommitted changes or a non-release branch to production
+	 */
+	private async confirmProductionSource(
+		profile: PublishProfileInfo,
+		git: GitCommitInfo
+	): Promise<boolean> {
+		const warnings: string[] = [];
+		if (git.dirty) {
+			warnings.push('The working tree has uncommitted changes.');
+		}
+
+		const releaseBranches = this.configService.getReleaseBranches();
+		const isReleaseBranch =
+			!!git.branch &&
+			releaseBranches.some((pattern) => BuildInfo.matchesBranchPattern(git.branch!, pattern));
+		if (releaseBranches.length > 0 && !isReleaseBranch) {
+			warnings.push(
+				`${git.branch ? `Branch ${git.branch}` : 'A detached HEAD'} is not a release branch (${releaseBranches.join(', ')}).`
+			);
+		}
+
+		if (warnings.length === 0) {
+			return true;
+		}
+
+		const choice = await vscode.window.showWarningMessage(
+			`⚠️ Deploy ${profile.name} to PRODUCTION from ${git.commit.substring(0, 7)}?`,
+			{ modal: true, detail: warnings.join('\n') },
+			'Deploy Anyway'
+		);
+		return choice === 'Deploy Anyway';
+	}
+
+	/**
+	 * Build and test before publishing
+	 * A failing gate may only be overridden for non-production profiles
+	 */
+	private async runPreDeployGate(
+		profile: PublishProfileInfo,
+		projectPath: string,
+		options: DeploymentRunOptions
+	): Promise<PreDeployGateOutcome> {
+		const gate = await this.withDeployProgress(
+			`Pre-deployment checks for ${profile.name}...`,
+			options,
+			(report, token) => {
+				this.outputChannel.show();
+				return this.preDeployGate.run(projectPath, (message) => report(message, 0), token);
+			}
+		);
+
+		this.outputChannel.appendLine(
+			`[Deploy] Pre-deployment gate ${gate.status}: ${gate.summary}`
+		);
+		if (gate.status !== 'failed' || profile.environment === DeployEnvironment.Production) {
+			return gate;
+		}
+
+		const choice = await vscode.window.showWarningMessage(
+			`Pre-deployment checks failed: ${gate.summary}. Deploy ${profile.name} anyway?`,
+			{ modal: true },
+			'Deploy Anyway'
+		);
+
+		if (choice === 'Deploy Anyway') {
+			this.outputChannel.appendLine('[Deploy] Pre-deployment gate overridden by user');
+			return { ...gate, status: 'overridden' };
+		}
+		return gate;
+	}
+
+	/**
+	 * Run a task in its own cancellable notification, or inside the caller's progress
+	 */
+	private withDeployProgress<T>(
+		title: string,
+		options: DeploymentRunOptions,
+		task: (
+			report: (message: string, increment: number) => void,
+			token?: vscode.CancellationToken
+		) => Promise<T>
+	): Promise<T> {
+		if (options.progress) {
+			const prefix = options.progressPrefix ?? '';
+			return task((message) => options.progress!(`${prefix}${message}`), options.token);
+		}
+
+		return Promise.resolve(
+			vscode.window.withProgress(
+				{
+					location: vscode.ProgressLocation.Notification,
+					title,
+					cancellable: true,
+				},
+				(progress, token) =>
+					task((message, increment) => progress.report({ message, increment }), token)
+			)
+		);
+	}
+
+	/**
+	 * Failure notification with the explanation and remediation buttons
+	 */
+	private async showKnownErrorNotification(
+		knownError: KnownErrorMatch,
+		profile: PublishProfileInfo,
+		projectName: string,
+		projectPath: string | undefined
+	): Promise<void> {
+		const choice = await vscode.window.showErrorMessage(
+			`❌ Deployment failed: ${knownError.title}. ${knownError.explanation}`,
+			...knownError.actions.map((a) => a.label)
+		);
+
+		const action = knownError.actions.find((a) => a.label === choice);
+		if (action) {
+			await vscode.commands.executeCommand('dotnet-project-toolkit.applyRemediation', {
+				action,
+				profileInfo: profile,
+				projectName,
+				csprojPath: projectPath,
+			});
 		}
 	}
 }
@@ -0,0 +1,136 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import { BaseCommand } from './ICommand';
+import { HistoryManager } from '../services/HistoryManager';
+import { HistoryViewStateService } from '../services/HistoryViewStateService';
+import { HistoryExportFormat, IHistoryExportService } from '../services/HistoryExportService';
+import { IConfigurationService } from '../services/IConfigurationService';
+import { DeploymentRecord } from '../models/DeploymentRecord';
+import { HistoryFilterHelper } from '../models/HistoryViewModels';
+
+type ExportScope = 'filtered' | 'all' | 'archived';
+
+const FORMATS: { format: HistoryExportFormat; label: string; extension: string; name: string }[] = [
+	{ format: 'csv', label: '$(table) CSV', extension: 'csv', name: 'CSV' },
+	{ format: 'json', label: '$(json) JSON', extension: 'json', name: 'JSON' },
+	{
+		format: 'markdown',
+		label: '$(markdown) Markdown report',
+		extension: 'md',
+		name: 'Markdown',
+	},
+];
+
+/**
+ * Export History Command
+ * Writes the deployment history (the History view filter applied, or everything
+ * including archived records) to CSV, JSON or a Markdown report for audits
+ */
+export class ExportHistoryCommand extends BaseCommand {
+	readonly id = 'dotnet-project-toolkit.exportHistory';
+
+	constructor(
+		outputChannel: vscode.OutputChannel,
+		private readonly historyManager: HistoryManager,
+		private readonly viewState: HistoryViewStateService,
+		private readonly exportService: IHistoryExportService,
+		private readonly configService: IConfigurationService
+	) {
+		super(outputChannel);
+	}
+
+	async execute(): Promise<void> {
+		const history = this.historyManager.getAllHistory();
+		const filter = this.viewState.getFilter();
+		const filterActive = HistoryFilterHelper.isActive(filter);
+		const filtered = HistoryFilterHelper.apply(history, filter);
+
+		const scopes: (vscode.QuickPickItem & { scope: ExportScope })[] = [
+			{
+				label: `$(history) All history (${history.length})`,
+				scope: 'all',
+			},
+			{
+				label: '$(archive) All history including archived records',
+				scope: 'archived',
+			},
+		];
+		if (filterActive) {
+			scopes.unshift({
+				label: `$(filter) Current filter (${filtered.length})`,
+				description: HistoryFilterHelper.describe(filter),
+				scope: 'filtered',
+			});
+		}
+		const scopePick = await vscode.window.showQuickPick(scopes, {
+			placeHolder: 'Deployment records to export',
+		});
+		if (!scopePick) {
+			return;
+		}
+
+		const formatPick = await vscode.window.showQuickPick(FORMATS, {
+			placeHolder: 'Export format',
+		});
+		if (!formatPick) {
+			return;
+		}
+
+		const records = await this.getRecords(scopePick.scope, history, filtered);
+		const exportedAt = new Date();
+		const defaultName = `deployment-history-${HistoryFilterHelper.toDateKey(exportedAt.toISOString())}.${formatPick.extension}`;
+		const root = this.configService.getWorkspaceRoot();
+		const target = await vscode.window.showSaveDialog({
+			defaultUri: root ? vscode.Uri.file(path.join(root, defaultName)) : undefined,
+			filters: { [formatPick.name]: [formatPick.extension] },
+			saveLabel: 'Export',
+		});
+		if (!target) {
+			return;
+		}
+
+		const content = this.exportService.render(records, formatPick.format, {
+			exportedAt,
+			filterDescription:
+				scopePick.scope === 'filtered' ? HistoryFilterHelper.describe(filter) : undefined,
+		});
+		try {
+			await fs.promises.writeFile(target.fsPath, content, 'utf-8');
+		} catch (error: any) {
+			vscode.window.showErrorMessage(`Failed to export history: ${error.message}`);
+			return;
+		}
+
+		this.log(`Exported ${records.length} records as ${formatPick.format} to ${target.fsPath}`);
+		const choice = await vscode.window.showInformationMessage(
+			`Exported ${records.length} deployment record${records.length === 1 ? '' : 's'} to ${path.basename(target.fsPath)}`,
+			'Open'
+		);
+		if (choice === 'Open') {
+			await vscode.window.showTextDocument(target);
+		}
+	}
+
+	private async getRecords(
+		scope: ExportScope,
+		history: DeploymentRecord[],
+		filtered: DeploymentRecord[]
+	): Promise<DeploymentRecord[]> {
+		switch (scope) {
+			case 'filtered':
+				return filtered;
+			case 'all':
+				return history;
+			case 'archived': {
+				const ids = new Set(history.map((r) => r.id));
+				const archived = (await this.historyManager.getArchivedHistory()).filter(
+					(r) => !ids.has(r.id)
+				);
+				return [...history, ...archived].sort(
+					(a, b) => new Date(b.startTime).getTime() - new Date(a.startTime).getTime()
+				);
+			}
+		}
+	}
+}
@@ -0,0 +1,239 @@
+import * as vscode from 'vscode';
+import { BaseCommand } from './ICommand';
+import { HistoryManager } from '../services/HistoryManager';
+import { HistoryViewStateService } from '../services/HistoryViewStateService';
+import { DeploymentStatus } from '../models/DeploymentRecord';
+import { HistoryFilter, HistoryFilterHelper } from '../models/HistoryViewModels';
+
+type FilterField =
+	| 'project'
+	| 'profile'
+	| 'environment'
+	| 'statuses'
+	| 'user'
+	| 'dates'
+	| 'text'
+	| 'clear';
+
+const STATUSES: DeploymentStatus[] = ['success', 'unhealthy', 'failed', 'cancelled', 'in-progress'];
+
+/**
+ * Filter History Command
+ * Edits the History view filter one field at a time; every change applies right away
+ * and the menu comes back until it is dismissed
+ */
+export class FilterHistoryCommand extends BaseCommand {
+	readonly id = 'dotnet-project-toolkit.filterHistory';
+
+	constructor(
+		outputChannel: vscode.OutputChannel,
+		private readonly onRefresh: () => void,
+		private readonly historyManager: HistoryManager,
+		private readonly viewState: HistoryViewStateService
+	) {
+		super(outputChannel);
+	}
+
+	async execute(): Promise<void> {
+		for (;;) {
+			const filter = this.viewState.getFilter();
+			const field = await this.pickField(filter);
+			if (!field) {
+				return;
+			}
+
+			const updated = await this.editField(field, filter);
+			if (!updated) {
+				continue;
+			}
+
+			await this.viewState.setFilter(updated);
+			this.log(
+				HistoryFilterHelper.isActive(updated)
+					? `Filter: ${HistoryFilterHelper.describe(updated)}`
+					: 'Filter cleared'
+			);
+			this.onRefresh();
+			if (field === 'clear') {
+				return;
+			}
+		}
+	}
+
+	private async pickField(filter: HistoryFilter): Promise<FilterField | undefined> {
+		const any = 'any';
+		const dates =
+			filter.from || filter.until ? `${filter.from ?? '…'} to ${filter.until ?? '…'}` : any;
+		const items: (vscode.QuickPickItem & { field?: FilterField })[] = [
+			{ label: '$(project) Project', description: filter.project ?? any, field: 'project' },
+			{ label: '$(file-code) Profile', description: filter.profile ?? any, field: 'profile' },
+			{
+				label: '$(server-environment) Environment',
+				description: filter.environment?.toUpperCase() ?? any,
+				field: 'environment',
+			},
+			{
+				label: '$(pass) Status',
+				description: filter.statuses?.join(', ') || any,
+				field: 'statuses',
+			},
+			{ label: '$(person) Deployed by', description: filter.user ?? any, field: 'user' },
+			{ label: '$(calendar) Date range', description: dates, field: 'dates' },
+			{
+				label: '$(search) Error text',
+				description: filter.text ? `"${filter.text}"` : any,
+				field: 'text',
+			},
+		];
+		if (HistoryFilterHelper.isActive(filter)) {
+			items.push(
+				{ label: '', kind: vscode.QuickPickItemKind.Separator },
+				{ label: '$(clear-all) Clear all filters', field: 'clear' }
+			);
+		}
+
+		const pick = await vscode.window.showQuickPick(items, {
+			placeHolder: 'Filter deployment history (Escape when done)',
+		});
+		return pick?.field;
+	}
+
+	/**
+	 * @returns the new filter, undefined when the edit was dismissed
+	 */
+	private async editField(
+		field: FilterField,
+		filter: HistoryFilter
+	): Promise<HistoryFilter | undefined> {
+		const history = this.historyManager.getAllHistory();
+
+		switch (field) {
+			case 'project': {
+				const value = await this.pickValue(
+					'Project',
+					history.map((r) => r.projectName),
+					filter.project
+				);
+				if (value === undefined) {
+					return undefined;
+				}
+				// A profile of another project would hide everything
+				const profileKept =
+					!value ||
+					history.some(
+						(r) => r.projectName === value && r.profileName === filter.profile
+					);
+				return {
+					...filter,
+					project: value || undefined,
+					profile: profileKept ? filter.profile : undefined,
+				};
+			}
+			case 'profile': {
+				const value = await this.pickValue(
+					'Profile',
+					history
+						.filter((r) => !filter.project || r.projectName === filter.project)
+						.map((r) => r.profileName),
+					filter.profile
+				);
+				return value === undefined ? undefined : { ...filter, profile: value || undefined };
+			}
+			case 'environment': {
+				const value = await this.pickValue(
+					'Environment',
+					history.map((r) => r.environment.toUpperCase()),
+					filter.environment?.toUpperCase()
+				);
+				return value === undefined
+					? undefined
+					: { ...filter, environment: value || undefined };
+			}
+			case 'user': {
+				const value = await this.pickValue(
+					'Deployed by',
+					history.map((r) => r.user ?? ''),
+					filter.user
+				);
+				return value === undefined ? undefined : { ...filter, user: value || undefined };
+			}
+			case 'statuses': {
+				const picks = await vscode.window.showQuickPick(
+					STATUSES.map((status) => ({
+						label: status,
+						picked: filter.statuses?.includes(status) ?? false,
+					})),
+					{ placeHolder: 'Show deployments with status (none = any)', canPickMany: true }
+				);
+				if (!picks) {
+					return undefined;
+				}
+				const statuses = picks.map((p) => p.label as DeploymentStatus);
+				return { ...filter, statuses: statuses.length ? statuses : undefined };
+			}
+			case 'dates': {
+				const from = await this.inputDate('From date (empty = no start)', filter.from);
+				if (from === undefined) {
+					return undefined;
+				}
+				const until = await this.inputDate('Until date (empty = no end)', filter.until);
+				if (until === undefined) {
+					return undefined;
+				}
+				return { ...filter, from: from || undefined, until: until || undefined };
+			}
+			case 'text': {
+				const text = await vscode.window.showInputBox({
+					prompt: 'Search error messages and health check results (empty = no search)',
+					value: filter.text ?? '',
+				});
+				if (text === undefined) {
+					return undefined;
+				}
+				return { ...filter, text: text.trim() || undefined };
+			}
+			case 'clear':
+				return {};
+		}
+	}
+
+	/**
+	 * Pick one of the values present in the history
+	 * @returns the value, '' for "any", undefined when dismissed
+	 */
+	private async pickValue(
+		name: string,
+		values: string[],
+		current: string | undefined
+	): Promise<string | undefined> {
+		const distinct = [...new Set(values.filter((v) => !!v))].sort((a, b) => a.localeCompare(b));
+		const pick = await vscode.window.showQuickPick(
+			[
+				{ label: '$(close) Any', value: '' },
+				...distinct.map((value) => ({
+					label: value,
+					description: value === current ? 'current' : undefined,
+					value,
+				})),
+			],
+			{ placeHolder: `${name} to show` }
+		);
+		return pick?.value;
+	}
+
+	/**
+	 * @returns YYYY-MM-DD, '' when cleared, undefined when dismissed
+	 */
+	private async inputDate(prompt: string, current: string | undefined) {
+		const value = await vscode.window.showInputBox({
+			prompt,
+			placeHolder: 'YYYY-MM-DD',
+			value: current ?? '',
+			validateInput: (input) =>
+				!input.trim() || HistoryFilterHelper.parseDate(input)
+					? null
+					: 'Enter a date as YYYY-MM-DD',
+		});
+		return value?.trim();
+	}
+}
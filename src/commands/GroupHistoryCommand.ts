@@ -0,0 +1,46 @@
+import * as vscode from 'vscode';
+import { BaseCommand } from './ICommand';
+import { HistoryViewStateService } from '../services/HistoryViewStateService';
+import { HistoryGroupMode } from '../models/HistoryViewModels';
+
+const GROUP_MODES: { mode: HistoryGroupMode; label: string }[] = [
+	{ mode: 'project', label: '$(package) By project' },
+	{ mode: 'environment', label: '$(server-environment) By environment' },
+	{ mode: 'profile', label: '$(file-code) By profile' },
+	{ mode: 'day', label: '$(calendar) By day' },
+	{ mode: 'flat', label: '$(list-flat) Flat (newest first)' },
+];
+
+/**
+ * Group History Command
+ * Switches how the History view groups deployments
+ */
+export class GroupHistoryCommand extends BaseCommand {
+	readonly id = 'dotnet-project-toolkit.groupHistory';
+
+	constructor(
+		outputChannel: vscode.OutputChannel,
+		private readonly onRefresh: () => void,
+		private readonly viewState: HistoryViewStateService
+	) {
+		super(outputChannel);
+	}
+
+	async execute(): Promise<void> {
+		const current = this.viewState.getGroupMode();
+		const pick = await vscode.window.showQuickPick(
+			GROUP_MODES.map((m) => ({
+				...m,
+				description: m.mode === current ? 'current' : undefined,
+			})),
+			{ placeHolder: 'Group deployment history' }
+		);
+		if (!pick || pick.mode === current) {
+			return;
+		}
+
+		await this.viewState.setGroupMode(pick.mode);
+		this.log(`Grouping by ${pick.mode}`);
+		this.onRefresh();
+	}
+}
@@ -0,0 +1,123 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import { BaseCommand } from './ICommand';
+import { ProjectInfo } from '../models/ProjectModels';
+import { IProfileService } from '../services/ProfileService';
+import { IEnvironmentDetector } from '../detectors/EnvironmentDetector';
+import { IPublishSettingsParser, PublishSettingsProfile } from '../parsers/PublishSettingsParser';
+
+/**
+ * Import Publish Settings Command
+ * Creates an App Service (Kudu zip deploy) profile from a .PublishSettings file
+ * downloaded from the Azure portal; the password goes to secure storage
+ */
+export class ImportPublishSettingsCommand extends BaseCommand {
+	readonly id = 'dotnet-project-toolkit.importPublishSettings';
+
+	constructor(
+		outputChannel: vscode.OutputChannel,
+		private readonly profileService: IProfileService,
+		private readonly publishSettingsParser: IPublishSettingsParser,
+		private readonly environmentDetector: IEnvironmentDetector,
+		private readonly onRefresh: () => void
+	) {
+		super(outputChannel);
+	}
+
+	async execute(item?: unknown): Promise<void> {
+		const projectInfo = (item as { projectInfo?: ProjectInfo })?.projectInfo;
+		if (!projectInfo) {
+			vscode.window.showErrorMessage('No project information available');
+			return;
+		}
+
+		// 1. Pick the file
+		const files = await vscode.window.showOpenDialog({
+			canSelectMany: false,
+			openLabel: 'Import',
+			filters: { 'Publish Settings': ['PublishSettings', 'publishsettings'] },
+		});
+		if (!files || files.length === 0) {
+			return;
+		}
+
+		// 2. Pick one of its profiles (zip deploy and Web Deploy entries share the Kudu credentials)
+		let settings: PublishSettingsProfile[];
+		try {
+			settings = this.publishSettingsParser
+				.parse(await fs.promises.readFile(files[0].fsPath, 'utf-8'))
+				.filter((p) => /^(zipdeploy|msdeploy)$/i.test(p.publishMethod));
+		} catch (error: any) {
+			vscode.window.showErrorMessage(`Failed to read publish settings: ${error.message}`);
+			return;
+		}
+		if (settings.length === 0) {
+			vscode.window.showErrorMessage(
+				'No zip deploy or Web Deploy profiles found in the publish settings file'
+			);
+			return;
+		}
+
+		const selected =
+			settings.length === 1
+				? settings[0]
+				: (
+						await vscode.window.showQuickPick(
+							settings.map((s) => ({
+								label: s.profileName,
+								description: `${s.publishMethod} · ${s.publishUrl}`,
+								settings: s,
+							})),
+							{ placeHolder: 'Select the publish profile to import' }
+						)
+					)?.settings;
+		if (!selected) {
+			return;
+		}
+
+		// 3. Name the new profile
+		const defaultName = (selected.siteName || 'app-service').replace(/[^a-zA-Z0-9-_]/g, '-');
+		const profileName = await vscode.window.showInputBox({
+			prompt: 'Enter profile name (e.g., staging-api, production-web)',
+			value: defaultName,
+			validateInput: (v) => {
+				if (!v?.trim()) {
+					return 'Required';
+				}
+				if (!/^[a-zA-Z0-9-_]+$/.test(v)) {
+					return 'Only letters, numbers, hyphens, underscores';
+				}
+				return null;
+			},
+		});
+		if (!profileName) {
+			return;
+		}
+
+		// 4. Create the profile (Kudu lives on the same SCM host for both entry kinds)
+		const pubxmlPath = await this.profileService.create(projectInfo, {
+			profileName,
+			environment: this.environmentDetector.detectFromFileName(profileName),
+			publishUrl: selected.publishUrl,
+			siteName: selected.siteName || '',
+			siteUrl: selected.destinationAppUrl,
+			username: selected.userName,
+			password: selected.password,
+			publishMethod: 'ZipDeploy',
+			kuduAuthType: 'basic',
+		});
+
+		if (!pubxmlPath) {
+			vscode.window.showErrorMessage(
+				`Failed to create profile "${profileName}". It may already exist.`
+			);
+			return;
+		}
+
+		this.log(`Imported ${selected.profileName} into ${pubxmlPath}`);
+		this.onRefresh();
+		vscode.window.showInformationMessage(
+			`✅ Imported App Service profile "${profileName}" (password stored securely)`
+		);
+	}
+}
@@ -0,0 +1,119 @@
+import * as vscode from 'vscode';
+import { BaseCommand } from './ICommand';
+import {
+	PublishProfileInfo,
+	isAzureWebAppProfile,
+	isContainerPublishMethod,
+	isSshPublishMethod,
+	isZipArtifactPublishMethod,
+} from '../models/ProjectModels';
+import { IDeployPreviewService } from '../services/DeployPreviewService';
+import { DeployPreviewTreeProvider } from '../ui/preview/DeployPreviewTreeProvider';
+
+/**
+ * Preview Deploy Command
+ * Dry run of a publish profile: lists the files the deployment would add, update or delete
+ */
+export class PreviewDeployCommand extends BaseCommand {
+	readonly id = 'dotnet-project-toolkit.previewDeploy';
+
+	constructor(
+		outputChannel: vscode.OutputChannel,
+		private readonly previewService: IDeployPreviewService,
+		private readonly previewProvider: DeployPreviewTreeProvider
+	) {
+		super(outputChannel);
+	}
+
+	async execute(item?: unknown): Promise<void> {
+		const treeItem = item as {
+			profileInfo?: PublishProfileInfo;
+			projectName?: string;
+			projectPath?: string;
+			csprojPath?: string;
+		};
+		const profileInfo = treeItem?.profileInfo;
+		const projectName = treeItem?.projectName || 'Unknown Project';
+		const csprojPath = treeItem?.projectPath || treeItem?.csprojPath;
+
+		if (!profileInfo) {
+			vscode.window.showErrorMessage('No publish profile selected');
+			return;
+		}
+		if (!csprojPath) {
+			vscode.window.showErrorMessage(
+				'Project path not found. Cannot preview without .csproj path.'
+			);
+			return;
+		}
+		if (isZipArtifactPublishMethod(profileInfo.publishMethod)) {
+			vscode.window.showInformationMessage(
+				'Zip artifact profiles create a new package on every run; there is no target to preview.'
+			);
+			return;
+		}
+		if (isContainerPublishMethod(profileInfo.publishMethod)) {
+			vscode.window.showInformationMessage(
+				'Container profiles build a new image on every run; there is no target to preview.'
+			);
+			return;
+		}
+		if (isSshPublishMethod(profileInfo.publishMethod)) {
+			vscode.window.showInformationMessage('Preview is not available for SSH profiles yet.');
+			return;
+		}
+		if (isAzureWebAppProfile(profileInfo)) {
+			vscode.window.showInformationMessage(
+				'Preview is not available for App Service zip deploy profiles: zipdeploy replaces the whole site.'
+			);
+			return;
+		}
+
+		this.log(`Previewing ${profileInfo.name} (${projectName})`);
+		this.outputChannel.show();
+
+		const result = await vscode.window.withProgress(
+			{
+				location: vscode.ProgressLocation.Notification,
+				title: `Previewing deployment of ${profileInfo.name}...`,
+				cancellable: true,
+			},
+			(progress, token) =>
+				this.previewService.preview(
+					csprojPath,
+					projectName,
+					profileInfo,
+					(message) => progress.report({ message }),
+					token
+				)
+		);
+
+		if (result.cancelled) {
+			return;
+		}
+		if (!result.success) {
+			vscode.window.showErrorMessage(`❌ Preview failed: ${result.errorMessage}`);
+			return;
+		}
+
+		const previewed = { profileInfo, projectName, csprojPath };
+		this.previewProvider.setPreview(previewed, result);
+		await vscode.commands.executeCommand('dotnetDeployPreview.focus');
+
+		const count = (kind: string) => result.changes.filter((c) => c.kind === kind).length;
+		const summary = `${count('added')} added, ${count('updated')} updated, ${count('deleted')} deleted`;
+		this.log(`Preview of ${profileInfo.name}: ${summary}`);
+
+		const deleted = count('deleted');
+		const message = deleted
+			? `⚠️ Preview of ${profileInfo.name}: ${summary}. ${deleted} file(s) on the target would be removed.`
+			: `Preview of ${profileInfo.name}: ${summary}`;
+		const choice = await (deleted
+			? vscode.window.showWarningMessage(message, 'Deploy Now')
+			: vscode.window.showInformationMessage(message, 'Deploy Now'));
+
+		if (choice === 'Deploy Now') {
+			await vscode.commands.executeCommand('dotnet-project-toolkit.deployProfile', previewed);
+		}
+	}
+}
@@ -0,0 +1,94 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { BaseCommand } from './ICommand';
+import { DeployProfileCommand } from './DeployProfileCommand';
+import { IHistoryProfileResolver } from '../services/HistoryProfileResolver';
+import { DeploymentRecord, GitCommitInfo } from '../models/DeploymentRecord';
+import { DeployEnvironment } from '../models/ProjectModels';
+import { BuildInfo } from '../utils/BuildInfo';
+
+/**
+ * Redeploy Command
+ * Repeats a deployment from the History view with the same project and profile
+ * The new history record points back at the original through redeployOf
+ */
+export class RedeployCommand extends BaseCommand {
+	readonly id = 'dotnet-project-toolkit.redeployDeployment';
+
+	constructor(
+		outputChannel: vscode.OutputChannel,
+		private readonly profileResolver: IHistoryProfileResolver,
+		private readonly deployCommand: DeployProfileCommand
+	) {
+		super(outputChannel);
+	}
+
+	async execute(item?: unknown): Promise<void> {
+		const record = (item as { record?: DeploymentRecord })?.record;
+		if (!record) {
+			vscode.window.showErrorMessage('No deployment selected');
+			return;
+		}
+		if (record.status === 'in-progress') {
+			vscode.window.showInformationMessage('This deployment is still running');
+			return;
+		}
+		if (record.type === 'rollback') {
+			vscode.window.showInformationMessage(
+				'Rollbacks cannot be redeployed. Roll back from the original deployment instead.'
+			);
+			return;
+		}
+
+		// 1. Resolve the profile, following a renamed .pubxml
+		const resolved = await this.profileResolver.resolve(record);
+		if (!resolved) {
+			return;
+		}
+		const { project, profile } = resolved;
+
+		// 2. Confirm like a regular deployment, warning when the source moved on since
+		const git = await BuildInfo.readGitInfo(path.dirname(project.csprojPath));
+		const sourceWarnings = this.describeSourceChanges(record.git, git);
+		const isProd = profile.environment === DeployEnvironment.Production;
+		const confirm = await vscode.window.showWarningMessage(
+			`${isProd ? '⚠️ Redeploy to PRODUCTION' : `Redeploy to ${profile.environment.toUpperCase()}`} with profile: ${profile.name}?`,
+			{
+				modal: true,
+				detail: [
+					`Repeats the deployment of ${new Date(record.startTime).toLocaleString()} with the current source.`,
+					...sourceWarnings,
+				].join('\n'),
+			},
+			'Deploy',
+			'Cancel'
+		);
+		if (confirm !== 'Deploy') {
+			return;
+		}
+
+		this.log(`Redeploying ${record.projectName} / ${record.profileName} (${record.id})`);
+		await this.deployCommand.runDeployment(profile, project.name, project.csprojPath, {
+			record: { redeployOf: record.id },
+		});
+	}
+
+	/**
+	 * How the source that will be built differs from what the recorded deployment built
+	 */
+	private describeSourceChanges(
+		recorded: GitCommitInfo | undefined,
+		current: GitCommitInfo | undefined
+	): string[] {
+		const warnings: string[] = [];
+		if (recorded && current && recorded.commit !== current.commit) {
+			warnings.push(
+				`⚠️ The source is now at ${current.commit.substring(0, 7)} (${current.message}), not ${recorded.commit.substring(0, 7)} (${recorded.message}) as deployed then.`
+			);
+		}
+		if (current?.dirty) {
+			warnings.push('⚠️ The working tree has uncommitted changes.');
+		}
+		return warnings;
+	}
+}
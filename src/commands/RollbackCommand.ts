@@ -0,0 +1,123 @@
+import * as vscode from 'vscode';
+import { BaseCommand } from './ICommand';
+import { DeployProfileCommand } from './DeployProfileCommand';
+import { HistoryManager } from '../services/HistoryManager';
+import { IRollbackService, RollbackOption } from '../services/RollbackService';
+import { IHistoryProfileResolver } from '../services/HistoryProfileResolver';
+import { DeploymentRecord } from '../models/DeploymentRecord';
+import { DeployEnvironment } from '../models/ProjectModels';
+
+/**
+ * Rollback Command
+ * Restores the build of a successful history record, either from the Web Deploy
+ * backup on the server or from the build package retained for that record
+ * The rollback is recorded as a new history entry of type rollback
+ */
+export class RollbackCommand extends BaseCommand {
+	readonly id = 'dotnet-project-toolkit.rollbackDeployment';
+
+	constructor(
+		outputChannel: vscode.OutputChannel,
+		private readonly historyManager: HistoryManager,
+		private readonly rollbackService: IRollbackService,
+		private readonly profileResolver: IHistoryProfileResolver,
+		private readonly deployCommand: DeployProfileCommand
+	) {
+		super(outputChannel);
+	}
+
+	async execute(item?: unknown): Promise<void> {
+		const record = (item as { record?: DeploymentRecord })?.record;
+		if (!record) {
+			vscode.window.showErrorMessage('No deployment selected');
+			return;
+		}
+		if (record.status !== 'success' || record.type === 'rollback') {
+			vscode.window.showInformationMessage(
+				'Only successful deployments can be rolled back to'
+			);
+			return;
+		}
+
+		// 1. Resolve the profile the record was deployed with
+		const resolved = await this.profileResolver.resolve(record);
+		if (!resolved) {
+			return;
+		}
+		const { project, profile } = resolved;
+
+		// 2. Pick how to restore it
+		const packagePath = this.historyManager.getPackagePath(record);
+		const plan = this.rollbackService.plan(
+			record,
+			profile,
+			this.historyManager.getAllHistory(),
+			packagePath
+		);
+		if (plan.options.length === 0) {
+			vscode.window.showWarningMessage(
+				`Cannot roll back to this deployment. ${plan.reasons.join(' ')}`
+			);
+			return;
+		}
+
+		const option = await this.pickOption(plan.options);
+		if (!option) {
+			return;
+		}
+
+		// 3. Confirm (production needs the profile name typed out)
+		const deployedAt = new Date(record.startTime).toLocaleString();
+		const isProd = profile.environment === DeployEnvironment.Production;
+		const confirm = await vscode.window.showWarningMessage(
+			`${isProd ? '⚠️ PRODUCTION: ' : ''}Roll back ${profile.name} to the deployment of ${deployedAt}?`,
+			{ modal: true, detail: option.detail },
+			'Roll Back',
+			'Cancel'
+		);
+		if (confirm !== 'Roll Back') {
+			return;
+		}
+
+		if (isProd) {
+			const typed = await vscode.window.showInputBox({
+				prompt: `Type "${profile.fileName}" to roll back production`,
+				ignoreFocusOut: true,
+				validateInput: (v) =>
+					v === profile.fileName ? null : `Enter ${profile.fileName} to confirm`,
+			});
+			if (typed !== profile.fileName) {
+				return;
+			}
+		}
+
+		// 4. Run it through the deployment flow so history and notifications match
+		this.log(
+			`Rolling back ${record.projectName} / ${record.profileName} to ${record.id} (${option.source})`
+		);
+		await this.deployCommand.runDeployment(profile, project.name, project.csprojPath, {
+			run: (report, token) =>
+				this.rollbackService.rollback(
+					project.name,
+					profile,
+					option.source,
+					packagePath,
+					report,
+					token
+				),
+			record: { type: 'rollback', rollbackOf: record.id, rollbackSource: option.source },
+		});
+	}
+
+	private async pickOption(options: RollbackOption[]): Promise<RollbackOption | undefined> {
+		if (options.length === 1) {
+			return options[0];
+		}
+
+		const pick = await vscode.window.showQuickPick(
+			options.map((o) => ({ label: o.label, detail: o.detail, option: o })),
+			{ placeHolder: 'How should the deployment be restored?' }
+		);
+		return pick?.option;
+	}
+}
@@ -0,0 +1,259 @@
+import * as vscode from 'vscode';
+import { BaseCommand } from './ICommand';
+import {
+	DeployProfileCommand,
+	DeploymentRunOptions,
+	PreparedDeployment,
+} from './DeployProfileCommand';
+import { DeploySetConfigService } from '../services/DeploySetConfigService';
+import { DeploySet } from '../models/DeploySetModels';
+import { DeploymentStatus } from '../models/DeploymentRecord';
+import { DeployEnvironment, PublishProfileInfo } from '../models/ProjectModels';
+import { ProjectScanner } from '../utils/ProjectScanner';
+import { GuidGenerator } from '../utils/GuidGenerator';
+
+interface DeploySetTarget {
+	label: string;
+	projectName: string;
+	projectPath: string;
+	profile: PublishProfileInfo;
+}
+
+/**
+ * Run Deploy Set Command
+ * Deploys every profile of a set under one progress notification
+ * Each deployment gets its own history record, linked by a batch id
+ */
+export class RunDeploySetCommand extends BaseCommand {
+	readonly id = 'dotnet-project-toolkit.deploySet.run';
+
+	constructor(
+		outputChannel: vscode.OutputChannel,
+		private readonly deploySets: DeploySetConfigService,
+		private readonly projectScanner: ProjectScanner,
+		private readonly deployCommand: DeployProfileCommand
+	) {
+		super(outputChannel);
+	}
+
+	async execute(item?: unknown): Promise<void> {
+		const set = (item as { deploySet?: DeploySet })?.deploySet ?? (await this.pickSet());
+		if (!set) {
+			return;
+		}
+
+		// 1. Resolve entries against the current workspace
+		const targets = await this.resolveTargets(set);
+		if (!targets) {
+			return;
+		}
+
+		// 2. Confirm the whole set once
+		const hasProd = targets.some((t) => t.profile.environment === DeployEnvironment.Production);
+		const confirm = await vscode.window.showWarningMessage(
+			`${hasProd ? '⚠️ Includes PRODUCTION. ' : ''}Deploy set '${set.name}' (${set.mode})?`,
+			{
+				modal: true,
+				detail: targets
+					.map((t) => `• ${t.label} (${t.profile.environment.toUpperCase()})`)
+					.join('\n'),
+			},
+			'Deploy',
+			'Cancel'
+		);
+		if (confirm !== 'Deploy') {
+			return;
+		}
+
+		// 3. Deploy under a single aggregated notification
+		const batch = { id: GuidGenerator.generate(), name: set.name };
+		this.log(`Starting deploy set '${set.name}' (${set.mode}, batch ${batch.id})`);
+
+		const statuses = await vscode.window.withProgress(
+			{
+				location: vscode.ProgressLocation.Notification,
+				title: `Deploying set '${set.name}'`,
+				cancellable: true,
+			},
+			async (progress, token) => {
+				let completed = 0;
+				const optionsFor = (target: DeploySetTarget): DeploymentRunOptions => ({
+					batch,
+					progress: (message) => progress.report({ message }),
+					progressPrefix: `${target.label}: `,
+					token,
+					quiet: true,
+				});
+				const finish = (target: DeploySetTarget, status: DeploymentStatus) => {
+					completed++;
+					progress.report({
+						message: `${target.label}: ${status} (${completed}/${targets.length} done)`,
+						increment: 100 / targets.length,
+					});
+					return status;
+				};
+				const deployTarget = async (target: DeploySetTarget): Promise<DeploymentStatus> =>
+					finish(
+						target,
+						await this.deployCommand.runDeployment(
+							target.profile,
+							target.projectName,
+							target.projectPath,
+							optionsFor(target)
+						)
+					);
+
+				if (set.mode === 'parallel') {
+					// Prompts and pre-deployment gates one profile at a time: VS Code shows a
+					// single input box, and gates of one solution must not build side by side
+					const prepared: (PreparedDeployment | DeploymentStatus)[] = [];
+					for (const target of targets) {
+						if (token.isCancellationRequested) {
+							prepared.push(finish(target, 'cancelled'));
+							continue;
+						}
+						const result = await this.deployCommand.prepareDeployment(
+							target.profile,
+							target.projectName,
+							target.projectPath,
+							optionsFor(target)
+						);
+						prepared.push(typeof result === 'string' ? finish(target, result) : result);
+					}
+
+					return Promise.all(
+						targets.map(async (target, i) => {
+							const entry = prepared[i];
+							return typeof entry === 'string'
+								? entry
+								: finish(
+										target,
+										await this.deployCommand.publishPrepared(
+											entry,
+											target.profile,
+											target.projectName,
+											target.projectPath,
+											optionsFor(target)
+										)
+									);
+						})
+					);
+				}
+
+				const results: (DeploymentStatus | 'skipped')[] = [];
+				for (const target of targets) {
+					const previous = results[results.length - 1];
+					// Later entries usually depend on earlier ones (e.g. API before Client)
+					if (previous && previous !== 'success') {
+						results.push('skipped');
+						continue;
+					}
+					results.push(await deployTarget(target));
+				}
+				return results;
+			}
+		);
+
+		// 4. Summary
+		this.showSummary(set, targets, statuses);
+	}
+
+	private async pickSet(): Promise<DeploySet | undefined> {
+		const sets = this.deploySets.getSets();
+		if (sets.length === 0) {
+			vscode.window.showInformationMessage('No deploy sets created yet.');
+			return undefined;
+		}
+
+		const pick = await vscode.window.showQuickPick(
+			sets.map((s) => ({
+				label: s.name,
+				description: `${s.mode} · ${s.entries.length} profile(s)`,
+				set: s,
+			})),
+			{ placeHolder: 'Select a deploy set' }
+		);
+		return pick?.set;
+	}
+
+	private async resolveTargets(set: DeploySet): Promise<DeploySetTarget[] | undefined> {
+		const structure = await this.projectScanner.scanWorkspace(
+			vscode.workspace.workspaceFolders?.[0]?.uri.fsPath || ''
+		);
+
+		const targets: DeploySetTarget[] = [];
+		const missing: string[] = [];
+		for (const entry of set.entries) {
+			const project = structure.projects.find((p) => p.name === entry.projectName);
+			const profile = project?.profiles.find((p) => p.fileName === entry.profileName);
+			const label = `${entry.projectName} / ${entry.profileName}`;
+
+			if (project && profile) {
+				targets.push({
+					label,
+					projectName: project.name,
+					projectPath: project.csprojPath,
+					profile,
+				});
+			} else {
+				missing.push(label);
+			}
+		}
+
+		if (missing.length > 0) {
+			vscode.window.showErrorMessage(
+				`Deploy set '${set.name}' references missing profiles: ${missing.join(', ')}`
+			);
+			return undefined;
+		}
+
+		if (targets.length === 0) {
+			vscode.window.showWarningMessage(`Deploy set '${set.name}' is empty.`);
+			return undefined;
+		}
+
+		return targets;
+	}
+
+	private showSummary(
+		set: DeploySet,
+		targets: DeploySetTarget[],
+		statuses: (DeploymentStatus | 'skipped')[]
+	): void {
+		targets.forEach((t, i) => this.log(`${t.label}: ${statuses[i]}`));
+
+		const count = (status: DeploymentStatus | 'skipped') =>
+			statuses.filter((s) => s === status).length;
+		const succeeded = count('success');
+
+		if (succeeded === targets.length) {
+			vscode.window.showInformationMessage(
+				`✅ Deploy set '${set.name}': all ${succeeded} deployments succeeded`
+			);
+			return;
+		}
+
+		const parts = [`${succeeded} succeeded`];
+		if (count('unhealthy')) {
+			parts.push(`${count('unhealthy')} unhealthy`);
+		}
+		if (count('failed')) {
+			parts.push(`${count('failed')} failed`);
+		}
+		if (count('cancelled')) {
+			parts.push(`${count('cancelled')} cancelled`);
+		}
+		if (count('skipped')) {
+			parts.push(`${count('skipped')} skipped`);
+		}
+
+		const failedLabels = targets
+			.filter((_, i) => statuses[i] === 'failed' || statuses[i] === 'unhealthy')
+			.map((t) => t.label)
+			.join(', ');
+		vscode.window.showErrorMessage(
+			`❌ Deploy set '${set.name}': ${parts.join(', ')}` +
+				(failedLabels ? `. Failed: ${failedLabels}` : '')
+		);
+	}
+}
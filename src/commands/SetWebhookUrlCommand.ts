@@ -0,0 +1,95 @@
+import * as vscode from 'vscode';
+import { BaseCommand } from './ICommand';
+import { IConfigurationService } from '../services/IConfigurationService';
+import { IWebhookService } from '../services/WebhookService';
+import { IPasswordStorage } from '../strategies/IPasswordStorage';
+
+/**
+ * Set Webhook URL Command
+ * Stores the URL of a webhook from dotnetToolkit.notifications.webhooks in password
+ * storage (webhook URLs embed their credentials) and offers to send a test message
+ */
+export class SetWebhookUrlCommand extends BaseCommand {
+	readonly id = 'dotnet-project-toolkit.setWebhookUrl';
+
+	constructor(
+		outputChannel: vscode.OutputChannel,
+		private readonly configService: IConfigurationService,
+		private readonly passwordStorage: IPasswordStorage,
+		private readonly webhookService: IWebhookService
+	) {
+		super(outputChannel);
+	}
+
+	async execute(): Promise<void> {
+		const webhooks = this.configService.getWebhooks();
+		if (webhooks.length === 0) {
+			const choice = await vscode.window.showInformationMessage(
+				'No webhooks are configured. Add them to dotnetToolkit.notifications.webhooks first.',
+				'Open Settings'
+			);
+			if (choice === 'Open Settings') {
+				await vscode.commands.executeCommand(
+					'workbench.action.openSettings',
+					'dotnetToolkit.notifications.webhooks'
+				);
+			}
+			return;
+		}
+
+		const pick = await vscode.window.showQuickPick(
+			await Promise.all(
+				webhooks.map(async (webhook) => ({
+					label: webhook.name,
+					description: webhook.type,
+					detail: (await this.passwordStorage.retrieve(
+						this.webhookService.getUrlKey(webhook.name)
+					))
+						? '$(check) URL stored'
+						: '$(warning) No URL stored',
+					webhook,
+				}))
+			),
+			{ placeHolder: 'Select the webhook to set the URL for' }
+		);
+		if (!pick) {
+			return;
+		}
+
+		const url = await vscode.window.showInputBox({
+			prompt: `Webhook URL for ${pick.webhook.name}`,
+			password: true,
+			ignoreFocusOut: true,
+			validateInput: (value) =>
+				/^https?:\/\/\S+$/i.test(value.trim()) ? null : 'Enter an http(s) URL',
+		});
+		if (!url) {
+			return;
+		}
+
+		const key = this.webhookService.getUrlKey(pick.webhook.name);
+		if (!(await this.passwordStorage.store(key, url.trim()))) {
+			vscode.window.showErrorMessage(`Could not store the URL for ${pick.webhook.name}`);
+			return;
+		}
+		this.log(`Stored URL for webhook ${pick.webhook.name} (${key})`);
+
+		const choice = await vscode.window.showInformationMessage(
+			`Webhook URL for ${pick.webhook.name} saved.`,
+			'Send Test'
+		);
+		if (choice !== 'Send Test') {
+			return;
+		}
+
+		try {
+			await this.webhookService.sendTest(pick.webhook, url.trim());
+			vscode.window.showInformationMessage(`✅ Test message sent to ${pick.webhook.name}`);
+		} catch (error: any) {
+			this.log(`Test message to ${pick.webhook.name} failed: ${error.message}`);
+			vscode.window.showErrorMessage(
+				`❌ ${pick.webhook.name} rejected the test message: ${error.message}`
+			);
+		}
+	}
+}
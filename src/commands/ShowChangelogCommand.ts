@@ -0,0 +1,174 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { BaseCommand } from './ICommand';
+import { HistoryManager } from '../services/HistoryManager';
+import { IChangelogService } from '../services/ChangelogService';
+import { ChangelogEndpoint, ChangelogRange } from '../models/ChangelogModels';
+import { DeploymentRecord } from '../models/DeploymentRecord';
+import { PublishProfileInfo } from '../models/ProjectModels';
+import { ChangelogPanel } from '../ui/ChangelogPanel';
+import { BuildInfo } from '../utils/BuildInfo';
+import { ProjectScanner } from '../utils/ProjectScanner';
+
+/**
+ * Show Changes Since Last Deploy Command
+ * - On a publish profile: commits between its last successful deployment and HEAD
+ * - On a history record: commits between that record and HEAD or another record
+ */
+export class ShowChangelogCommand extends BaseCommand {
+	readonly id = 'dotnet-project-toolkit.showChangelog';
+
+	constructor(
+		outputChannel: vscode.OutputChannel,
+		private readonly extensionUri: vscode.Uri,
+		private readonly historyManager: HistoryManager,
+		private readonly changelogService: IChangelogService,
+		private readonly projectScanner: ProjectScanner
+	) {
+		super(outputChannel);
+	}
+
+	async execute(item?: unknown): Promise<void> {
+		const treeItem = item as {
+			record?: DeploymentRecord;
+			profileInfo?: PublishProfileInfo;
+			projectName?: string;
+			projectPath?: string;
+			csprojPath?: string;
+		};
+
+		let range: ChangelogRange | undefined;
+		if (treeItem?.record) {
+			range = await this.rangeFromRecord(treeItem.record);
+		} else if (treeItem?.profileInfo && treeItem.projectName) {
+			range = await this.rangeFromProfile(
+				treeItem.profileInfo,
+				treeItem.projectName,
+				treeItem.projectPath || treeItem.csprojPath
+			);
+		} else {
+			vscode.window.showErrorMessage('No publish profile or deployment selected');
+			return;
+		}
+		if (!range) {
+			return;
+		}
+
+		this.log(`Changelog ${range.from.ref}..${range.to.ref} in ${range.repoDir}`);
+		const changelog = await this.changelogService.getChangelog(range);
+		ChangelogPanel.show(
+			this.extensionUri,
+			changelog,
+			this.changelogService,
+			this.outputChannel
+		);
+	}
+
+	/**
+	 * Last successful deployment of the profile up to HEAD
+	 */
+	private async rangeFromProfile(
+		profile: PublishProfileInfo,
+		projectName: string,
+		csprojPath: string | undefined
+	): Promise<ChangelogRange | undefined> {
+		const last = this.historyManager
+			.getAllHistory()
+			.find(
+				(r) =>
+					r.status === 'success' &&
+					r.git &&
+					r.type !== 'rollback' &&
+					r.projectName === projectName &&
+					r.profileName === profile.fileName
+			);
+		if (!last) {
+			vscode.window.showInformationMessage(
+				`No successful deployment of ${profile.fileName} with git information yet`
+			);
+			return undefined;
+		}
+
+		const repoDir = csprojPath
+			? path.dirname(csprojPath)
+			: await this.findProjectDir(projectName);
+		if (!repoDir) {
+			return undefined;
+		}
+
+		return { repoDir, from: this.toEndpoint(last), to: await this.headEndpoint(repoDir) };
+	}
+
+	/**
+	 * The record against HEAD or another deployment of the same project, oldest first
+	 */
+	private async rangeFromRecord(record: DeploymentRecord): Promise<ChangelogRange | undefined> {
+		if (!record.git) {
+			vscode.window.showInformationMessage(
+				'This deployment has no git information (recorded outside a repository or before it was captured)'
+			);
+			return undefined;
+		}
+
+		const repoDir = await this.findProjectDir(record.projectName);
+		if (!repoDir) {
+			return undefined;
+		}
+
+		const others = this.historyManager
+			.getAllHistory()
+			.filter((r) => r.git && r.id !== record.id && r.projectName === record.projectName);
+		const pick = await vscode.window.showQuickPick(
+			[
+				{ label: '$(git-branch) Current code (HEAD)', other: undefined },
+				...others.map((r) => ({
+					label: `${r.profileName} · ${new Date(r.startTime).toLocaleString()}`,
+					description: `${r.git!.commit.substring(0, 7)} ${r.git!.message}`,
+					other: r,
+				})),
+			],
+			{ placeHolder: 'Compare this deployment with...' }
+		);
+		if (!pick) {
+			return undefined;
+		}
+
+		if (!pick.other) {
+			return { repoDir, from: this.toEndpoint(record), to: await this.headEndpoint(repoDir) };
+		}
+
+		const [older, newer] =
+			new Date(pick.other.startTime) < new Date(record.startTime)
+				? [pick.other, record]
+				: [record, pick.other];
+		return { repoDir, from: this.toEndpoint(older), to: this.toEndpoint(newer) };
+	}
+
+	private toEndpoint(record: DeploymentRecord): ChangelogEndpoint {
+		return {
+			ref: record.git!.commit,
+			label: `${record.profileName} deployed ${new Date(record.startTime).toLocaleString()}`,
+			dirty: record.git!.dirty,
+		};
+	}
+
+	private async headEndpoint(repoDir: string): Promise<ChangelogEndpoint> {
+		const git = await BuildInfo.readGitInfo(repoDir);
+		return {
+			ref: 'HEAD',
+			label: `Current code${git?.branch ? ` (${git.branch})` : ''}`,
+			dirty: git?.dirty,
+		};
+	}
+
+	private async findProjectDir(projectName: string): Promise<string | undefined> {
+		const structure = await this.projectScanner.scanWorkspace(
+			vscode.workspace.workspaceFolders?.[0]?.uri.fsPath || ''
+		);
+		const project = structure.projects.find((p) => p.name === projectName);
+		if (!project) {
+			vscode.window.showErrorMessage(`Project ${projectName} no longer exists`);
+		}
+		return project?.projectDir;
+	}
+}
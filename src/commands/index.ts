@@ -7,3 +7,17 @@ export { DeleteProfileCommand } from './DeleteProfileCommand';
 export { EditProfileCommand } from './EditProfileCommand';
 export { ProfileInfoCommand } from './ProfileInfoCommand';
 export { RefreshCommand } from './RefreshCommand';
+export { ApplyRemediationCommand } from './ApplyRemediationCommand';
+export { CreateDeploySetCommand } from './CreateDeploySetCommand';
+export { RunDeploySetCommand } from './RunDeploySetCommand';
+export { DeleteDeploySetCommand } from './DeleteDeploySetCommand';
+export { PreviewDeployCommand } from './PreviewDeployCommand';
+export { ImportPublishSettingsCommand } from './ImportPublishSettingsCommand';
+export { RollbackCommand } from './RollbackCommand';
+export { RedeployCommand } from './RedeployCommand';
+export { ShowChangelogCommand } from './ShowChangelogCommand';
+export { SetWebhookUrlCommand } from './SetWebhookUrlCommand';
+export { FilterHistoryCommand } from './FilterHistoryCommand';
+export { GroupHistoryCommand } from './GroupHistoryCommand';
+export { ClearHistoryFilterCommand } from './ClearHistoryFilterCommand';
+export { ExportHistoryCommand } from './ExportHistoryCommand';
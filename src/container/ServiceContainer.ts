@@ -1,4 +1,5 @@
 import * as vscode from 'vscode';
+import * as fs from 'fs';
 import { IPasswordStorage } from '../strategies/IPasswordStorage';
 import { EnvVarPasswordStorage } from '../strategies/EnvVarPasswordStorage';
 import { SecretPasswordStorage } from '../strategies/SecretPasswordStorage';
@@ -11,23 +12,59 @@ import { DeleteProfileCommand } from '../commands/DeleteProfileCommand';
 import { EditProfileCommand } from '../commands/EditProfileCommand';
 import { ProfileInfoCommand } from '../commands/ProfileInfoCommand';
 import { RefreshCommand } from '../commands/RefreshCommand';
+import { ApplyRemediationCommand } from '../commands/ApplyRemediationCommand';
+import { CreateDeploySetCommand } from '../commands/CreateDeploySetCommand';
+import { RunDeploySetCommand } from '../commands/RunDeploySetCommand';
+import { DeleteDeploySetCommand } from '../commands/DeleteDeploySetCommand';
+import { PreviewDeployCommand } from '../commands/PreviewDeployCommand';
+import { ImportPublishSettingsCommand } from '../commands/ImportPublishSettingsCommand';
+import { RollbackCommand } from '../commands/RollbackCommand';
+import { RedeployCommand } from '../commands/RedeployCommand';
+import { ShowChangelogCommand } from '../commands/ShowChangelogCommand';
+import { SetWebhookUrlCommand } from '../commands/SetWebhookUrlCommand';
+import { FilterHistoryCommand } from '../commands/FilterHistoryCommand';
+import { GroupHistoryCommand } from '../commands/GroupHistoryCommand';
+import { ClearHistoryFilterCommand } from '../commands/ClearHistoryFilterCommand';
+import { ExportHistoryCommand } from '../commands/ExportHistoryCommand';
 import { UnifiedTreeProvider } from '../ui/UnifiedTreeProvider';
 import { HistoryManager } from '../services/HistoryManager';
+import { IKnownErrorAdvisor, KnownErrorAdvisor } from '../services/KnownErrorAdvisor';
+import { IPreDeployGateService, PreDeployGateService } from '../services/PreDeployGateService';
+import { IDeployPreviewService, DeployPreviewService } from '../services/DeployPreviewService';
+import { ArtifactPackageService } from '../services/ArtifactPackageService';
+import { KuduDeployService } from '../services/KuduDeployService';
+import { SshDeployService } from '../services/SshDeployService';
+import { ContainerPublishService } from '../services/ContainerPublishService';
+import { IRollbackService, RollbackService } from '../services/RollbackService';
+import { IChangelogService, ChangelogService } from '../services/ChangelogService';
+import {
+	IHistoryProfileResolver,
+	HistoryProfileResolver,
+} from '../services/HistoryProfileResolver';
+import { IDeployPolicyService, DeployPolicyService } from '../services/DeployPolicyService';
+import { IHealthCheckService, HealthCheckService } from '../services/HealthCheckService';
+import { IWebhookService, WebhookService } from '../services/WebhookService';
+import { IHistoryExportService, HistoryExportService } from '../services/HistoryExportService';
 import { HistoryTreeProvider } from '../ui/history/HistoryTreeProvider';
 import { ProfileInfoPanel } from '../ui/ProfileInfoPanel';
 import { WatchService } from '../services/WatchService';
 import { WatchConfigService } from '../services/WatchConfigService';
+import { DeploySetConfigService } from '../services/DeploySetConfigService';
+import { HistoryViewStateService } from '../services/HistoryViewStateService';
 import { WatchTreeProvider } from '../ui/WatchTreeProvider';
 import { ProjectScanner } from '../utils/ProjectScanner';
 import { DebugService } from '../services/DebugService';
 import { DebugConfigService } from '../services/DebugConfigService';
 import { DebugTreeProvider } from '../ui/debug/DebugTreeProvider';
 import { PublishTreeProvider } from '../ui/publish/PublishTreeProvider';
+import { DeployPreviewTreeProvider } from '../ui/preview/DeployPreviewTreeProvider';
 
 // Import new abstractions
 import { ConfigurationService } from '../services/ConfigurationService';
 import { FileSystemRepository } from '../repositories/FileSystemRepository';
 import { FastXmlParser } from '../parsers/FastXmlParser';
+import { MsBuildDiagnosticParser } from '../parsers/MsBuildDiagnosticParser';
+import { PublishSettingsParser } from '../parsers/PublishSettingsParser';
 import { ProjectAnalyzer } from '../analyzers/ProjectAnalyzer';
 import { ProfileXmlGenerator } from '../generators/ProfileXmlGenerator';
 import { ProfileRepository } from '../repositories/ProfileRepository';
@@ -40,18 +77,33 @@ import { EnvironmentDetector } from '../detectors/EnvironmentDetector';
  */
 export class ServiceContainer {
 	readonly outputChannel: vscode.OutputChannel;
+	readonly deployDiagnostics: vscode.DiagnosticCollection;
 	readonly configService: ConfigurationService;
 	readonly fileSystem: FileSystemRepository;
 	readonly xmlParser: FastXmlParser;
+	readonly environmentDetector: EnvironmentDetector;
 	readonly passwordStorage: IPasswordStorage;
 	readonly profileService: IProfileService;
 	readonly deploymentService: IDeploymentService;
 	readonly treeProvider: UnifiedTreeProvider;
 	readonly historyProvider: HistoryTreeProvider;
 	readonly historyManager: HistoryManager;
+	readonly errorAdvisor: IKnownErrorAdvisor;
+	readonly preDeployGate: IPreDeployGateService;
+	readonly deployPreviewService: IDeployPreviewService;
+	readonly deployPreviewProvider: DeployPreviewTreeProvider;
+	readonly rollbackService: IRollbackService;
+	readonly historyProfileResolver: IHistoryProfileResolver;
+	readonly deployPolicyService: IDeployPolicyService;
+	readonly healthCheckService: IHealthCheckService;
+	readonly webhookService: IWebhookService;
+	readonly changelogService: IChangelogService;
+	readonly historyExportService: IHistoryExportService;
 	readonly commandRegistry: CommandRegistry;
 	readonly watchService: WatchService;
 	readonly watchConfigService: WatchConfigService;
+	readonly deploySetConfigService: DeploySetConfigService;
+	readonly historyViewState: HistoryViewStateService;
 	readonly watchTreeProvider: WatchTreeProvider;
 	readonly projectScanner: ProjectScanner;
 	readonly debugService: DebugService;
@@ -63,6 +115,9 @@ export class ServiceContainer {
 	private constructor(context: vscode.ExtensionContext) {
 		// Create output channel
 		this.outputChannel = vscode.window.createOutputChannel('.NET Toolkit');
+		this.deployDiagnostics =
+			vscode.languages.createDiagnosticCollection('dotnet-toolkit-deploy');
+		context.subscriptions.push(this.deployDiagnostics);
 
 		// Create infrastructure services
 		this.configService = new ConfigurationService();
@@ -83,7 +138,7 @@ export class ServiceContainer {
 		}
 
 		// Create specialized services for ProfileService
-		const environmentDetector = new EnvironmentDetector();
+		this.environmentDetector = new EnvironmentDetector();
 		const projectAnalyzer = new ProjectAnalyzer(this.xmlParser, this.fileSystem);
 		const profileXmlGenerator = new ProfileXmlGenerator();
 		const profileRepository = new ProfileRepository(this.fileSystem);
@@ -95,7 +150,7 @@ export class ServiceContainer {
 			projectAnalyzer,
 			profileXmlGenerator,
 			profileRepository,
-			environmentDetector,
+			this.environmentDetector,
 			this.passwordStorage,
 			this.outputChannel
 		);
@@ -111,20 +166,64 @@ export class ServiceContainer {
 		);
 
 		// Create other services
+		this.errorAdvisor = new KnownErrorAdvisor();
+		const kuduDeployer = new KuduDeployService(this.outputChannel);
+		const sshDeployer = new SshDeployService(this.outputChannel);
 		this.deploymentService = new DeploymentService(
 			this.outputChannel,
 			this.passwordStorage,
-			webConfigModifier
+			this.configService,
+			new MsBuildDiagnosticParser(),
+			this.errorAdvisor,
+			new ArtifactPackageService(this.outputChannel),
+			kuduDeployer,
+			sshDeployer,
+			new ContainerPublishService(this.outputChannel, this.configService),
+			webConfigModifier,
+			this.deployDiagnostics
 		);
-		this.historyManager = new HistoryManager(context);
+		this.rollbackService = new RollbackService(
+			this.outputChannel,
+			this.passwordStorage,
+			this.errorAdvisor,
+			kuduDeployer,
+			sshDeployer
+		);
+		this.preDeployGate = new PreDeployGateService(this.outputChannel, this.configService);
+		this.deployPreviewService = new DeployPreviewService(
+			this.outputChannel,
+			this.passwordStorage,
+			this.configService
+		);
+		this.deployPreviewProvider = new DeployPreviewTreeProvider();
+		this.changelogService = new ChangelogService(this.outputChannel);
+		this.historyExportService = new HistoryExportService();
+		this.historyManager = new HistoryManager(context, this.configService);
 		this.projectScanner = new ProjectScanner();
+		this.historyProfileResolver = new HistoryProfileResolver(
+			this.outputChannel,
+			this.projectScanner
+		);
+		this.deployPolicyService = new DeployPolicyService(
+			this.outputChannel,
+			this.configService,
+			this.historyManager
+		);
+		this.healthCheckService = new HealthCheckService(this.outputChannel);
+		this.webhookService = new WebhookService(
+			this.outputChannel,
+			this.configService,
+			this.passwordStorage
+		);
 		this.watchConfigService = new WatchConfigService(context);
+		this.deploySetConfigService = new DeploySetConfigService(context);
+		this.historyViewState = new HistoryViewStateService(context);
 		this.watchService = new WatchService(context);
 		this.debugConfigService = new DebugConfigService(context);
 		this.debugService = new DebugService(context);
 
 		// Create tree providers
-		this.historyProvider = new HistoryTreeProvider(this.historyManager);
+		this.historyProvider = new HistoryTreeProvider(this.historyManager, this.historyViewState);
 		this.watchTreeProvider = new WatchTreeProvider(
 			this.watchService,
 			this.watchConfigService,
@@ -137,10 +236,14 @@ export class ServiceContainer {
 			this.projectScanner,
 			workspaceRoot
 		);
-		this.publishTreeProvider = new PublishTreeProvider(workspaceRoot);
+		this.publishTreeProvider = new PublishTreeProvider(
+			workspaceRoot,
+			this.deploySetConfigService
+		);
 		this.treeProvider = new UnifiedTreeProvider(
 			workspaceRoot,
 			this.historyManager,
+			this.historyViewState,
 			this.watchTreeProvider,
 			this.debugTreeProvider
 		);
@@ -161,6 +264,10 @@ export class ServiceContainer {
 		vscode.window.registerTreeDataProvider('dotnetWatch', container.watchTreeProvider);
 		vscode.window.registerTreeDataProvider('dotnetDebug', container.debugTreeProvider);
 		vscode.window.registerTreeDataProvider('dotnetPublish', container.publishTreeProvider);
+		vscode.window.registerTreeDataProvider(
+			'dotnetDeployPreview',
+			container.deployPreviewProvider
+		);
 
 		// Create refresh callback
 		const onRefresh = () => {
@@ -170,17 +277,105 @@ export class ServiceContainer {
 			container.publishTreeProvider.refresh();
 			ProfileInfoPanel.updateAll();
 		};
+		const refreshHistoryView = () => {
+			container.historyProvider.refresh();
+			container.treeProvider.refresh();
+		};
 
 		// Register commands
+		const deployCommand = new DeployProfileCommand(
+			container.outputChannel,
+			onRefresh,
+			container.historyManager,
+			container.deploymentService,
+			container.preDeployGate,
+			container.configService,
+			container.deployPolicyService,
+			container.healthCheckService,
+			container.webhookService
+		);
 		container.commandRegistry.registerAll([
 			new RefreshCommand(container.outputChannel, onRefresh),
-			new DeployProfileCommand(
+			deployCommand,
+			new ApplyRemediationCommand(container.outputChannel, container.passwordStorage),
+			new CreateDeploySetCommand(
 				container.outputChannel,
-				onRefresh,
+				container.deploySetConfigService,
+				container.projectScanner,
+				onRefresh
+			),
+			new RunDeploySetCommand(
+				container.outputChannel,
+				container.deploySetConfigService,
+				container.projectScanner,
+				deployCommand
+			),
+			new DeleteDeploySetCommand(
+				container.outputChannel,
+				container.deploySetConfigService,
+				onRefresh
+			),
+			new RollbackCommand(
+				container.outputChannel,
+				container.historyManager,
+				container.rollbackService,
+				container.historyProfileResolver,
+				deployCommand
+			),
+			new RedeployCommand(
+				container.outputChannel,
+				container.historyProfileResolver,
+				deployCommand
+			),
+			new SetWebhookUrlCommand(
+				container.outputChannel,
+				container.configService,
+				container.passwordStorage,
+				container.webhookService
+			),
+			new ShowChangelogCommand(
+				container.outputChannel,
+				context.extensionUri,
+				container.historyManager,
+				container.changelogService,
+				container.projectScanner
+			),
+			new FilterHistoryCommand(
+				container.outputChannel,
+				refreshHistoryView,
 				container.historyManager,
-				container.deploymentService
+				container.historyViewState
+			),
+			new GroupHistoryCommand(
+				container.outputChannel,
+				refreshHistoryView,
+				container.historyViewState
+			),
+			new ClearHistoryFilterCommand(
+				container.outputChannel,
+				refreshHistoryView,
+				container.historyViewState
+			),
+			new ExportHistoryCommand(
+				container.outputChannel,
+				container.historyManager,
+				container.historyViewState,
+				container.historyExportService,
+				container.configService
+			),
+			new PreviewDeployCommand(
+				container.outputChannel,
+				container.deployPreviewService,
+				container.deployPreviewProvider
 			),
 			new CreateProfileCommand(container.outputChannel, container.profileService, onRefresh),
+			new ImportPublishSettingsCommand(
+				container.outputChannel,
+				container.profileService,
+				new PublishSettingsParser(container.xmlParser),
+				container.environmentDetector,
+				onRefresh
+			),
 			new DeleteProfileCommand(
 				container.outputChannel,
 				container.profileService,
@@ -231,7 +426,8 @@ export class ServiceContainer {
 
 		// Register History specific commands
 		context.subscriptions.push(
-			vscode.commands.registerCommand('dotnet-project-toolkit.refreshHistory', () => {
+			vscode.commands.registerCommand('dotnet-project-toolkit.refreshHistory', async () => {
+				await container.historyManager.refreshHistory();
 				container.historyProvider.refresh();
 				container.outputChannel.appendLine(
 					'[History] Manually refreshed deployment history'
@@ -239,10 +435,16 @@ export class ServiceContainer {
 			})
 		);
 
+		context.subscriptions.push(
+			container.historyManager.onDidChangeSharedHistory(refreshHistoryView)
+		);
+
 		context.subscriptions.push(
 			vscode.commands.registerCommand('dotnet-project-toolkit.clearHistory', async () => {
 				const answer = await vscode.window.showWarningMessage(
-					'Are you sure you want to clear all deployment history?',
+					container.historyManager.getSharedHistoryPath()
+						? 'Are you sure you want to clear the deployment history of this machine? The shared team history is kept.'
+						: 'Are you sure you want to clear all deployment history?',
 					{ modal: true },
 					'Clear All',
 					'Cancel'
@@ -261,6 +463,12 @@ export class ServiceContainer {
 				'dotnet-project-toolkit.clearHistoryEntry',
 				async (item: any) => {
 					if (item && item.record && item.record.id) {
+						if (!container.historyManager.isLocalRecord(item.record.id)) {
+							vscode.window.showInformationMessage(
+								'Entries from the shared deployment history cannot be removed here'
+							);
+							return;
+						}
 						await container.historyManager.clearEntry(item.record.id);
 						container.historyProvider.refresh();
 					}
@@ -268,6 +476,68 @@ export class ServiceContainer {
 			)
 		);
 
+		context.subscriptions.push(
+			vscode.commands.registerCommand(
+				'dotnet-project-toolkit.openDeploymentLog',
+				async (item: any) => {
+					if (item && item.record) {
+						const logPath = container.historyManager.getLogFilePath(item.record);
+						if (!logPath) {
+							vscode.window.showInformationMessage(
+								'No deployment log stored for this entry'
+							);
+							return;
+						}
+						await vscode.window.showTextDocument(vscode.Uri.file(logPath), {
+							preview: true,
+						});
+					}
+				}
+			)
+		);
+
+		context.subscriptions.push(
+			vscode.commands.registerCommand(
+				'dotnet-project-toolkit.revealArtifact',
+				async (item: any) => {
+					const artifact = item?.record?.artifact;
+					if (!artifact) {
+						vscode.window.showInformationMessage(
+							'No artifact was produced by this deployment'
+						);
+						return;
+					}
+					if (!fs.existsSync(artifact.path)) {
+						vscode.window.showWarningMessage(
+							`Artifact no longer exists: ${artifact.path}`
+						);
+						return;
+					}
+					await vscode.commands.executeCommand(
+						'revealFileInOS',
+						vscode.Uri.file(artifact.path)
+					);
+				}
+			)
+		);
+
+		// Register Deploy Preview view commands
+		context.subscriptions.push(
+			vscode.commands.registerCommand('dotnet-project-toolkit.preview.deploy', async () => {
+				const previewed = container.deployPreviewProvider.getPreviewedProfile();
+				if (previewed) {
+					await vscode.commands.executeCommand(
+						'dotnet-project-toolkit.deployProfile',
+						previewed
+					);
+				}
+			}),
+			vscode.commands.registerCommand('dotnet-project-toolkit.preview.clear', async () => {
+				container.deployPreviewProvider.setPreview();
+				await container.deployPreviewService.clearStaging();
+			})
+		);
+
 		// Register Watch specific commands
 		context.subscriptions.push(
 			vscode.commands.registerCommand(
@@ -1,5 +1,12 @@
 import { ProfileWizardData } from '../services/ProfileService';
-import { DeployEnvironment } from '../models/ProjectModels';
+import {
+	DeployEnvironment,
+	ZIP_ARTIFACT_PUBLISH_METHOD,
+	ZIP_DEPLOY_PUBLISH_METHOD,
+	SSH_PUBLISH_METHOD,
+	CONTAINER_PUBLISH_METHOD,
+	DEFAULT_CONTAINER_TAG_TEMPLATE,
+} from '../models/ProjectModels';
 import { GuidGenerator } from '../utils/GuidGenerator';
 
 /**
@@ -19,6 +26,26 @@ export interface IProfileXmlGenerator {
  */
 export class ProfileXmlGenerator implements IProfileXmlGenerator {
 	generate(data: ProfileWizardData, targetFramework: string): string {
+		switch (data.publishMethod) {
+			case 'FileSystem':
+				return this.generateFileSystem(data, targetFramework);
+			case 'ZipArtifact':
+				return this.generateZipArtifact(data, targetFramework);
+			case 'ZipDeploy':
+				return this.generateAzureZipDeploy(data, targetFramework);
+			case 'SSH':
+				return this.generateSsh(data, targetFramework);
+			case 'Container':
+				return this.generateContainer(data, targetFramework);
+			default:
+				return this.generateMsDeploy(data, targetFramework);
+		}
+	}
+
+	/**
+	 * Web Deploy to IIS
+	 */
+	private generateMsDeploy(data: ProfileWizardData, targetFramework: string): string {
 		const siteUrl = data.siteUrl || `https://${data.publishUrl}`;
 		const guid = GuidGenerator.generate();
 		const envName = this.mapEnvironmentName(data.environment);
@@ -30,21 +57,21 @@ export class ProfileXmlGenerator implements IProfileXmlGenerator {
     <WebPublishMethod>MSDeploy</WebPublishMethod>
     <LaunchSiteAfterPublish>${data.openBrowserOnDeploy !== false}</LaunchSiteAfterPublish>
     <EnableStdoutLog>${data.enableStdoutLog === true}</EnableStdoutLog>
-    <LogPath>${data.logPath || ''}</LogPath>
+    <LogPath>${this.escapeXml(data.logPath || '')}</LogPath>
     <LastUsedBuildConfiguration>Release</LastUsedBuildConfiguration>
     <LastUsedPlatform>Any CPU</LastUsedPlatform>
-    <SiteUrlToLaunchAfterPublish>${siteUrl}</SiteUrlToLaunchAfterPublish>
+    <SiteUrlToLaunchAfterPublish>${this.escapeXml(siteUrl)}</SiteUrlToLaunchAfterPublish>
     <ExcludeApp_Data>false</ExcludeApp_Data>
     <ProjectGuid>${guid}</ProjectGuid>
     <SelfContained>false</SelfContained>
-    <MSDeployServiceURL>${data.publishUrl}</MSDeployServiceURL>
-    <DeployIisAppPath>${data.siteName}</DeployIisAppPath>
+    <MSDeployServiceURL>${this.escapeXml(data.publishUrl)}</MSDeployServiceURL>
+    <DeployIisAppPath>${this.escapeXml(data.siteName)}</DeployIisAppPath>
     <RemoteSitePhysicalPath />
     <SkipExtraFilesOnServer>true</SkipExtraFilesOnServer>
     <MSDeployPublishMethod>WMSVC</MSDeployPublishMethod>
     <EnableMSDeployBackup>true</EnableMSDeployBackup>
-    <EnableMsDeployAppOffline>true</EnableMsDeployAppOffline>
-    <UserName>${data.username}</UserName>
+    <EnableMsDeployAppOffline>true</EnableMsDeployAppOffline>${this.renderRetryProperties(data)}${this.renderHealthCheckProperties(data)}
+    <UserName>${this.escapeXml(data.username)}</UserName>
     <_SavePWD>true</_SavePWD>
     <_TargetId>IISWebDeploy</_TargetId>
     <EnvironmentName>${envName}</EnvironmentName>
@@ -54,6 +81,247 @@ export class ProfileXmlGenerator implements IProfileXmlGenerator {
 `;
 	}
 
+	/**
+	 * Folder publish (local or network path) - same layout Visual Studio writes for "Folder"
+	 */
+	private generateFileSystem(data: ProfileWizardData, targetFramework: string): string {
+		const guid = GuidGenerator.generate();
+		const envName = this.mapEnvironmentName(data.environment);
+
+		return `<?xml version="1.0" encoding="utf-8"?>
+<!-- https://go.microsoft.com/fwlink/?LinkID=208121. -->
+<Project>
+  <PropertyGroup>
+    <WebPublishMethod>FileSystem</WebPublishMethod>
+    <PublishProvider>FileSystem</PublishProvider>
+    <LaunchSiteAfterPublish>${data.openBrowserOnDeploy !== false}</LaunchSiteAfterPublish>
+    <LastUsedBuildConfiguration>Release</LastUsedBuildConfiguration>
+    <LastUsedPlatform>Any CPU</LastUsedPlatform>
+    <SiteUrlToLaunchAfterPublish>${this.escapeXml(data.siteUrl || '')}</SiteUrlToLaunchAfterPublish>
+    <ExcludeApp_Data>false</ExcludeApp_Data>
+    <ProjectGuid>${guid}</ProjectGuid>
+    <SelfContained>false</SelfContained>
+    <PublishUrl>${this.escapeXml(data.publishUrl)}</PublishUrl>
+    <DeleteExistingFiles>${data.deleteExistingFiles === true}</DeleteExistingFiles>${this.renderRetryProperties(data)}${this.renderHealthCheckProperties(data)}
+    <_TargetId>Folder</_TargetId>
+    <EnvironmentName>${envName}</EnvironmentName>
+    <TargetFramework>${targetFramework}</TargetFramework>
+  </PropertyGroup>
+</Project>
+`;
+	}
+
+	/**
+	 * Versioned zip package - the toolkit publishes locally and zips the output into PublishUrl
+	 */
+	private generateZipArtifact(data: ProfileWizardData, targetFramework: string): string {
+		const guid = GuidGenerator.generate();
+		const envName = this.mapEnvironmentName(data.environment);
+
+		return `<?xml version="1.0" encoding="utf-8"?>
+<!-- https://go.microsoft.com/fwlink/?LinkID=208121. -->
+<Project>
+  <PropertyGroup>
+    <WebPublishMethod>${ZIP_ARTIFACT_PUBLISH_METHOD}</WebPublishMethod>
+    <LaunchSiteAfterPublish>false</LaunchSiteAfterPublish>
+    <LastUsedBuildConfiguration>Release</LastUsedBuildConfiguration>
+    <LastUsedPlatform>Any CPU</LastUsedPlatform>
+    <SiteUrlToLaunchAfterPublish>${this.escapeXml(data.siteUrl || '')}</SiteUrlToLaunchAfterPublish>
+    <ExcludeApp_Data>false</ExcludeApp_Data>
+    <ProjectGuid>${guid}</ProjectGuid>
+    <SelfContained>false</SelfContained>
+    <PublishUrl>${this.escapeXml(data.publishUrl)}</PublishUrl>${this.renderRetryProperties(data)}${this.renderHealthCheckProperties(data)}
+    <EnvironmentName>${envName}</EnvironmentName>
+    <TargetFramework>${targetFramework}</TargetFramework>
+  </PropertyGroup>
+</Project>
+`;
+	}
+
+	/**
+	 * Azure App Service via Kudu zipdeploy - same layout Visual Studio writes for "Azure App Service"
+	 */
+	private generateAzureZipDeploy(data: ProfileWizardData, targetFramework: string): string {
+		const guid = GuidGenerator.generate();
+		const envName = this.mapEnvironmentName(data.environment);
+		const authType =
+			data.kuduAuthType === 'token' ? `\n    <KuduAuthType>Token</KuduAuthType>` : '';
+
+		return `<?xml version="1.0" encoding="utf-8"?>
+<!-- https://go.microsoft.com/fwlink/?LinkID=208121. -->
+<Project>
+  <PropertyGroup>
+    <WebPublishMethod>${ZIP_DEPLOY_PUBLISH_METHOD}</WebPublishMethod>
+    <PublishProvider>AzureWebSite</PublishProvider>
+    <LaunchSiteAfterPublish>${data.openBrowserOnDeploy !== false}</LaunchSiteAfterPublish>
+    <LastUsedBuildConfiguration>Release</LastUsedBuildConfiguration>
+    <LastUsedPlatform>Any CPU</LastUsedPlatform>
+    <SiteUrlToLaunchAfterPublish>${this.escapeXml(data.siteUrl || '')}</SiteUrlToLaunchAfterPublish>
+    <ExcludeApp_Data>false</ExcludeApp_Data>
+    <ProjectGuid>${guid}</ProjectGuid>
+    <SelfContained>false</SelfContained>
+    <PublishUrl>${this.escapeXml(data.publishUrl)}</PublishUrl>
+    <UserName>${this.escapeXml(data.username)}</UserName>${authType}${this.renderRetryProperties(data)}${this.renderHealthCheckProperties(data)}
+    <_SavePWD>true</_SavePWD>
+    <_TargetId>AzureWebApp</_TargetId>
+    <EnvironmentName>${envName}</EnvironmentName>
+    <TargetFramework>${targetFramework}</TargetFramework>
+  </PropertyGroup>
+</Project>
+`;
+	}
+
+	/**
+	 * Linux host over SSH - the toolkit publishes locally, then uploads with rsync or SFTP
+	 */
+	private generateSsh(data: ProfileWizardData, targetFramework: string): string {
+		const guid = GuidGenerator.generate();
+		const envName = this.mapEnvironmentName(data.environment);
+		const optional = [
+			data.sshPrivateKeyPath &&
+				`<SshPrivateKeyPath>${this.escapeXml(data.sshPrivateKeyPath)}</SshPrivateKeyPath>`,
+			data.sshPreCommand &&
+				`<SshPreDeployCommand>${this.escapeXml(data.sshPreCommand)}</SshPreDeployCommand>`,
+			data.sshPostCommand &&
+				`<SshPostDeployCommand>${this.escapeXml(data.sshPostCommand)}</SshPostDeployCommand>`,
+		]
+			.filter(Boolean)
+			.map((line) => `\n    ${line}`)
+			.join('');
+
+		return `<?xml version="1.0" encoding="utf-8"?>
+<!-- https://go.microsoft.com/fwlink/?LinkID=208121. -->
+<Project>
+  <PropertyGroup>
+    <WebPublishMethod>${SSH_PUBLISH_METHOD}</WebPublishMethod>
+    <LaunchSiteAfterPublish>${data.openBrowserOnDeploy !== false}</LaunchSiteAfterPublish>
+    <LastUsedBuildConfiguration>Release</LastUsedBuildConfiguration>
+    <LastUsedPlatform>Any CPU</LastUsedPlatform>
+    <SiteUrlToLaunchAfterPublish>${this.escapeXml(data.siteUrl || '')}</SiteUrlToLaunchAfterPublish>
+    <ExcludeApp_Data>false</ExcludeApp_Data>
+    <ProjectGuid>${guid}</ProjectGuid>
+    <SelfContained>false</SelfContained>
+    <PublishUrl>${this.escapeXml(data.publishUrl)}</PublishUrl>
+    <UserName>${this.escapeXml(data.username)}</UserName>
+    <SshRemotePath>${this.escapeXml(data.sshRemotePath || '')}</SshRemotePath>
+    <SshAuthType>${data.sshAuthType === 'key' ? 'Key' : 'Password'}</SshAuthType>
+    <SshTransfer>${data.sshTransfer === 'sftp' ? 'Sftp' : 'Rsync'}</SshTransfer>${optional}
+    <DeleteExistingFiles>${data.deleteExistingFiles === true}</DeleteExistingFiles>${this.renderRetryProperties(data)}${this.renderHealthCheckProperties(data)}
+    <EnvironmentName>${envName}</EnvironmentName>
+    <TargetFramework>${targetFramework}</TargetFramework>
+  </PropertyGroup>
+</Project>
+`;
+	}
+
+	/**
+	 * Container image - WebPublishMethod Container is the toolkit's own marker (the deploy runs
+	 * /t:PublishContainer itself); the toolkit resolves the {placeholders} in ContainerImageTags
+	 * and passes the real tags at deploy time
+	 */
+	private generateContainer(data: ProfileWizardData, targetFramework: string): string {
+		const guid = GuidGenerator.generate();
+		const envName = this.mapEnvironmentName(data.environment);
+		const isDockerfile = data.containerBuildMode === 'dockerfile';
+		const optional = [
+			data.containerRegistry &&
+				`<ContainerRegistry>${this.escapeXml(data.containerRegistry)}</ContainerRegistry>`,
+			data.containerRegistry &&
+				data.username &&
+				`<UserName>${this.escapeXml(data.username)}</UserName>`,
+			isDockerfile &&
+				data.dockerfilePath &&
+				`<DockerfilePath>${this.escapeXml(data.dockerfilePath)}</DockerfilePath>`,
+			isDockerfile &&
+				data.dockerfileContext &&
+				`<DockerfileContext>${this.escapeXml(data.dockerfileContext)}</DockerfileContext>`,
+		]
+			.filter(Boolean)
+			.map((line) => `\n    ${line}`)
+			.join('');
+
+		return `<?xml version="1.0" encoding="utf-8"?>
+<!-- https://go.microsoft.com/fwlink/?LinkID=208121. -->
+<Project>
+  <PropertyGroup>
+    <WebPublishMethod>${CONTAINER_PUBLISH_METHOD}</WebPublishMethod>
+    <LaunchSiteAfterPublish>${data.openBrowserOnDeploy === true}</LaunchSiteAfterPublish>
+    <LastUsedBuildConfiguration>Release</LastUsedBuildConfiguration>
+    <LastUsedPlatform>Any CPU</LastUsedPlatform>
+    <SiteUrlToLaunchAfterPublish>${this.escapeXml(data.siteUrl || '')}</SiteUrlToLaunchAfterPublish>
+    <ProjectGuid>${guid}</ProjectGuid>${optional}
+    <ContainerRepository>${this.escapeXml(data.containerRepository || '')}</ContainerRepository>
+    <ContainerImageTags>${this.escapeXml(data.containerImageTags || DEFAULT_CONTAINER_TAG_TEMPLATE)}</ContainerImageTags>
+    <ContainerBuildMode>${isDockerfile ? 'Dockerfile' : 'Sdk'}</ContainerBuildMode>${this.renderRetryProperties(data)}${this.renderHealthCheckProperties(data)}
+    <EnvironmentName>${envName}</EnvironmentName>
+    <TargetFramework>${targetFramework}</TargetFramework>
+  </PropertyGroup>
+</Project>
+`;
+	}
+
+	/**
+	 * Free text (paths, URLs, user names, shell commands) may contain &, < or >
+	 */
+	private escapeXml(value: string): string {
+		return value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+	}
+
+	/**
+	 * Toolkit retry settings - only written when retry is enabled
+	 */
+	private renderRetryProperties(data: ProfileWizardData): string {
+		if (!data.retryMaxAttempts || data.retryMaxAttempts <= 1) {
+			return '';
+		}
+
+		const lines = [`<DeployRetryMaxAttempts>${data.retryMaxAttempts}</DeployRetryMaxAttempts>`];
+		if (data.retryBackoffMs !== undefined) {
+			lines.push(`<DeployRetryBackoffMs>${data.retryBackoffMs}</DeployRetryBackoffMs>`);
+		}
+		if (data.retryOn && data.retryOn.length > 0) {
+			lines.push(`<DeployRetryOn>${data.retryOn.join(';')}</DeployRetryOn>`);
+		}
+
+		return lines.map((line) => `\n    ${line}`).join('');
+	}
+
+	/**
+	 * Toolkit health check settings - only written when endpoints are configured
+	 */
+	private renderHealthCheckProperties(data: ProfileWizardData): string {
+		if (!data.healthCheckUrls || data.healthCheckUrls.length === 0) {
+			return '';
+		}
+
+		const lines = [
+			`<HealthCheckUrls>${this.escapeXml(data.healthCheckUrls.join(';'))}</HealthCheckUrls>`,
+		];
+		if (data.healthCheckExpectedStatus && data.healthCheckExpectedStatus.length > 0) {
+			lines.push(
+				`<HealthCheckExpectedStatus>${data.healthCheckExpectedStatus.join(';')}</HealthCheckExpectedStatus>`
+			);
+		}
+		if (data.healthCheckBodyPattern) {
+			lines.push(
+				`<HealthCheckBodyPattern>${this.escapeXml(data.healthCheckBodyPattern)}</HealthCheckBodyPattern>`
+			);
+		}
+		if (data.healthCheckTimeoutMs !== undefined) {
+			lines.push(`<HealthCheckTimeoutMs>${data.healthCheckTimeoutMs}</HealthCheckTimeoutMs>`);
+		}
+		if (data.healthCheckRetries !== undefined) {
+			lines.push(`<HealthCheckRetries>${data.healthCheckRetries}</HealthCheckRetries>`);
+		}
+		if (data.healthCheckRetryDelayMs !== undefined) {
+			lines.push(
+				`<HealthCheckRetryDelayMs>${data.healthCheckRetryDelayMs}</HealthCheckRetryDelayMs>`
+			);
+		}
+
+		return lines.map((line) => `\n    ${line}`).join('');
+	}
+
 	private mapEnvironmentName(environment: DeployEnvironment): string {
 		switch (environment) {
 			case DeployEnvironment.Production:
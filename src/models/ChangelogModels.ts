@@ -0,0 +1,47 @@
+/**
+ * Models for the changelog between deployments
+ */
+
+/**
+ * One end of a changelog range
+ */
+export interface ChangelogEndpoint {
+	/** Commit SHA, or HEAD for the current code */
+	ref: string;
+
+	/** Shown in the panel, e.g. "production-api deployed 12/03/2026, 14:02" */
+	label: string;
+
+	/** The deployed build had uncommitted changes the commits do not show */
+	dirty?: boolean;
+}
+
+/**
+ * Commits between two deployments, or between a deployment and HEAD
+ */
+export interface ChangelogRange {
+	/** Repository (or folder inside it) the commits are read from */
+	repoDir: string;
+
+	/** Older end */
+	from: ChangelogEndpoint;
+
+	/** Newer end */
+	to: ChangelogEndpoint;
+}
+
+export interface ChangelogCommit {
+	sha: string;
+	shortSha: string;
+	author: string;
+	/** ISO 8601 author date */
+	date: string;
+	subject: string;
+}
+
+export interface Changelog {
+	range: ChangelogRange;
+	commits: ChangelogCommit[];
+	/** Set when git could not list the range (e.g. the deployed commit was rebased away) */
+	errorMessage?: string;
+}
@@ -0,0 +1,72 @@
+/**
+ * Model definitions for workspace deployment policies (.dotnet-toolkit/policies.json)
+ */
+
+/**
+ * A period in which deployments are not allowed
+ * Recurring windows use days/start/end; one-off freezes use from/until
+ */
+export interface BlockedWindow {
+	/** Shown when a deployment is blocked, e.g. "No Friday afternoon deploys" */
+	reason?: string;
+
+	/** Weekdays the window repeats on ("mon".."sun"); every day when omitted */
+	days?: string[];
+
+	/** Start time "HH:mm"; from midnight when omitted */
+	start?: string;
+
+	/** End time "HH:mm" (exclusive); until midnight when omitted */
+	end?: string;
+
+	/** Freeze start, ISO date or date-time (a date alone means the start of that day) */
+	from?: string;
+
+	/** Freeze end, ISO date or date-time (a date alone includes that whole day) */
+	until?: string;
+
+	/** IANA time zone for days/start/end and date-only values (e.g. "Europe/Berlin"); local time when omitted */
+	timeZone?: string;
+}
+
+/**
+ * Rules for one environment
+ */
+export interface EnvironmentPolicy {
+	blockedWindows?: BlockedWindow[];
+
+	/** Branch (or branches, * wildcards allowed) the deployment must come from */
+	requiredBranch?: string | string[];
+
+	/** The same commit must have been deployed to staging successfully first */
+	requireStagingDeploy?: boolean;
+
+	/** The profile name must be typed out to confirm */
+	requireTypedConfirmation?: boolean;
+}
+
+/**
+ * Contents of .dotnet-toolkit/policies.json
+ */
+export interface DeployPolicyFile {
+	/** Keyed by environment: dev, staging or production */
+	environments?: Record<string, EnvironmentPolicy>;
+}
+
+export type PolicyRule = 'blockedWindow' | 'requiredBranch' | 'requireStagingDeploy' | 'policyFile';
+
+export interface PolicyViolation {
+	rule: PolicyRule;
+	message: string;
+}
+
+/**
+ * Result of checking a deployment against the policy file
+ */
+export interface PolicyEvaluation {
+	/** Deployment may not run while this is non-empty */
+	violations: PolicyViolation[];
+
+	/** Ask for the profile name before deploying */
+	requireTypedConfirmation: boolean;
+}
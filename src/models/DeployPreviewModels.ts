@@ -0,0 +1,33 @@
+/**
+ * Model definitions for deployment previews (dry runs)
+ */
+
+export type PreviewChangeKind = 'added' | 'updated' | 'deleted';
+
+export interface DeployPreviewChange {
+	kind: PreviewChangeKind;
+
+	/** Path relative to the deployment target */
+	path: string;
+
+	isDirectory: boolean;
+
+	/** Locally published file (for diffs) */
+	localPath?: string;
+
+	/** Current file on the target, when it is reachable from this machine */
+	targetPath?: string;
+}
+
+export interface DeployPreviewResult {
+	success: boolean;
+	cancelled?: boolean;
+	errorMessage?: string;
+
+	/** Human readable target (site or folder) */
+	target: string;
+
+	changes: DeployPreviewChange[];
+
+	output: string;
+}
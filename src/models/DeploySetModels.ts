@@ -0,0 +1,23 @@
+/**
+ * Model definitions for deploy sets (named multi-profile batch deployments)
+ */
+
+export type DeploySetMode = 'sequential' | 'parallel';
+
+export interface DeploySetEntry {
+	/** Project name as shown in the Publish view */
+	projectName: string;
+
+	/** Publish profile file name (without .pubxml) */
+	profileName: string;
+}
+
+export interface DeploySet {
+	id: string;
+	name: string;
+
+	/** Sequential runs stop at the first failure; parallel runs deploy everything at once */
+	mode: DeploySetMode;
+
+	entries: DeploySetEntry[];
+}
@@ -1,15 +1,107 @@
 import * as vscode from 'vscode';
+import { KnownErrorMatch } from './KnownErrorModels';
+import { PreDeployGateOutcome } from './PreDeployGateModels';
+import { HealthCheckOutcome } from './HealthCheckModels';
+
+/**
+ * unhealthy: the deployment itself succeeded but the post-deployment health checks failed
+ */
+export type DeploymentStatus = 'success' | 'unhealthy' | 'failed' | 'cancelled' | 'in-progress';
+
+/**
+ * What a history record describes (records without a type are deployments)
+ */
+export type DeploymentType = 'deploy' | 'rollback';
+
+/**
+ * How a rollback restored the earlier build
+ * - server-backup: Web Deploy restored the backup the server took before the last sync
+ * - package: the build zip retained for the earlier record was uploaded again
+ */
+export type RollbackSource = 'server-backup' | 'package';
+
+/**
+ * Structured MSBuild / Web Deploy diagnostic extracted from deployment output
+ */
+export interface DeploymentDiagnostic {
+	severity: 'error' | 'warning';
+	code?: string; // e.g. CS1002, MSB3021, ERROR_USER_UNAUTHORIZED
+	message: string;
+	file?: string;
+	line?: number;
+	column?: number;
+	project?: string;
+}
+
+/**
+ * Versioned zip produced by a zip artifact profile
+ */
+export interface DeploymentArtifact {
+	path: string; // Absolute path to the .zip
+	sha256: string; // Hex digest of the .zip
+	size: number; // Bytes
+	commit?: string; // Short git commit the artifact was built from ("-dirty" with local changes)
+}
+
+/**
+ * One remote step of an SSH deployment
+ */
+export interface RemoteStepResult {
+	name: 'pre-command' | 'upload' | 'post-command';
+	exitCode: number;
+	duration: number; // milliseconds
+}
+
+/**
+ * Container image pushed by a container profile
+ */
+export interface ContainerImageInfo {
+	repository: string; // Full image name including the registry (e.g. localhost:5000/my-api)
+	tags: string[]; // Resolved tags that were pushed
+	digest?: string; // Manifest digest (sha256:...), when the build reported one
+}
+
+/**
+ * Source control state of the code that was deployed
+ */
+export interface GitCommitInfo {
+	branch?: string; // Undefined on a detached HEAD
+	commit: string; // Full SHA of HEAD
+	message: string; // Commit subject line
+	author: string;
+	dirty: boolean; // Tracked files had uncommitted changes
+}
 
 export interface DeploymentRecord {
 	id: string;
 	profileName: string;
 	projectName: string;
 	environment: string;
-	status: 'success' | 'failed' | 'in-progress';
+	status: DeploymentStatus;
 	startTime: string; // ISO string
 	endTime?: string; // ISO string
 	duration?: number; // milliseconds
 	errorMessage?: string;
+	logFile?: string; // Log file name, relative to the history storage folder
+	diagnostics?: DeploymentDiagnostic[];
+	knownError?: KnownErrorMatch; // Matched entry from the known error knowledge base
+	attempts?: number; // Number of attempts when automatic retry kicked in
+	preDeployGate?: PreDeployGateOutcome; // Build-and-test gate result (when enabled)
+	batchId?: string; // Shared by all records of one deploy set run
+	batchName?: string; // Deploy set name for display
+	artifact?: DeploymentArtifact; // Zip produced by a zip artifact profile
+	kuduDeploymentId?: string; // Kudu deployment id (App Service zip deploy)
+	remoteSteps?: RemoteStepResult[]; // SSH deployment steps, in order
+	image?: ContainerImageInfo; // Image pushed by a container profile
+	type?: DeploymentType; // Undefined for records written before rollbacks existed
+	rollbackOf?: string; // Id of the record a rollback restored
+	rollbackSource?: RollbackSource;
+	packageFile?: string; // Retained build zip, relative to the history storage folder
+	redeployOf?: string; // Id of the record a redeploy repeated
+	profileTarget?: string; // Profile method + destination, to find a renamed .pubxml
+	git?: GitCommitInfo; // Undefined outside a git repository and for rollbacks
+	healthCheck?: HealthCheckOutcome; // Post-deployment health checks (when the profile has any)
+	user?: string; // Who deployed (git user.name, or the OS account)
 }
 
 export class DeploymentRecordHelper {
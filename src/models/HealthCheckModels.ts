@@ -0,0 +1,36 @@
+/**
+ * Model definitions for post-deployment health checks
+ */
+
+export type HealthCheckStatus = 'healthy' | 'unhealthy' | 'cancelled';
+
+export interface HealthCheckEndpointResult {
+	/** Absolute URL that was probed */
+	url: string;
+
+	healthy: boolean;
+
+	/** Status code of the last response (undefined when nothing answered) */
+	statusCode?: number;
+
+	/** Why the last attempt failed */
+	error?: string;
+
+	/** Attempts made, including the one that passed */
+	attempts: number;
+
+	/** Milliseconds the last attempt took */
+	duration: number;
+}
+
+export interface HealthCheckOutcome {
+	status: HealthCheckStatus;
+
+	/** One-line description shown in history */
+	summary: string;
+
+	endpoints: HealthCheckEndpointResult[];
+
+	/** Milliseconds spent on all endpoints */
+	duration: number;
+}
@@ -0,0 +1,37 @@
+/**
+ * Model definitions for deployment history retention
+ */
+
+/** Limits for one project; unset fields fall back to the global policy */
+export interface ProjectRetentionRule {
+	/** Most recent records kept for the project (0 = no project limit) */
+	maxEntries?: number;
+
+	/** Records older than this many days are pruned (0 = keep regardless of age) */
+	maxAgeDays?: number;
+}
+
+/**
+ * dotnetToolkit.history.retention.* settings
+ * In-progress records are never pruned
+ */
+export interface HistoryRetentionPolicy {
+	/** Most recent records kept across all projects (0 = no limit) */
+	maxEntries: number;
+
+	/** Records older than this many days are pruned (0 = keep regardless of age) */
+	maxAgeDays: number;
+
+	/** Per project name overrides */
+	projects: Record<string, ProjectRetentionRule>;
+
+	/** Move pruned records to compressed monthly archives instead of deleting them */
+	archive: boolean;
+}
+
+export const DEFAULT_HISTORY_RETENTION: HistoryRetentionPolicy = {
+	maxEntries: 50,
+	maxAgeDays: 0,
+	projects: {},
+	archive: true,
+};
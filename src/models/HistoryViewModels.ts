@@ -0,0 +1,162 @@
+/**
+ * Model definitions for filtering and grouping the History view
+ */
+import { DeploymentRecord, DeploymentStatus } from './DeploymentRecord';
+
+/** How the History view groups records (flat lists them newest first) */
+export type HistoryGroupMode = 'project' | 'environment' | 'profile' | 'day' | 'flat';
+
+/**
+ * Active History view filter; unset fields match every record
+ */
+export interface HistoryFilter {
+	project?: string;
+	profile?: string;
+	/** Compared case-insensitively (records store DEV, STAGING, PRODUCTION) */
+	environment?: string;
+	statuses?: DeploymentStatus[];
+	user?: string;
+	/** Local dates (YYYY-MM-DD), both inclusive */
+	from?: string;
+	until?: string;
+	/** Case-insensitive text searched in error messages and health check results */
+	text?: string;
+}
+
+/** Filter and grouping persisted per workspace */
+export interface HistoryViewState {
+	filter: HistoryFilter;
+	groupBy: HistoryGroupMode;
+}
+
+export const DEFAULT_HISTORY_VIEW_STATE: HistoryViewState = { filter: {}, groupBy: 'project' };
+
+export class HistoryFilterHelper {
+	/**
+	 * Whether any filter field is set
+	 */
+	static isActive(filter: HistoryFilter): boolean {
+		return (
+			!!filter.project ||
+			!!filter.profile ||
+			!!filter.environment ||
+			!!filter.statuses?.length ||
+			!!filter.user ||
+			!!filter.from ||
+			!!filter.until ||
+			!!filter.text
+		);
+	}
+
+	/**
+	 * Records matching every set field, in their original order
+	 */
+	static apply(records: DeploymentRecord[], filter: HistoryFilter): DeploymentRecord[] {
+		if (!HistoryFilterHelper.isActive(filter)) {
+			return records;
+		}
+
+		const from = filter.from ? HistoryFilterHelper.parseDate(filter.from) : undefined;
+		const until = filter.until ? HistoryFilterHelper.parseDate(filter.until) : undefined;
+		// Until is inclusive: everything before the next day
+		until?.setDate(until.getDate() + 1);
+		const text = filter.text?.toLowerCase();
+
+		return records.filter((r) => {
+			if (filter.project && r.projectName !== filter.project) {
+				return false;
+			}
+			if (filter.profile && r.profileName !== filter.profile) {
+				return false;
+			}
+			if (
+				filter.environment &&
+				r.environment.toLowerCase() !== filter.environment.toLowerCase()
+			) {
+				return false;
+			}
+			if (filter.statuses?.length && !filter.statuses.includes(r.status)) {
+				return false;
+			}
+			if (filter.user && r.user !== filter.user) {
+				return false;
+			}
+
+			const startTime = new Date(r.startTime).getTime();
+			if (from && startTime < from.getTime()) {
+				return false;
+			}
+			if (until && startTime >= until.getTime()) {
+				return false;
+			}
+
+			if (text) {
+				const searched = [
+					r.errorMessage,
+					r.healthCheck?.summary,
+					r.knownError?.title,
+					...(r.diagnostics || []).map((d) => `${d.code ?? ''} ${d.message}`),
+				];
+				if (!searched.some((s) => s?.toLowerCase().includes(text))) {
+					return false;
+				}
+			}
+			return true;
+		});
+	}
+
+	/**
+	 * Short summary of the set fields, e.g. "STAGING · failed · since 2024-05-01"
+	 */
+	static describe(filter: HistoryFilter): string {
+		const parts: string[] = [];
+		if (filter.project) {
+			parts.push(filter.project);
+		}
+		if (filter.profile) {
+			parts.push(filter.profile);
+		}
+		if (filter.environment) {
+			parts.push(filter.environment.toUpperCase());
+		}
+		if (filter.statuses?.length) {
+			parts.push(filter.statuses.join(', '));
+		}
+		if (filter.user) {
+			parts.push(`by ${filter.user}`);
+		}
+		if (filter.from && filter.until) {
+			parts.push(`${filter.from} to ${filter.until}`);
+		} else if (filter.from) {
+			parts.push(`since ${filter.from}`);
+		} else if (filter.until) {
+			parts.push(`until ${filter.until}`);
+		}
+		if (filter.text) {
+			parts.push(`"${filter.text}"`);
+		}
+		return parts.join(' · ');
+	}
+
+	/**
+	 * Parse YYYY-MM-DD as a local date (undefined when invalid)
+	 */
+	static parseDate(value: string): Date | undefined {
+		const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(value.trim());
+		if (!match) {
+			return undefined;
+		}
+		const date = new Date(Number(match[1]), Number(match[2]) - 1, Number(match[3]));
+		return date.getMonth() === Number(match[2]) - 1 ? date : undefined;
+	}
+
+	/**
+	 * Local date of a timestamp as YYYY-MM-DD
+	 */
+	static toDateKey(isoString: string): string {
+		const date = new Date(isoString);
+		const month = String(date.getMonth() + 1).padStart(2, '0');
+		const day = String(date.getDate()).padStart(2, '0');
+		return `${date.getFullYear()}-${month}-${day}`;
+	}
+}
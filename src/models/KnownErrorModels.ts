@@ -0,0 +1,44 @@
+/**
+ * Model definitions for the known deployment error knowledge base
+ */
+
+export type RemediationActionKind = 'reenterCredentials' | 'retryWithAppOffline' | 'openDocs';
+
+export interface RemediationAction {
+	/** What the action does when chosen */
+	kind: RemediationActionKind;
+
+	/** Button label shown to the user */
+	label: string;
+
+	/** Documentation link (for openDocs) */
+	url?: string;
+}
+
+export interface KnownErrorRule {
+	/** Stable identifier, also used as the error class (e.g. "file-in-use") */
+	id: string;
+
+	/** Patterns tested against the deployment output and diagnostic codes */
+	patterns: RegExp[];
+
+	/** Short human readable summary */
+	title: string;
+
+	/** What usually causes this error and how to fix it */
+	explanation: string;
+
+	/** Actions offered to the user */
+	actions: RemediationAction[];
+}
+
+/**
+ * Result of matching a failed deployment against the rule table
+ * Stored on the history record so it can be shown later without the rules
+ */
+export interface KnownErrorMatch {
+	ruleId: string;
+	title: string;
+	explanation: string;
+	actions: RemediationAction[];
+}
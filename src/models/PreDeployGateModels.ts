@@ -0,0 +1,39 @@
+/**
+ * Model definitions for the pre-deployment build-and-test gate
+ */
+
+export interface PreDeployGateSettings {
+	/** Run the gate before every deployment */
+	enabled: boolean;
+
+	/** Also run dotnet test after a successful build */
+	runTests: boolean;
+
+	/** Test projects to run (relative to the workspace root); empty means the whole solution */
+	testProjects: string[];
+}
+
+export type PreDeployGateStatus = 'passed' | 'failed' | 'overridden' | 'cancelled';
+
+export interface TestRunSummary {
+	passed: number;
+	failed: number;
+	skipped: number;
+	total: number;
+}
+
+export interface PreDeployGateOutcome {
+	status: PreDeployGateStatus;
+
+	/** Stage that failed (when status is failed or overridden) */
+	failedStage?: 'build' | 'test';
+
+	/** One-line description shown in history */
+	summary: string;
+
+	/** Aggregated dotnet test counts, when tests ran */
+	tests?: TestRunSummary;
+
+	/** Milliseconds spent in the gate */
+	duration: number;
+}
@@ -9,6 +9,177 @@ export enum DeployEnvironment {
 	Unknown = 'unknown',
 }
 
+/**
+ * Automatic retry settings for transient deployment failures
+ */
+export interface DeployRetryOptions {
+	/** Total number of attempts including the first one */
+	maxAttempts: number;
+
+	/** Delay before the first retry, doubled for each following retry */
+	backoffMs: number;
+
+	/** Known error classes (knowledge base rule ids) that are worth retrying */
+	retryOn: string[];
+}
+
+/** Error classes retried when a profile enables retry without listing any */
+export const DEFAULT_RETRYABLE_ERRORS = ['file-in-use', 'connection-reset'];
+
+/**
+ * Post-deployment health check settings
+ */
+export interface HealthCheckSettings {
+	/** Endpoints to probe; paths such as /health are resolved against the site URL */
+	urls: string[];
+
+	/** Status codes that count as healthy */
+	expectedStatus: number[];
+
+	/** Regular expression the response body must match (optional) */
+	bodyPattern?: string;
+
+	/** Milliseconds to wait for each response */
+	timeoutMs: number;
+
+	/** Further attempts per endpoint after a failed one (the app may still be starting) */
+	retries: number;
+
+	/** Delay between attempts */
+	retryDelayMs: number;
+}
+
+/** Health check settings a profile does not specify */
+export const DEFAULT_HEALTH_CHECK: Omit<HealthCheckSettings, 'urls' | 'bodyPattern'> = {
+	expectedStatus: [200],
+	timeoutMs: 10000,
+	retries: 5,
+	retryDelayMs: 5000,
+};
+
+/** WebPublishMethod values for local/network folder publishing ("Folder" in Visual Studio) */
+const FILE_SYSTEM_PUBLISH_METHODS = ['filesystem', 'folder'];
+
+/**
+ * Whether a profile publishes to a folder (no server, no credentials)
+ */
+export function isFileSystemPublishMethod(publishMethod?: string): boolean {
+	return !!publishMethod && FILE_SYSTEM_PUBLISH_METHODS.includes(publishMethod.toLowerCase());
+}
+
+/**
+ * Whether a profile syncs to IIS through Web Deploy (App Service profiles are zip deployed instead)
+ */
+export function isMsDeployProfile(
+	profile: Pick<PublishProfileInfo, 'publishMethod' | 'targetId'>
+): boolean {
+	return profile.publishMethod?.toLowerCase() === 'msdeploy' && !isAzureWebAppProfile(profile);
+}
+
+/** Toolkit-specific WebPublishMethod: local publish packaged as a versioned .zip */
+export const ZIP_ARTIFACT_PUBLISH_METHOD = 'ZipArtifact';
+
+/**
+ * Whether a profile produces a zip artifact instead of pushing to a server
+ */
+export function isZipArtifactPublishMethod(publishMethod?: string): boolean {
+	return publishMethod?.toLowerCase() === ZIP_ARTIFACT_PUBLISH_METHOD.toLowerCase();
+}
+
+/** WebPublishMethod Visual Studio writes for App Service zip deploy profiles */
+export const ZIP_DEPLOY_PUBLISH_METHOD = 'ZipDeploy';
+
+/** _TargetId of Visual Studio "Azure App Service" profiles */
+const AZURE_WEB_APP_TARGET_ID = 'azurewebapp';
+
+/**
+ * Whether a profile deploys to Azure App Service through Kudu zipdeploy
+ * (any profile targeting an App Service, whatever WebPublishMethod it names)
+ */
+export function isAzureWebAppProfile(
+	profile: Pick<PublishProfileInfo, 'publishMethod' | 'targetId'>
+): boolean {
+	return (
+		profile.targetId?.toLowerCase() === AZURE_WEB_APP_TARGET_ID ||
+		profile.publishMethod?.toLowerCase() === ZIP_DEPLOY_PUBLISH_METHOD.toLowerCase()
+	);
+}
+
+/** Kudu authentication: publishing credentials (basic) or a bearer token */
+export type KuduAuthType = 'basic' | 'token';
+
+/** Toolkit-specific WebPublishMethod: upload to a Linux host over SSH */
+export const SSH_PUBLISH_METHOD = 'SSH';
+
+/**
+ * Whether a profile uploads to a Linux host over SSH
+ */
+export function isSshPublishMethod(publishMethod?: string): boolean {
+	return publishMethod?.toLowerCase() === SSH_PUBLISH_METHOD.toLowerCase();
+}
+
+/**
+ * SSH publish settings (PublishUrl holds host[:port], UserName the login)
+ */
+export interface SshPublishSettings {
+	/** Folder on the host that receives the publish output */
+	remotePath: string;
+
+	/** Stored secret is the login password, or the passphrase of privateKeyPath */
+	authType: 'password' | 'key';
+
+	/** Private key file (key auth; agent/default keys are used when empty) */
+	privateKeyPath?: string;
+
+	/** rsync over SSH, or SFTP (scp -s, which needs OpenSSH 8.7+ locally) */
+	transfer: 'rsync' | 'sftp';
+
+	/** Remote shell command run before uploading (e.g. systemctl stop myapp) */
+	preCommand?: string;
+
+	/** Remote shell command run after uploading (e.g. systemctl restart myapp) */
+	postCommand?: string;
+}
+
+/** Toolkit-specific WebPublishMethod: build a container image and push it to a registry */
+export const CONTAINER_PUBLISH_METHOD = 'Container';
+
+/**
+ * Whether a profile builds and pushes a container image
+ */
+export function isContainerPublishMethod(publishMethod?: string): boolean {
+	return publishMethod?.toLowerCase() === CONTAINER_PUBLISH_METHOD.toLowerCase();
+}
+
+/** Tag used when a container profile has no ContainerImageTags */
+export const DEFAULT_CONTAINER_TAG_TEMPLATE = '{commit};latest';
+
+/**
+ * Container publish settings (UserName and the stored password log in to the registry, if set)
+ */
+export interface ContainerPublishSettings {
+	/** Registry host (e.g. myregistry.azurecr.io, localhost:5000); empty = local Docker daemon */
+	registry?: string;
+
+	/** Image name within the registry (e.g. contoso/my-api) */
+	repository: string;
+
+	/**
+	 * ';'-separated tag templates; {commit}, {branch}, {timestamp}, {profile}
+	 * and {environment} are replaced at deploy time
+	 */
+	tagTemplate: string;
+
+	/** .NET SDK container support (dotnet publish /t:PublishContainer), or docker build */
+	build: 'sdk' | 'dockerfile';
+
+	/** Dockerfile to build, relative to the project folder (default Dockerfile) */
+	dockerfilePath?: string;
+
+	/** docker build context, relative to the project folder (default the project folder) */
+	dockerfileContext?: string;
+}
+
 export interface PublishProfileInfo {
 	/** Display name for the profile (e.g., "uat-api [UAT]") */
 	name: string;
@@ -25,11 +196,23 @@ export interface PublishProfileInfo {
 	/** Whether this is a production profile */
 	isProduction: boolean;
 
-	/** Publish URL from the profile (optional) */
+	/** Publish URL from the profile (optional); target/artifact folder for FileSystem/ZipArtifact */
 	publishUrl?: string;
 
 	/** Web deploy method (e.g., MSDeploy) */
-	publishMethod?: string; // MSDeploy, FileSystem, etc
+	publishMethod?: string; // MSDeploy, FileSystem, ZipArtifact, ZipDeploy, SSH, Container, etc
+
+	/** Visual Studio publish target (_TargetId, e.g., IISWebDeploy, Folder, AzureWebApp) */
+	targetId?: string;
+
+	/** App Service zip deploy: how the stored secret is sent to Kudu (default basic) */
+	kuduAuthType?: KuduAuthType;
+
+	/** SSH publish settings (undefined for other methods) */
+	ssh?: SshPublishSettings;
+
+	/** Container publish settings (undefined for other methods) */
+	container?: ContainerPublishSettings;
 
 	/** IIS Site Name (for MSDeploy) */
 	siteName?: string;
@@ -43,11 +226,46 @@ export interface PublishProfileInfo {
 	/** Whether to open browser after deployment */
 	openBrowserOnDeploy?: boolean;
 
+	/** Whether MSDeploy takes the app offline (app_offline.htm) while deploying */
+	enableAppOffline?: boolean;
+
+	/** Whether Web Deploy asks the server to back up the site before each sync (EnableMSDeployBackup) */
+	enableMsDeployBackup?: boolean;
+
+	/** Whether files that only exist on the server are kept (false = they are deleted) */
+	skipExtraFilesOnServer?: boolean;
+
+	/** FileSystem publish: whether the target folder is emptied first */
+	deleteExistingFiles?: boolean;
+
 	/** Whether to enable stdout logging in web.config after deployment */
 	enableStdoutLog?: boolean;
 
 	/** Custom path to IIS stdout logs (e.g., D:\www\site\logs\stdout) */
 	logPath?: string;
+
+	/** Automatic retry settings (undefined = single attempt) */
+	retry?: DeployRetryOptions;
+
+	/** Endpoints checked after a successful deployment (undefined = no checks) */
+	healthCheck?: HealthCheckSettings;
+}
+
+/**
+ * Where a profile deploys to (method and destination), independent of its file name
+ * Lets history records find their profile again after the .pubxml was renamed
+ */
+export function getProfileTarget(profile: PublishProfileInfo): string {
+	return [
+		profile.publishMethod,
+		profile.publishUrl,
+		profile.siteName,
+		profile.ssh?.remotePath,
+		profile.container?.registry,
+		profile.container?.repository,
+	]
+		.map((part) => (part ?? '').trim().toLowerCase())
+		.join('|');
 }
 
 export interface ProjectInfo {
@@ -0,0 +1,45 @@
+/**
+ * Model definitions for deployment notifications to chat webhooks
+ */
+
+/** Payload format the webhook expects */
+export type WebhookKind = 'slack' | 'teams' | 'discord' | 'generic';
+
+/** Deployment moments a webhook can be notified of */
+export type WebhookEvent = 'start' | 'success' | 'failure' | 'cancelled';
+
+/**
+ * One entry of dotnetToolkit.notifications.webhooks
+ * The URL is a secret and lives in password storage, keyed by name
+ */
+export interface WebhookSettings {
+	name: string;
+	type: WebhookKind;
+
+	/** Environments that trigger the webhook (dev, staging, production) */
+	environments: string[];
+
+	events: WebhookEvent[];
+
+	/** Message template replacing the default wording for every event */
+	template?: string;
+}
+
+/** Environments notified when a webhook does not list any */
+export const DEFAULT_WEBHOOK_ENVIRONMENTS = ['staging', 'production'];
+
+/** Events notified when a webhook does not list any */
+export const DEFAULT_WEBHOOK_EVENTS: WebhookEvent[] = ['start', 'success', 'failure', 'cancelled'];
+
+/**
+ * Default message per event; {placeholders} are filled from the history record
+ */
+export const DEFAULT_WEBHOOK_TEMPLATES: Record<WebhookEvent, string> = {
+	start: '🚀 {user} started deploying {project} ({profile}) to {environment} from {commit}',
+	success:
+		'✅ {project} ({profile}) deployed to {environment} by {user} in {duration} ({commit})',
+	failure:
+		'❌ Deployment of {project} ({profile}) to {environment} by {user} {result} after {duration}: {error}',
+	cancelled:
+		'⏹️ Deployment of {project} ({profile}) to {environment} by {user} was cancelled after {duration}',
+};
@@ -0,0 +1,86 @@
+import * as path from 'path';
+import { DeploymentDiagnostic } from '../models/DeploymentRecord';
+
+/**
+ * MSBuild Diagnostic Parser Interface
+ * Extracts structured diagnostics from dotnet publish / Web Deploy output
+ */
+export interface IMsBuildDiagnosticParser {
+	/**
+	 * Parse build output into a de-duplicated list of diagnostics
+	 * @param output Raw process output
+	 * @param baseDir Directory used to resolve relative file paths
+	 */
+	parse(output: string, baseDir?: string): DeploymentDiagnostic[];
+}
+
+/**
+ * MSBuild Diagnostic Parser Implementation
+ * Understands the canonical MSBuild message format:
+ *   origin(line,col[,endLine,endCol]): error|warning CODE: message [project]
+ * where origin is either a file path or a tool name (MSBUILD, CSC, ...)
+ */
+export class MsBuildDiagnosticParser implements IMsBuildDiagnosticParser {
+	private static readonly LINE_PATTERN =
+		/^\s*(.*?)(?:\((\d+)(?:,(\d+))?(?:,\d+,\d+)?\))?\s*:\s*(error|warning)\s*([A-Za-z]+\d+)?\s*:\s*(.*?)(?:\s+\[([^\]]+)\])?\s*$/i;
+
+	// Web Deploy reports its error codes inside the message (e.g. "...#ERROR_USER_UNAUTHORIZED.")
+	private static readonly WEB_DEPLOY_CODE_PATTERN = /\b(ERROR_[A-Z_]+)\b/;
+
+	parse(output: string, baseDir?: string): DeploymentDiagnostic[] {
+		const diagnostics: DeploymentDiagnostic[] = [];
+		const seen = new Set<string>();
+
+		for (const rawLine of output.split(/\r?\n/)) {
+			const match = rawLine.match(MsBuildDiagnosticParser.LINE_PATTERN);
+			if (!match) {
+				continue;
+			}
+
+			const [, origin, line, column, severity, code, message, project] = match;
+			const webDeployCode = message.match(MsBuildDiagnosticParser.WEB_DEPLOY_CODE_PATTERN);
+
+			const diagnostic: DeploymentDiagnostic = {
+				severity: severity.toLowerCase() as 'error' | 'warning',
+				code: code || webDeployCode?.[1],
+				message: message.trim(),
+				file: this.resolveFile(origin, baseDir),
+				line: line ? parseInt(line, 10) : undefined,
+				column: column ? parseInt(column, 10) : undefined,
+				project: project?.trim(),
+			};
+
+			// MSBuild repeats every diagnostic in the build summary
+			const key = [
+				diagnostic.severity,
+				diagnostic.code,
+				diagnostic.file,
+				diagnostic.line,
+				diagnostic.column,
+				diagnostic.message,
+			].join('|');
+			if (seen.has(key)) {
+				continue;
+			}
+			seen.add(key);
+
+			diagnostics.push(diagnostic);
+		}
+
+		return diagnostics;
+	}
+
+	/**
+	 * Origin is a file only when it looks like a path (tool names like MSBUILD have no extension)
+	 */
+	private resolveFile(origin: string, baseDir?: string): string | undefined {
+		const trimmed = origin.trim();
+		if (!trimmed || !/[\\/]|\.\w+$/.test(trimmed)) {
+			return undefined;
+		}
+		if (path.win32.isAbsolute(trimmed) || path.posix.isAbsolute(trimmed) || !baseDir) {
+			return trimmed;
+		}
+		return path.join(baseDir, trimmed);
+	}
+}
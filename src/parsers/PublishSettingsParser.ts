@@ -0,0 +1,58 @@
+import { IXmlParser } from './IXmlParser';
+
+/**
+ * One <publishProfile> entry of an Azure .PublishSettings file
+ */
+export interface PublishSettingsProfile {
+	profileName: string;
+	publishMethod: string; // MSDeploy, ZipDeploy, FTP, ...
+	publishUrl: string; // e.g. my-app.scm.azurewebsites.net:443
+	siteName?: string;
+	userName: string;
+	password: string;
+	destinationAppUrl?: string;
+}
+
+/**
+ * Publish Settings Parser Interface
+ * Reads the publishing credentials downloaded from the Azure portal
+ */
+export interface IPublishSettingsParser {
+	/**
+	 * Parse .PublishSettings content into its publish profiles
+	 */
+	parse(content: string): PublishSettingsProfile[];
+}
+
+/**
+ * Publish Settings Parser Implementation
+ * Format:
+ *   <publishData>
+ *     <publishProfile profileName="my-app - Zip Deploy" publishMethod="ZipDeploy"
+ *       publishUrl="my-app.scm.azurewebsites.net:443" msdeploySite="my-app"
+ *       userName="$my-app" userPWD="..." destinationAppUrl="https://my-app.azurewebsites.net" />
+ *   </publishData>
+ */
+export class PublishSettingsParser implements IPublishSettingsParser {
+	constructor(private readonly xmlParser: IXmlParser) {}
+
+	parse(content: string): PublishSettingsProfile[] {
+		const parsed = this.xmlParser.parse(content);
+		const entries = parsed?.publishData?.publishProfile;
+		const list: any[] = Array.isArray(entries) ? entries : entries ? [entries] : [];
+
+		return list
+			.map((p) => ({
+				profileName: String(p['@_profileName'] ?? ''),
+				publishMethod: String(p['@_publishMethod'] ?? ''),
+				publishUrl: String(p['@_publishUrl'] ?? ''),
+				siteName: p['@_msdeploySite'] ? String(p['@_msdeploySite']) : undefined,
+				userName: String(p['@_userName'] ?? ''),
+				password: String(p['@_userPWD'] ?? ''),
+				destinationAppUrl: p['@_destinationAppUrl']
+					? String(p['@_destinationAppUrl'])
+					: undefined,
+			}))
+			.filter((p) => p.publishUrl && p.userName);
+	}
+}
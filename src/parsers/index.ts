@@ -1,2 +1,4 @@
 export * from './IXmlParser';
 export * from './FastXmlParser';
+export * from './MsBuildDiagnosticParser';
+export * from './PublishSettingsParser';
@@ -0,0 +1,78 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as crypto from 'crypto';
+import { DeploymentArtifact } from '../models/DeploymentRecord';
+import { BuildInfo } from '../utils/BuildInfo';
+import { ZipArchiveWriter } from '../utils/ZipArchiveWriter';
+
+/**
+ * Artifact Package Service Interface
+ * Packages a published folder as a versioned zip for hand-off to operations
+ */
+export interface IArtifactPackageService {
+	/**
+	 * Zip publishDir into outputFolder as <project>_<commit>_<timestamp>.zip
+	 * and write a <zip>.sha256 checksum file next to it
+	 * Rejects (leaving no partial zip) when the token is cancelled while packaging
+	 */
+	createArtifact(
+		publishDir: string,
+		outputFolder: string,
+		projectName: string,
+		projectDir: string,
+		token?: vscode.CancellationToken
+	): Promise<DeploymentArtifact>;
+}
+
+/**
+ * Artifact Package Service Implementation
+ */
+export class ArtifactPackageService implements IArtifactPackageService {
+	constructor(private readonly outputChannel: vscode.OutputChannel) {}
+
+	async createArtifact(
+		publishDir: string,
+		outputFolder: string,
+		projectName: string,
+		projectDir: string,
+		token?: vscode.CancellationToken
+	): Promise<DeploymentArtifact> {
+		const commit = await BuildInfo.readCommit(projectDir);
+		const fileName =
+			[projectName, commit, BuildInfo.formatTimestamp(new Date())].filter(Boolean).join('_') +
+			'.zip';
+		const zipPath = path.join(outputFolder, fileName);
+
+		await fs.promises.mkdir(outputFolder, { recursive: true });
+		this.log(`Packaging ${publishDir} -> ${zipPath}`);
+		const fileCount = await ZipArchiveWriter.zipFolder(publishDir, zipPath, token);
+		if (fileCount === 0) {
+			await fs.promises.rm(zipPath, { force: true });
+			throw new Error('dotnet publish produced no files to package');
+		}
+
+		const sha256 = await this.hashFile(zipPath);
+		// Same format as sha256sum, so ops can run "sha256sum -c"
+		await fs.promises.writeFile(`${zipPath}.sha256`, `${sha256}  ${fileName}\n`);
+
+		const { size } = await fs.promises.stat(zipPath);
+		this.log(`Created ${fileName} (${fileCount} files, ${size} bytes, sha256 ${sha256})`);
+
+		return { path: zipPath, sha256, size, commit };
+	}
+
+	private hashFile(filePath: string): Promise<string> {
+		return new Promise((resolve, reject) => {
+			const hash = crypto.createHash('sha256');
+			fs.createReadStream(filePath)
+				.on('data', (chunk) => hash.update(chunk))
+				.on('end', () => resolve(hash.digest('hex')))
+				.on('error', reject);
+		});
+	}
+
+	private log(message: string): void {
+		this.outputChannel.appendLine(`[ArtifactPackage] ${message}`);
+	}
+}
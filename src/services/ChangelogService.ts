@@ -0,0 +1,129 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { Changelog, ChangelogCommit, ChangelogRange } from '../models/ChangelogModels';
+import { ProcessRunner } from '../utils/ProcessRunner';
+
+/** Field and record separators for git log --format (cannot appear in commit subjects) */
+const FIELD_SEPARATOR = '\x1f';
+const RECORD_SEPARATOR = '\x1e';
+
+/**
+ * Subset of the built-in Git extension API (extensions/git/src/api/git.d.ts) used here
+ */
+interface GitExtensionApi {
+	toGitUri(uri: vscode.Uri, ref: string): vscode.Uri;
+}
+
+interface GitExtensionExports {
+	getAPI(version: 1): GitExtensionApi;
+}
+
+/**
+ * Changelog Service Interface
+ * Lists commits between deployments and opens their diffs
+ */
+export interface IChangelogService {
+	getChangelog(range: ChangelogRange): Promise<Changelog>;
+
+	/**
+	 * Open the files changed between two refs in the multi-file diff editor
+	 */
+	openDiff(repoDir: string, fromRef: string, toRef: string, title: string): Promise<void>;
+}
+
+/**
+ * Changelog Service Implementation
+ * Reads history with the git CLI; diffs open through the built-in Git extension
+ * (git: URIs), so they look like the ones in the Source Control view
+ */
+export class ChangelogService implements IChangelogService {
+	constructor(private readonly outputChannel: vscode.OutputChannel) {}
+
+	async getChangelog(range: ChangelogRange): Promise<Changelog> {
+		const format = ['%H', '%h', '%an', '%aI', '%s'].join('%x1f') + '%x1e';
+		const result = await ProcessRunner.run(
+			'git',
+			['log', `--format=${format}`, `${range.from.ref}..${range.to.ref}`],
+			{ cwd: range.repoDir }
+		);
+
+		if (result.exitCode !== 0) {
+			this.log(`git log failed: ${result.output.trim()}`);
+			return {
+				range,
+				commits: [],
+				errorMessage: /unknown revision|bad revision|invalid revision range/i.test(result.output)
+					? `Commit ${range.from.ref.substring(0, 7)} is not in this repository (rebased or not fetched?)`
+					: 'git log failed. See output for details.',
+			};
+		}
+
+		const commits = result.stdout
+			.split(RECORD_SEPARATOR)
+			.map((entry) => entry.trim())
+			.filter((entry) => entry.length > 0)
+			.map((entry): ChangelogCommit => {
+				const [sha, shortSha, author, date, subject] = entry.split(FIELD_SEPARATOR);
+				return { sha, shortSha, author, date, subject: subject ?? '' };
+			});
+
+		return { range, commits };
+	}
+
+	async openDiff(repoDir: string, fromRef: string, toRef: string, title: string): Promise<void> {
+		const git = await this.getGitApi();
+		if (!git) {
+			vscode.window.showErrorMessage('The built-in Git extension is not available');
+			return;
+		}
+
+		const root = await this.run(['rev-parse', '--show-toplevel'], repoDir);
+		const diff = await this.run(['diff', '--name-status', '-M', '-z', fromRef, toRef], repoDir);
+		if (root === undefined || diff === undefined) {
+			vscode.window.showErrorMessage(`Could not compare ${fromRef} with ${toRef}`);
+			return;
+		}
+
+		// -z output: status NUL path [NUL new path for renames] NUL ...
+		const fields = diff.split('\0').filter((f) => f.length > 0);
+		const resources: [vscode.Uri, vscode.Uri | undefined, vscode.Uri | undefined][] = [];
+		for (let i = 0; i < fields.length; ) {
+			const status = fields[i++];
+			const oldPath = fields[i++];
+			const newPath = /^[RC]/.test(status) ? fields[i++] : oldPath;
+			const oldUri = vscode.Uri.file(path.join(root.trim(), oldPath));
+			const newUri = vscode.Uri.file(path.join(root.trim(), newPath));
+
+			resources.push([
+				newUri,
+				status.startsWith('A') ? undefined : git.toGitUri(oldUri, fromRef),
+				status.startsWith('D') ? undefined : git.toGitUri(newUri, toRef),
+			]);
+		}
+
+		if (resources.length === 0) {
+			vscode.window.showInformationMessage('No file changes between these commits');
+			return;
+		}
+
+		await vscode.commands.executeCommand('vscode.changes', title, resources);
+	}
+
+	private async getGitApi(): Promise<GitExtensionApi | undefined> {
+		const extension = vscode.extensions.getExtension<GitExtensionExports>('vscode.git');
+		if (!extension) {
+			return undefined;
+		}
+		const exports = extension.isActive ? extension.exports : await extension.activate();
+		return exports.getAPI(1);
+	}
+
+	private async run(args: string[], cwd: string): Promise<string | undefined> {
+		const result = await ProcessRunner.run('git', args, { cwd });
+		return result.exitCode === 0 ? result.stdout : undefined;
+	}
+
+	private log(message: string): void {
+		this.outputChannel.appendLine(`[Changelog] ${message}`);
+	}
+}
@@ -1,5 +1,16 @@
 import * as vscode from 'vscode';
 import { IConfigurationService } from './IConfigurationService';
+import { PreDeployGateSettings } from '../models/PreDeployGateModels';
+import {
+	DEFAULT_WEBHOOK_ENVIRONMENTS,
+	DEFAULT_WEBHOOK_EVENTS,
+	WebhookSettings,
+} from '../models/WebhookModels';
+import {
+	DEFAULT_HISTORY_RETENTION,
+	HistoryRetentionPolicy,
+	ProjectRetentionRule,
+} from '../models/HistoryRetentionModels';
 
 /**
  * Configuration Service Implementation
@@ -27,6 +38,89 @@ export class ConfigurationService implements IConfigurationService {
 			.get<boolean>('openBrowserOnDeploy', true);
 	}
 
+	getPreDeployGateSettings(): PreDeployGateSettings {
+		const config = vscode.workspace.getConfiguration(this.configSection);
+		return {
+			enabled: config.get<boolean>('preDeployGate.enabled', false),
+			runTests: config.get<boolean>('preDeployGate.runTests', true),
+			testProjects: config.get<string[]>('preDeployGate.testProjects', []),
+		};
+	}
+
+	getRollbackPackageCount(): number {
+		const count = vscode.workspace
+			.getConfiguration(this.configSection)
+			.get<number>('rollback.keepPackages', 3);
+		return Math.max(0, Math.floor(count));
+	}
+
+	getReleaseBranches(): string[] {
+		return vscode.workspace
+			.getConfiguration(this.configSection)
+			.get<string[]>('releaseBranches', ['main', 'master', 'release/*']);
+	}
+
+	getWebhooks(): WebhookSettings[] {
+		const entries = vscode.workspace
+			.getConfiguration(this.configSection)
+			.get<Partial<WebhookSettings>[]>('notifications.webhooks', []);
+
+		return entries
+			.filter((w) => !!w.name)
+			.map((w) => ({
+				name: w.name!,
+				type: w.type ?? 'generic',
+				environments: w.environments?.length
+					? w.environments
+					: DEFAULT_WEBHOOK_ENVIRONMENTS,
+				events: w.events?.length ? w.events : DEFAULT_WEBHOOK_EVENTS,
+				template: w.template || undefined,
+			}));
+	}
+
+	getSharedHistoryPath(): string | undefined {
+		const value = vscode.workspace
+			.getConfiguration(this.configSection)
+			.get<string>('history.sharedPath', '');
+		return value.trim() || undefined;
+	}
+
+	getHistoryRetention(): HistoryRetentionPolicy {
+		const config = vscode.workspace.getConfiguration(this.configSection);
+		const nonNegative = (value: number | undefined, fallback: number) =>
+			typeof value === 'number' && value >= 0 ? Math.floor(value) : fallback;
+
+		const projects: Record<string, ProjectRetentionRule> = {};
+		const rules = config.get<Record<string, ProjectRetentionRule>>(
+			'history.retention.projects',
+			{}
+		);
+		for (const [project, rule] of Object.entries(rules)) {
+			projects[project] = {
+				maxEntries:
+					rule?.maxEntries === undefined ? undefined : nonNegative(rule.maxEntries, 0),
+				maxAgeDays:
+					rule?.maxAgeDays === undefined ? undefined : nonNegative(rule.maxAgeDays, 0),
+			};
+		}
+
+		return {
+			maxEntries: nonNegative(
+				config.get<number>('history.retention.maxEntries'),
+				DEFAULT_HISTORY_RETENTION.maxEntries
+			),
+			maxAgeDays: nonNegative(
+				config.get<number>('history.retention.maxAgeDays'),
+				DEFAULT_HISTORY_RETENTION.maxAgeDays
+			),
+			projects,
+			archive: config.get<boolean>(
+				'history.retention.archive',
+				DEFAULT_HISTORY_RETENTION.archive
+			),
+		};
+	}
+
 	getWorkspaceRoot(): string | undefined {
 		return vscode.workspace.workspaceFolders?.[0]?.uri.fsPath;
 	}
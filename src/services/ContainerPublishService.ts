@@ -0,0 +1,411 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { ContainerPublishSettings, PublishProfileInfo } from '../models/ProjectModels';
+import { ContainerImageInfo } from '../models/DeploymentRecord';
+import { IConfigurationService } from './IConfigurationService';
+import { BuildInfo } from '../utils/BuildInfo';
+import { ProcessRunner, ProcessRunResult } from '../utils/ProcessRunner';
+
+/**
+ * Outcome of a container image build and push
+ */
+export interface ContainerPublishResult {
+	success: boolean;
+	cancelled?: boolean;
+	errorMessage?: string;
+	/** Combined dotnet / docker output */
+	output: string;
+	/** Image that was built (and pushed, when the profile names a registry) */
+	image?: ContainerImageInfo;
+}
+
+/**
+ * Container Publish Service Interface
+ * Builds a container image for a project and pushes it to the profile's registry
+ */
+export interface IContainerPublishService {
+	publish(
+		projectPath: string,
+		profileInfo: PublishProfileInfo,
+		secret: string | undefined,
+		onProgress?: (message: string) => void,
+		token?: vscode.CancellationToken
+	): Promise<ContainerPublishResult>;
+}
+
+/**
+ * MSBuild hook that reports the manifest digest of the image PublishContainer produced
+ * (loaded through CustomAfterMicrosoftCommonTargets, so the project is not modified).
+ * The /p: value replaces the project's own CustomAfterMicrosoftCommonTargets, so the hook
+ * imports that file itself
+ */
+function digestTargets(previousAfterTargets: string | undefined): string {
+	// The evaluated path is taken literally: MSBuild-escape % $ @ ; ' then XML-escape & < > "
+	const previous = previousAfterTargets
+		? previousAfterTargets
+				.replace(/[%$@;']/g, (c) => `%${c.charCodeAt(0).toString(16).toUpperCase()}`)
+				.replace(/&/g, '&amp;')
+				.replace(/</g, '&lt;')
+				.replace(/>/g, '&gt;')
+				.replace(/"/g, '&quot;')
+		: // MSBuild's default when nothing else is set
+			'$(MSBuildExtensionsPath)\\v$(MSBuildToolsVersion)\\Custom.After.Microsoft.Common.targets';
+	return `<Project>
+  <Import Project="${previous}" Condition="Exists('${previous}')" />
+  <Target Name="DotnetToolkitWriteContainerDigest" AfterTargets="PublishContainer" Condition="'$(GeneratedContainerDigest)' != ''">
+    <WriteLinesToFile File="$(DotnetToolkitContainerDigestFile)" Lines="$(GeneratedContainerDigest)" Overwrite="true" />
+  </Target>
+</Project>
+`;
+}
+
+/**
+ * Container Publish Service Implementation
+ * - sdk: dotnet publish /t:PublishContainer (the SDK pushes to ContainerRegistry itself)
+ * - dockerfile: docker build, then docker push of every tag
+ * Tags come from the profile's ContainerImageTags template, resolved at deploy time
+ */
+export class ContainerPublishService implements IContainerPublishService {
+	constructor(
+		private readonly outputChannel: vscode.OutputChannel,
+		private readonly configService: IConfigurationService
+	) {}
+
+	async publish(
+		projectPath: string,
+		profileInfo: PublishProfileInfo,
+		secret: string | undefined,
+		onProgress?: (message: string) => void,
+		token?: vscode.CancellationToken
+	): Promise<ContainerPublishResult> {
+		const container = profileInfo.container;
+		if (!container) {
+			return {
+				success: false,
+				errorMessage: 'Container profile needs a ContainerRepository',
+				output: '',
+			};
+		}
+
+		const projectDir = path.dirname(projectPath);
+		const tags = await this.resolveTags(container.tagTemplate, projectDir, profileInfo);
+		if (tags.length === 0) {
+			return {
+				success: false,
+				errorMessage: `ContainerImageTags "${container.tagTemplate}" resolved to no valid tags`,
+				output: '',
+			};
+		}
+
+		const image: ContainerImageInfo = {
+			repository: container.registry
+				? `${container.registry.replace(/\/+$/, '')}/${container.repository}`
+				: container.repository,
+			tags,
+		};
+		this.log(`Image ${image.repository} tags: ${tags.join(', ')}`);
+
+		// Scratch folder for the digest hook / registry login, removed afterwards
+		const workDir = await fs.promises.mkdtemp(
+			path.join(os.tmpdir(), 'dotnet-toolkit-container-')
+		);
+		try {
+			return container.build === 'dockerfile'
+				? await this.publishWithDocker(
+						projectDir,
+						container,
+						image,
+						profileInfo,
+						secret,
+						workDir,
+						onProgress,
+						token
+					)
+				: await this.publishWithSdk(
+						projectPath,
+						image,
+						profileInfo,
+						secret,
+						workDir,
+						onProgress,
+						token
+					);
+		} finally {
+			await fs.promises.rm(workDir, { recursive: true, force: true }).catch(() => undefined);
+		}
+	}
+
+	/**
+	 * .NET SDK container support - no Docker needed to push to a registry
+	 */
+	private async publishWithSdk(
+		projectPath: string,
+		image: ContainerImageInfo,
+		profileInfo: PublishProfileInfo,
+		secret: string | undefined,
+		workDir: string,
+		onProgress?: (message: string) => void,
+		token?: vscode.CancellationToken
+	): Promise<ContainerPublishResult> {
+		const properties = [
+			`/p:PublishProfile=${profileInfo.fileName}`,
+			'/p:Configuration=Release',
+		];
+		const hookPath = path.join(workDir, 'container-digest.targets');
+		const digestPath = path.join(workDir, 'digest.txt');
+		await fs.promises.writeFile(
+			hookPath,
+			digestTargets(await this.readCustomAfterTargets(projectPath, properties, token))
+		);
+
+		const args = [
+			'publish',
+			projectPath,
+			'/t:PublishContainer',
+			...properties,
+			// Quoted so MSBuild keeps the ';' inside the value
+			`/p:ContainerImageTags="${image.tags.join(';')}"`,
+			`/p:CustomAfterMicrosoftCommonTargets=${hookPath}`,
+			`/p:DotnetToolkitContainerDigestFile=${digestPath}`,
+		];
+
+		// Registry login for the push only (pulling the base image stays anonymous)
+		const env =
+			secret && profileInfo.userName
+				? {
+						DOTNET_CONTAINER_PUSH_REGISTRY_UNAME: profileInfo.userName,
+						DOTNET_CONTAINER_PUSH_REGISTRY_PWORD: secret,
+					}
+				: undefined;
+
+		onProgress?.(
+			profileInfo.container?.registry
+				? `Building and pushing ${image.repository}...`
+				: `Building ${image.repository} into the local Docker daemon...`
+		);
+		const result = await this.execute(
+			this.configService.getDotnetPath(),
+			args,
+			path.dirname(projectPath),
+			env,
+			token
+		);
+		if (result.cancelled) {
+			return { success: false, cancelled: true, output: result.output };
+		}
+		if (result.exitCode !== 0) {
+			return {
+				success: false,
+				errorMessage: `dotnet publish /t:PublishContainer failed (exit code ${result.exitCode})`,
+				output: result.output,
+			};
+		}
+
+		image.digest = await fs.promises
+			.readFile(digestPath, 'utf-8')
+			.then((text) => text.trim() || undefined)
+			.catch(() => undefined);
+		this.log(`Digest: ${image.digest ?? '(not reported)'}`);
+
+		return { success: true, output: result.output, image };
+	}
+
+	/**
+	 * CustomAfterMicrosoftCommonTargets as the project evaluates it (set in the project,
+	 * Directory.Build.props or the environment); undefined when it cannot be read
+	 * (-getProperty needs the .NET 8 SDK)
+	 */
+	private async readCustomAfterTargets(
+		projectPath: string,
+		properties: string[],
+		token?: vscode.CancellationToken
+	): Promise<string | undefined> {
+		const result = await ProcessRunner.run(
+			this.configService.getDotnetPath(),
+			[
+				'msbuild',
+				projectPath,
+				'-getProperty:CustomAfterMicrosoftCommonTargets',
+				...properties,
+			],
+			{ cwd: path.dirname(projectPath), token }
+		);
+		if (result.exitCode !== 0 || result.cancelled) {
+			return undefined;
+		}
+		// A single -getProperty prints the bare value
+		return result.stdout.trim() || undefined;
+	}
+
+	/**
+	 * docker build with the project's Dockerfile, then docker push of every tag
+	 */
+	private async publishWithDocker(
+		projectDir: string,
+		container: ContainerPublishSettings,
+		image: ContainerImageInfo,
+		profileInfo: PublishProfileInfo,
+		secret: string | undefined,
+		workDir: string,
+		onProgress?: (message: string) => void,
+		token?: vscode.CancellationToken
+	): Promise<ContainerPublishResult> {
+		const outputs: string[] = [];
+		const result = (fields: Partial<ContainerPublishResult>): ContainerPublishResult => ({
+			success: false,
+			output: outputs.join('\n'),
+			...fields,
+		});
+
+		const dockerfile = path.resolve(projectDir, container.dockerfilePath || 'Dockerfile');
+		if (!fs.existsSync(dockerfile)) {
+			return result({ errorMessage: `Dockerfile not found: ${dockerfile}` });
+		}
+		const references = image.tags.map((tag) => `${image.repository}:${tag}`);
+
+		// 1. Build
+		onProgress?.(`Building ${image.repository} with docker...`);
+		const build = await this.execute(
+			'docker',
+			[
+				'build',
+				'-f',
+				dockerfile,
+				...references.flatMap((reference) => ['-t', reference]),
+				path.resolve(projectDir, container.dockerfileContext || '.'),
+			],
+			projectDir,
+			undefined,
+			token
+		);
+		outputs.push(build.output);
+		if (build.cancelled) {
+			return result({ cancelled: true });
+		}
+		if (build.exitCode !== 0) {
+			return result({ errorMessage: `docker build failed (exit code ${build.exitCode})` });
+		}
+
+		// Without a registry the image only lives in the local daemon
+		if (!container.registry) {
+			return result({ success: true, image });
+		}
+
+		// 2. Push (a throwaway Docker config holds the login, so ~/.docker is left alone)
+		const env =
+			secret && profileInfo.userName
+				? {
+						DOCKER_CONFIG: await this.writeDockerConfig(
+							workDir,
+							container.registry,
+							profileInfo.userName,
+							secret
+						),
+					}
+				: undefined;
+
+		for (const reference of references) {
+			onProgress?.(`Pushing ${reference}...`);
+			const push = await this.execute('docker', ['push', reference], projectDir, env, token);
+			outputs.push(push.output);
+			if (push.cancelled) {
+				return result({ cancelled: true });
+			}
+			if (push.exitCode !== 0) {
+				return result({
+					errorMessage: `docker push ${reference} failed (exit code ${push.exitCode})`,
+				});
+			}
+
+			// "latest: digest: sha256:... size: 1234" - every tag points at the same manifest
+			image.digest ??= push.output.match(/digest:\s*(sha256:[0-9a-f]{64})/i)?.[1];
+		}
+		this.log(`Digest: ${image.digest ?? '(not reported)'}`);
+
+		return result({ success: true, image });
+	}
+
+	/**
+	 * Expand the tag template and drop characters Docker does not allow in tags
+	 */
+	private async resolveTags(
+		template: string,
+		projectDir: string,
+		profileInfo: PublishProfileInfo
+	): Promise<string[]> {
+		const values: Record<string, string | undefined> = {
+			commit: template.includes('{commit}')
+				? await BuildInfo.readCommit(projectDir)
+				: undefined,
+			branch: template.includes('{branch}')
+				? await BuildInfo.readBranch(projectDir)
+				: undefined,
+			timestamp: BuildInfo.formatTimestamp(new Date()),
+			profile: profileInfo.fileName,
+			environment: profileInfo.environment,
+		};
+
+		const tags = template
+			.split(';')
+			.map((tag) => {
+				// Tags with a placeholder that cannot be resolved (e.g. {commit} outside git) are dropped
+				let resolved = true;
+				const value = tag.trim().replace(/\{(\w+)\}/g, (_match, key: string) => {
+					resolved &&= values[key] !== undefined;
+					return values[key] ?? '';
+				});
+				return resolved ? value : '';
+			})
+			.map((tag) =>
+				tag
+					.replace(/[^A-Za-z0-9_.-]/g, '-')
+					.replace(/^[.-]+/, '')
+					.substring(0, 128)
+			)
+			.filter((tag) => tag.length > 0);
+
+		return [...new Set(tags)];
+	}
+
+	/**
+	 * Minimal Docker client config with basic auth for one registry
+	 */
+	private async writeDockerConfig(
+		workDir: string,
+		registry: string,
+		userName: string,
+		secret: string
+	): Promise<string> {
+		const configDir = path.join(workDir, 'docker');
+		await fs.promises.mkdir(configDir, { recursive: true });
+		const auth = Buffer.from(`${userName}:${secret}`).toString('base64');
+		await fs.promises.writeFile(
+			path.join(configDir, 'config.json'),
+			JSON.stringify({ auths: { [registry]: { auth } } }),
+			{ mode: 0o600 }
+		);
+		return configDir;
+	}
+
+	private execute(
+		command: string,
+		args: string[],
+		cwd: string,
+		env: Record<string, string> | undefined,
+		token?: vscode.CancellationToken
+	): Promise<ProcessRunResult> {
+		this.log(`Executing: ${command} ${args.join(' ')}`);
+		return ProcessRunner.run(command, args, {
+			cwd,
+			env,
+			token,
+			onOutput: (text) => this.outputChannel.append(text),
+		});
+	}
+
+	private log(message: string): void {
+		this.outputChannel.appendLine(`[ContainerPublish] ${message}`);
+	}
+}
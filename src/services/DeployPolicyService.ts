@@ -0,0 +1,266 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import {
+	BlockedWindow,
+	DeployPolicyFile,
+	EnvironmentPolicy,
+	PolicyEvaluation,
+	PolicyViolation,
+} from '../models/DeployPolicyModels';
+import { GitCommitInfo } from '../models/DeploymentRecord';
+import { DeployEnvironment, PublishProfileInfo } from '../models/ProjectModels';
+import { HistoryManager } from './HistoryManager';
+import { IConfigurationService } from './IConfigurationService';
+import { BuildInfo } from '../utils/BuildInfo';
+
+const DATE_ONLY = /^\d{4}-\d{2}-\d{2}$/;
+const TIME_OF_DAY = /^\d{2}:\d{2}$/;
+
+/**
+ * Deployment Policy Service Interface
+ * Checks deployments against the workspace policy file
+ */
+export interface IDeployPolicyService {
+	/**
+	 * Rules of the profile's environment that the deployment breaks right now
+	 * @param git Source being deployed (undefined outside a git repository)
+	 */
+	evaluate(
+		profile: PublishProfileInfo,
+		projectName: string,
+		git: GitCommitInfo | undefined
+	): PolicyEvaluation;
+}
+
+/**
+ * Deployment Policy Service Implementation
+ * The file is read on every evaluation so edits apply without a reload; a file
+ * that cannot be read blocks deployments rather than silently allowing them
+ */
+export class DeployPolicyService implements IDeployPolicyService {
+	static readonly POLICY_FILE = path.join('.dotnet-toolkit', 'policies.json');
+
+	constructor(
+		private readonly outputChannel: vscode.OutputChannel,
+		private readonly configService: IConfigurationService,
+		private readonly historyManager: HistoryManager
+	) {}
+
+	evaluate(
+		profile: PublishProfileInfo,
+		projectName: string,
+		git: GitCommitInfo | undefined
+	): PolicyEvaluation {
+		let policy: EnvironmentPolicy | undefined;
+		try {
+			policy = this.loadPolicy(profile.environment);
+		} catch (error: any) {
+			this.log(`Could not read policy file: ${error.message}`);
+			return {
+				violations: [
+					{
+						rule: 'policyFile',
+						message: `${DeployPolicyService.POLICY_FILE} could not be read: ${error.message}`,
+					},
+				],
+				requireTypedConfirmation: false,
+			};
+		}
+
+		if (!policy) {
+			return { violations: [], requireTypedConfirmation: false };
+		}
+
+		const violations: PolicyViolation[] = [];
+		const now = new Date();
+		for (const window of policy.blockedWindows ?? []) {
+			try {
+				if (this.isInWindow(window, now)) {
+					violations.push({
+						rule: 'blockedWindow',
+						message: `Deployments to ${profile.environment} are blocked now: ${window.reason ?? this.describeWindow(window)}`,
+					});
+				}
+			} catch (error: any) {
+				violations.push({
+					rule: 'policyFile',
+					message: `Invalid blocked window (${this.describeWindow(window)}): ${error.message}`,
+				});
+			}
+		}
+
+		if (policy.requiredBranch) {
+			const patterns = ([] as string[]).concat(policy.requiredBranch);
+			if (!git) {
+				violations.push({
+					rule: 'requiredBranch',
+					message: `Must be deployed from ${patterns.join(' or ')}, but the project is not in a git repository`,
+				});
+			} else if (
+				!git.branch ||
+				!patterns.some((pattern) => BuildInfo.matchesBranchPattern(git.branch!, pattern))
+			) {
+				violations.push({
+					rule: 'requiredBranch',
+					message: `Must be deployed from ${patterns.join(' or ')}, not ${git.branch ?? 'a detached HEAD'}`,
+				});
+			}
+		}
+
+		if (policy.requireStagingDeploy) {
+			const violation = this.checkStagingDeploy(projectName, git);
+			if (violation) {
+				violations.push(violation);
+			}
+		}
+
+		return { violations, requireTypedConfirmation: !!policy.requireTypedConfirmation };
+	}
+
+	/**
+	 * Policy for the environment (keys match case-insensitively), undefined without a policy file
+	 */
+	private loadPolicy(environment: DeployEnvironment): EnvironmentPolicy | undefined {
+		const root = this.configService.getWorkspaceRoot();
+		if (!root) {
+			return undefined;
+		}
+
+		const filePath = path.join(root, DeployPolicyService.POLICY_FILE);
+		if (!fs.existsSync(filePath)) {
+			return undefined;
+		}
+
+		const file = JSON.parse(fs.readFileSync(filePath, 'utf-8')) as DeployPolicyFile;
+		const key = Object.keys(file.environments ?? {}).find(
+			(k) => k.toLowerCase() === environment
+		);
+		return key ? file.environments![key] : undefined;
+	}
+
+	/**
+	 * The same commit, with no local changes on either side, deployed to staging successfully
+	 */
+	private checkStagingDeploy(
+		projectName: string,
+		git: GitCommitInfo | undefined
+	): PolicyViolation | undefined {
+		if (!git) {
+			return {
+				rule: 'requireStagingDeploy',
+				message:
+					'Requires a staging deployment of the same commit, but the project is not in a git repository',
+			};
+		}
+		if (git.dirty) {
+			return {
+				rule: 'requireStagingDeploy',
+				message: 'Uncommitted changes cannot have been deployed to staging first',
+			};
+		}
+
+		const staged = this.historyManager
+			.getAllHistory()
+			.some(
+				(r) =>
+					r.status === 'success' &&
+					r.projectName === projectName &&
+					r.environment.toLowerCase() === DeployEnvironment.Staging &&
+					r.git?.commit === git.commit &&
+					!r.git.dirty
+			);
+		return staged
+			? undefined
+			: {
+					rule: 'requireStagingDeploy',
+					message: `Commit ${git.commit.substring(0, 7)} has not been deployed to staging successfully`,
+				};
+	}
+
+	private isInWindow(window: BlockedWindow, now: Date): boolean {
+		const local = this.localParts(now, window.timeZone);
+
+		if (window.from) {
+			const started = DATE_ONLY.test(window.from)
+				? local.date >= window.from
+				: now >= this.parseDateTime(window.from);
+			if (!started) {
+				return false;
+			}
+		}
+		if (window.until) {
+			const ended = DATE_ONLY.test(window.until)
+				? local.date > window.until
+				: now >= this.parseDateTime(window.until);
+			if (ended) {
+				return false;
+			}
+		}
+
+		if (window.days?.length) {
+			const days = window.days.map((d) => d.toLowerCase().substring(0, 3));
+			if (!days.includes(local.day)) {
+				return false;
+			}
+		}
+
+		const start = this.parseTime(window.start ?? '00:00');
+		const end = this.parseTime(window.end ?? '24:00');
+		// An end before the start spans midnight (e.g. 22:00-06:00)
+		return start <= end
+			? local.time >= start && local.time < end
+			: local.time >= start || local.time < end;
+	}
+
+	/**
+	 * Weekday (mon..sun), yyyy-MM-dd and HH:mm of now in the time zone
+	 */
+	private localParts(now: Date, timeZone?: string): { day: string; date: string; time: string } {
+		const parts = new Intl.DateTimeFormat('en-US', {
+			timeZone,
+			weekday: 'short',
+			year: 'numeric',
+			month: '2-digit',
+			day: '2-digit',
+			hour: '2-digit',
+			minute: '2-digit',
+			hourCycle: 'h23',
+		}).formatToParts(now);
+		const get = (type: Intl.DateTimeFormatPartTypes) =>
+			parts.find((p) => p.type === type)?.value ?? '';
+
+		return {
+			day: get('weekday').toLowerCase(),
+			date: `${get('year')}-${get('month')}-${get('day')}`,
+			time: `${get('hour')}:${get('minute')}`,
+		};
+	}
+
+	private parseDateTime(value: string): Date {
+		const date = new Date(value);
+		if (isNaN(date.getTime())) {
+			throw new Error(`"${value}" is not an ISO date or date-time`);
+		}
+		return date;
+	}
+
+	private parseTime(value: string): string {
+		if (!TIME_OF_DAY.test(value)) {
+			throw new Error(`"${value}" is not a HH:mm time`);
+		}
+		return value;
+	}
+
+	private describeWindow(window: BlockedWindow): string {
+		if (window.from || window.until) {
+			return `freeze ${window.from ?? '…'} – ${window.until ?? '…'}`;
+		}
+		const days = window.days?.length ? window.days.join(', ') : 'every day';
+		return `${days} ${window.start ?? '00:00'}–${window.end ?? '24:00'}`;
+	}
+
+	private log(message: string): void {
+		this.outputChannel.appendLine(`[Policy] ${message}`);
+	}
+}
@@ -0,0 +1,389 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as crypto from 'crypto';
+import { PublishProfileInfo, isFileSystemPublishMethod } from '../models/ProjectModels';
+import { DeployPreviewChange, DeployPreviewResult } from '../models/DeployPreviewModels';
+import { IPasswordStorage } from '../strategies/IPasswordStorage';
+import { IConfigurationService } from './IConfigurationService';
+import { MsDeploy } from '../utils/MsDeploy';
+import { ProcessRunner, ProcessRunResult } from '../utils/ProcessRunner';
+
+/**
+ * Deployment Preview Service Interface
+ * Shows what a deployment would change without touching the target
+ */
+export interface IDeployPreviewService {
+	preview(
+		projectPath: string,
+		projectName: string,
+		profileInfo: PublishProfileInfo,
+		onProgress?: (message: string) => void,
+		token?: vscode.CancellationToken
+	): Promise<DeployPreviewResult>;
+
+	/**
+	 * Remove the staged files a shown preview still refers to
+	 */
+	clearStaging(): Promise<void>;
+}
+
+/**
+ * Deployment Preview Service Implementation
+ * 1. Publishes the profile locally to a staging folder
+ * 2. Compares the staging folder with the target:
+ *    - MSDeploy: msdeploy -verb:sync -whatif against the server
+ *    - FileSystem: direct folder comparison
+ */
+export class DeployPreviewService implements IDeployPreviewService {
+	private static readonly STAGING_ROOT = path.join(os.tmpdir(), 'dotnet-toolkit-preview');
+
+	constructor(
+		private readonly outputChannel: vscode.OutputChannel,
+		private readonly passwordStorage: IPasswordStorage,
+		private readonly configService: IConfigurationService
+	) {}
+
+	async preview(
+		projectPath: string,
+		projectName: string,
+		profileInfo: PublishProfileInfo,
+		onProgress?: (message: string) => void,
+		token?: vscode.CancellationToken
+	): Promise<DeployPreviewResult> {
+		const isFileSystem = isFileSystemPublishMethod(profileInfo.publishMethod);
+		const target = isFileSystem
+			? this.resolveFolderTarget(projectPath, profileInfo)
+			: `${profileInfo.siteName || 'site'} @ ${profileInfo.publishUrl || 'unknown server'}`;
+		const failed = (errorMessage: string, output = ''): DeployPreviewResult => ({
+			success: false,
+			errorMessage,
+			target,
+			changes: [],
+			output,
+		});
+
+		// Only one preview is shown at a time
+		await this.clearStaging();
+		const stagingDir = path.join(
+			DeployPreviewService.STAGING_ROOT,
+			`${projectName}-${profileInfo.fileName}`
+		);
+
+		let result: DeployPreviewResult | undefined;
+		try {
+			result = await this.previewFromStaging(
+				projectPath,
+				projectName,
+				profileInfo,
+				stagingDir,
+				target,
+				failed,
+				onProgress,
+				token
+			);
+			return result;
+		} finally {
+			// The Deploy Preview view diffs staged files; nothing else needs them
+			if (!result?.changes.some((c) => c.localPath)) {
+				await fs.promises
+					.rm(stagingDir, { recursive: true, force: true })
+					.catch(() => undefined);
+			}
+		}
+	}
+
+	async clearStaging(): Promise<void> {
+		await fs.promises
+			.rm(DeployPreviewService.STAGING_ROOT, { recursive: true, force: true })
+			.catch(() => undefined);
+	}
+
+	private async previewFromStaging(
+		projectPath: string,
+		projectName: string,
+		profileInfo: PublishProfileInfo,
+		stagingDir: string,
+		target: string,
+		failed: (errorMessage: string, output?: string) => DeployPreviewResult,
+		onProgress?: (message: string) => void,
+		token?: vscode.CancellationToken
+	): Promise<DeployPreviewResult> {
+		const isFileSystem = isFileSystemPublishMethod(profileInfo.publishMethod);
+
+		// 1. Local publish with the profile's settings, redirected to a staging folder
+		onProgress?.('Publishing to staging folder...');
+		const publish = await this.execute(
+			this.configService.getDotnetPath(),
+			this.buildStagingPublishArgs(projectPath, profileInfo, stagingDir),
+			path.dirname(projectPath),
+			token
+		);
+		if (publish.cancelled) {
+			return { ...failed('Preview cancelled', publish.output), cancelled: true };
+		}
+		if (publish.exitCode !== 0) {
+			return failed('Local publish failed. See output for details.', publish.output);
+		}
+
+		// 2. Compare against the target
+		if (isFileSystem) {
+			onProgress?.('Comparing with target folder...');
+			const changes = await this.compareFolders(
+				stagingDir,
+				target,
+				profileInfo.deleteExistingFiles === true
+			);
+			return { success: true, target, changes, output: publish.output };
+		}
+
+		onProgress?.('Asking Web Deploy what would change...');
+		const key = this.passwordStorage.generateKey(projectName, profileInfo.fileName);
+		const password = await this.passwordStorage.retrieve(key);
+		if (!password) {
+			return failed('Password not found. Please configure credentials first.');
+		}
+
+		const whatIf = await this.execute(
+			MsDeploy.getExecutablePath(),
+			this.buildWhatIfArgs(stagingDir, profileInfo, password),
+			stagingDir,
+			token,
+			password
+		);
+		const output = `${publish.output}\n${whatIf.output}`;
+		if (whatIf.cancelled) {
+			return { ...failed('Preview cancelled', output), cancelled: true };
+		}
+		if (whatIf.exitCode !== 0) {
+			return failed('Web Deploy preview failed. See output for details.', output);
+		}
+
+		return {
+			success: true,
+			target,
+			changes: this.parseWhatIfOutput(whatIf.output, stagingDir, profileInfo.siteName),
+			output,
+		};
+	}
+
+	/**
+	 * Same publish as a deployment, but written to a local folder instead of the server
+	 */
+	private buildStagingPublishArgs(
+		projectPath: string,
+		profileInfo: PublishProfileInfo,
+		stagingDir: string
+	): string[] {
+		return [
+			'publish',
+			projectPath,
+			`/p:PublishProfile=${profileInfo.fileName}`,
+			'/p:Configuration=Release',
+			'/p:WebPublishMethod=FileSystem',
+			`/p:PublishDir=${stagingDir}${path.sep}`,
+		];
+	}
+
+	private buildWhatIfArgs(
+		stagingDir: string,
+		profileInfo: PublishProfileInfo,
+		password: string
+	): string[] {
+		const siteName = profileInfo.siteName || '';
+		const args = [
+			'-verb:sync',
+			`-source:${MsDeploy.formatSettings([['contentPath', stagingDir]])}`,
+			`-dest:${MsDeploy.formatSettings([
+				['contentPath', siteName],
+				['computerName', MsDeploy.buildEndpoint(profileInfo)],
+				['userName', profileInfo.userName || ''],
+				['password', password],
+				['authType', 'Basic'],
+			])}`,
+			'-allowUntrusted',
+			'-whatif',
+		];
+
+		// Mirrors what dotnet publish does for the profile
+		if (profileInfo.skipExtraFilesOnServer) {
+			args.push('-enableRule:DoNotDeleteRule');
+		}
+
+		return args;
+	}
+
+	/**
+	 * Parse Web Deploy -whatif output, e.g.
+	 *   Info: Adding file (Default Web Site\appsettings.json).
+	 *   Info: Updating file (Default Web Site\MyApp.dll).
+	 *   Info: Deleting directory (Default Web Site\old).
+	 */
+	private parseWhatIfOutput(
+		output: string,
+		stagingDir: string,
+		siteName?: string
+	): DeployPreviewChange[] {
+		const regex =
+			/^Info:\s+(Adding|Updating|Deleting)\s+(?:child\s+)?(file|filePath|directory|dirPath)\s+\((.+)\)\.?\s*$/gim;
+		const kinds = { adding: 'added', updating: 'updated', deleting: 'deleted' } as const;
+		const sitePrefix = (siteName || '').replace(/\//g, '\\').toLowerCase();
+
+		const changes: DeployPreviewChange[] = [];
+		const seen = new Set<string>();
+		let match: RegExpExecArray | null;
+		while ((match = regex.exec(output)) !== null) {
+			let relative = match[3].replace(/\//g, '\\');
+			if (sitePrefix && relative.toLowerCase().startsWith(sitePrefix)) {
+				relative = relative.substring(sitePrefix.length);
+			}
+			relative = relative.replace(/^\\+/, '');
+			if (!relative) {
+				continue;
+			}
+
+			const kind = kinds[match[1].toLowerCase() as keyof typeof kinds];
+			const id = `${kind}:${relative}`;
+			if (seen.has(id)) {
+				continue;
+			}
+			seen.add(id);
+
+			const isDirectory = /^(directory|dirPath)$/i.test(match[2]);
+			changes.push({
+				kind,
+				path: relative.replace(/\\/g, '/'),
+				isDirectory,
+				localPath:
+					kind !== 'deleted' && !isDirectory
+						? path.join(stagingDir, ...relative.split('\\'))
+						: undefined,
+			});
+		}
+
+		return changes;
+	}
+
+	/**
+	 * Resolve a FileSystem profile's PublishUrl (may be relative to the project)
+	 */
+	private resolveFolderTarget(projectPath: string, profileInfo: PublishProfileInfo): string {
+		return path.resolve(path.dirname(projectPath), profileInfo.publishUrl || '');
+	}
+
+	/**
+	 * Compare the staging folder with a FileSystem target (size first, then content hash)
+	 */
+	private async compareFolders(
+		stagingDir: string,
+		targetDir: string,
+		includeDeletes: boolean
+	): Promise<DeployPreviewChange[]> {
+		const local = await this.listFiles(stagingDir);
+		const remote = await this.listFiles(targetDir);
+		const changes: DeployPreviewChange[] = [];
+
+		for (const [relative, localFile] of local) {
+			const targetFile = remote.get(relative);
+			if (!targetFile) {
+				changes.push({
+					kind: 'added',
+					path: relative,
+					isDirectory: false,
+					localPath: localFile,
+				});
+			} else if (!(await this.sameContent(localFile, targetFile))) {
+				changes.push({
+					kind: 'updated',
+					path: relative,
+					isDirectory: false,
+					localPath: localFile,
+					targetPath: targetFile,
+				});
+			}
+		}
+
+		if (includeDeletes) {
+			for (const [relative, targetFile] of remote) {
+				if (!local.has(relative)) {
+					changes.push({
+						kind: 'deleted',
+						path: relative,
+						isDirectory: false,
+						targetPath: targetFile,
+					});
+				}
+			}
+		}
+
+		return changes;
+	}
+
+	/**
+	 * Map of forward-slash relative path -> absolute path
+	 */
+	private async listFiles(root: string): Promise<Map<string, string>> {
+		const files = new Map<string, string>();
+		const walk = async (dir: string): Promise<void> => {
+			let entries: fs.Dirent[];
+			try {
+				entries = await fs.promises.readdir(dir, { withFileTypes: true });
+			} catch {
+				return; // Target folder does not exist yet
+			}
+
+			for (const entry of entries) {
+				const fullPath = path.join(dir, entry.name);
+				if (entry.isDirectory()) {
+					await walk(fullPath);
+				} else {
+					files.set(path.relative(root, fullPath).split(path.sep).join('/'), fullPath);
+				}
+			}
+		};
+
+		await walk(root);
+		return files;
+	}
+
+	private async sameContent(a: string, b: string): Promise<boolean> {
+		const [statA, statB] = await Promise.all([fs.promises.stat(a), fs.promises.stat(b)]);
+		if (statA.size !== statB.size) {
+			return false;
+		}
+
+		const [hashA, hashB] = await Promise.all([this.hashFile(a), this.hashFile(b)]);
+		return hashA === hashB;
+	}
+
+	private hashFile(filePath: string): Promise<string> {
+		return new Promise((resolve, reject) => {
+			const hash = crypto.createHash('sha256');
+			fs.createReadStream(filePath)
+				.on('data', (chunk) => hash.update(chunk))
+				.on('end', () => resolve(hash.digest('hex')))
+				.on('error', reject);
+		});
+	}
+
+	private execute(
+		command: string,
+		args: string[],
+		cwd: string,
+		token?: vscode.CancellationToken,
+		secret?: string
+	): Promise<ProcessRunResult> {
+		const masked = secret ? args.map((arg) => arg.split(secret).join('***')) : args;
+		this.log(`Executing: ${command} ${masked.join(' ')}`);
+		return ProcessRunner.run(command, args, {
+			cwd,
+			token,
+			onOutput: (text) => this.outputChannel.append(text),
+		});
+	}
+
+	private log(message: string): void {
+		this.outputChannel.appendLine(`[DeployPreview] ${message}`);
+	}
+}
@@ -0,0 +1,47 @@
+import * as vscode from 'vscode';
+import { DeploySet } from '../models/DeploySetModels';
+
+/**
+ * Stores deploy sets in the workspace state (sets reference this workspace's projects)
+ */
+export class DeploySetConfigService {
+	private static readonly KEY_DEPLOY_SETS = 'dotnet-toolkit.deploy.sets';
+
+	constructor(private readonly context: vscode.ExtensionContext) {}
+
+	public getSets(): DeploySet[] {
+		return this.context.workspaceState.get<DeploySet[]>(
+			DeploySetConfigService.KEY_DEPLOY_SETS,
+			[]
+		);
+	}
+
+	public getSet(id: string): DeploySet | undefined {
+		return this.getSets().find((s) => s.id === id);
+	}
+
+	public async saveSet(set: DeploySet): Promise<void> {
+		const sets = this.getSets();
+		const index = sets.findIndex((s) => s.id === set.id);
+
+		if (index >= 0) {
+			sets[index] = set;
+		} else {
+			sets.push(set);
+		}
+
+		await this.context.workspaceState.update(DeploySetConfigService.KEY_DEPLOY_SETS, sets);
+	}
+
+	public async deleteSet(id: string): Promise<void> {
+		const sets = this.getSets().filter((s) => s.id !== id);
+		await this.context.workspaceState.update(DeploySetConfigService.KEY_DEPLOY_SETS, sets);
+	}
+
+	/**
+	 * Generates a simple unique ID
+	 */
+	public generateId(): string {
+		return Date.now().toString(36) + Math.random().toString(36).substring(2);
+	}
+}
@@ -1,16 +1,60 @@
 import * as vscode from 'vscode';
 import * as path from 'path';
-import { PublishProfileInfo } from '../models/ProjectModels';
+import * as fs from 'fs';
+import * as os from 'os';
+import {
+	PublishProfileInfo,
+	isAzureWebAppProfile,
+	isContainerPublishMethod,
+	isFileSystemPublishMethod,
+	isSshPublishMethod,
+	isZipArtifactPublishMethod,
+} from '../models/ProjectModels';
+import {
+	ContainerImageInfo,
+	DeploymentArtifact,
+	DeploymentDiagnostic,
+	RemoteStepResult,
+} from '../models/DeploymentRecord';
+import { KnownErrorMatch } from '../models/KnownErrorModels';
+import { IMsBuildDiagnosticParser } from '../parsers/MsBuildDiagnosticParser';
 import { IPasswordStorage } from '../strategies/IPasswordStorage';
 import { IWebConfigModifier } from './WebConfigModifier';
+import { IConfigurationService } from './IConfigurationService';
+import { IKnownErrorAdvisor } from './KnownErrorAdvisor';
+import { IArtifactPackageService } from './ArtifactPackageService';
+import { IKuduDeployService } from './KuduDeployService';
+import { ISshDeployService } from './SshDeployService';
+import { IContainerPublishService } from './ContainerPublishService';
+import { ProcessRunner, ProcessRunResult } from '../utils/ProcessRunner';
+import { Delay } from '../utils/Delay';
+import { ZipArchiveWriter } from '../utils/ZipArchiveWriter';
 
 /**
  * Deployment result
  */
 export interface DeploymentResult {
 	success: boolean;
+	/** True when the deployment was aborted through the cancellation token */
+	cancelled?: boolean;
 	errorMessage?: string;
 	output: string;
+	/** Structured MSBuild / Web Deploy diagnostics found in the output */
+	diagnostics?: DeploymentDiagnostic[];
+	/** Known error knowledge base match for failures */
+	knownError?: KnownErrorMatch;
+	/** Number of attempts made (more than 1 when retried) */
+	attempts?: number;
+	/** Zip produced by a zip artifact profile */
+	artifact?: DeploymentArtifact;
+	/** Kudu deployment id (App Service zip deploy) */
+	kuduDeploymentId?: string;
+	/** Remote steps of an SSH deployment */
+	remoteSteps?: RemoteStepResult[];
+	/** Image built and pushed by a container profile */
+	image?: ContainerImageInfo;
+	/** Zip of the build that was deployed, for the caller to keep for rollback (App Service and SSH) */
+	rollbackPackage?: string;
 }
 
 /**
@@ -22,7 +66,8 @@ export interface IDeploymentService {
 		projectPath: string,
 		projectName: string,
 		profileInfo: PublishProfileInfo,
-		onProgress?: (message: string, increment: number) => void
+		onProgress?: (message: string, increment: number) => void,
+		token?: vscode.CancellationToken
 	): Promise<DeploymentResult>;
 }
 
@@ -31,45 +76,244 @@ export interface IDeploymentService {
  * Executes dotnet publish with MSDeploy parameters
  */
 export class DeploymentService implements IDeploymentService {
+	// Problems reported per profile (.pubxml path), by file, so parallel deployments and
+	// retries only replace their own entries in the shared collection
+	private readonly reportedDiagnostics = new Map<string, Map<string, vscode.Diagnostic[]>>();
+
 	constructor(
 		private readonly outputChannel: vscode.OutputChannel,
 		private readonly passwordStorage: IPasswordStorage,
-		private readonly webConfigModifier?: IWebConfigModifier
+		private readonly configService: IConfigurationService,
+		private readonly diagnosticParser: IMsBuildDiagnosticParser,
+		private readonly errorAdvisor: IKnownErrorAdvisor,
+		private readonly artifactPackager: IArtifactPackageService,
+		private readonly kuduDeployer: IKuduDeployService,
+		private readonly sshDeployer: ISshDeployService,
+		private readonly containerPublisher: IContainerPublishService,
+		private readonly webConfigModifier?: IWebConfigModifier,
+		private readonly diagnosticCollection?: vscode.DiagnosticCollection
 	) {}
 
 	async deploy(
 		projectPath: string,
 		projectName: string,
 		profileInfo: PublishProfileInfo,
-		onProgress?: (message: string, increment: number) => void
+		onProgress?: (message: string, increment: number) => void,
+		token?: vscode.CancellationToken
+	): Promise<DeploymentResult> {
+		const retry = profileInfo.retry;
+		const maxAttempts = Math.max(1, retry?.maxAttempts ?? 1);
+		const outputs: string[] = [];
+
+		for (let attempt = 1; ; attempt++) {
+			if (maxAttempts > 1) {
+				this.log(`Attempt ${attempt}/${maxAttempts}`);
+			}
+
+			const result = await this.deployOnce(
+				projectPath,
+				projectName,
+				profileInfo,
+				onProgress,
+				token
+			);
+			outputs.push(
+				maxAttempts > 1
+					? `===== Attempt ${attempt}/${maxAttempts} =====\n${result.output}`
+					: result.output
+			);
+			result.output = outputs.join('\n');
+			result.attempts = attempt;
+
+			const errorClass = result.knownError?.ruleId;
+			const retryable = !!errorClass && !!retry?.retryOn.includes(errorClass);
+			if (result.success || result.cancelled || attempt >= maxAttempts || !retryable) {
+				if (!result.success && !result.cancelled && maxAttempts > 1) {
+					this.log(
+						`Giving up after ${attempt} attempt(s)` +
+							(retryable
+								? ''
+								: ` (${errorClass ?? 'unknown error'} is not retryable)`)
+					);
+				}
+				return result;
+			}
+
+			// Exponential backoff: backoff, 2x backoff, 4x backoff...
+			const delay = retry!.backoffMs * Math.pow(2, attempt - 1);
+			this.log(
+				`Attempt ${attempt}/${maxAttempts} failed (${errorClass}), retrying in ${delay / 1000}s`
+			);
+			onProgress?.(`Attempt ${attempt} failed (${errorClass}), retrying...`, 0);
+
+			if (!(await Delay.wait(delay, token))) {
+				const cancelled = this.cancelledResult(result.output);
+				cancelled.attempts = attempt;
+				return cancelled;
+			}
+		}
+	}
+
+	/**
+	 * Run a single deployment attempt
+	 */
+	private async deployOnce(
+		projectPath: string,
+		projectName: string,
+		profileInfo: PublishProfileInfo,
+		onProgress?: (message: string, increment: number) => void,
+		token?: vscode.CancellationToken
 	): Promise<DeploymentResult> {
+		// Problems from this profile's previous deployment are stale now
+		this.publishDiagnostics(profileInfo, []);
+
+		const isAzureWebApp = isAzureWebAppProfile(profileInfo);
+		const isFileSystem = !isAzureWebApp && isFileSystemPublishMethod(profileInfo.publishMethod);
+		const isZipArtifact = isZipArtifactPublishMethod(profileInfo.publishMethod);
+		const isSsh = isSshPublishMethod(profileInfo.publishMethod);
+		const isContainer = isContainerPublishMethod(profileInfo.publishMethod);
+		const stagingDir =
+			isZipArtifact || isAzureWebApp || isSsh
+				? this.getStagingDir(projectName, profileInfo)
+				: undefined;
+
 		try {
-			// 1. Get password from storage
-			onProgress?.('Retrieving credentials...', 10);
-			const password = await this.getPassword(projectName, profileInfo.fileName);
-			if (!password) {
-				return {
-					success: false,
-					errorMessage: 'Password not found. Please configure credentials first.',
-					output: '',
-				};
+			// 1. Get password from storage (folder and zip publishing need none)
+			let password = '';
+			if (isContainer) {
+				// Registry login is optional (local registry, docker login, local daemon)
+				password = (await this.getPassword(projectName, profileInfo.fileName)) || '';
+				if (token?.isCancellationRequested) {
+					return this.cancelledResult('');
+				}
+				return await this.deployContainer(
+					projectPath,
+					profileInfo,
+					password,
+					onProgress,
+					token
+				);
+			} else if (isSsh) {
+				// Key-based SSH logins may use an unencrypted key or ssh-agent
+				password = (await this.getPassword(projectName, profileInfo.fileName)) || '';
+				if (!password && profileInfo.ssh?.authType !== 'key') {
+					return {
+						success: false,
+						errorMessage: 'Password not found. Please configure credentials first.',
+						output: '',
+					};
+				}
+			} else if (!isFileSystem && !isZipArtifact) {
+				onProgress?.('Retrieving credentials...', 10);
+				password = (await this.getPassword(projectName, profileInfo.fileName)) || '';
+				if (!password) {
+					return {
+						success: false,
+						errorMessage: 'Password not found. Please configure credentials first.',
+						output: '',
+					};
+				}
 			}
 
-			// 2. Build dotnet publish command
+			if (token?.isCancellationRequested) {
+				return this.cancelledResult('');
+			}
+
+			// 2. Build dotnet publish arguments
 			onProgress?.('Building project...', 30);
-			const command = this.buildPublishCommand(projectPath, profileInfo, password);
-			this.log(`Executing: ${command.replace(password, '***')}`);
+			const dotnetPath = this.configService.getDotnetPath();
+			const args = this.buildPublishArgs(projectPath, profileInfo, password, stagingDir);
+			const maskedArgs = password ? args.map((arg) => arg.split(password).join('***')) : args;
+			this.log(`Executing: ${dotnetPath} ${maskedArgs.join(' ')}`);
+
+			// dotnet publish ignores DeleteExistingFiles outside Visual Studio
+			if (isFileSystem && profileInfo.deleteExistingFiles) {
+				await this.clearPublishFolder(projectPath, profileInfo);
+			}
+			if (stagingDir) {
+				await fs.promises.rm(stagingDir, { recursive: true, force: true });
+			}
 
 			// 3. Execute deployment
-			onProgress?.('Publishing to IIS...', 60);
-			const result = await this.executeCommand(command, path.dirname(projectPath));
+			onProgress?.(
+				stagingDir
+					? 'Publishing to staging folder...'
+					: isFileSystem
+						? `Publishing to ${profileInfo.publishUrl || 'folder'}...`
+						: 'Publishing to IIS...',
+				60
+			);
+			const result = await this.executeCommand(
+				dotnetPath,
+				args,
+				path.dirname(projectPath),
+				token
+			);
+
+			if (result.cancelled) {
+				return this.cancelledResult(result.output);
+			}
+
+			const diagnostics = this.diagnosticParser.parse(
+				result.output,
+				path.dirname(projectPath)
+			);
+			this.publishDiagnostics(profileInfo, diagnostics);
 
 			// 4. Check result
 			if (result.exitCode === 0) {
+				// Linux host: upload the staging folder over SSH
+				if (isSsh && stagingDir) {
+					return await this.deployOverSsh(
+						stagingDir,
+						profileInfo,
+						password || undefined,
+						result.output,
+						diagnostics,
+						onProgress,
+						token
+					);
+				}
+
+				// App Service: push the staging folder through Kudu zipdeploy
+				if (isAzureWebApp && stagingDir) {
+					return await this.deployToKudu(
+						stagingDir,
+						profileInfo,
+						password,
+						result.output,
+						diagnostics,
+						onProgress,
+						token
+					);
+				}
+
+				// Zip artifact: package the staging folder into the artifact folder
+				if (stagingDir) {
+					onProgress?.('Packaging artifact...', 90);
+					let artifact: DeploymentArtifact;
+					try {
+						artifact = await this.artifactPackager.createArtifact(
+							stagingDir,
+							this.resolvePublishFolder(projectPath, profileInfo),
+							projectName,
+							path.dirname(projectPath),
+							token
+						);
+					} catch (error) {
+						if (token?.isCancellationRequested) {
+							return this.cancelledResult(result.output);
+						}
+						throw error;
+					}
+					onProgress?.('Complete!', 100);
+					return { success: true, output: result.output, diagnostics, artifact };
+				}
+
 				onProgress?.('Deployment complete!', 90);
 
 				// 5. Modify web.config if stdout logging is enabled
-				if (profileInfo.enableStdoutLog && this.webConfigModifier) {
+				if (!isFileSystem && profileInfo.enableStdoutLog && this.webConfigModifier) {
 					try {
 						onProgress?.('Configuring stdout logging...', 95);
 						await this.webConfigModifier.modifyStdoutLogging(
@@ -89,12 +333,15 @@ export class DeploymentService implements IDeploymentService {
 				return {
 					success: true,
 					output: result.output,
+					diagnostics,
 				};
 			} else {
 				return {
 					success: false,
-					errorMessage: this.extractErrorMessage(result.output),
+					errorMessage: this.extractErrorMessage(result.output, diagnostics),
 					output: result.output,
+					diagnostics,
+					knownError: this.errorAdvisor.diagnose(result.output, diagnostics),
 				};
 			}
 		} catch (error: any) {
@@ -103,10 +350,209 @@ export class DeploymentService implements IDeploymentService {
 				success: false,
 				errorMessage: error.message || 'Unknown deployment error',
 				output: error.toString(),
+				knownError: this.errorAdvisor.diagnose(error.toString()),
 			};
+		} finally {
+			if (stagingDir) {
+				await fs.promises
+					.rm(stagingDir, { recursive: true, force: true })
+					.catch(() => undefined);
+			}
 		}
 	}
 
+	/**
+	 * Upload a successful local publish to App Service and wait for Kudu to finish
+	 */
+	private async deployToKudu(
+		stagingDir: string,
+		profileInfo: PublishProfileInfo,
+		secret: string,
+		publishOutput: string,
+		diagnostics: DeploymentDiagnostic[],
+		onProgress?: (message: string, increment: number) => void,
+		token?: vscode.CancellationToken
+	): Promise<DeploymentResult> {
+		const zipPath = `${stagingDir}.zip`;
+		let keepPackage = false;
+
+		try {
+			onProgress?.('Packaging for zip deploy...', 10);
+			let fileCount: number;
+			try {
+				fileCount = await ZipArchiveWriter.zipFolder(stagingDir, zipPath, token);
+			} catch (error) {
+				if (token?.isCancellationRequested) {
+					return this.cancelledResult(publishOutput);
+				}
+				throw error;
+			}
+			const packaged = `Packaged ${fileCount} files into ${zipPath}`;
+			this.log(packaged);
+
+			onProgress?.('Uploading to App Service...', 0);
+			const kudu = await this.kuduDeployer.deploy(
+				zipPath,
+				profileInfo,
+				secret,
+				(message) => onProgress?.(message, 0),
+				token
+			);
+			const output = `${publishOutput}\n${packaged}\n${kudu.output}`;
+
+			if (kudu.cancelled) {
+				return { ...this.cancelledResult(output), kuduDeploymentId: kudu.deploymentId };
+			}
+			if (!kudu.success) {
+				return {
+					success: false,
+					errorMessage: kudu.errorMessage,
+					output,
+					diagnostics,
+					knownError: this.errorAdvisor.diagnose(output, diagnostics),
+					kuduDeploymentId: kudu.deploymentId,
+				};
+			}
+
+			// The uploaded zip doubles as the rollback package
+			keepPackage = this.configService.getRollbackPackageCount() > 0;
+			onProgress?.('Complete!', 100);
+			return {
+				success: true,
+				output,
+				diagnostics,
+				kuduDeploymentId: kudu.deploymentId,
+				rollbackPackage: keepPackage ? zipPath : undefined,
+			};
+		} finally {
+			if (!keepPackage) {
+				await fs.promises.rm(zipPath, { force: true }).catch(() => undefined);
+			}
+		}
+	}
+
+	/**
+	 * Upload a successful local publish to a Linux host and run its remote commands
+	 */
+	private async deployOverSsh(
+		stagingDir: string,
+		profileInfo: PublishProfileInfo,
+		secret: string | undefined,
+		publishOutput: string,
+		diagnostics: DeploymentDiagnostic[],
+		onProgress?: (message: string, increment: number) => void,
+		token?: vscode.CancellationToken
+	): Promise<DeploymentResult> {
+		const ssh = await this.sshDeployer.deploy(
+			stagingDir,
+			profileInfo,
+			secret,
+			(message) => onProgress?.(message, 0),
+			token
+		);
+		const output = `${publishOutput}\n${ssh.output}`;
+
+		if (ssh.cancelled) {
+			return { ...this.cancelledResult(output), remoteSteps: ssh.steps };
+		}
+		if (!ssh.success) {
+			return {
+				success: false,
+				errorMessage: ssh.errorMessage,
+				output,
+				diagnostics,
+				knownError: this.errorAdvisor.diagnose(output, diagnostics),
+				remoteSteps: ssh.steps,
+			};
+		}
+
+		onProgress?.('Complete!', 100);
+		return {
+			success: true,
+			output,
+			diagnostics,
+			remoteSteps: ssh.steps,
+			rollbackPackage: await this.createRollbackPackage(stagingDir),
+		};
+	}
+
+	/**
+	 * Zip the uploaded staging folder so the build can be restored later
+	 * A packaging problem never fails a deployment that already succeeded
+	 */
+	private async createRollbackPackage(stagingDir: string): Promise<string | undefined> {
+		if (this.configService.getRollbackPackageCount() <= 0) {
+			return undefined;
+		}
+
+		const zipPath = `${stagingDir}.zip`;
+		try {
+			await ZipArchiveWriter.zipFolder(stagingDir, zipPath);
+			return zipPath;
+		} catch (error: any) {
+			this.log(`Warning: Could not package the build for rollback: ${error.message}`);
+			await fs.promises.rm(zipPath, { force: true }).catch(() => undefined);
+			return undefined;
+		}
+	}
+
+	/**
+	 * Build a container image and push it to the profile's registry
+	 */
+	private async deployContainer(
+		projectPath: string,
+		profileInfo: PublishProfileInfo,
+		secret: string,
+		onProgress?: (message: string, increment: number) => void,
+		token?: vscode.CancellationToken
+	): Promise<DeploymentResult> {
+		onProgress?.('Building container image...', 30);
+		const container = await this.containerPublisher.publish(
+			projectPath,
+			profileInfo,
+			secret || undefined,
+			(message) => onProgress?.(message, 0),
+			token
+		);
+
+		if (container.cancelled) {
+			return this.cancelledResult(container.output);
+		}
+
+		const diagnostics = this.diagnosticParser.parse(
+			container.output,
+			path.dirname(projectPath)
+		);
+		this.publishDiagnostics(profileInfo, diagnostics);
+
+		if (!container.success) {
+			return {
+				success: false,
+				// MSBuild errors (CONTAINER1013 etc.) say more than the exit code
+				errorMessage: diagnostics.some((d) => d.severity === 'error')
+					? this.extractErrorMessage(container.output, diagnostics)
+					: container.errorMessage,
+				output: container.output,
+				diagnostics,
+				knownError: this.errorAdvisor.diagnose(container.output, diagnostics),
+				image: container.image,
+			};
+		}
+
+		onProgress?.('Complete!', 100);
+		return { success: true, output: container.output, diagnostics, image: container.image };
+	}
+
+	private cancelledResult(output: string): DeploymentResult {
+		this.log('Deployment cancelled by user');
+		return {
+			success: false,
+			cancelled: true,
+			errorMessage: 'Deployment cancelled',
+			output,
+		};
+	}
+
 	/**
 	 * Get password from storage
 	 */
@@ -119,89 +565,194 @@ export class DeploymentService implements IDeploymentService {
 	}
 
 	/**
-	 * Build dotnet publish command with MSDeploy parameters
+	 * Build dotnet publish arguments with MSDeploy parameters
+	 * FileSystem profiles need no credentials, but the folder must be passed as PublishDir
+	 * (the CLI does not copy to PublishUrl the way Visual Studio does)
+	 * ZipArtifact, App Service and SSH profiles publish as a folder into the staging directory
+	 * Arguments are passed to the process as-is (no shell), so values must not be quoted
 	 */
-	private buildPublishCommand(
+	private buildPublishArgs(
 		projectPath: string,
 		profileInfo: PublishProfileInfo,
-		password: string
-	): string {
+		password: string,
+		stagingDir?: string
+	): string[] {
 		const profileName = profileInfo.fileName;
 
+		if (stagingDir) {
+			return [
+				'publish',
+				projectPath,
+				`/p:PublishProfile=${profileName}`,
+				'/p:Configuration=Release',
+				'/p:WebPublishMethod=FileSystem',
+				`/p:PublishDir=${stagingDir}${path.sep}`,
+			];
+		}
+
+		if (isFileSystemPublishMethod(profileInfo.publishMethod)) {
+			return [
+				'publish',
+				projectPath,
+				`/p:PublishProfile=${profileName}`,
+				'/p:Configuration=Release',
+				`/p:PublishDir=${this.resolvePublishFolder(projectPath, profileInfo)}${path.sep}`,
+			];
+		}
+
 		// Use dotnet publish with PublishProfile and Password parameters
 		// Note: Do NOT use /p:DeployOnBuild=true as it causes circular dependency
 		// dotnet publish with PublishProfile already handles deployment
 		const args = [
-			'dotnet',
 			'publish',
-			`"${projectPath}"`,
-			`/p:PublishProfile="${profileName}"`,
-			`/p:Password="${password}"`,
+			projectPath,
+			`/p:PublishProfile=${profileName}`,
+			`/p:Password=${password}`,
 			'/p:Configuration=Release',
 			'/p:AllowUntrustedCertificate=true', // Allow self-signed certificates
 		];
 
-		return args.join(' ');
+		// Take the site offline while files are replaced (avoids ERROR_FILE_IN_USE)
+		if (profileInfo.enableAppOffline) {
+			args.push('/p:EnableMsDeployAppOffline=true');
+		}
+
+		return args;
 	}
 
 	/**
-	 * Execute command and capture output
+	 * Local folder zip artifact, App Service and SSH profiles publish into before uploading
 	 */
-	private async executeCommand(
+	private getStagingDir(projectName: string, profileInfo: PublishProfileInfo): string {
+		return path.join(
+			os.tmpdir(),
+			'dotnet-toolkit-staging',
+			`${projectName}-${profileInfo.fileName}`
+		);
+	}
+
+	/**
+	 * FileSystem/ZipArtifact PublishUrl, which may be relative to the project folder
+	 */
+	private resolvePublishFolder(projectPath: string, profileInfo: PublishProfileInfo): string {
+		return path.resolve(path.dirname(projectPath), profileInfo.publishUrl || '');
+	}
+
+	/**
+	 * Empty the target folder before a FileSystem publish
+	 * Refuses drive roots and folders that contain the project itself
+	 */
+	private async clearPublishFolder(
+		projectPath: string,
+		profileInfo: PublishProfileInfo
+	): Promise<void> {
+		const folder = this.resolvePublishFolder(projectPath, profileInfo);
+		const fromFolderToProject = path.relative(folder, path.dirname(projectPath));
+		const containsProject =
+			!fromFolderToProject.startsWith('..') && !path.isAbsolute(fromFolderToProject);
+		if (path.dirname(folder) === folder || containsProject) {
+			throw new Error(`Refusing to delete existing files in ${folder}`);
+		}
+
+		if (!fs.existsSync(folder)) {
+			return;
+		}
+
+		this.log(`Deleting existing files in ${folder}`);
+		for (const entry of await fs.promises.readdir(folder)) {
+			await fs.promises.rm(path.join(folder, entry), { recursive: true, force: true });
+		}
+	}
+
+	/**
+	 * Run dotnet and mirror its output to the output channel
+	 * Cancelling the token kills the whole process tree (dotnet + MSBuild nodes)
+	 */
+	private executeCommand(
 		command: string,
-		cwd: string
-	): Promise<{ exitCode: number; output: string }> {
-		return new Promise((resolve) => {
-			const { exec } = require('child_process');
-			let output = '';
-
-			const process = exec(command, {
-				cwd,
-				maxBuffer: 10 * 1024 * 1024, // 10MB buffer for large outputs
-				shell: 'powershell.exe', // Use PowerShell on Windows
-			});
-
-			process.stdout?.on('data', (data: Buffer) => {
-				const text = data.toString();
-				output += text;
-				this.outputChannel.append(text);
-			});
-
-			process.stderr?.on('data', (data: Buffer) => {
-				const text = data.toString();
-				output += text;
-				this.outputChannel.append(text);
-			});
-
-			process.on('close', (code: number) => {
-				resolve({
-					exitCode: code || 0,
-					output,
-				});
-			});
-
-			process.on('error', (error: Error) => {
-				output += `\nProcess error: ${error.message}`;
-				this.outputChannel.appendLine(`Process error: ${error.message}`);
-				resolve({
-					exitCode: 1,
-					output,
-				});
-			});
+		args: string[],
+		cwd: string,
+		token?: vscode.CancellationToken
+	): Promise<ProcessRunResult> {
+		const cancellation = token?.onCancellationRequested(() => {
+			this.outputChannel.appendLine('\n[DeploymentService] Cancelling deployment...');
 		});
+
+		return ProcessRunner.run(command, args, {
+			cwd,
+			token,
+			onOutput: (text) => this.outputChannel.append(text),
+		}).finally(() => cancellation?.dispose());
+	}
+
+	/**
+	 * Show file-based diagnostics in the Problems panel, replacing what the same profile
+	 * reported before (an empty list clears them); other profiles' entries are kept
+	 */
+	private publishDiagnostics(
+		profileInfo: PublishProfileInfo,
+		diagnostics: DeploymentDiagnostic[]
+	): void {
+		if (!this.diagnosticCollection) {
+			return;
+		}
+
+		const byFile = new Map<string, vscode.Diagnostic[]>();
+		for (const d of diagnostics) {
+			if (!d.file) {
+				continue;
+			}
+
+			const line = Math.max((d.line ?? 1) - 1, 0);
+			const column = Math.max((d.column ?? 1) - 1, 0);
+			const diagnostic = new vscode.Diagnostic(
+				new vscode.Range(line, column, line, column),
+				d.message,
+				d.severity === 'error'
+					? vscode.DiagnosticSeverity.Error
+					: vscode.DiagnosticSeverity.Warning
+			);
+			diagnostic.code = d.code;
+			diagnostic.source = 'dotnet publish';
+
+			const list = byFile.get(d.file) ?? [];
+			list.push(diagnostic);
+			byFile.set(d.file, list);
+		}
+
+		const previousFiles = [...(this.reportedDiagnostics.get(profileInfo.path)?.keys() ?? [])];
+		if (byFile.size > 0) {
+			this.reportedDiagnostics.set(profileInfo.path, byFile);
+		} else {
+			this.reportedDiagnostics.delete(profileInfo.path);
+		}
+
+		// Several profiles of one project can report problems in the same file
+		for (const file of new Set([...previousFiles, ...byFile.keys()])) {
+			const merged = [...this.reportedDiagnostics.values()].flatMap(
+				(files) => files.get(file) ?? []
+			);
+			if (merged.length > 0) {
+				this.diagnosticCollection.set(vscode.Uri.file(file), merged);
+			} else {
+				this.diagnosticCollection.delete(vscode.Uri.file(file));
+			}
+		}
 	}
 
 	/**
-	 * Extract meaningful error message from output
+	 * Extract meaningful error message from diagnostics, falling back to raw output
 	 */
-	private extractErrorMessage(output: string): string {
+	private extractErrorMessage(output: string, diagnostics: DeploymentDiagnostic[]): string {
+		const firstError = diagnostics.find((d) => d.severity === 'error');
+		if (firstError) {
+			return firstError.code
+				? `${firstError.code}: ${firstError.message}`
+				: firstError.message;
+		}
+
 		// Look for common error patterns
-		const errorPatterns = [
-			/error\s*:\s*(.+)/i,
-			/failed\s*:\s*(.+)/i,
-			/exception\s*:\s*(.+)/i,
-			/Build FAILED/i,
-		];
+		const errorPatterns = [/failed\s*:\s*(.+)/i, /exception\s*:\s*(.+)/i, /Build FAILED/i];
 
 		for (const pattern of errorPatterns) {
 			const match = output.match(pattern);
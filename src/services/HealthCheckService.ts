@@ -0,0 +1,172 @@
+import * as vscode from 'vscode';
+import { HealthCheckEndpointResult, HealthCheckOutcome } from '../models/HealthCheckModels';
+import { HealthCheckSettings } from '../models/ProjectModels';
+import { HttpClient, HttpResponse } from '../utils/HttpClient';
+import { Delay } from '../utils/Delay';
+
+/**
+ * Health Check Service Interface
+ * Probes HTTP endpoints after a deployment to confirm the app came up
+ */
+export interface IHealthCheckService {
+	/**
+	 * Check each endpoint, retrying until it passes or runs out of attempts
+	 * @param siteUrl Base for relative endpoint paths (the profile's site URL)
+	 */
+	run(
+		settings: HealthCheckSettings,
+		siteUrl: string | undefined,
+		onProgress?: (message: string) => void,
+		token?: vscode.CancellationToken
+	): Promise<HealthCheckOutcome>;
+}
+
+/**
+ * Health Check Service Implementation
+ * Endpoints are checked one after another; plain http:// works, so a local server
+ * can stand in for the deployed site
+ */
+export class HealthCheckService implements IHealthCheckService {
+	constructor(private readonly outputChannel: vscode.OutputChannel) {}
+
+	async run(
+		settings: HealthCheckSettings,
+		siteUrl: string | undefined,
+		onProgress?: (message: string) => void,
+		token?: vscode.CancellationToken
+	): Promise<HealthCheckOutcome> {
+		const startTime = Date.now();
+		const endpoints: HealthCheckEndpointResult[] = [];
+
+		let bodyPattern: RegExp | undefined;
+		try {
+			bodyPattern = settings.bodyPattern ? new RegExp(settings.bodyPattern) : undefined;
+		} catch (error: any) {
+			return this.outcome(
+				'unhealthy',
+				`Invalid body pattern: ${error.message}`,
+				endpoints,
+				startTime
+			);
+		}
+
+		for (const endpoint of settings.urls) {
+			let url: string;
+			try {
+				url = new URL(endpoint, siteUrl).toString();
+			} catch {
+				endpoints.push({
+					url: endpoint,
+					healthy: false,
+					error: siteUrl
+						? `Not a valid URL (site URL ${siteUrl})`
+						: 'Relative path but the profile has no site URL',
+					attempts: 0,
+					duration: 0,
+				});
+				continue;
+			}
+
+			const result = await this.checkEndpoint(url, settings, bodyPattern, onProgress, token);
+			if (!result) {
+				return this.outcome('cancelled', 'Health checks cancelled', endpoints, startTime);
+			}
+			endpoints.push(result);
+		}
+
+		const failed = endpoints.filter((e) => !e.healthy);
+		if (failed.length === 0) {
+			return this.outcome(
+				'healthy',
+				`${endpoints.length} endpoint${endpoints.length === 1 ? '' : 's'} healthy`,
+				endpoints,
+				startTime
+			);
+		}
+		return this.outcome(
+			'unhealthy',
+			failed.map((e) => `${e.url}: ${e.error}`).join('; '),
+			endpoints,
+			startTime
+		);
+	}
+
+	/**
+	 * @returns undefined when cancelled
+	 */
+	private async checkEndpoint(
+		url: string,
+		settings: HealthCheckSettings,
+		bodyPattern: RegExp | undefined,
+		onProgress?: (message: string) => void,
+		token?: vscode.CancellationToken
+	): Promise<HealthCheckEndpointResult | undefined> {
+		const maxAttempts = Math.max(settings.retries, 0) + 1;
+		let result: HealthCheckEndpointResult = { url, healthy: false, attempts: 0, duration: 0 };
+
+		for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+			onProgress?.(`Checking ${url} (attempt ${attempt}/${maxAttempts})...`);
+			const attemptStart = Date.now();
+			let response: HttpResponse | undefined;
+			let error: string | undefined;
+			try {
+				response = await HttpClient.request(url, { timeoutMs: settings.timeoutMs, token });
+				error = this.validate(response, settings, bodyPattern);
+			} catch (err: any) {
+				error = err.message;
+			}
+			if (token?.isCancellationRequested) {
+				return undefined;
+			}
+
+			result = {
+				url,
+				healthy: !error,
+				statusCode: response?.statusCode,
+				error,
+				attempts: attempt,
+				duration: Date.now() - attemptStart,
+			};
+			if (result.healthy) {
+				this.log(`${url} healthy (HTTP ${response!.statusCode}, attempt ${attempt})`);
+				return result;
+			}
+
+			this.log(`${url} attempt ${attempt}/${maxAttempts} failed: ${error}`);
+			if (attempt < maxAttempts && !(await Delay.wait(settings.retryDelayMs, token))) {
+				return undefined;
+			}
+		}
+		return result;
+	}
+
+	/**
+	 * @returns why the response is not healthy, undefined when it is
+	 */
+	private validate(
+		response: HttpResponse,
+		settings: HealthCheckSettings,
+		bodyPattern: RegExp | undefined
+	): string | undefined {
+		if (!settings.expectedStatus.includes(response.statusCode)) {
+			return `HTTP ${response.statusCode} (expected ${settings.expectedStatus.join(' or ')})`;
+		}
+		if (bodyPattern && !bodyPattern.test(response.body)) {
+			return `Response body does not match /${bodyPattern.source}/`;
+		}
+		return undefined;
+	}
+
+	private outcome(
+		status: HealthCheckOutcome['status'],
+		summary: string,
+		endpoints: HealthCheckEndpointResult[],
+		startTime: number
+	): HealthCheckOutcome {
+		return { status, summary, endpoints, duration: Date.now() - startTime };
+	}
+
+	private log(message: string): void {
+		this.outputChannel.appendLine(`[HealthCheck] ${message}`);
+	}
+}
@@ -0,0 +1,86 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as zlib from 'zlib';
+import { promisify } from 'util';
+import { DeploymentRecord } from '../models/DeploymentRecord';
+
+const gzip = promisify(zlib.gzip);
+const gunzip = promisify(zlib.gunzip);
+
+/**
+ * Pruned deployment records, one gzip-compressed JSON-lines file per month of start time
+ * Each archiving run appends a gzip member, so existing archives are never rewritten
+ */
+export class HistoryArchive {
+	private static readonly FILE_PATTERN = /^deployment-history-(\d{4}-\d{2})\.jsonl\.gz$/;
+
+	constructor(readonly directory: string) {}
+
+	/**
+	 * Append records to the archive of their month (local file references are dropped,
+	 * the logs and packages they point to are deleted with the live record)
+	 */
+	async append(records: DeploymentRecord[]): Promise<void> {
+		const byMonth = new Map<string, string[]>();
+		for (const record of records) {
+			const { logFile, packageFile, ...archived } = record;
+			const month = record.startTime.substring(0, 7);
+			const lines = byMonth.get(month) ?? [];
+			lines.push(JSON.stringify(archived));
+			byMonth.set(month, lines);
+		}
+		if (byMonth.size === 0) {
+			return;
+		}
+
+		await fs.promises.mkdir(this.directory, { recursive: true });
+		for (const [month, lines] of byMonth) {
+			const compressed = await gzip(lines.join('\n') + '\n');
+			await fs.promises.appendFile(
+				path.join(this.directory, `deployment-history-${month}.jsonl.gz`),
+				compressed
+			);
+		}
+	}
+
+	/**
+	 * Every archived record, newest first; unreadable archives and lines are skipped
+	 */
+	async read(): Promise<DeploymentRecord[]> {
+		let files: string[];
+		try {
+			files = await fs.promises.readdir(this.directory);
+		} catch {
+			return [];
+		}
+
+		const records: DeploymentRecord[] = [];
+		for (const file of files.filter((f) => HistoryArchive.FILE_PATTERN.test(f))) {
+			let content: string;
+			try {
+				// gunzip reads all appended members
+				content = (
+					await gunzip(await fs.promises.readFile(path.join(this.directory, file)))
+				).toString('utf-8');
+			} catch (error) {
+				console.error(`Failed to read history archive ${file}:`, error);
+				continue;
+			}
+
+			for (const line of content.split('\n')) {
+				if (!line.trim()) {
+					continue;
+				}
+				try {
+					records.push(JSON.parse(line) as DeploymentRecord);
+				} catch {
+					// Skip damaged line
+				}
+			}
+		}
+
+		return records.sort(
+			(a, b) => new Date(b.startTime).getTime() - new Date(a.startTime).getTime()
+		);
+	}
+}
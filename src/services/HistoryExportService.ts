@@ -0,0 +1,273 @@
+import { DeploymentRecord, DeploymentRecordHelper } from '../models/DeploymentRecord';
+import { HistoryFilterHelper } from '../models/HistoryViewModels';
+
+export type HistoryExportFormat = 'csv' | 'json' | 'markdown';
+
+export interface HistoryExportOptions {
+	/** Description of the filter the records were selected with (shown in the report) */
+	filterDescription?: string;
+	exportedAt: Date;
+}
+
+/**
+ * History Export Service Interface
+ * Renders deployment records for audits
+ */
+export interface IHistoryExportService {
+	render(
+		records: DeploymentRecord[],
+		format: HistoryExportFormat,
+		options: HistoryExportOptions
+	): string;
+}
+
+interface SummaryRow {
+	total: number;
+	success: number;
+	unhealthy: number;
+	failed: number;
+	cancelled: number;
+	durationTotal: number;
+	durationCount: number;
+}
+
+/**
+ * History Export Service Implementation
+ * Local file references (logs, retained packages) are left out of every format
+ */
+export class HistoryExportService implements IHistoryExportService {
+	private static readonly CSV_COLUMNS = [
+		'id',
+		'project',
+		'profile',
+		'environment',
+		'type',
+		'status',
+		'user',
+		'startTime',
+		'endTime',
+		'durationMs',
+		'branch',
+		'commit',
+		'uncommittedChanges',
+		'healthCheck',
+		'deploySet',
+		'rollbackOf',
+		'redeployOf',
+		'error',
+	];
+
+	render(
+		records: DeploymentRecord[],
+		format: HistoryExportFormat,
+		options: HistoryExportOptions
+	): string {
+		switch (format) {
+			case 'csv':
+				return this.toCsv(records);
+			case 'json':
+				return this.toJson(records, options);
+			default:
+				return this.toMarkdown(records, options);
+		}
+	}
+
+	private toCsv(records: DeploymentRecord[]): string {
+		const rows = records.map((r) => [
+			r.id,
+			r.projectName,
+			r.profileName,
+			r.environment,
+			r.type ?? 'deploy',
+			r.status,
+			r.user ?? '',
+			r.startTime,
+			r.endTime ?? '',
+			r.duration?.toString() ?? '',
+			r.git?.branch ?? '',
+			r.git?.commit ?? '',
+			r.git ? String(r.git.dirty) : '',
+			r.healthCheck ? `${r.healthCheck.status}: ${r.healthCheck.summary}` : '',
+			r.batchName ?? '',
+			r.rollbackOf ?? '',
+			r.redeployOf ?? '',
+			r.errorMessage ?? '',
+		]);
+
+		// Excel expects CRLF rows
+		return [HistoryExportService.CSV_COLUMNS, ...rows]
+			.map((row) => row.map((cell) => this.csvCell(cell)).join(','))
+			.join('\r\n')
+			.concat('\r\n');
+	}
+
+	/**
+	 * Quote when needed; a leading = + - @ is escaped so spreadsheets do not run it as a formula
+	 */
+	private csvCell(value: string): string {
+		const safe = /^[=+\-@\t\r]/.test(value) ? `'${value}` : value;
+		return /[",\r\n]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe;
+	}
+
+	private toJson(records: DeploymentRecord[], options: HistoryExportOptions): string {
+		const exported = records.map(({ logFile, packageFile, ...record }) => record);
+		return (
+			JSON.stringify(
+				{
+					exportedAt: options.exportedAt.toISOString(),
+					filter: options.filterDescription,
+					count: exported.length,
+					records: exported,
+				},
+				null,
+				2
+			) + '\n'
+		);
+	}
+
+	private toMarkdown(records: DeploymentRecord[], options: HistoryExportOptions): string {
+		const lines = [
+			'# Deployment History Report',
+			'',
+			`- Exported: ${options.exportedAt.toLocaleString()}`,
+			`- Records: ${records.length}`,
+		];
+		if (records.length > 0) {
+			const oldest = records[records.length - 1].startTime;
+			lines.push(
+				`- Period: ${HistoryFilterHelper.toDateKey(oldest)} to ${HistoryFilterHelper.toDateKey(records[0].startTime)}`
+			);
+		}
+		if (options.filterDescription) {
+			lines.push(`- Filter: ${this.mdCell(options.filterDescription)}`);
+		}
+
+		lines.push(
+			'',
+			'## Summary by environment',
+			'',
+			...this.renderSummary(
+				'Environment',
+				this.summarize(records, (r) => r.environment || 'UNKNOWN')
+			),
+			'',
+			'## Summary by month',
+			'',
+			...this.renderSummary(
+				'Month',
+				this.summarize(records, (r) =>
+					HistoryFilterHelper.toDateKey(r.startTime).substring(0, 7)
+				)
+			),
+			'',
+			'## Deployments',
+			''
+		);
+
+		if (records.length === 0) {
+			lines.push('No deployments.');
+		} else {
+			lines.push(
+				'| Started | Project | Profile | Environment | Status | Deployed by | Commit | Duration | Details |',
+				'| --- | --- | --- | --- | --- | --- | --- | --- | --- |'
+			);
+			for (const r of records) {
+				const commit = r.git
+					? `${r.git.commit.substring(0, 7)}${r.git.dirty ? ' (dirty)' : ''} ${r.git.branch ?? ''}`
+					: '';
+				const status = r.type === 'rollback' ? `${r.status} (rollback)` : r.status;
+				const details =
+					r.errorMessage ??
+					(r.status === 'unhealthy' ? r.healthCheck?.summary : undefined) ??
+					'';
+				lines.push(
+					`| ${[
+						new Date(r.startTime).toLocaleString(),
+						r.projectName,
+						r.profileName,
+						r.environment,
+						status,
+						r.user ?? '',
+						commit.trim(),
+						r.duration ? DeploymentRecordHelper.formatDuration(r.duration) : '',
+						details,
+					]
+						.map((cell) => this.mdCell(cell))
+						.join(' | ')} |`
+				);
+			}
+		}
+
+		return lines.join('\n') + '\n';
+	}
+
+	/**
+	 * Count outcomes per key; rows sorted by key (months newest first)
+	 */
+	private summarize(
+		records: DeploymentRecord[],
+		keyOf: (record: DeploymentRecord) => string
+	): [string, SummaryRow][] {
+		const rows = new Map<string, SummaryRow>();
+		for (const record of records) {
+			const key = keyOf(record);
+			const row = rows.get(key) ?? {
+				total: 0,
+				success: 0,
+				unhealthy: 0,
+				failed: 0,
+				cancelled: 0,
+				durationTotal: 0,
+				durationCount: 0,
+			};
+			row.total++;
+			if (
+				record.status === 'success' ||
+				record.status === 'unhealthy' ||
+				record.status === 'failed' ||
+				record.status === 'cancelled'
+			) {
+				row[record.status]++;
+			}
+			if (record.duration) {
+				row.durationTotal += record.duration;
+				row.durationCount++;
+			}
+			rows.set(key, row);
+		}
+
+		const numeric = (key: string) => /^\d{4}-\d{2}$/.test(key);
+		return [...rows.entries()].sort(([a], [b]) =>
+			numeric(a) && numeric(b) ? b.localeCompare(a) : a.localeCompare(b)
+		);
+	}
+
+	private renderSummary(keyName: string, rows: [string, SummaryRow][]): string[] {
+		if (rows.length === 0) {
+			return ['No deployments.'];
+		}
+
+		const lines = [
+			`| ${keyName} | Deployments | Succeeded | Unhealthy | Failed | Cancelled | Success rate | Avg duration |`,
+			'| --- | ---: | ---: | ---: | ---: | ---: | ---: | ---: |',
+		];
+		for (const [key, row] of rows) {
+			// In-progress records have no outcome yet
+			const finished = row.success + row.unhealthy + row.failed + row.cancelled;
+			const rate = finished ? `${Math.round((row.success / finished) * 100)}%` : '-';
+			const average = row.durationCount
+				? DeploymentRecordHelper.formatDuration(
+						Math.round(row.durationTotal / row.durationCount)
+					)
+				: '-';
+			lines.push(
+				`| ${this.mdCell(key)} | ${row.total} | ${row.success} | ${row.unhealthy} | ${row.failed} | ${row.cancelled} | ${rate} | ${average} |`
+			);
+		}
+		return lines;
+	}
+
+	private mdCell(value: string): string {
+		return value.replace(/\|/g, '\\|').replace(/\r?\n/g, ' ');
+	}
+}
@@ -2,20 +2,71 @@ import * as vscode from 'vscode';
 import * as fs from 'fs';
 import * as path from 'path';
 import { DeploymentRecord } from '../models/DeploymentRecord';
+import { HistoryRetentionPolicy } from '../models/HistoryRetentionModels';
+import { IConfigurationService } from './IConfigurationService';
+import { SharedHistoryStore } from './SharedHistoryStore';
+import { HistoryArchive } from './HistoryArchive';
 
 interface HistoryFileContent {
 	version: number;
 	records: DeploymentRecord[];
+	removedIds?: string[];
 }
 
+/**
+ * Upgrades of the stored records, keyed by the version they upgrade from
+ * Add a step and bump CURRENT_VERSION whenever the record format changes
+ */
+const MIGRATIONS: Record<number, (records: DeploymentRecord[]) => DeploymentRecord[]> = {
+	// v2: explicit record type, environments always uppercase
+	1: (records) =>
+		records.map((r) => ({
+			...r,
+			type: r.type ?? 'deploy',
+			environment: (r.environment || 'unknown').toUpperCase(),
+		})),
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
 export class HistoryManager {
 	private historyCache: DeploymentRecord[] = [];
+	// Teammates' records from dotnetToolkit.history.sharedPath (latest snapshot per id)
+	private sharedCache: DeploymentRecord[] = [];
+	// Own records cleared or pruned here while sharing is on; the shared file still holds them
+	private removedIds = new Set<string>();
 	private readonly STORAGE_FILE = 'deployment-history.json';
-	private readonly CURRENT_VERSION = 1;
+	private readonly SHARED_FILE = 'deployment-history.jsonl';
+	private readonly LOGS_DIR = 'logs';
+	private readonly PACKAGES_DIR = 'packages';
+	private readonly ARCHIVE_DIR = 'archive';
+	private readonly CURRENT_VERSION = 2;
+	// Read-modify-write cycles run one at a time (parallel deploy sets update concurrently)
+	private writeQueue: Promise<unknown> = Promise.resolve();
+	private sharedWatcher: vscode.FileSystemWatcher | undefined;
+	private readonly _onDidChangeSharedHistory = new vscode.EventEmitter<void>();
+	/** Fires when the shared history file changes on disk or its setting changes */
+	readonly onDidChangeSharedHistory = this._onDidChangeSharedHistory.event;
 
-	constructor(private readonly context: vscode.ExtensionContext) {
-		// Initial load
-		this.refreshHistory();
+	constructor(
+		private readonly context: vscode.ExtensionContext,
+		private readonly configService: IConfigurationService
+	) {
+		this.watchSharedHistory();
+		context.subscriptions.push(
+			this._onDidChangeSharedHistory,
+			{ dispose: () => this.sharedWatcher?.dispose() },
+			vscode.workspace.onDidChangeConfiguration(async (e) => {
+				if (e.affectsConfiguration('dotnetToolkit.history.sharedPath')) {
+					this.watchSharedHistory();
+					await this.loadShared();
+					this._onDidChangeSharedHistory.fire();
+				}
+			})
+		);
+
+		// Initial load, then prune what aged out since the last session
+		this.refreshHistory().then(() => this.applyRetention());
 	}
 
 	/**
@@ -28,21 +79,21 @@ export class HistoryManager {
 		const id = Math.random().toString(36).substring(2, 9);
 		const newRecord: DeploymentRecord = { ...record, id };
 
-		// 1. Read existing
-		await this.loadFromStorage();
+		await this.serialize(async () => {
+			// 1. Read existing
+			await this.loadFromStorage();
 
-		// 2. Add new record
-		this.historyCache.unshift(newRecord);
+			// 2. Add new record
+			this.historyCache.unshift(newRecord);
 
-		// 3. Prune if needed
-		const maxEntries = 50; // Hardcoded limit since configuration was removed
-		if (this.historyCache.length > maxEntries) {
-			this.historyCache = this.historyCache.slice(0, maxEntries);
-		}
+			// 3. Prune if needed
+			await this.prune();
 
-		// 4. Save
-		await this.saveToStorage();
+			// 4. Save
+			await this.saveToStorage();
+		});
 
+		await this.appendShared(newRecord);
 		return id;
 	}
 
@@ -54,47 +105,191 @@ export class HistoryManager {
 		updates: Partial<DeploymentRecord>,
 		profilePath: string
 	): Promise<void> {
-		await this.loadFromStorage();
+		const updated = await this.serialize(async () => {
+			await this.loadFromStorage();
+
+			const index = this.historyCache.findIndex((r) => r.id === id);
+			if (index !== -1) {
+				this.historyCache[index] = { ...this.historyCache[index], ...updates };
+				await this.saveToStorage();
+				return this.historyCache[index];
+			}
+			return undefined;
+		});
+
+		// Log and package paths only mean something on this machine
+		const sharedChange = Object.keys(updates).some(
+			(key) => key !== 'logFile' && key !== 'packageFile'
+		);
+		if (updated && sharedChange) {
+			await this.appendShared(updated);
+		}
+	}
+
+	/**
+	 * Persist the full deployment output for a record
+	 */
+	async saveDeploymentLog(id: string, output: string, profilePath: string): Promise<void> {
+		if (!this.context.storageUri || !output) {
+			return;
+		}
+
+		const logFile = path.join(this.LOGS_DIR, `${id}.log`);
+		try {
+			await fs.promises.mkdir(path.join(this.context.storageUri.fsPath, this.LOGS_DIR), {
+				recursive: true,
+			});
+			await fs.promises.writeFile(
+				path.join(this.context.storageUri.fsPath, logFile),
+				output,
+				'utf-8'
+			);
+		} catch (error) {
+			console.error('Failed to save deployment log:', error);
+			return;
+		}
+
+		await this.updateDeployment(id, { logFile }, profilePath);
+	}
+
+	/**
+	 * Get absolute path of the log file for a record (undefined if none stored)
+	 */
+	getLogFilePath(record: DeploymentRecord): string | undefined {
+		if (!this.context.storageUri || !record.logFile) {
+			return undefined;
+		}
+		const filePath = path.join(this.context.storageUri.fsPath, record.logFile);
+		return fs.existsSync(filePath) ? filePath : undefined;
+	}
+
+	/**
+	 * Keep the build zip of a successful deployment for later rollback
+	 * The zip is moved into history storage; only the newest `keep` packages of the
+	 * same project and profile are kept (keep <= 0 discards it)
+	 */
+	async retainPackage(
+		id: string,
+		sourcePath: string,
+		keep: number,
+		profilePath: string
+	): Promise<void> {
+		if (!this.context.storageUri || keep <= 0) {
+			await fs.promises.rm(sourcePath, { force: true }).catch(() => undefined);
+			return;
+		}
+
+		const packageFile = path.join(this.PACKAGES_DIR, `${id}.zip`);
+		const targetPath = path.join(this.context.storageUri.fsPath, packageFile);
+		try {
+			await fs.promises.mkdir(path.dirname(targetPath), { recursive: true });
+			await this.moveFile(sourcePath, targetPath);
+		} catch (error) {
+			console.error('Failed to retain deployment package:', error);
+			await fs.promises.rm(sourcePath, { force: true }).catch(() => undefined);
+			return;
+		}
+
+		await this.serialize(async () => {
+			await this.loadFromStorage();
+
+			const record = this.historyCache.find((r) => r.id === id);
+			if (!record) {
+				await fs.promises.rm(targetPath, { force: true }).catch(() => undefined);
+				return;
+			}
+			record.packageFile = packageFile;
+
+			// Cache is sorted newest first
+			const expired = this.historyCache
+				.filter(
+					(r) =>
+						r.packageFile &&
+						r.projectName === record.projectName &&
+						r.profileName === record.profileName
+				)
+				.slice(keep);
+			await this.deletePackageFiles(expired);
+			for (const r of expired) {
+				delete r.packageFile;
+			}
 
-		const index = this.historyCache.findIndex((r) => r.id === id);
-		if (index !== -1) {
-			this.historyCache[index] = { ...this.historyCache[index], ...updates };
 			await this.saveToStorage();
+		});
+	}
+
+	/**
+	 * Get absolute path of the retained build zip for a record (undefined if none kept)
+	 */
+	getPackagePath(record: DeploymentRecord): string | undefined {
+		if (!this.context.storageUri || !record.packageFile) {
+			return undefined;
 		}
+		const filePath = path.join(this.context.storageUri.fsPath, record.packageFile);
+		return fs.existsSync(filePath) ? filePath : undefined;
 	}
 
 	/**
-	 * Get all deployment records from cache
+	 * Get all deployment records from cache, newest first
+	 * Includes teammates' records from the shared history; this machine's copy wins and
+	 * records removed here stay hidden
 	 */
 	getAllHistory(): DeploymentRecord[] {
-		return this.historyCache;
+		if (this.sharedCache.length === 0) {
+			return this.historyCache;
+		}
+
+		const localIds = new Set(this.historyCache.map((r) => r.id));
+		const shared = this.sharedCache.filter(
+			(r) => !localIds.has(r.id) && !this.removedIds.has(r.id)
+		);
+		return [...this.historyCache, ...shared].sort(
+			(a, b) => new Date(b.startTime).getTime() - new Date(a.startTime).getTime()
+		);
+	}
+
+	/**
+	 * Whether the record was deployed from this machine (shared records are read-only)
+	 */
+	isLocalRecord(id: string): boolean {
+		return this.historyCache.some((r) => r.id === id);
 	}
 
 	/**
 	 * Get history count
 	 */
 	getHistoryCount(): number {
-		return this.historyCache.length;
+		return this.getAllHistory().length;
 	}
 
 	/**
-	 * Clear all history
+	 * Clear all history recorded on this machine
+	 * Teammates keep seeing its shared records; this machine stops showing them
 	 */
 	async clearHistory(): Promise<void> {
-		this.historyCache = [];
-		await this.saveToStorage();
+		await this.serialize(async () => {
+			await this.loadFromStorage();
+			this.markRemoved(this.historyCache);
+			await this.deleteRecordFiles(this.historyCache);
+			this.historyCache = [];
+			await this.saveToStorage();
+		});
 	}
 
 	/**
 	 * Remove a single entry by ID
 	 */
 	async clearEntry(id: string): Promise<void> {
-		await this.loadFromStorage();
-		const index = this.historyCache.findIndex((r) => r.id === id);
-		if (index !== -1) {
-			this.historyCache.splice(index, 1);
-			await this.saveToStorage();
-		}
+		await this.serialize(async () => {
+			await this.loadFromStorage();
+			const index = this.historyCache.findIndex((r) => r.id === id);
+			if (index !== -1) {
+				const [removed] = this.historyCache.splice(index, 1);
+				this.markRemoved([removed]);
+				await this.deleteRecordFiles([removed]);
+				await this.saveToStorage();
+			}
+		});
 	}
 
 	/**
@@ -102,6 +297,209 @@ export class HistoryManager {
 	 */
 	async refreshHistory(): Promise<void> {
 		await this.loadFromStorage();
+		await this.loadShared();
+	}
+
+	/**
+	 * Absolute path of the shared history file, undefined when sharing is off
+	 */
+	getSharedHistoryPath(): string | undefined {
+		const setting = this.configService.getSharedHistoryPath();
+		if (!setting) {
+			return undefined;
+		}
+
+		const root = this.configService.getWorkspaceRoot();
+		const resolved = path.isAbsolute(setting)
+			? setting
+			: root
+				? path.join(root, setting)
+				: undefined;
+		if (!resolved) {
+			return undefined;
+		}
+		// A folder gets the default file name
+		return path.extname(resolved) ? resolved : path.join(resolved, this.SHARED_FILE);
+	}
+
+	private getSharedStore(): SharedHistoryStore | undefined {
+		const filePath = this.getSharedHistoryPath();
+		return filePath ? new SharedHistoryStore(filePath) : undefined;
+	}
+
+	private async appendShared(record: DeploymentRecord): Promise<void> {
+		const store = this.getSharedStore();
+		if (!store) {
+			return;
+		}
+
+		try {
+			await store.append(record);
+		} catch (error: any) {
+			console.error('Failed to write shared history:', error);
+			vscode.window.showWarningMessage(
+				`Could not write to the shared deployment history (${store.filePath}): ${error.message}`
+			);
+			return;
+		}
+		await this.loadShared();
+	}
+
+	private async loadShared(): Promise<void> {
+		const store = this.getSharedStore();
+		if (!store) {
+			this.sharedCache = [];
+			return;
+		}
+
+		try {
+			this.sharedCache = await store.read();
+		} catch (error) {
+			console.error('Failed to load shared history:', error);
+			this.sharedCache = [];
+		}
+	}
+
+	/**
+	 * (Re)create the watcher that picks up teammates' appends to the shared file
+	 */
+	private watchSharedHistory(): void {
+		this.sharedWatcher?.dispose();
+		this.sharedWatcher = undefined;
+
+		const filePath = this.getSharedHistoryPath();
+		if (!filePath) {
+			return;
+		}
+
+		this.sharedWatcher = vscode.workspace.createFileSystemWatcher(
+			new vscode.RelativePattern(
+				vscode.Uri.file(path.dirname(filePath)),
+				path.basename(filePath)
+			)
+		);
+		const reload = async () => {
+			await this.loadShared();
+			this._onDidChangeSharedHistory.fire();
+		};
+		this.sharedWatcher.onDidChange(reload);
+		this.sharedWatcher.onDidCreate(reload);
+		this.sharedWatcher.onDidDelete(reload);
+	}
+
+	/**
+	 * Prune records beyond the retention limits (dotnetToolkit.history.retention.*)
+	 */
+	async applyRetention(): Promise<void> {
+		await this.serialize(async () => {
+			await this.loadFromStorage();
+			if (await this.prune()) {
+				await this.saveToStorage();
+			}
+		});
+	}
+
+	/**
+	 * Records pruned into the monthly archives, newest first
+	 */
+	async getArchivedHistory(): Promise<DeploymentRecord[]> {
+		const archive = this.getArchive();
+		return archive ? archive.read() : [];
+	}
+
+	/**
+	 * Drop cached records beyond the retention limits, archiving them when enabled
+	 * Records that fail to archive stay in the history until the next attempt
+	 * @returns whether anything was pruned
+	 */
+	private async prune(): Promise<boolean> {
+		const policy = this.configService.getHistoryRetention();
+		const { kept, pruned } = this.selectRetained(this.historyCache, policy);
+		if (pruned.length === 0) {
+			return false;
+		}
+
+		const archive = policy.archive ? this.getArchive() : undefined;
+		if (archive) {
+			try {
+				await archive.append(pruned);
+			} catch (error) {
+				console.error('Failed to archive pruned history:', error);
+				return false;
+			}
+		}
+
+		this.historyCache = kept;
+		this.markRemoved(pruned);
+		await this.deleteRecordFiles(pruned);
+		return true;
+	}
+
+	/**
+	 * Hide the records' shared snapshots from this machine's view
+	 */
+	private markRemoved(records: DeploymentRecord[]): void {
+		if (!this.getSharedHistoryPath()) {
+			return;
+		}
+		for (const record of records) {
+			this.removedIds.add(record.id);
+		}
+	}
+
+	/**
+	 * Split records (newest first) into kept and pruned
+	 * Age and per-project limits apply first; the global count then caps what is left
+	 */
+	private selectRetained(
+		records: DeploymentRecord[],
+		policy: HistoryRetentionPolicy
+	): { kept: DeploymentRecord[]; pruned: DeploymentRecord[] } {
+		const now = Date.now();
+		const kept: DeploymentRecord[] = [];
+		const pruned: DeploymentRecord[] = [];
+		const projectCounts = new Map<string, number>();
+
+		for (const record of records) {
+			if (record.status === 'in-progress') {
+				kept.push(record);
+				continue;
+			}
+
+			const rule = policy.projects[record.projectName] ?? {};
+			const maxAgeDays = rule.maxAgeDays ?? policy.maxAgeDays;
+			const count = (projectCounts.get(record.projectName) ?? 0) + 1;
+
+			const tooOld =
+				maxAgeDays > 0 && now - new Date(record.startTime).getTime() > maxAgeDays * DAY_MS;
+			const overProjectLimit = !!rule.maxEntries && count > rule.maxEntries;
+			const overTotalLimit = policy.maxEntries > 0 && kept.length >= policy.maxEntries;
+
+			if (tooOld || overProjectLimit || overTotalLimit) {
+				pruned.push(record);
+			} else {
+				kept.push(record);
+				projectCounts.set(record.projectName, count);
+			}
+		}
+
+		return { kept, pruned };
+	}
+
+	private getArchive(): HistoryArchive | undefined {
+		if (!this.context.storageUri) {
+			return undefined;
+		}
+		return new HistoryArchive(path.join(this.context.storageUri.fsPath, this.ARCHIVE_DIR));
+	}
+
+	/**
+	 * Queue a read-modify-write cycle behind any pending one
+	 */
+	private serialize<T>(task: () => Promise<T>): Promise<T> {
+		const run = this.writeQueue.then(task, task);
+		this.writeQueue = run.catch(() => undefined);
+		return run;
 	}
 
 	private async ensureStorageDir(): Promise<void> {
@@ -114,6 +512,51 @@ export class HistoryManager {
 		}
 	}
 
+	/**
+	 * Delete the log and retained package that belong to removed records
+	 */
+	private async deleteRecordFiles(records: DeploymentRecord[]): Promise<void> {
+		for (const record of records) {
+			const filePath = this.getLogFilePath(record);
+			if (filePath) {
+				try {
+					await fs.promises.unlink(filePath);
+				} catch (error) {
+					console.error('Failed to delete deployment log:', error);
+				}
+			}
+		}
+		await this.deletePackageFiles(records);
+	}
+
+	private async deletePackageFiles(records: DeploymentRecord[]): Promise<void> {
+		for (const record of records) {
+			const filePath = this.getPackagePath(record);
+			if (filePath) {
+				try {
+					await fs.promises.unlink(filePath);
+				} catch (error) {
+					console.error('Failed to delete deployment package:', error);
+				}
+			}
+		}
+	}
+
+	/**
+	 * Rename, falling back to copy + delete when the temp folder is on another drive
+	 */
+	private async moveFile(sourcePath: string, targetPath: string): Promise<void> {
+		try {
+			await fs.promises.rename(sourcePath, targetPath);
+		} catch (error: any) {
+			if (error.code !== 'EXDEV') {
+				throw error;
+			}
+			await fs.promises.copyFile(sourcePath, targetPath);
+			await fs.promises.unlink(sourcePath);
+		}
+	}
+
 	private getHistoryFilePath(): string | undefined {
 		if (!this.context.storageUri) {
 			return undefined;
@@ -125,6 +568,7 @@ export class HistoryManager {
 		const filePath = this.getHistoryFilePath();
 		if (!filePath || !fs.existsSync(filePath)) {
 			this.historyCache = [];
+			this.removedIds = new Set();
 			return;
 		}
 
@@ -132,11 +576,17 @@ export class HistoryManager {
 			const content = await fs.promises.readFile(filePath, 'utf-8');
 			const data = JSON.parse(content) as HistoryFileContent;
 
-			// Handle migration if we change version later
 			if (data && Array.isArray(data.records)) {
 				this.historyCache = data.records;
+				this.removedIds = new Set(data.removedIds ?? []);
+				if ((data.version ?? 1) < this.CURRENT_VERSION) {
+					this.historyCache = this.migrate(data.records, data.version ?? 1);
+					await this.backupBeforeMigration(filePath, data.version ?? 1);
+					await this.saveToStorage();
+				}
 			} else {
 				this.historyCache = [];
+				this.removedIds = new Set();
 			}
 
 			// Sort by startTime descending
@@ -149,6 +599,54 @@ export class HistoryManager {
 		}
 	}
 
+	/**
+	 * Run the migration steps from the stored version up to CURRENT_VERSION
+	 */
+	private migrate(records: DeploymentRecord[], fromVersion: number): DeploymentRecord[] {
+		let migrated = records;
+		for (let version = fromVersion; version < this.CURRENT_VERSION; version++) {
+			migrated = MIGRATIONS[version]?.(migrated) ?? migrated;
+		}
+		return migrated;
+	}
+
+	/**
+	 * Keep the pre-migration file (deployment-history.v1.json) so a downgrade can restore it
+	 */
+	private async backupBeforeMigration(filePath: string, version: number): Promise<void> {
+		const backupPath = filePath.replace(/\.json$/, `.v${version}.json`);
+		try {
+			await fs.promises.copyFile(filePath, backupPath, fs.constants.COPYFILE_EXCL);
+		} catch (error: any) {
+			if (error.code !== 'EEXIST') {
+				console.error('Failed to back up history before migration:', error);
+			}
+		}
+	}
+
+	/**
+	 * Forget removed ids the shared file no longer holds (all of them once sharing is off)
+	 * An unreadable shared file keeps them, so hidden records do not come back
+	 */
+	private async trimRemovedIds(): Promise<void> {
+		if (this.removedIds.size === 0) {
+			return;
+		}
+
+		const store = this.getSharedStore();
+		if (!store) {
+			this.removedIds = new Set();
+			return;
+		}
+
+		try {
+			const sharedIds = new Set((await store.read()).map((r) => r.id));
+			this.removedIds = new Set([...this.removedIds].filter((id) => sharedIds.has(id)));
+		} catch (error) {
+			console.error('Failed to read shared history:', error);
+		}
+	}
+
 	private async saveToStorage(): Promise<void> {
 		const filePath = this.getHistoryFilePath();
 		if (!filePath) {
@@ -156,10 +654,12 @@ export class HistoryManager {
 		}
 
 		await this.ensureStorageDir();
+		await this.trimRemovedIds();
 
 		const data: HistoryFileContent = {
 			version: this.CURRENT_VERSION,
 			records: this.historyCache,
+			removedIds: [...this.removedIds],
 		};
 
 		try {
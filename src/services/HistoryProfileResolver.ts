@@ -0,0 +1,84 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { DeploymentRecord } from '../models/DeploymentRecord';
+import { ProjectInfo, PublishProfileInfo, getProfileTarget } from '../models/ProjectModels';
+import { ProjectScanner } from '../utils/ProjectScanner';
+
+/**
+ * Project and profile a history record was deployed with
+ */
+export interface ResolvedHistoryProfile {
+	project: ProjectInfo;
+	profile: PublishProfileInfo;
+}
+
+/**
+ * History Profile Resolver Interface
+ * Maps a deployment record back to a publish profile in the workspace
+ */
+export interface IHistoryProfileResolver {
+	resolve(record: DeploymentRecord): Promise<ResolvedHistoryProfile | undefined>;
+}
+
+/**
+ * History Profile Resolver Implementation
+ * Matches the profile by file name, then by deployment target (a renamed .pubxml
+ * keeps its method and destination); asks when several profiles share the target
+ */
+export class HistoryProfileResolver implements IHistoryProfileResolver {
+	constructor(
+		private readonly outputChannel: vscode.OutputChannel,
+		private readonly projectScanner: ProjectScanner
+	) {}
+
+	async resolve(record: DeploymentRecord): Promise<ResolvedHistoryProfile | undefined> {
+		const structure = await this.projectScanner.scanWorkspace(
+			vscode.workspace.workspaceFolders?.[0]?.uri.fsPath || ''
+		);
+		const project = structure.projects.find((p) => p.name === record.projectName);
+		if (!project) {
+			vscode.window.showErrorMessage(`Project ${record.projectName} no longer exists`);
+			return undefined;
+		}
+
+		const byName = project.profiles.find((p) => p.fileName === record.profileName);
+		if (byName) {
+			return { project, profile: byName };
+		}
+
+		const candidates = record.profileTarget
+			? project.profiles.filter((p) => getProfileTarget(p) === record.profileTarget)
+			: [];
+		if (candidates.length === 0) {
+			vscode.window.showErrorMessage(
+				`Profile ${record.projectName} / ${record.profileName} no longer exists`
+			);
+			return undefined;
+		}
+
+		const profile =
+			candidates.length === 1
+				? candidates[0]
+				: (
+						await vscode.window.showQuickPick(
+							candidates.map((p) => ({
+								label: p.fileName,
+								description: path.basename(p.path),
+								profile: p,
+							})),
+							{
+								placeHolder: `${record.profileName} was renamed - select the profile to use`,
+							}
+						)
+					)?.profile;
+		if (profile) {
+			this.log(`${record.profileName} was renamed to ${profile.fileName}`);
+			return { project, profile };
+		}
+		return undefined;
+	}
+
+	private log(message: string): void {
+		this.outputChannel.appendLine(`[History] ${message}`);
+	}
+}
@@ -0,0 +1,46 @@
+import * as vscode from 'vscode';
+import {
+	DEFAULT_HISTORY_VIEW_STATE,
+	HistoryFilter,
+	HistoryGroupMode,
+	HistoryViewState,
+} from '../models/HistoryViewModels';
+
+/**
+ * Stores the History view filter and grouping in the workspace state
+ */
+export class HistoryViewStateService {
+	private static readonly KEY_VIEW_STATE = 'dotnet-toolkit.history.view';
+
+	constructor(private readonly context: vscode.ExtensionContext) {}
+
+	public getState(): HistoryViewState {
+		return {
+			...DEFAULT_HISTORY_VIEW_STATE,
+			...this.context.workspaceState.get<Partial<HistoryViewState>>(
+				HistoryViewStateService.KEY_VIEW_STATE,
+				{}
+			),
+		};
+	}
+
+	public getFilter(): HistoryFilter {
+		return this.getState().filter;
+	}
+
+	public getGroupMode(): HistoryGroupMode {
+		return this.getState().groupBy;
+	}
+
+	public async setFilter(filter: HistoryFilter): Promise<void> {
+		await this.update({ ...this.getState(), filter });
+	}
+
+	public async setGroupMode(groupBy: HistoryGroupMode): Promise<void> {
+		await this.update({ ...this.getState(), groupBy });
+	}
+
+	private async update(state: HistoryViewState): Promise<void> {
+		await this.context.workspaceState.update(HistoryViewStateService.KEY_VIEW_STATE, state);
+	}
+}
@@ -1,3 +1,7 @@
+import { PreDeployGateSettings } from '../models/PreDeployGateModels';
+import { WebhookSettings } from '../models/WebhookModels';
+import { HistoryRetentionPolicy } from '../models/HistoryRetentionModels';
+
 /**
  * Configuration Service Interface
  * Centralizes access to VS Code configuration
@@ -19,6 +23,36 @@ export interface IConfigurationService {
 	 */
 	getOpenBrowserOnDeploy(): boolean;
 
+	/**
+	 * Get pre-deployment build-and-test gate settings
+	 */
+	getPreDeployGateSettings(): PreDeployGateSettings;
+
+	/**
+	 * Number of build packages kept per profile for rollback (0 = none)
+	 */
+	getRollbackPackageCount(): number;
+
+	/**
+	 * Branches production deployments are expected to come from (empty = no check)
+	 */
+	getReleaseBranches(): string[];
+
+	/**
+	 * Chat webhooks notified about deployments (URLs are kept in password storage)
+	 */
+	getWebhooks(): WebhookSettings[];
+
+	/**
+	 * Shared deployment history file or folder (relative to the workspace root; empty = off)
+	 */
+	getSharedHistoryPath(): string | undefined;
+
+	/**
+	 * Deployment history retention limits and archiving
+	 */
+	getHistoryRetention(): HistoryRetentionPolicy;
+
 	/**
 	 * Get workspace root path
 	 */
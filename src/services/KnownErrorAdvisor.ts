@@ -0,0 +1,58 @@
+import { DeploymentDiagnostic } from '../models/DeploymentRecord';
+import { KnownErrorMatch, KnownErrorRule } from '../models/KnownErrorModels';
+import { DEFAULT_KNOWN_ERROR_RULES } from './KnownErrorRules';
+
+/**
+ * Known Error Advisor Interface
+ * Maps failed deployment output to a human explanation and remediation actions
+ */
+export interface IKnownErrorAdvisor {
+	/**
+	 * Find the first rule matching the output or diagnostic codes
+	 */
+	diagnose(output: string, diagnostics?: DeploymentDiagnostic[]): KnownErrorMatch | undefined;
+
+	/**
+	 * Add a rule to the table (evaluated before built-in rules)
+	 */
+	registerRule(rule: KnownErrorRule): void;
+}
+
+/**
+ * Known Error Advisor Implementation
+ * Rule table is pluggable: callers can pass their own rules or register more at runtime
+ */
+export class KnownErrorAdvisor implements IKnownErrorAdvisor {
+	private readonly rules: KnownErrorRule[];
+
+	constructor(rules: KnownErrorRule[] = DEFAULT_KNOWN_ERROR_RULES) {
+		this.rules = [...rules];
+	}
+
+	diagnose(
+		output: string,
+		diagnostics: DeploymentDiagnostic[] = []
+	): KnownErrorMatch | undefined {
+		const codes = diagnostics.map((d) => d.code).filter((c): c is string => !!c);
+
+		const rule = this.rules.find((r) =>
+			r.patterns.some(
+				(pattern) => pattern.test(output) || codes.some((code) => pattern.test(code))
+			)
+		);
+		if (!rule) {
+			return undefined;
+		}
+
+		return {
+			ruleId: rule.id,
+			title: rule.title,
+			explanation: rule.explanation,
+			actions: rule.actions,
+		};
+	}
+
+	registerRule(rule: KnownErrorRule): void {
+		this.rules.unshift(rule);
+	}
+}
@@ -0,0 +1,142 @@
+import { KnownErrorRule } from '../models/KnownErrorModels';
+
+const WEB_DEPLOY_ERROR_CODES_URL =
+	'https://learn.microsoft.com/iis/publish/troubleshooting-web-deploy/web-deploy-error-codes';
+
+/**
+ * Built-in rules for Web Deploy / dotnet publish failures our users hit most often
+ * Order matters: the first matching rule wins
+ */
+export const DEFAULT_KNOWN_ERROR_RULES: KnownErrorRule[] = [
+	{
+		id: 'unauthorized',
+		patterns: [/ERROR_USER_UNAUTHORIZED/, /\(401\)\s*Unauthorized/i, /could not authorize/i],
+		title: 'Deployment credentials were rejected',
+		explanation:
+			'The server refused the user name or password. The password may have changed or ' +
+			'the user lacks IIS Manager permissions for this site.',
+		actions: [
+			{ kind: 'reenterCredentials', label: 'Re-enter Credentials' },
+			{ kind: 'openDocs', label: 'Open Docs', url: WEB_DEPLOY_ERROR_CODES_URL },
+		],
+	},
+	{
+		id: 'destination-not-reachable',
+		patterns: [/ERROR_DESTINATION_NOT_REACHABLE/, /server did not respond/i],
+		title: 'Deployment server is not reachable',
+		explanation:
+			'Could not connect to the Web Management Service. Check the publish URL and port ' +
+			'(default 8172), that WMSVC is running, and that the firewall or VPN allows access.',
+		actions: [{ kind: 'openDocs', label: 'Open Docs', url: WEB_DEPLOY_ERROR_CODES_URL }],
+	},
+	{
+		id: 'file-in-use',
+		patterns: [/ERROR_FILE_IN_USE/, /being used by another process/i],
+		title: 'Files are locked by the running application',
+		explanation:
+			'The application pool still holds the assemblies open. Deploying with app_offline.htm ' +
+			'stops the app while files are replaced.',
+		actions: [
+			{ kind: 'retryWithAppOffline', label: 'Retry with app_offline' },
+			{ kind: 'openDocs', label: 'Open Docs', url: WEB_DEPLOY_ERROR_CODES_URL },
+		],
+	},
+	{
+		id: 'connection-reset',
+		patterns: [
+			/ECONNRESET/,
+			/forcibly closed by the remote host/i,
+			/underlying connection was closed/i,
+			/connection was reset/i,
+		],
+		title: 'Connection to the server was interrupted',
+		explanation:
+			'The network connection dropped during the upload. This is usually transient; ' +
+			'enable automatic retry for this profile if it happens often.',
+		actions: [{ kind: 'openDocs', label: 'Open Docs', url: WEB_DEPLOY_ERROR_CODES_URL }],
+	},
+	{
+		id: 'certificate',
+		patterns: [
+			/ERROR_CERTIFICATE_VALIDATION_FAILED/,
+			/remote certificate is invalid/i,
+			/could not establish trust relationship/i,
+		],
+		title: 'Server certificate could not be validated',
+		explanation:
+			'The deployment endpoint uses a self-signed or expired certificate. Renew the ' +
+			'certificate or allow untrusted certificates for this profile.',
+		actions: [{ kind: 'openDocs', label: 'Open Docs', url: WEB_DEPLOY_ERROR_CODES_URL }],
+	},
+	{
+		id: 'sdk-mismatch',
+		patterns: [
+			// The SDK resolver's error lists the requested version and the global.json it read
+			/A compatible \.NET SDK was not found/i,
+			/Requested SDK version:/i,
+			/global\.json file:/i,
+			/NETSDK1045/,
+			/match an installed SDK/i,
+		],
+		title: '.NET SDK version mismatch',
+		explanation:
+			'The SDK requested by global.json (or the target framework) is not installed on ' +
+			'this machine. Install the matching SDK or update global.json.',
+		actions: [
+			{
+				kind: 'openDocs',
+				label: 'Learn More',
+				url: 'https://aka.ms/dotnet/sdk-not-found',
+			},
+			{
+				kind: 'openDocs',
+				label: 'Download SDK',
+				url: 'https://dotnet.microsoft.com/download',
+			},
+		],
+	},
+	{
+		id: 'ssh-auth',
+		patterns: [
+			/Permission denied \((?:publickey|password|keyboard-interactive)/i,
+			/Load key .*: incorrect passphrase/i,
+		],
+		title: 'SSH login was rejected',
+		explanation:
+			'The Linux host refused the password or private key. Check the user name, the key ' +
+			'path and that the stored password or key passphrase is current.',
+		actions: [{ kind: 'reenterCredentials', label: 'Re-enter Credentials' }],
+	},
+	{
+		id: 'ssh-unreachable',
+		patterns: [
+			/ssh: connect to host .*(?:Connection refused|timed out|No route to host)/i,
+			/ssh: Could not resolve hostname/i,
+		],
+		title: 'SSH host is not reachable',
+		explanation:
+			'Could not open an SSH connection. Check the host name and port (default 22), ' +
+			'that sshd is running, and that the firewall or VPN allows access.',
+		actions: [{ kind: 'openDocs', label: 'Open Docs', url: 'https://man.openbsd.org/ssh' }],
+	},
+	{
+		id: 'registry-auth',
+		patterns: [
+			/unauthorized: authentication required/i,
+			/denied: requested access to the resource is denied/i,
+			/CONTAINER\d+:.*(?:Unauthorized|authentication|credentials)/i,
+		],
+		title: 'Container registry refused the push',
+		explanation:
+			'The registry requires a login, or the account may not push to this repository. ' +
+			'Store the registry user name and password (or access token) on the profile.',
+		actions: [
+			{ kind: 'reenterCredentials', label: 'Re-enter Credentials' },
+			{
+				kind: 'openDocs',
+				label: 'Open Docs',
+				url: 'https://learn.microsoft.com/dotnet/core/docker/publish-as-container',
+			},
+		],
+	},
+];
@@ -0,0 +1,300 @@
+import * as vscode from 'vscode';
+import { PublishProfileInfo } from '../models/ProjectModels';
+import { HttpClient, HttpResponse } from '../utils/HttpClient';
+import { Delay } from '../utils/Delay';
+
+/**
+ * Outcome of a Kudu zip deployment
+ */
+export interface KuduDeployResult {
+	success: boolean;
+	cancelled?: boolean;
+	errorMessage?: string;
+	/** Progress and Kudu log lines, for the history log and error diagnosis */
+	output: string;
+	/** Kudu deployment id (GET /api/deployments/{id}) */
+	deploymentId?: string;
+}
+
+/**
+ * Kudu deployment status (GET /api/deployments/{id})
+ */
+interface KuduDeploymentStatus {
+	id?: string;
+	status?: number;
+	status_text?: string;
+	message?: string;
+	complete?: boolean;
+	log_url?: string;
+	received_time?: string;
+	start_time?: string;
+}
+
+/** Kudu DeployStatus values (Failed = 3) */
+const KUDU_STATUS_SUCCESS = 4;
+const KUDU_STATUS_NAMES = ['Pending', 'Building', 'Deploying', 'Failed', 'Success'];
+
+/**
+ * Kudu Deploy Service Interface
+ * Pushes a zip of a published folder to Azure App Service through the Kudu zipdeploy API
+ */
+export interface IKuduDeployService {
+	deploy(
+		zipPath: string,
+		profileInfo: PublishProfileInfo,
+		secret: string,
+		onProgress?: (message: string) => void,
+		token?: vscode.CancellationToken
+	): Promise<KuduDeployResult>;
+}
+
+/**
+ * Kudu Deploy Service Implementation
+ * 1. POST {scm}/api/zipdeploy?isAsync=true (basic auth or bearer token)
+ * 2. Polls the deployment status URL from the Location header until it completes
+ *    (without one, /api/deployments/latest once it lists a deployment received after the push)
+ * The zip is left in place (the caller may keep it for rollback)
+ */
+export class KuduDeployService implements IKuduDeployService {
+	constructor(
+		private readonly outputChannel: vscode.OutputChannel,
+		private readonly pollIntervalMs = 2000,
+		private readonly timeoutMs = 15 * 60 * 1000
+	) {}
+
+	async deploy(
+		zipPath: string,
+		profileInfo: PublishProfileInfo,
+		secret: string,
+		onProgress?: (message: string) => void,
+		token?: vscode.CancellationToken
+	): Promise<KuduDeployResult> {
+		const lines: string[] = [];
+		const log = (message: string) => {
+			lines.push(message);
+			this.log(message);
+		};
+		const failed = (errorMessage: string): KuduDeployResult => {
+			log(`Error: ${errorMessage}`);
+			return { success: false, errorMessage, output: lines.join('\n') };
+		};
+
+		const scmUrl = this.resolveScmUrl(profileInfo.publishUrl);
+		if (!scmUrl) {
+			return failed('App Service profile has no Kudu (SCM) URL');
+		}
+		const headers = { Authorization: this.buildAuthorization(profileInfo, secret) };
+
+		try {
+			// 1. Upload
+			onProgress?.('Uploading to App Service...');
+			const uploadUrl = `${scmUrl}/api/zipdeploy?isAsync=true`;
+			log(`POST ${uploadUrl}`);
+			const uploadStart = Date.now();
+			const upload = await HttpClient.request(uploadUrl, {
+				method: 'POST',
+				headers: { ...headers, 'Content-Type': 'application/zip' },
+				body: { filePath: zipPath },
+				timeoutMs: 5 * 60 * 1000,
+				token,
+			});
+			log(`HTTP ${upload.statusCode}`);
+
+			if (upload.statusCode === 401 || upload.statusCode === 403) {
+				return failed(`Kudu rejected the credentials (HTTP ${upload.statusCode})`);
+			}
+			if (upload.statusCode !== 200 && upload.statusCode !== 202) {
+				return failed(
+					`Kudu zipdeploy failed (HTTP ${upload.statusCode})${this.describeBody(upload)}`
+				);
+			}
+
+			// 2. Poll (a synchronous 200 has already finished, but still report its status)
+			const location = upload.headers.location;
+			if (location) {
+				const statusUrl = new URL(location, scmUrl).toString();
+				return await this.pollStatus(statusUrl, headers, lines, log, onProgress, token);
+			}
+
+			// latest may still be an earlier deployment until Kudu registers this one
+			log('No deployment status URL returned; polling the latest deployment');
+			return await this.pollStatus(
+				`${scmUrl}/api/deployments/latest`,
+				headers,
+				lines,
+				log,
+				onProgress,
+				token,
+				this.uploadStartedAt(upload, uploadStart)
+			);
+		} catch (error: any) {
+			if (token?.isCancellationRequested) {
+				log('Cancelled');
+				return { success: false, cancelled: true, output: lines.join('\n') };
+			}
+			return failed(error.message || String(error));
+		}
+	}
+
+	private async pollStatus(
+		statusUrl: string,
+		headers: Record<string, string>,
+		lines: string[],
+		log: (message: string) => void,
+		onProgress?: (message: string) => void,
+		token?: vscode.CancellationToken,
+		notBefore?: number
+	): Promise<KuduDeployResult> {
+		const deadline = Date.now() + this.timeoutMs;
+		let lastStatus: number | undefined;
+		let deploymentId: string | undefined;
+
+		while (Date.now() < deadline) {
+			if (token?.isCancellationRequested) {
+				// The upload already happened - Kudu finishes the deployment on its own
+				log('Stopped waiting for Kudu; the deployment continues on the server');
+				return { success: false, cancelled: true, output: lines.join('\n'), deploymentId };
+			}
+
+			let response: HttpResponse;
+			try {
+				response = await HttpClient.request(statusUrl, {
+					headers: { ...headers, Accept: 'application/json' },
+					timeoutMs: 60 * 1000,
+					token,
+				});
+			} catch (error: any) {
+				// Dropped connections and timeouts are retried until the deadline, like error codes
+				if (!token?.isCancellationRequested) {
+					log(`Status check failed: ${error.message || String(error)}`);
+					await Delay.wait(this.pollIntervalMs, token);
+				}
+				continue;
+			}
+
+			// Kudu answers 202 while the deployment is running
+			const answered = response.statusCode === 200 || response.statusCode === 202;
+			const status = answered ? this.parseStatus(response.body) : undefined;
+			// Through /latest, an entry received before the push is an earlier deployment
+			const earlier =
+				!!status && notBefore !== undefined && !this.receivedSince(status, notBefore);
+
+			if (answered && !earlier) {
+				deploymentId = status?.id ?? deploymentId;
+
+				if (status?.status !== undefined && status.status !== lastStatus) {
+					lastStatus = status.status;
+					const name = KUDU_STATUS_NAMES[status.status] ?? `Status ${status.status}`;
+					log(`Deployment ${deploymentId ?? '(pending id)'}: ${name}`);
+					onProgress?.(`App Service: ${name}...`);
+				}
+
+				if (status?.complete) {
+					if (status.status === KUDU_STATUS_SUCCESS) {
+						log('Kudu deployment succeeded');
+						return { success: true, output: lines.join('\n'), deploymentId };
+					}
+
+					if (status.log_url) {
+						await this.appendDeploymentLog(status.log_url, headers, log, token);
+					}
+					return {
+						success: false,
+						errorMessage:
+							status.status_text || status.message || 'Kudu deployment failed',
+						output: lines.join('\n'),
+						deploymentId,
+					};
+				}
+			} else if (!answered && response.statusCode !== 404) {
+				// 404: the deployment record is not there yet
+				log(`Status check returned HTTP ${response.statusCode}`);
+			}
+
+			await Delay.wait(this.pollIntervalMs, token);
+		}
+
+		log(`Timed out after ${this.timeoutMs / 1000}s waiting for Kudu`);
+		return {
+			success: false,
+			errorMessage: 'Timed out waiting for the App Service deployment to complete',
+			output: lines.join('\n'),
+			deploymentId,
+		};
+	}
+
+	/**
+	 * Copy the Kudu deployment log (array of { log_time, message }) into the output
+	 */
+	private async appendDeploymentLog(
+		logUrl: string,
+		headers: Record<string, string>,
+		log: (message: string) => void,
+		token?: vscode.CancellationToken
+	): Promise<void> {
+		try {
+			const response = await HttpClient.request(logUrl, { headers, token });
+			const entries = JSON.parse(response.body);
+			if (Array.isArray(entries)) {
+				for (const entry of entries) {
+					log(`[Kudu] ${entry.log_time ?? ''} ${entry.message ?? ''}`.trim());
+				}
+			}
+		} catch {
+			// The log is only a convenience
+		}
+	}
+
+	/**
+	 * Normalize a profile URL to the Kudu site root
+	 *   my-app.scm.azurewebsites.net:443 -> https://my-app.scm.azurewebsites.net
+	 *   http://localhost:5050/ -> http://localhost:5050 (local stand-in)
+	 */
+	private resolveScmUrl(publishUrl?: string): string | undefined {
+		const trimmed = (publishUrl || '').trim().replace(/\/+$/, '');
+		if (!trimmed) {
+			return undefined;
+		}
+
+		const url = new URL(/^https?:\/\//i.test(trimmed) ? trimmed : `https://${trimmed}`);
+		return `${url.protocol}//${url.host}${url.pathname.replace(/\/+$/, '')}`;
+	}
+
+	private buildAuthorization(profileInfo: PublishProfileInfo, secret: string): string {
+		return profileInfo.kuduAuthType === 'token'
+			? `Bearer ${secret}`
+			: HttpClient.basicAuth(profileInfo.userName || '', secret);
+	}
+
+	/**
+	 * When the upload started by the server's clock (Date header less the upload time),
+	 * so Kudu timestamps compare without local clock skew
+	 */
+	private uploadStartedAt(upload: HttpResponse, uploadStart: number): number {
+		const serverDate = Date.parse(String(upload.headers.date ?? ''));
+		// The Date header has one-second resolution
+		return isNaN(serverDate) ? uploadStart : serverDate - (Date.now() - uploadStart) - 1000;
+	}
+
+	private receivedSince(status: KuduDeploymentStatus, notBefore: number): boolean {
+		const received = Date.parse(status.received_time ?? status.start_time ?? '');
+		return !isNaN(received) && received >= notBefore;
+	}
+
+	private parseStatus(body: string): KuduDeploymentStatus | undefined {
+		try {
+			return JSON.parse(body) as KuduDeploymentStatus;
+		} catch {
+			return undefined;
+		}
+	}
+
+	private describeBody(response: HttpResponse): string {
+		const text = response.body.trim();
+		return text ? `: ${text.substring(0, 300)}` : '';
+	}
+
+	private log(message: string): void {
+		this.outputChannel.appendLine(`[KuduDeploy] ${message}`);
+	}
+}
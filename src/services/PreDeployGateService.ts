@@ -0,0 +1,184 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import { PreDeployGateOutcome, TestRunSummary } from '../models/PreDeployGateModels';
+import { IConfigurationService } from './IConfigurationService';
+import { ProcessRunner, ProcessRunResult } from '../utils/ProcessRunner';
+
+/**
+ * Pre-deployment Gate Service Interface
+ * Builds and tests the solution before a deployment is allowed to run
+ */
+export interface IPreDeployGateService {
+	/**
+	 * Whether the gate is turned on in settings
+	 */
+	isEnabled(): boolean;
+
+	/**
+	 * Run dotnet build (and dotnet test) for the solution containing the project
+	 */
+	run(
+		projectPath: string,
+		onProgress?: (message: string) => void,
+		token?: vscode.CancellationToken
+	): Promise<PreDeployGateOutcome>;
+}
+
+/**
+ * Pre-deployment Gate Service Implementation
+ */
+export class PreDeployGateService implements IPreDeployGateService {
+	constructor(
+		private readonly outputChannel: vscode.OutputChannel,
+		private readonly configService: IConfigurationService
+	) {}
+
+	isEnabled(): boolean {
+		return this.configService.getPreDeployGateSettings().enabled;
+	}
+
+	async run(
+		projectPath: string,
+		onProgress?: (message: string) => void,
+		token?: vscode.CancellationToken
+	): Promise<PreDeployGateOutcome> {
+		const startTime = Date.now();
+		const settings = this.configService.getPreDeployGateSettings();
+		const dotnetPath = this.configService.getDotnetPath();
+		const workspaceRoot = this.configService.getWorkspaceRoot();
+		const buildTarget = this.findSolution(projectPath, workspaceRoot) ?? projectPath;
+		const cwd = path.dirname(buildTarget);
+		const elapsed = () => Date.now() - startTime;
+
+		// 1. Build
+		onProgress?.(`Building ${path.basename(buildTarget)}...`);
+		this.log(`Building ${buildTarget}`);
+		const build = await this.execute(dotnetPath, ['build', buildTarget], cwd, token);
+		if (build.cancelled) {
+			return { status: 'cancelled', summary: 'Cancelled during build', duration: elapsed() };
+		}
+		if (build.exitCode !== 0) {
+			return {
+				status: 'failed',
+				failedStage: 'build',
+				summary: `Build failed (${path.basename(buildTarget)})`,
+				duration: elapsed(),
+			};
+		}
+
+		if (!settings.runTests) {
+			return { status: 'passed', summary: 'Build succeeded', duration: elapsed() };
+		}
+
+		// 2. Test (configured projects, or everything in the build target)
+		const testTargets = settings.testProjects.length
+			? settings.testProjects.map((p) => path.resolve(workspaceRoot ?? cwd, p))
+			: [buildTarget];
+		const tests: TestRunSummary = { passed: 0, failed: 0, skipped: 0, total: 0 };
+		let testsFailed = false;
+
+		for (const target of testTargets) {
+			onProgress?.(`Testing ${path.basename(target)}...`);
+			this.log(`Testing ${target}`);
+			// The solution was just built; configured projects may not be part of it
+			const args = target === buildTarget ? ['test', target, '--no-build'] : ['test', target];
+			const result = await this.execute(dotnetPath, args, cwd, token);
+			if (result.cancelled) {
+				return {
+					status: 'cancelled',
+					summary: 'Cancelled during tests',
+					duration: elapsed(),
+				};
+			}
+
+			const summary = this.parseTestSummary(result.output);
+			tests.passed += summary.passed;
+			tests.failed += summary.failed;
+			tests.skipped += summary.skipped;
+			tests.total += summary.total;
+			testsFailed = testsFailed || result.exitCode !== 0;
+		}
+
+		const counts = `${tests.passed}/${tests.total} tests passed`;
+		if (testsFailed) {
+			return {
+				status: 'failed',
+				failedStage: 'test',
+				summary:
+					tests.failed > 0
+						? `${tests.failed} test(s) failed, ${counts}`
+						: 'dotnet test failed',
+				tests,
+				duration: elapsed(),
+			};
+		}
+
+		return {
+			status: 'passed',
+			summary: `Build succeeded, ${counts}`,
+			tests,
+			duration: elapsed(),
+		};
+	}
+
+	/**
+	 * Find the nearest .sln walking up from the project folder (stops at the workspace root)
+	 */
+	private findSolution(projectPath: string, workspaceRoot?: string): string | undefined {
+		let dir = path.dirname(projectPath);
+
+		while (true) {
+			try {
+				const sln = fs.readdirSync(dir).find((f) => f.toLowerCase().endsWith('.sln'));
+				if (sln) {
+					return path.join(dir, sln);
+				}
+			} catch {
+				// Unreadable folder - keep walking up
+			}
+
+			const parent = path.dirname(dir);
+			if (parent === dir || (workspaceRoot && path.relative(workspaceRoot, dir) === '')) {
+				return undefined;
+			}
+			dir = parent;
+		}
+	}
+
+	/**
+	 * Sum the "Failed: x, Passed: y, Skipped: z, Total: n" lines dotnet test prints per test assembly
+	 */
+	private parseTestSummary(output: string): TestRunSummary {
+		const summary: TestRunSummary = { passed: 0, failed: 0, skipped: 0, total: 0 };
+		const regex = /Failed:\s*(\d+),\s*Passed:\s*(\d+),\s*Skipped:\s*(\d+),\s*Total:\s*(\d+)/g;
+
+		let match: RegExpExecArray | null;
+		while ((match = regex.exec(output)) !== null) {
+			summary.failed += parseInt(match[1], 10);
+			summary.passed += parseInt(match[2], 10);
+			summary.skipped += parseInt(match[3], 10);
+			summary.total += parseInt(match[4], 10);
+		}
+
+		return summary;
+	}
+
+	private execute(
+		command: string,
+		args: string[],
+		cwd: string,
+		token?: vscode.CancellationToken
+	): Promise<ProcessRunResult> {
+		this.log(`Executing: ${command} ${args.join(' ')}`);
+		return ProcessRunner.run(command, args, {
+			cwd,
+			token,
+			onOutput: (text) => this.outputChannel.append(text),
+		});
+	}
+
+	private log(message: string): void {
+		this.outputChannel.appendLine(`[PreDeployGate] ${message}`);
+	}
+}
@@ -1,6 +1,11 @@
 import * as vscode from 'vscode';
 import * as path from 'path';
-import { ProjectInfo, PublishProfileInfo, DeployEnvironment } from '../models/ProjectModels';
+import {
+	ProjectInfo,
+	PublishProfileInfo,
+	DeployEnvironment,
+	KuduAuthType,
+} from '../models/ProjectModels';
 import { IPasswordStorage } from '../strategies/IPasswordStorage';
 import { IXmlParser } from '../parsers/IXmlParser';
 import { IFileSystemRepository } from '../repositories/IFileSystemRepository';
@@ -8,6 +13,7 @@ import { IProjectAnalyzer } from '../analyzers/ProjectAnalyzer';
 import { IProfileXmlGenerator } from '../generators/ProfileXmlGenerator';
 import { IProfileRepository } from '../repositories/ProfileRepository';
 import { IEnvironmentDetector } from '../detectors/EnvironmentDetector';
+import { ProfilePropertyReader } from '../utils/ProfilePropertyReader';
 
 /**
  * Profile wizard input data
@@ -23,6 +29,30 @@ export interface ProfileWizardData {
 	openBrowserOnDeploy?: boolean;
 	enableStdoutLog?: boolean;
 	logPath?: string;
+	publishMethod?: 'MSDeploy' | 'FileSystem' | 'ZipArtifact' | 'ZipDeploy' | 'SSH' | 'Container'; // Defaults to MSDeploy
+	deleteExistingFiles?: boolean; // FileSystem only
+	kuduAuthType?: KuduAuthType; // ZipDeploy only (password holds the token for 'token')
+	sshRemotePath?: string; // SSH only (publishUrl holds host[:port])
+	sshAuthType?: 'password' | 'key'; // SSH only (password holds the key passphrase for 'key')
+	sshPrivateKeyPath?: string;
+	sshTransfer?: 'rsync' | 'sftp';
+	sshPreCommand?: string;
+	sshPostCommand?: string;
+	containerRegistry?: string; // Container only (username/password log in to it, if set)
+	containerRepository?: string;
+	containerImageTags?: string; // Tag template, e.g. {commit};latest
+	containerBuildMode?: 'sdk' | 'dockerfile';
+	dockerfilePath?: string; // dockerfile only, relative to the project folder
+	dockerfileContext?: string;
+	retryMaxAttempts?: number;
+	retryBackoffMs?: number;
+	retryOn?: string[];
+	healthCheckUrls?: string[]; // Empty = no health checks
+	healthCheckExpectedStatus?: number[];
+	healthCheckBodyPattern?: string;
+	healthCheckTimeoutMs?: number;
+	healthCheckRetries?: number;
+	healthCheckRetryDelayMs?: number;
 }
 
 /**
@@ -82,15 +112,17 @@ export class ProfileService implements IProfileService {
 				return null;
 			}
 
-			// Store password
-			const passwordKey = this.passwordStorage.generateKey(
-				projectInfo.name,
-				data.profileName
-			);
-			await this.passwordStorage.store(passwordKey, data.password);
-
 			this.log(`Created profile: ${pubxmlPath}`);
-			this.log(`Password key: ${passwordKey}`);
+
+			// Store password (FileSystem profiles have none; KEEP_EXISTING means unchanged)
+			if (data.password && data.password !== 'KEEP_EXISTING') {
+				const passwordKey = this.passwordStorage.generateKey(
+					projectInfo.name,
+					data.profileName
+				);
+				await this.passwordStorage.store(passwordKey, data.password);
+				this.log(`Password key: ${passwordKey}`);
+			}
 
 			return pubxmlPath;
 		} catch (error) {
@@ -188,6 +220,7 @@ export class ProfileService implements IProfileService {
 				openBrowserOnDeploy,
 				enableStdoutLog,
 				logPath: props?.LogPath,
+				...ProfilePropertyReader.readExtendedProperties(props),
 			};
 		} catch (error) {
 			this.log(`Error parsing ${pubxmlPath}: ${error}`);
@@ -0,0 +1,362 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {
+	PublishProfileInfo,
+	isAzureWebAppProfile,
+	isMsDeployProfile,
+	isSshPublishMethod,
+} from '../models/ProjectModels';
+import { DeploymentRecord, RollbackSource } from '../models/DeploymentRecord';
+import { IPasswordStorage } from '../strategies/IPasswordStorage';
+import { IKnownErrorAdvisor } from './KnownErrorAdvisor';
+import { IKuduDeployService } from './KuduDeployService';
+import { ISshDeployService } from './SshDeployService';
+import { DeploymentResult } from './DeploymentService';
+import { MsDeploy } from '../utils/MsDeploy';
+import { ProcessRunner, ProcessRunResult } from '../utils/ProcessRunner';
+import { ZipArchiveReader } from '../utils/ZipArchiveReader';
+
+/**
+ * One way a history record can be restored
+ */
+export interface RollbackOption {
+	source: RollbackSource;
+	label: string;
+	detail: string;
+}
+
+/**
+ * Rollback options for a record, or why there are none
+ */
+export interface RollbackPlan {
+	options: RollbackOption[];
+	/** Why each unavailable source cannot be used (shown when options is empty) */
+	reasons: string[];
+}
+
+/**
+ * Rollback Service Interface
+ * Restores the build of an earlier successful deployment
+ */
+export interface IRollbackService {
+	/**
+	 * @param history all records, newest first
+	 * @param packagePath retained build zip of the record, when one still exists
+	 */
+	plan(
+		record: DeploymentRecord,
+		profileInfo: PublishProfileInfo,
+		history: DeploymentRecord[],
+		packagePath: string | undefined
+	): RollbackPlan;
+
+	rollback(
+		projectName: string,
+		profileInfo: PublishProfileInfo,
+		source: RollbackSource,
+		packagePath: string | undefined,
+		onProgress?: (message: string, increment: number) => void,
+		token?: vscode.CancellationToken
+	): Promise<DeploymentResult>;
+}
+
+/**
+ * Rollback Service Implementation
+ * - server-backup: Web Deploy restores the backup the server took before the latest sync
+ *   (EnableMSDeployBackup), which is the build of the deployment before it
+ * - package: the zip retained for the record is uploaded again (App Service, SSH)
+ */
+export class RollbackService implements IRollbackService {
+	constructor(
+		private readonly outputChannel: vscode.OutputChannel,
+		private readonly passwordStorage: IPasswordStorage,
+		private readonly errorAdvisor: IKnownErrorAdvisor,
+		private readonly kuduDeployer: IKuduDeployService,
+		private readonly sshDeployer: ISshDeployService
+	) {}
+
+	plan(
+		record: DeploymentRecord,
+		profileInfo: PublishProfileInfo,
+		history: DeploymentRecord[],
+		packagePath: string | undefined
+	): RollbackPlan {
+		const options: RollbackOption[] = [];
+		const reasons: string[] = [];
+
+		// 1. Web Deploy backup
+		if (!isMsDeployProfile(profileInfo)) {
+			reasons.push('Server backups are only available for Web Deploy (MSDeploy) profiles.');
+		} else if (profileInfo.enableMsDeployBackup !== true) {
+			reasons.push('The profile does not enable EnableMSDeployBackup.');
+		} else {
+			// The latest backup holds what the previous completed deployment put on the server
+			// (an unhealthy deployment still synced, so its backup holds the one before it)
+			const synced = history.filter(
+				(r) =>
+					(r.status === 'success' || r.status === 'unhealthy') &&
+					r.projectName === record.projectName &&
+					r.profileName === record.profileName
+			);
+			if (synced[0]?.type !== 'rollback' && synced[1]?.id === record.id) {
+				options.push({
+					source: 'server-backup',
+					label: 'Restore the server backup',
+					detail: 'Web Deploy restores the backup taken before the latest deployment',
+				});
+			} else {
+				reasons.push(
+					'The server backup only restores the deployment before the latest one.'
+				);
+			}
+		}
+
+		// 2. Retained build package
+		if (!isAzureWebAppProfile(profileInfo) && !isSshPublishMethod(profileInfo.publishMethod)) {
+			reasons.push('Build packages are only kept for App Service and SSH profiles.');
+		} else if (!packagePath) {
+			reasons.push('No build package was kept for this deployment.');
+		} else {
+			options.push({
+				source: 'package',
+				label: 'Redeploy the retained build',
+				detail: `Uploads ${path.basename(packagePath)} again`,
+			});
+		}
+
+		return { options, reasons };
+	}
+
+	async rollback(
+		projectName: string,
+		profileInfo: PublishProfileInfo,
+		source: RollbackSource,
+		packagePath: string | undefined,
+		onProgress?: (message: string, increment: number) => void,
+		token?: vscode.CancellationToken
+	): Promise<DeploymentResult> {
+		try {
+			if (source === 'server-backup') {
+				return await this.restoreServerBackup(projectName, profileInfo, onProgress, token);
+			}
+			if (!packagePath) {
+				return {
+					success: false,
+					errorMessage: 'The build package is no longer available',
+					output: '',
+				};
+			}
+			return isSshPublishMethod(profileInfo.publishMethod)
+				? await this.redeployOverSsh(
+						projectName,
+						profileInfo,
+						packagePath,
+						onProgress,
+						token
+					)
+				: await this.redeployToKudu(
+						projectName,
+						profileInfo,
+						packagePath,
+						onProgress,
+						token
+					);
+		} catch (error: any) {
+			this.log(`Rollback error: ${error.message}`);
+			return {
+				success: false,
+				errorMessage: error.message || 'Unknown rollback error',
+				output: error.toString(),
+				knownError: this.errorAdvisor.diagnose(error.toString()),
+			};
+		}
+	}
+
+	/**
+	 * msdeploy -verb:sync -source:backupManager -dest:backupManager=<site>,useLatest=true
+	 */
+	private async restoreServerBackup(
+		projectName: string,
+		profileInfo: PublishProfileInfo,
+		onProgress?: (message: string, increment: number) => void,
+		token?: vscode.CancellationToken
+	): Promise<DeploymentResult> {
+		onProgress?.('Retrieving credentials...', 10);
+		const password = await this.getPassword(projectName, profileInfo);
+		if (!password) {
+			return this.missingPassword();
+		}
+
+		onProgress?.('Restoring the Web Deploy backup...', 30);
+		const args = [
+			'-verb:sync',
+			'-source:backupManager',
+			`-dest:${MsDeploy.formatSettings([
+				['backupManager', profileInfo.siteName || ''],
+				['useLatest', 'true'],
+				['computerName', MsDeploy.buildEndpoint(profileInfo)],
+				['userName', profileInfo.userName || ''],
+				['password', password],
+				['authType', 'Basic'],
+			])}`,
+			'-allowUntrusted',
+		];
+		const result = await this.execute(
+			MsDeploy.getExecutablePath(),
+			args,
+			os.tmpdir(),
+			token,
+			password
+		);
+
+		if (result.cancelled) {
+			return this.cancelledResult(result.output);
+		}
+		if (result.exitCode !== 0) {
+			return {
+				success: false,
+				errorMessage: `Web Deploy backup restore failed (exit code ${result.exitCode})`,
+				output: result.output,
+				knownError: this.errorAdvisor.diagnose(result.output),
+			};
+		}
+
+		onProgress?.('Complete!', 100);
+		return { success: true, output: result.output };
+	}
+
+	private async redeployToKudu(
+		projectName: string,
+		profileInfo: PublishProfileInfo,
+		packagePath: string,
+		onProgress?: (message: string, increment: number) => void,
+		token?: vscode.CancellationToken
+	): Promise<DeploymentResult> {
+		onProgress?.('Retrieving credentials...', 10);
+		const secret = await this.getPassword(projectName, profileInfo);
+		if (!secret) {
+			return this.missingPassword();
+		}
+
+		onProgress?.('Uploading the retained build to App Service...', 30);
+		const kudu = await this.kuduDeployer.deploy(
+			packagePath,
+			profileInfo,
+			secret,
+			(message) => onProgress?.(message, 0),
+			token
+		);
+
+		if (kudu.cancelled) {
+			return { ...this.cancelledResult(kudu.output), kuduDeploymentId: kudu.deploymentId };
+		}
+		if (!kudu.success) {
+			return {
+				success: false,
+				errorMessage: kudu.errorMessage,
+				output: kudu.output,
+				knownError: this.errorAdvisor.diagnose(kudu.output),
+				kuduDeploymentId: kudu.deploymentId,
+			};
+		}
+
+		onProgress?.('Complete!', 100);
+		return { success: true, output: kudu.output, kuduDeploymentId: kudu.deploymentId };
+	}
+
+	/**
+	 * Unpack the retained build and upload it like a fresh publish (remote commands included)
+	 */
+	private async redeployOverSsh(
+		projectName: string,
+		profileInfo: PublishProfileInfo,
+		packagePath: string,
+		onProgress?: (message: string, increment: number) => void,
+		token?: vscode.CancellationToken
+	): Promise<DeploymentResult> {
+		const secret = await this.getPassword(projectName, profileInfo);
+		if (!secret && profileInfo.ssh?.authType !== 'key') {
+			return this.missingPassword();
+		}
+
+		const stagingDir = await fs.promises.mkdtemp(
+			path.join(os.tmpdir(), 'dotnet-toolkit-rollback-')
+		);
+		try {
+			onProgress?.('Unpacking the retained build...', 10);
+			const fileCount = await ZipArchiveReader.extract(packagePath, stagingDir);
+			this.log(`Extracted ${fileCount} files from ${packagePath}`);
+
+			const ssh = await this.sshDeployer.deploy(
+				stagingDir,
+				profileInfo,
+				secret,
+				(message) => onProgress?.(message, 0),
+				token
+			);
+
+			if (ssh.cancelled) {
+				return { ...this.cancelledResult(ssh.output), remoteSteps: ssh.steps };
+			}
+			if (!ssh.success) {
+				return {
+					success: false,
+					errorMessage: ssh.errorMessage,
+					output: ssh.output,
+					knownError: this.errorAdvisor.diagnose(ssh.output),
+					remoteSteps: ssh.steps,
+				};
+			}
+
+			onProgress?.('Complete!', 100);
+			return { success: true, output: ssh.output, remoteSteps: ssh.steps };
+		} finally {
+			await fs.promises
+				.rm(stagingDir, { recursive: true, force: true })
+				.catch(() => undefined);
+		}
+	}
+
+	private async getPassword(
+		projectName: string,
+		profileInfo: PublishProfileInfo
+	): Promise<string | undefined> {
+		const key = this.passwordStorage.generateKey(projectName, profileInfo.fileName);
+		return (await this.passwordStorage.retrieve(key)) || undefined;
+	}
+
+	private missingPassword(): DeploymentResult {
+		return {
+			success: false,
+			errorMessage: 'Password not found. Please configure credentials first.',
+			output: '',
+		};
+	}
+
+	private cancelledResult(output: string): DeploymentResult {
+		this.log('Rollback cancelled by user');
+		return { success: false, cancelled: true, errorMessage: 'Rollback cancelled', output };
+	}
+
+	private execute(
+		command: string,
+		args: string[],
+		cwd: string,
+		token?: vscode.CancellationToken,
+		secret?: string
+	): Promise<ProcessRunResult> {
+		const masked = secret ? args.map((arg) => arg.split(secret).join('***')) : args;
+		this.log(`Executing: ${command} ${masked.join(' ')}`);
+		return ProcessRunner.run(command, args, {
+			cwd,
+			token,
+			onOutput: (text) => this.outputChannel.append(text),
+		});
+	}
+
+	private log(message: string): void {
+		this.outputChannel.appendLine(`[Rollback] ${message}`);
+	}
+}
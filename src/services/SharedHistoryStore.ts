@@ -0,0 +1,227 @@
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { DeploymentRecord } from '../models/DeploymentRecord';
+
+/**
+ * Team-wide deployment history in a JSON-lines file (a committed folder or a network share)
+ * Every line is a snapshot of one record; the last line for an id wins, so writers only
+ * ever append. Appends take a lock file so machines sharing the folder never interleave.
+ * Once the file passes compactMinBytes and at least half its lines are superseded
+ * snapshots, it is rewritten with one line per record, so it grows with the number of
+ * records rather than with every update
+ */
+export class SharedHistoryStore {
+	private static readonly LOCK_TIMEOUT_MS = 10000;
+	// A lock this old was left behind by a crashed writer
+	private static readonly STALE_LOCK_MS = 30000;
+
+	constructor(
+		readonly filePath: string,
+		private readonly compactMinBytes = 256 * 1024
+	) {}
+
+	/**
+	 * Append a snapshot of the record (local-only file references are left out)
+	 */
+	async append(record: DeploymentRecord): Promise<void> {
+		const { logFile, packageFile, ...shared } = record;
+		const line = JSON.stringify(shared) + '\n';
+
+		await fs.promises.mkdir(path.dirname(this.filePath), { recursive: true });
+		await this.withLock(async () => {
+			// A writer that crashed mid-line must not swallow this record
+			const separator = (await this.endsWithNewline()) ? '' : '\n';
+			await fs.promises.appendFile(this.filePath, separator + line, 'utf-8');
+			await this.compactIfNeeded();
+		});
+	}
+
+	/**
+	 * Latest snapshot of every record; unreadable lines are skipped
+	 */
+	async read(): Promise<DeploymentRecord[]> {
+		let content: string;
+		try {
+			content = await fs.promises.readFile(this.filePath, 'utf-8');
+		} catch (error: any) {
+			if (error.code === 'ENOENT') {
+				return [];
+			}
+			throw error;
+		}
+		return this.parse(content).records;
+	}
+
+	/**
+	 * Latest snapshot of every record in the content, and how many lines it has
+	 */
+	private parse(content: string): { records: DeploymentRecord[]; lineCount: number } {
+		const records = new Map<string, DeploymentRecord>();
+		let lineCount = 0;
+		for (const line of content.split('\n')) {
+			if (!line.trim()) {
+				continue;
+			}
+			lineCount++;
+			try {
+				const record = JSON.parse(line) as DeploymentRecord;
+				if (record?.id && record.startTime) {
+					records.set(record.id, record);
+				}
+			} catch {
+				// Partial line from an interrupted write
+			}
+		}
+		return { records: [...records.values()], lineCount };
+	}
+
+	/**
+	 * Rewrite the file with only the latest snapshot per record (called under the lock)
+	 * The new content is renamed into place, so readers see either the old or the new file
+	 */
+	private async compactIfNeeded(): Promise<void> {
+		const { size } = await fs.promises.stat(this.filePath);
+		if (size < this.compactMinBytes) {
+			return;
+		}
+
+		const { records, lineCount } = this.parse(
+			await fs.promises.readFile(this.filePath, 'utf-8')
+		);
+		if (records.length * 2 > lineCount) {
+			return;
+		}
+
+		const tempPath = `${this.filePath}.${crypto.randomUUID()}.tmp`;
+		try {
+			await fs.promises.writeFile(
+				tempPath,
+				records.map((r) => JSON.stringify(r) + '\n').join(''),
+				'utf-8'
+			);
+			await fs.promises.rename(tempPath, this.filePath);
+		} catch (error) {
+			// The appended line is already stored; compaction is retried on the next append
+			console.error('Failed to compact shared history:', error);
+			await fs.promises.rm(tempPath, { force: true });
+		}
+	}
+
+	private async endsWithNewline(): Promise<boolean> {
+		let handle: fs.promises.FileHandle | undefined;
+		try {
+			handle = await fs.promises.open(this.filePath, 'r');
+			const { size } = await handle.stat();
+			if (size === 0) {
+				return true;
+			}
+			const last = Buffer.alloc(1);
+			await handle.read(last, 0, 1, size - 1);
+			return last[0] === 0x0a;
+		} catch (error: any) {
+			if (error.code === 'ENOENT') {
+				return true;
+			}
+			throw error;
+		} finally {
+			await handle?.close();
+		}
+	}
+
+	/**
+	 * Run the task while holding <file>.lock (created exclusively, removed afterwards)
+	 * The lock holds a token unique to this attempt, so a lock another writer took over
+	 * after this one went stale is never removed here
+	 */
+	private async withLock<T>(task: () => Promise<T>): Promise<T> {
+		const lockPath = `${this.filePath}.lock`;
+		const token = `${os.hostname()} ${process.pid} ${crypto.randomUUID()}`;
+		const deadline = Date.now() + SharedHistoryStore.LOCK_TIMEOUT_MS;
+
+		for (;;) {
+			try {
+				await fs.promises.writeFile(lockPath, token, { flag: 'wx' });
+				break;
+			} catch (error: any) {
+				if (error.code !== 'EEXIST') {
+					throw error;
+				}
+				if (await this.breakStaleLock(lockPath)) {
+					continue;
+				}
+				if (Date.now() > deadline) {
+					throw new Error(`Timed out waiting for ${lockPath}`);
+				}
+				await new Promise((resolve) => setTimeout(resolve, 50 + Math.random() * 100));
+			}
+		}
+
+		try {
+			return await task();
+		} finally {
+			await this.releaseLock(lockPath, token);
+		}
+	}
+
+	/**
+	 * Remove the lock unless it now belongs to another writer
+	 */
+	private async releaseLock(lockPath: string, token: string): Promise<void> {
+		try {
+			if ((await fs.promises.readFile(lockPath, 'utf-8')) === token) {
+				await fs.promises.rm(lockPath, { force: true });
+			}
+		} catch (error: any) {
+			if (error.code !== 'ENOENT') {
+				throw error;
+			}
+		}
+	}
+
+	/**
+	 * Remove a lock left behind by a crashed writer
+	 * It is renamed to a name of its own first, so only one waiting writer breaks it, and
+	 * checked again there: a lock taken in the meantime is put back
+	 * @returns whether to try taking the lock again right away
+	 */
+	private async breakStaleLock(lockPath: string): Promise<boolean> {
+		if (!(await this.isStale(lockPath))) {
+			return false;
+		}
+
+		const movedPath = `${lockPath}.${crypto.randomUUID()}.stale`;
+		try {
+			await fs.promises.rename(lockPath, movedPath);
+		} catch (error: any) {
+			if (error.code === 'ENOENT') {
+				// Released or broken by another writer
+				return true;
+			}
+			throw error;
+		}
+
+		if (!(await this.isStale(movedPath))) {
+			try {
+				await fs.promises.copyFile(movedPath, lockPath, fs.constants.COPYFILE_EXCL);
+			} catch (error: any) {
+				if (error.code !== 'EEXIST') {
+					throw error;
+				}
+			}
+		}
+		await fs.promises.rm(movedPath, { force: true });
+		return true;
+	}
+
+	private async isStale(lockPath: string): Promise<boolean> {
+		try {
+			const stat = await fs.promises.stat(lockPath);
+			return Date.now() - stat.mtimeMs > SharedHistoryStore.STALE_LOCK_MS;
+		} catch {
+			// Released in the meantime
+			return false;
+		}
+	}
+}
@@ -0,0 +1,309 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { PublishProfileInfo, SshPublishSettings } from '../models/ProjectModels';
+import { RemoteStepResult } from '../models/DeploymentRecord';
+import { ProcessRunner, ProcessRunResult } from '../utils/ProcessRunner';
+
+/**
+ * Outcome of an SSH deployment
+ */
+export interface SshDeployResult {
+	success: boolean;
+	cancelled?: boolean;
+	errorMessage?: string;
+	/** Combined ssh / rsync / scp output */
+	output: string;
+	/** Remote steps that ran, in order */
+	steps: RemoteStepResult[];
+}
+
+/**
+ * SSH Deploy Service Interface
+ * Uploads a published folder to a Linux host and runs optional remote commands
+ */
+export interface ISshDeployService {
+	deploy(
+		publishDir: string,
+		profileInfo: PublishProfileInfo,
+		secret: string | undefined,
+		onProgress?: (message: string) => void,
+		token?: vscode.CancellationToken
+	): Promise<SshDeployResult>;
+}
+
+/** Environment variable the askpass helper reads the secret from (never written to disk) */
+const SECRET_ENV = 'DOTNET_TOOLKIT_SSH_SECRET';
+
+/**
+ * SSH Deploy Service Implementation
+ * Drives the OpenSSH client tools (ssh, rsync, scp):
+ * 1. Pre-deploy command (optional)
+ * 2. Create the remote folder and upload (rsync -az, or scp over SFTP)
+ * 3. Post-deploy command (optional), e.g. systemctl restart myapp
+ * Passwords and key passphrases are answered through SSH_ASKPASS
+ */
+export class SshDeployService implements ISshDeployService {
+	constructor(private readonly outputChannel: vscode.OutputChannel) {}
+
+	async deploy(
+		publishDir: string,
+		profileInfo: PublishProfileInfo,
+		secret: string | undefined,
+		onProgress?: (message: string) => void,
+		token?: vscode.CancellationToken
+	): Promise<SshDeployResult> {
+		const outputs: string[] = [];
+		const steps: RemoteStepResult[] = [];
+		const result = (fields: Partial<SshDeployResult>): SshDeployResult => ({
+			success: false,
+			output: outputs.join('\n'),
+			steps,
+			...fields,
+		});
+
+		const ssh = profileInfo.ssh;
+		const { host, port } = this.parseHost(profileInfo.publishUrl);
+		if (!ssh || !host) {
+			return result({ errorMessage: 'SSH profile needs a host and a remote path' });
+		}
+
+		const login = profileInfo.userName ? `${profileInfo.userName}@${host}` : host;
+		const options = this.buildSshOptions(ssh);
+		const askPassDir = secret ? await this.createAskPass() : undefined;
+		const env = askPassDir
+			? {
+					SSH_ASKPASS: this.getAskPassPath(askPassDir),
+					SSH_ASKPASS_REQUIRE: 'force',
+					DISPLAY: process.env.DISPLAY || ':0',
+					[SECRET_ENV]: secret!,
+				}
+			: undefined;
+
+		const runStep = async (
+			name: RemoteStepResult['name'],
+			commands: [string, string[]][]
+		): Promise<ProcessRunResult> => {
+			const startTime = Date.now();
+			let last: ProcessRunResult = { exitCode: 0, output: '', stdout: '', cancelled: false };
+			for (const [command, args] of commands) {
+				last = await this.execute(command, args, publishDir, env, token);
+				outputs.push(last.output);
+				if (last.cancelled || last.exitCode !== 0) {
+					break;
+				}
+			}
+			steps.push({ name, exitCode: last.exitCode, duration: Date.now() - startTime });
+			return last;
+		};
+		const remote = (command: string): [string, string[]] => [
+			'ssh',
+			[...options, '-p', port, login, command],
+		];
+
+		try {
+			// 1. Pre-deploy command
+			if (ssh.preCommand) {
+				onProgress?.('Running pre-deploy command...');
+				const pre = await runStep('pre-command', [remote(ssh.preCommand)]);
+				if (pre.cancelled) {
+					return result({ cancelled: true });
+				}
+				if (pre.exitCode !== 0) {
+					return result({
+						errorMessage: `Pre-deploy command failed (exit code ${pre.exitCode})`,
+					});
+				}
+			}
+
+			// 2. Upload
+			onProgress?.(`Uploading to ${host}:${ssh.remotePath}...`);
+			const upload = await runStep('upload', [
+				remote(this.buildPrepareCommand(ssh, profileInfo.deleteExistingFiles === true)),
+				ssh.transfer === 'sftp'
+					? ['scp', await this.buildScpArgs(publishDir, options, port, login, ssh)]
+					: [
+							'rsync',
+							this.buildRsyncArgs(publishDir, options, port, login, ssh, profileInfo),
+						],
+			]);
+			if (upload.cancelled) {
+				return result({ cancelled: true });
+			}
+			if (upload.exitCode !== 0) {
+				return result({ errorMessage: `Upload failed (exit code ${upload.exitCode})` });
+			}
+
+			// 3. Post-deploy command
+			if (ssh.postCommand) {
+				onProgress?.('Running post-deploy command...');
+				const post = await runStep('post-command', [remote(ssh.postCommand)]);
+				if (post.cancelled) {
+					return result({ cancelled: true });
+				}
+				if (post.exitCode !== 0) {
+					return result({
+						errorMessage: `Files were uploaded, but the post-deploy command failed (exit code ${post.exitCode})`,
+					});
+				}
+			}
+
+			return result({ success: true });
+		} finally {
+			if (askPassDir) {
+				await fs.promises
+					.rm(askPassDir, { recursive: true, force: true })
+					.catch(() => undefined);
+			}
+		}
+	}
+
+	/**
+	 * host, host:port or ssh://host:port (default port 22)
+	 */
+	private parseHost(publishUrl?: string): { host: string; port: string } {
+		const value = (publishUrl || '')
+			.trim()
+			.replace(/^ssh:\/\//i, '')
+			.replace(/\/+$/, '');
+		const match = value.match(/^(.*?)(?::(\d+))?$/);
+		return { host: match?.[1] ?? '', port: match?.[2] ?? '22' };
+	}
+
+	/**
+	 * Options shared by ssh, rsync's remote shell and scp
+	 */
+	private buildSshOptions(ssh: SshPublishSettings): string[] {
+		const options = [
+			// Trust on first use, but refuse changed host keys
+			'-o',
+			'StrictHostKeyChecking=accept-new',
+			'-o',
+			'ConnectTimeout=20',
+		];
+
+		if (ssh.authType === 'key' && ssh.privateKeyPath) {
+			options.push('-i', ssh.privateKeyPath, '-o', 'IdentitiesOnly=yes');
+		}
+		if (ssh.authType === 'password') {
+			options.push('-o', 'PreferredAuthentications=password,keyboard-interactive');
+		}
+
+		return options;
+	}
+
+	/**
+	 * Create the remote folder; scp cannot delete, so empty it here when asked to
+	 */
+	private buildPrepareCommand(ssh: SshPublishSettings, deleteExistingFiles: boolean): string {
+		const remotePath = this.quoteRemotePath(ssh.remotePath);
+		const command = `mkdir -p -- ${remotePath}`;
+		return deleteExistingFiles && ssh.transfer === 'sftp'
+			? `${command} && find ${remotePath} -mindepth 1 -delete`
+			: command;
+	}
+
+	private buildRsyncArgs(
+		publishDir: string,
+		options: string[],
+		port: string,
+		login: string,
+		ssh: SshPublishSettings,
+		profileInfo: PublishProfileInfo
+	): string[] {
+		// rsync splits the remote shell command itself, honouring double quotes
+		const remoteShell = ['ssh', '-p', port, ...options]
+			.map((part) => (/\s/.test(part) ? `"${part}"` : part))
+			.join(' ');
+
+		return [
+			'-az',
+			// Before rsync 3.2.4 the remote shell word-splits the destination otherwise
+			'--protect-args',
+			...(profileInfo.deleteExistingFiles ? ['--delete'] : []),
+			'-e',
+			remoteShell,
+			`${publishDir}${path.sep}`,
+			this.buildTransferTarget(login, ssh.remotePath),
+		];
+	}
+
+	private async buildScpArgs(
+		publishDir: string,
+		options: string[],
+		port: string,
+		login: string,
+		ssh: SshPublishSettings
+	): Promise<string[]> {
+		// Copy the folder's entries (not the folder itself) into the remote path
+		const entries = await fs.promises.readdir(publishDir);
+		return [
+			// SFTP protocol (OpenSSH 8.7+): no remote shell, so the path is taken literally
+			'-s',
+			'-r',
+			'-P',
+			port,
+			...options,
+			...entries.map((entry) => path.join(publishDir, entry)),
+			this.buildTransferTarget(login, ssh.remotePath),
+		];
+	}
+
+	/**
+	 * login:folder/ for rsync and scp, which receive the path without a remote shell
+	 * A leading ~/ becomes a path relative to the login's home folder
+	 */
+	private buildTransferTarget(login: string, remotePath: string): string {
+		const home = /^~(\/|$)/.test(remotePath);
+		const folder = remotePath.replace(/^~\/?/, '').replace(/\/+$/, '');
+		return `${login}:${folder || (home ? '.' : '')}/`;
+	}
+
+	/**
+	 * Single-quote a remote path for the login shell, keeping a leading ~/ expandable
+	 */
+	private quoteRemotePath(remotePath: string): string {
+		const quote = (value: string) => `'${value.replace(/'/g, `'\\''`)}'`;
+		return remotePath.startsWith('~/')
+			? `"$HOME"/${quote(remotePath.substring(2))}`
+			: quote(remotePath);
+	}
+
+	/**
+	 * Write a helper that prints the secret from the environment when OpenSSH asks for it
+	 */
+	private async createAskPass(): Promise<string> {
+		const dir = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'dotnet-toolkit-ssh-'));
+		const script =
+			process.platform === 'win32'
+				? `@powershell -NoProfile -Command "[Console]::Out.WriteLine($env:${SECRET_ENV})"\r\n`
+				: `#!/bin/sh\nprintf '%s\\n' "$${SECRET_ENV}"\n`;
+		await fs.promises.writeFile(this.getAskPassPath(dir), script, { mode: 0o700 });
+		return dir;
+	}
+
+	private getAskPassPath(dir: string): string {
+		return path.join(dir, process.platform === 'win32' ? 'askpass.cmd' : 'askpass.sh');
+	}
+
+	private execute(
+		command: string,
+		args: string[],
+		cwd: string,
+		env: Record<string, string> | undefined,
+		token?: vscode.CancellationToken
+	): Promise<ProcessRunResult> {
+		this.log(`Executing: ${command} ${args.join(' ')}`);
+		return ProcessRunner.run(command, args, {
+			cwd,
+			env,
+			token,
+			onOutput: (text) => this.outputChannel.append(text),
+		});
+	}
+
+	private log(message: string): void {
+		this.outputChannel.appendLine(`[SshDeploy] ${message}`);
+	}
+}
@@ -0,0 +1,202 @@
+import * as vscode from 'vscode';
+import { DeploymentRecord, DeploymentRecordHelper } from '../models/DeploymentRecord';
+import {
+	DEFAULT_WEBHOOK_TEMPLATES,
+	WebhookEvent,
+	WebhookKind,
+	WebhookSettings,
+} from '../models/WebhookModels';
+import { IConfigurationService } from './IConfigurationService';
+import { IPasswordStorage } from '../strategies/IPasswordStorage';
+import { HttpClient } from '../utils/HttpClient';
+
+/**
+ * Webhook Service Interface
+ * Posts deployment notifications to chat webhooks
+ */
+export interface IWebhookService {
+	/**
+	 * Notify every webhook configured for the record's environment and this event
+	 * Never rejects: delivery problems are logged
+	 */
+	notify(event: WebhookEvent, record: DeploymentRecord): Promise<void>;
+
+	/**
+	 * Password storage key holding the webhook URL
+	 */
+	getUrlKey(webhookName: string): string;
+
+	/**
+	 * Post a test message, rejecting when the webhook does not accept it
+	 */
+	sendTest(webhook: WebhookSettings, url: string): Promise<void>;
+}
+
+/**
+ * Webhook Service Implementation
+ * Messages go out one at a time so a fast deployment's "success" never overtakes its "start"
+ */
+export class WebhookService implements IWebhookService {
+	private sendQueue: Promise<void> = Promise.resolve();
+
+	constructor(
+		private readonly outputChannel: vscode.OutputChannel,
+		private readonly configService: IConfigurationService,
+		private readonly passwordStorage: IPasswordStorage,
+		private readonly timeoutMs = 10000
+	) {}
+
+	notify(event: WebhookEvent, record: DeploymentRecord): Promise<void> {
+		const environment = record.environment.toLowerCase();
+		const webhooks = this.configService
+			.getWebhooks()
+			.filter(
+				(w) =>
+					w.events.includes(event) &&
+					w.environments.some((e) => e.toLowerCase() === environment)
+			);
+
+		const send = async () => {
+			for (const webhook of webhooks) {
+				try {
+					const url = await this.passwordStorage.retrieve(this.getUrlKey(webhook.name));
+					if (!url) {
+						this.log(
+							`${webhook.name}: no URL stored, run ".NET Toolkit: Set Webhook URL"`
+						);
+						continue;
+					}
+
+					const message = this.renderMessage(webhook.template, event, record);
+					await this.post(url, this.buildPayload(webhook.type, event, message, record));
+					this.log(`${webhook.name}: ${event} notification sent`);
+				} catch (error: any) {
+					this.log(`${webhook.name}: ${event} notification failed: ${error.message}`);
+				}
+			}
+		};
+
+		this.sendQueue = this.sendQueue.then(send, send);
+		return this.sendQueue;
+	}
+
+	getUrlKey(webhookName: string): string {
+		const sanitized = webhookName
+			.toUpperCase()
+			.replace(/[^A-Z0-9]/g, '_')
+			.replace(/_+/g, '_');
+		return `DEPLOY_WEBHOOK_${sanitized}`;
+	}
+
+	async sendTest(webhook: WebhookSettings, url: string): Promise<void> {
+		const message = `🔔 Test notification from .NET Project Toolkit (${webhook.name})`;
+		await this.post(url, this.buildPayload(webhook.type, 'start', message));
+	}
+
+	/**
+	 * Fill {project}, {profile}, {environment}, {user}, {commit}, {branch}, {duration},
+	 * {status}, {result} and {error}; unknown placeholders are left as they are
+	 */
+	private renderMessage(
+		template: string | undefined,
+		event: WebhookEvent,
+		record: DeploymentRecord
+	): string {
+		const values: Record<string, string> = {
+			event,
+			project: record.projectName,
+			profile: record.profileName,
+			environment: record.environment,
+			user: record.user ?? 'someone',
+			commit: record.git
+				? `${record.git.commit.substring(0, 7)}${record.git.dirty ? ' (uncommitted changes)' : ''}`
+				: 'no git commit',
+			branch: record.git?.branch ?? 'detached HEAD',
+			duration: record.duration
+				? DeploymentRecordHelper.formatDuration(record.duration)
+				: '0ms',
+			status: record.status,
+			result: record.status === 'unhealthy' ? 'failed health checks' : record.status,
+			error: record.errorMessage ?? record.healthCheck?.summary ?? '',
+		};
+
+		return (template ?? DEFAULT_WEBHOOK_TEMPLATES[event]).replace(
+			/\{(\w+)\}/g,
+			(match, name: string) => values[name] ?? match
+		);
+	}
+
+	/**
+	 * Request body in the format each service expects
+	 */
+	private buildPayload(
+		kind: WebhookKind,
+		event: WebhookEvent,
+		message: string,
+		record?: DeploymentRecord
+	): object {
+		switch (kind) {
+			case 'slack':
+				return { text: message };
+			case 'discord':
+				return { content: message };
+			case 'teams':
+				return {
+					'@type': 'MessageCard',
+					'@context': 'https://schema.org/extensions',
+					summary: message,
+					themeColor: this.getThemeColor(event),
+					text: message,
+				};
+			default:
+				return {
+					event,
+					message,
+					deployment: record
+						? {
+								id: record.id,
+								project: record.projectName,
+								profile: record.profileName,
+								environment: record.environment,
+								status: record.status,
+								user: record.user,
+								startTime: record.startTime,
+								endTime: record.endTime,
+								duration: record.duration,
+								errorMessage: record.errorMessage,
+								git: record.git,
+							}
+						: undefined,
+				};
+		}
+	}
+
+	private getThemeColor(event: WebhookEvent): string {
+		switch (event) {
+			case 'success':
+				return '2EB886';
+			case 'failure':
+				return 'D50000';
+			case 'cancelled':
+				return '9E9E9E';
+			default:
+				return '0078D7';
+		}
+	}
+
+	private async post(url: string, payload: object): Promise<void> {
+		const response = await HttpClient.request(url, {
+			method: 'POST',
+			headers: { 'Content-Type': 'application/json' },
+			body: JSON.stringify(payload),
+			timeoutMs: this.timeoutMs,
+		});
+		if (response.statusCode < 200 || response.statusCode >= 300) {
+			throw new Error(`HTTP ${response.statusCode}: ${response.body.substring(0, 200)}`);
+		}
+	}
+
+	private log(message: string): void {
+		this.outputChannel.appendLine(`[Webhook] ${message}`);
+	}
+}
@@ -0,0 +1,84 @@
+import * as assert from 'assert';
+import * as cp from 'child_process';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { BuildInfo } from '../utils/BuildInfo';
+
+suite('BuildInfo', () => {
+	let repoDir: string;
+
+	const git = (...args: string[]) =>
+		cp.execFileSync('git', args, { cwd: repoDir, encoding: 'utf-8' }).trim();
+	const commit = (subject: string) => {
+		fs.appendFileSync(path.join(repoDir, 'Program.cs'), `// ${subject}\n`);
+		git('add', '.');
+		git('-c', 'user.name=Dev', '-c', 'user.email=dev@example.com', 'commit', '-qm', subject);
+	};
+
+	setup(() => {
+		repoDir = fs.mkdtempSync(path.join(os.tmpdir(), 'build-info-'));
+		git('init', '-q', '-b', 'release/1.2');
+	});
+
+	teardown(() => {
+		fs.rmSync(repoDir, { recursive: true, force: true });
+	});
+
+	test('reads the HEAD commit, author, branch and clean state', async () => {
+		commit('add orders endpoint');
+
+		assert.deepStrictEqual(await BuildInfo.readGitInfo(repoDir), {
+			branch: 'release/1.2',
+			commit: git('rev-parse', 'HEAD'),
+			message: 'add orders endpoint',
+			author: 'Dev',
+			dirty: false,
+		});
+		assert.strictEqual(
+			await BuildInfo.readCommit(repoDir),
+			git('rev-parse', '--short', 'HEAD')
+		);
+	});
+
+	test('marks uncommitted changes to tracked files as dirty', async () => {
+		commit('initial');
+		fs.writeFileSync(path.join(repoDir, 'untracked.txt'), 'ignored');
+		assert.strictEqual((await BuildInfo.readGitInfo(repoDir))?.dirty, false);
+
+		fs.appendFileSync(path.join(repoDir, 'Program.cs'), '// local edit\n');
+
+		assert.strictEqual((await BuildInfo.readGitInfo(repoDir))?.dirty, true);
+		assert.match((await BuildInfo.readCommit(repoDir)) ?? '', /^[0-9a-f]+-dirty$/);
+	});
+
+	test('a detached HEAD has no branch', async () => {
+		commit('initial');
+		git('checkout', '-q', '--detach');
+
+		assert.strictEqual(await BuildInfo.readBranch(repoDir), undefined);
+	});
+
+	test('repositories without commits and plain folders have no git info', async () => {
+		assert.strictEqual(await BuildInfo.readGitInfo(repoDir), undefined);
+		assert.strictEqual(await BuildInfo.readCommit(repoDir), undefined);
+
+		fs.rmSync(path.join(repoDir, '.git'), { recursive: true });
+		assert.strictEqual(await BuildInfo.readBranch(repoDir), undefined);
+	});
+
+	test('matches branch patterns with * wildcards only', () => {
+		assert.strictEqual(BuildInfo.matchesBranchPattern('release/1.2', 'release/*'), true);
+		assert.strictEqual(BuildInfo.matchesBranchPattern('main', 'main'), true);
+		assert.strictEqual(BuildInfo.matchesBranchPattern('hotfix/release/1', 'release/*'), false);
+		assert.strictEqual(BuildInfo.matchesBranchPattern('release-1', 'release.1'), false);
+		assert.strictEqual(BuildInfo.matchesBranchPattern('feature/x', 'feature/(x|y)'), false);
+	});
+
+	test('formats timestamps as yyyyMMdd-HHmmss in local time', () => {
+		assert.strictEqual(
+			BuildInfo.formatTimestamp(new Date(2026, 0, 5, 9, 3, 7)),
+			'20260105-090307'
+		);
+	});
+});
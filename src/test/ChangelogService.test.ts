@@ -0,0 +1,97 @@
+import * as assert from 'assert';
+import * as cp from 'child_process';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { ChangelogService } from '../services/ChangelogService';
+import { ChangelogPanel } from '../ui/ChangelogPanel';
+import { Changelog, ChangelogRange } from '../models/ChangelogModels';
+
+suite('ChangelogService', () => {
+	let repoDir: string;
+	let output: vscode.OutputChannel;
+
+	const git = (...args: string[]) =>
+		cp.execFileSync('git', args, { cwd: repoDir, encoding: 'utf-8' }).trim();
+	const commit = (subject: string) => {
+		fs.appendFileSync(path.join(repoDir, 'file.txt'), `${subject}\n`);
+		git('add', '.');
+		git('-c', 'user.name=Dev', '-c', 'user.email=dev@example.com', 'commit', '-m', subject);
+		return git('rev-parse', 'HEAD');
+	};
+	const range = (from: string, to: string): ChangelogRange => ({
+		repoDir,
+		from: { ref: from, label: 'from' },
+		to: { ref: to, label: 'to' },
+	});
+
+	setup(() => {
+		repoDir = fs.mkdtempSync(path.join(os.tmpdir(), 'changelog-'));
+		git('init', '-q');
+		output = vscode.window.createOutputChannel('changelog-test');
+	});
+
+	teardown(() => {
+		output.dispose();
+		fs.rmSync(repoDir, { recursive: true, force: true });
+	});
+
+	test('lists the commits after the older deployment, newest first', async () => {
+		const deployed = commit('initial');
+		commit('add orders endpoint');
+		commit("fix $' handling");
+
+		const changelog = await new ChangelogService(output).getChangelog(range(deployed, 'HEAD'));
+
+		assert.strictEqual(changelog.errorMessage, undefined);
+		assert.deepStrictEqual(
+			changelog.commits.map((c) => [c.subject, c.author]),
+			[
+				["fix $' handling", 'Dev'],
+				['add orders endpoint', 'Dev'],
+			]
+		);
+	});
+
+	test('reports a deployed commit that is no longer in the repository', async () => {
+		commit('initial');
+
+		const changelog = await new ChangelogService(output).getChangelog(
+			range('0123456789abcdef0123456789abcdef01234567', 'HEAD')
+		);
+
+		assert.deepStrictEqual(changelog.commits, []);
+		assert.match(changelog.errorMessage ?? '', /not in this repository/);
+	});
+
+	test('the panel shows subjects containing replacement patterns verbatim', async () => {
+		const extension = vscode.extensions.getExtension('alexnguyen03.dotnet-project-toolkit');
+		assert.ok(extension);
+		const changelog: Changelog = {
+			range: range('a'.repeat(40), 'HEAD'),
+			commits: [
+				{
+					sha: 'b'.repeat(40),
+					shortSha: 'bbbbbbb',
+					author: 'Dev',
+					date: new Date().toISOString(),
+					subject: "fix $' and $& handling",
+				},
+			],
+		};
+
+		ChangelogPanel.show(
+			extension.extensionUri,
+			changelog,
+			new ChangelogService(output),
+			output
+		);
+		const panel = (ChangelogPanel as any).current as ChangelogPanel;
+		const html: string = (panel as any).panel.webview.html;
+		panel.dispose();
+
+		assert.ok(html.includes("fix $' and $&amp; handling"));
+		assert.ok(!html.includes('{{CONTENT}}'));
+	});
+});
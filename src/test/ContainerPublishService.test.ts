@@ -0,0 +1,198 @@
+import * as assert from 'assert';
+import * as cp from 'child_process';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import type * as vscode from 'vscode';
+import { ContainerPublishService } from '../services/ContainerPublishService';
+import { IConfigurationService } from '../services/IConfigurationService';
+import {
+	ContainerPublishSettings,
+	DeployEnvironment,
+	PublishProfileInfo,
+} from '../models/ProjectModels';
+
+const DIGEST = `sha256:${'ab'.repeat(32)}`;
+
+/**
+ * Stand-in for docker and dotnet: records the tool, its arguments and the registry login
+ * it was given. docker push and dotnet publish report DIGEST the way the real tools do
+ */
+const FAKE_TOOL = `#!/usr/bin/env node
+const fs = require('fs');
+const path = require('path');
+const tool = path.basename(process.argv[1]);
+const args = process.argv.slice(2);
+const dockerConfig = process.env.DOCKER_CONFIG && fs.readFileSync(path.join(process.env.DOCKER_CONFIG, 'config.json'), 'utf8');
+const sdkUser = process.env.DOTNET_CONTAINER_PUSH_REGISTRY_UNAME;
+fs.appendFileSync(path.join(__dirname, 'calls.log'), JSON.stringify({ tool, args, dockerConfig, sdkUser }) + '\\n');
+if (tool === 'docker' && args[0] === 'push') console.log(args[1].split(':').pop() + ': digest: ${DIGEST} size: 1574');
+const digestFile = args.find((a) => a.startsWith('/p:DotnetToolkitContainerDigestFile='));
+if (digestFile) fs.writeFileSync(digestFile.substring(36), '${DIGEST}\\n');
+`;
+
+interface Call {
+	tool: string;
+	args: string[];
+	dockerConfig?: string;
+	sdkUser?: string;
+}
+
+suite('ContainerPublishService', () => {
+	let dir: string;
+	let projectPath: string;
+	let service: ContainerPublishService;
+	const originalPath = process.env.PATH;
+
+	const bin = (...segments: string[]) => path.join(dir, 'bin', ...segments);
+	const calls = (tool: string): Call[] =>
+		fs
+			.readFileSync(bin('calls.log'), 'utf8')
+			.trim()
+			.split('\n')
+			.map((line): Call => JSON.parse(line))
+			.filter((call) => call.tool === tool);
+	const git = (...args: string[]) =>
+		cp.execFileSync('git', args, { cwd: path.dirname(projectPath), encoding: 'utf-8' }).trim();
+	const profile = (container: Partial<ContainerPublishSettings>): PublishProfileInfo => ({
+		name: 'registry',
+		path: path.join(dir, 'registry.pubxml'),
+		fileName: 'registry',
+		environment: DeployEnvironment.Staging,
+		isProduction: false,
+		publishMethod: 'Container',
+		userName: 'pusher',
+		container: {
+			registry: 'registry.example.com/',
+			repository: 'contoso/api',
+			tagTemplate: 'latest',
+			build: 'dockerfile',
+			...container,
+		},
+	});
+
+	setup(function () {
+		if (process.platform === 'win32') {
+			this.skip();
+		}
+
+		dir = fs.mkdtempSync(path.join(os.tmpdir(), 'container-'));
+		projectPath = path.join(dir, 'Api', 'Api.csproj');
+		fs.mkdirSync(path.dirname(projectPath));
+		fs.writeFileSync(projectPath, '<Project />');
+		fs.writeFileSync(path.join(dir, 'Api', 'Dockerfile'), 'FROM scratch');
+		fs.mkdirSync(bin());
+		for (const tool of ['docker', 'dotnet']) {
+			fs.writeFileSync(bin(tool), FAKE_TOOL, { mode: 0o755 });
+		}
+		process.env.PATH = `${bin()}${path.delimiter}${originalPath}`;
+
+		const configService = {
+			getDotnetPath: () => bin('dotnet'),
+		} as unknown as IConfigurationService;
+		const output = {
+			append: () => undefined,
+			appendLine: () => undefined,
+		} as unknown as vscode.OutputChannel;
+		service = new ContainerPublishService(output, configService);
+	});
+
+	teardown(() => {
+		process.env.PATH = originalPath;
+		if (dir) {
+			fs.rmSync(dir, { recursive: true, force: true });
+		}
+	});
+
+	test('expands tag templates from git and the profile, dropping characters Docker rejects', async () => {
+		git('init', '-q', '-b', 'feature/orders');
+		git('add', '.');
+		git('-c', 'user.name=Dev', '-c', 'user.email=dev@example.com', 'commit', '-qm', 'initial');
+		const commit = git('rev-parse', '--short', 'HEAD');
+
+		const result = await service.publish(
+			projectPath,
+			profile({ tagTemplate: '{commit}; {branch}; {environment}-{profile}; latest; latest' }),
+			undefined
+		);
+
+		assert.strictEqual(result.success, true);
+		assert.deepStrictEqual(result.image?.tags, [
+			commit,
+			'feature-orders',
+			'staging-registry',
+			'latest',
+		]);
+	});
+
+	test('drops tags whose placeholders cannot be resolved', async () => {
+		const result = await service.publish(
+			projectPath,
+			profile({ tagTemplate: '{commit}; {branch}' }),
+			undefined
+		);
+
+		assert.strictEqual(result.success, false);
+		assert.match(result.errorMessage ?? '', /resolved to no valid tags/);
+		assert.strictEqual(fs.existsSync(bin('calls.log')), false);
+	});
+
+	test('builds with the Dockerfile and pushes every tag with a throwaway login', async () => {
+		const result = await service.publish(
+			projectPath,
+			profile({ tagTemplate: 'latest;v1' }),
+			's3cret'
+		);
+
+		assert.strictEqual(result.success, true);
+		assert.strictEqual(result.image?.repository, 'registry.example.com/contoso/api');
+		assert.strictEqual(result.image?.digest, DIGEST);
+		const [build, ...pushes] = calls('docker');
+		assert.deepStrictEqual(build.args, [
+			'build',
+			'-f',
+			path.join(dir, 'Api', 'Dockerfile'),
+			'-t',
+			'registry.example.com/contoso/api:latest',
+			'-t',
+			'registry.example.com/contoso/api:v1',
+			path.join(dir, 'Api'),
+		]);
+		assert.deepStrictEqual(
+			pushes.map((p) => p.args),
+			[
+				['push', 'registry.example.com/contoso/api:latest'],
+				['push', 'registry.example.com/contoso/api:v1'],
+			]
+		);
+		const auth = Buffer.from('pusher:s3cret').toString('base64');
+		assert.deepStrictEqual(JSON.parse(pushes[0].dockerConfig!), {
+			auths: { 'registry.example.com/': { auth } },
+		});
+	});
+
+	test('images without a registry stay in the local daemon', async () => {
+		const result = await service.publish(projectPath, profile({ registry: '' }), 's3cret');
+
+		assert.strictEqual(result.success, true);
+		assert.deepStrictEqual(
+			calls('docker').map((c) => c.args[0]),
+			['build']
+		);
+	});
+
+	test('SDK builds pass the tags to PublishContainer and read back the digest', async () => {
+		const result = await service.publish(
+			projectPath,
+			profile({ build: 'sdk', tagTemplate: 'latest;v1' }),
+			's3cret'
+		);
+
+		assert.strictEqual(result.success, true);
+		assert.strictEqual(result.image?.digest, DIGEST);
+		const publish = calls('dotnet').find((c) => c.args[0] === 'publish')!;
+		assert.ok(publish.args.includes('/t:PublishContainer'));
+		assert.ok(publish.args.includes('/p:ContainerImageTags="latest;v1"'));
+		assert.strictEqual(publish.sdkUser, 'pusher');
+	});
+});
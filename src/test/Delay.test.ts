@@ -0,0 +1,50 @@
+import * as assert from 'assert';
+import type * as vscode from 'vscode';
+import { Delay } from '../utils/Delay';
+
+suite('Delay', () => {
+	/**
+	 * Cancellation token whose cancel() notifies listeners like VS Code's does
+	 */
+	const createCancellation = () => {
+		const listeners: (() => void)[] = [];
+		const token = {
+			isCancellationRequested: false,
+			onCancellationRequested: (listener: () => void) => {
+				listeners.push(listener);
+				return { dispose: () => listeners.splice(listeners.indexOf(listener), 1) };
+			},
+		};
+		return {
+			token: token as unknown as vscode.CancellationToken,
+			listeners,
+			cancel: () => {
+				token.isCancellationRequested = true;
+				[...listeners].forEach((listener) => listener());
+			},
+		};
+	};
+
+	test('resolves true once the delay has passed', async () => {
+		const cancellation = createCancellation();
+
+		assert.strictEqual(await Delay.wait(5, cancellation.token), true);
+		assert.strictEqual(cancellation.listeners.length, 0);
+	});
+
+	test('resolves false when cancelled while waiting', async () => {
+		const cancellation = createCancellation();
+		const waiting = Delay.wait(60 * 1000, cancellation.token);
+		cancellation.cancel();
+
+		assert.strictEqual(await waiting, false);
+		assert.strictEqual(cancellation.listeners.length, 0);
+	});
+
+	test('resolves false right away for a cancelled token', async () => {
+		const cancellation = createCancellation();
+		cancellation.cancel();
+
+		assert.strictEqual(await Delay.wait(60 * 1000, cancellation.token), false);
+	});
+});
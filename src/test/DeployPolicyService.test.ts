@@ -0,0 +1,156 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import type * as vscode from 'vscode';
+import { DeployPolicyService } from '../services/DeployPolicyService';
+import { HistoryManager } from '../services/HistoryManager';
+import { IConfigurationService } from '../services/IConfigurationService';
+import { BlockedWindow, DeployPolicyFile } from '../models/DeployPolicyModels';
+import { DeploymentRecord, GitCommitInfo } from '../models/DeploymentRecord';
+import { DeployEnvironment, PublishProfileInfo } from '../models/ProjectModels';
+
+suite('DeployPolicyService', () => {
+	let root: string;
+	let history: DeploymentRecord[];
+	let service: DeployPolicyService;
+
+	const production: PublishProfileInfo = {
+		name: 'production',
+		path: '/ws/production.pubxml',
+		fileName: 'production',
+		environment: DeployEnvironment.Production,
+		isProduction: true,
+	};
+	const git = (overrides: Partial<GitCommitInfo> = {}): GitCommitInfo => ({
+		branch: 'main',
+		commit: 'c0ffee'.padEnd(40, '0'),
+		message: 'release',
+		author: 'Dev',
+		dirty: false,
+		...overrides,
+	});
+	const writePolicy = (file: DeployPolicyFile | string) => {
+		fs.mkdirSync(path.join(root, '.dotnet-toolkit'), { recursive: true });
+		fs.writeFileSync(
+			path.join(root, DeployPolicyService.POLICY_FILE),
+			typeof file === 'string' ? file : JSON.stringify(file)
+		);
+	};
+	const rules = (commit = git()) =>
+		service.evaluate(production, 'Api', commit).violations.map((v) => v.rule);
+	/** Friday 16 October 2026, at the given UTC time */
+	const friday = (time: string) => new Date(`2026-10-16T${time}:00Z`);
+	const isInWindow = (window: BlockedWindow, now: Date): boolean =>
+		(service as any).isInWindow({ timeZone: 'UTC', ...window }, now);
+
+	setup(() => {
+		root = fs.mkdtempSync(path.join(os.tmpdir(), 'policy-'));
+		history = [];
+		const configService = {
+			getWorkspaceRoot: () => root,
+		} as unknown as IConfigurationService;
+		const historyManager = { getAllHistory: () => history } as unknown as HistoryManager;
+		const output = { appendLine: () => undefined } as unknown as vscode.OutputChannel;
+		service = new DeployPolicyService(output, configService, historyManager);
+	});
+
+	teardown(() => {
+		fs.rmSync(root, { recursive: true, force: true });
+	});
+
+	suite('blocked windows', () => {
+		test('recurring windows apply on their days between start and end', () => {
+			const window = { days: ['Friday'], start: '14:00', end: '18:00' };
+
+			assert.strictEqual(isInWindow(window, friday('13:59')), false);
+			assert.strictEqual(isInWindow(window, friday('14:00')), true);
+			assert.strictEqual(isInWindow(window, friday('18:00')), false);
+			assert.strictEqual(isInWindow(window, new Date('2026-10-15T15:00:00Z')), false);
+		});
+
+		test('windows ending before they start span midnight', () => {
+			const window = { start: '22:00', end: '06:00' };
+
+			assert.strictEqual(isInWindow(window, friday('23:30')), true);
+			assert.strictEqual(isInWindow(window, friday('05:59')), true);
+			assert.strictEqual(isInWindow(window, friday('12:00')), false);
+		});
+
+		test('date-only freezes include the whole last day', () => {
+			const window = { from: '2026-10-16', until: '2026-10-17' };
+
+			assert.strictEqual(isInWindow(window, new Date('2026-10-15T23:59:00Z')), false);
+			assert.strictEqual(isInWindow(window, friday('00:00')), true);
+			assert.strictEqual(isInWindow(window, new Date('2026-10-17T23:59:00Z')), true);
+			assert.strictEqual(isInWindow(window, new Date('2026-10-18T00:00:00Z')), false);
+		});
+
+		test('days and times are read in the window time zone', () => {
+			// 23:30 UTC on Friday is already Saturday in Tokyo
+			const window = { days: ['sat'], timeZone: 'Asia/Tokyo' };
+
+			assert.strictEqual(isInWindow(window, friday('23:30')), true);
+			assert.strictEqual(isInWindow(window, friday('12:00')), false);
+		});
+
+		test('invalid windows block deployments instead of being ignored', () => {
+			writePolicy({ environments: { Production: { blockedWindows: [{ start: '9am' }] } } });
+
+			const [violation] = service.evaluate(production, 'Api', git()).violations;
+
+			assert.strictEqual(violation.rule, 'policyFile');
+			assert.match(violation.message, /"9am" is not a HH:mm time/);
+		});
+	});
+
+	test('environments without a policy file or entry are unrestricted', () => {
+		assert.deepStrictEqual(rules(), []);
+
+		writePolicy({ environments: { staging: { requiredBranch: 'develop' } } });
+		assert.deepStrictEqual(rules(), []);
+	});
+
+	test('an unreadable policy file blocks deployments', () => {
+		writePolicy('{ "environments": ');
+
+		assert.deepStrictEqual(rules(), ['policyFile']);
+	});
+
+	test('required branches accept wildcards', () => {
+		writePolicy({ environments: { production: { requiredBranch: ['main', 'release/*'] } } });
+
+		assert.deepStrictEqual(rules(git({ branch: 'release/2.0' })), []);
+		assert.deepStrictEqual(rules(git({ branch: 'feature/x' })), ['requiredBranch']);
+		assert.deepStrictEqual(rules(git({ branch: undefined })), ['requiredBranch']);
+	});
+
+	test('production needs a clean staging deployment of the same commit', () => {
+		writePolicy({
+			environments: {
+				production: { requireStagingDeploy: true, requireTypedConfirmation: true },
+			},
+		});
+		const staged = (overrides: Partial<DeploymentRecord>): DeploymentRecord => ({
+			id: String(history.length),
+			profileName: 'staging',
+			projectName: 'Api',
+			environment: 'STAGING',
+			status: 'success',
+			startTime: '2026-10-15T10:00:00Z',
+			git: git(),
+			...overrides,
+		});
+
+		history.push(staged({ status: 'failed' }), staged({ git: git({ dirty: true }) }));
+		assert.deepStrictEqual(rules(), ['requireStagingDeploy']);
+
+		history.push(staged({}));
+		assert.deepStrictEqual(rules(), []);
+		assert.deepStrictEqual(rules(git({ dirty: true })), ['requireStagingDeploy']);
+		assert.strictEqual(
+			service.evaluate(production, 'Api', git()).requireTypedConfirmation,
+			true
+		);
+	});
+});
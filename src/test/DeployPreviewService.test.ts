@@ -0,0 +1,182 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import type * as vscode from 'vscode';
+import { DeployPreviewService } from '../services/DeployPreviewService';
+import { IConfigurationService } from '../services/IConfigurationService';
+import { IPasswordStorage } from '../strategies/IPasswordStorage';
+import { DeployEnvironment, PublishProfileInfo } from '../models/ProjectModels';
+
+/**
+ * Stand-in for dotnet publish: copies the "publish" folder next to it into /p:PublishDir
+ */
+const FAKE_DOTNET = `#!/usr/bin/env node
+const fs = require('fs');
+const path = require('path');
+const publishDir = process.argv.find((a) => a.startsWith('/p:PublishDir=')).substring(14);
+fs.cpSync(path.join(__dirname, 'publish'), publishDir, { recursive: true });
+`;
+
+/**
+ * Stand-in for msdeploy: records its arguments and prints msdeploy.out
+ */
+const FAKE_MSDEPLOY = `#!/usr/bin/env node
+const fs = require('fs');
+const path = require('path');
+fs.writeFileSync(path.join(__dirname, 'msdeploy.args'), JSON.stringify(process.argv.slice(2)));
+process.stdout.write(fs.readFileSync(path.join(__dirname, 'msdeploy.out'), 'utf8'));
+`;
+
+suite('DeployPreviewService', () => {
+	let dir: string;
+	let projectPath: string;
+	let password: string | undefined;
+	let service: DeployPreviewService;
+	const originalPath = process.env.PATH;
+
+	const bin = (...segments: string[]) => path.join(dir, 'bin', ...segments);
+	const write = (file: string, content: string) => {
+		fs.mkdirSync(path.dirname(file), { recursive: true });
+		fs.writeFileSync(file, content);
+	};
+	const profile = (overrides: Partial<PublishProfileInfo>): PublishProfileInfo => ({
+		name: 'staging',
+		path: path.join(dir, 'Properties', 'PublishProfiles', 'staging.pubxml'),
+		fileName: 'staging',
+		environment: DeployEnvironment.Staging,
+		isProduction: false,
+		...overrides,
+	});
+	const summary = (changes: { kind: string; path: string }[]) =>
+		changes.map((c) => `${c.kind} ${c.path}`).sort();
+
+	setup(function () {
+		if (process.platform === 'win32') {
+			this.skip();
+		}
+
+		dir = fs.mkdtempSync(path.join(os.tmpdir(), 'preview-'));
+		projectPath = path.join(dir, 'Api.csproj');
+		write(projectPath, '<Project />');
+		write(bin('dotnet'), FAKE_DOTNET);
+		write(bin('msdeploy'), FAKE_MSDEPLOY);
+		fs.chmodSync(bin('dotnet'), 0o755);
+		fs.chmodSync(bin('msdeploy'), 0o755);
+		write(bin('publish', 'Api.dll'), 'new build');
+		write(bin('publish', 'wwwroot', 'site.css'), 'body {}');
+		// msdeploy is looked up on PATH outside Windows
+		process.env.PATH = `${bin()}${path.delimiter}${originalPath}`;
+
+		password = 'p,w="d"';
+		const passwordStorage = {
+			generateKey: (project: string, profileName: string) => `${project}/${profileName}`,
+			retrieve: async () => password,
+		} as unknown as IPasswordStorage;
+		const configService = {
+			getDotnetPath: () => bin('dotnet'),
+		} as unknown as IConfigurationService;
+		const output = {
+			append: () => undefined,
+			appendLine: () => undefined,
+		} as unknown as vscode.OutputChannel;
+		service = new DeployPreviewService(output, passwordStorage, configService);
+	});
+
+	teardown(async () => {
+		process.env.PATH = originalPath;
+		if (dir) {
+			await service.clearStaging();
+			fs.rmSync(dir, { recursive: true, force: true });
+		}
+	});
+
+	test('compares a FileSystem target folder with the staged publish', async () => {
+		write(path.join(dir, 'drop', 'Api.dll'), 'old build');
+		write(path.join(dir, 'drop', 'wwwroot', 'site.css'), 'body {}');
+		write(path.join(dir, 'drop', 'legacy.txt'), 'obsolete');
+
+		const result = await service.preview(
+			projectPath,
+			'Api',
+			profile({ publishMethod: 'FileSystem', publishUrl: 'drop', deleteExistingFiles: true })
+		);
+
+		assert.strictEqual(result.success, true);
+		assert.strictEqual(result.target, path.join(dir, 'drop'));
+		assert.deepStrictEqual(summary(result.changes), ['deleted legacy.txt', 'updated Api.dll']);
+		const updated = result.changes.find((c) => c.kind === 'updated')!;
+		assert.strictEqual(fs.readFileSync(updated.localPath!, 'utf8'), 'new build');
+	});
+
+	test('FileSystem previews list deletions only when the profile deletes existing files', async () => {
+		write(path.join(dir, 'drop', 'legacy.txt'), 'obsolete');
+
+		const result = await service.preview(
+			projectPath,
+			'Api',
+			profile({ publishMethod: 'FileSystem', publishUrl: 'drop' })
+		);
+
+		assert.deepStrictEqual(summary(result.changes), [
+			'added Api.dll',
+			'added wwwroot/site.css',
+		]);
+	});
+
+	test('parses the changes Web Deploy reports for -whatif', async () => {
+		write(
+			bin('msdeploy.out'),
+			[
+				'Info: Adding file (Default Web Site\\api\\appsettings.json).',
+				'Info: Updating file (Default Web Site\\api\\Api.dll).',
+				'Info: Updating file (Default Web Site\\api\\Api.dll).',
+				'Info: Deleting directory (Default Web Site\\api\\old).',
+				'Total changes: 3 (1 added, 1 deleted, 1 updated, 0 parameters changed, 0 bytes copied)',
+			].join('\r\n')
+		);
+
+		const result = await service.preview(
+			projectPath,
+			'Api',
+			profile({
+				publishMethod: 'MSDeploy',
+				publishUrl: 'deploy.example.com',
+				siteName: 'Default Web Site/api',
+				userName: 'deployer',
+			})
+		);
+
+		assert.strictEqual(result.success, true);
+		assert.deepStrictEqual(
+			result.changes.map((c) => [c.kind, c.path, c.isDirectory]),
+			[
+				['added', 'appsettings.json', false],
+				['updated', 'Api.dll', false],
+				['deleted', 'old', true],
+			]
+		);
+		const args: string[] = JSON.parse(fs.readFileSync(bin('msdeploy.args'), 'utf8'));
+		assert.ok(args.includes('-whatif'));
+		assert.ok(
+			args.some(
+				(a) =>
+					a.startsWith('-dest:contentPath="Default Web Site/api",') &&
+					a.includes(',password="p,w=""d""",')
+			)
+		);
+	});
+
+	test('MSDeploy previews need stored credentials', async () => {
+		password = undefined;
+
+		const result = await service.preview(
+			projectPath,
+			'Api',
+			profile({ publishMethod: 'MSDeploy', publishUrl: 'deploy.example.com' })
+		);
+
+		assert.strictEqual(result.success, false);
+		assert.match(result.errorMessage ?? '', /Password not found/);
+	});
+});
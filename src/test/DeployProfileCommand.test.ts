@@ -0,0 +1,191 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { DeployProfileCommand } from '../commands/DeployProfileCommand';
+import { HistoryManager } from '../services/HistoryManager';
+import { IDeploymentService } from '../services/DeploymentService';
+import { IPreDeployGateService } from '../services/PreDeployGateService';
+import { IConfigurationService } from '../services/IConfigurationService';
+import { IDeployPolicyService } from '../services/DeployPolicyService';
+import { IHealthCheckService } from '../services/HealthCheckService';
+import { IWebhookService } from '../services/WebhookService';
+import { DeploymentRecord } from '../models/DeploymentRecord';
+import { HealthCheckOutcome } from '../models/HealthCheckModels';
+import { PolicyEvaluation } from '../models/DeployPolicyModels';
+import { WebhookEvent } from '../models/WebhookModels';
+import { DeployEnvironment, PublishProfileInfo } from '../models/ProjectModels';
+import { PublishTreeItem } from '../ui/publish/PublishTreeProvider';
+
+suite('DeployProfileCommand', () => {
+	const window = vscode.window as any;
+	const originals = {
+		showWarningMessage: window.showWarningMessage,
+		showInformationMessage: window.showInformationMessage,
+		showErrorMessage: window.showErrorMessage,
+		showInputBox: window.showInputBox,
+	};
+	let dir: string;
+	let records: DeploymentRecord[];
+	let retained: string[];
+	let events: WebhookEvent[];
+	let messages: string[];
+	let healthCheck: HealthCheckOutcome;
+	let policy: PolicyEvaluation;
+	let command: DeployProfileCommand;
+
+	const profile: PublishProfileInfo = {
+		name: 'staging',
+		path: '/ws/Api/Properties/PublishProfiles/staging.pubxml',
+		fileName: 'staging',
+		environment: DeployEnvironment.Staging,
+		isProduction: false,
+		healthCheck: {
+			urls: ['/health'],
+			expectedStatus: [200],
+			timeoutMs: 1000,
+			retries: 0,
+			retryDelayMs: 10,
+		},
+	};
+
+	setup(() => {
+		dir = fs.mkdtempSync(path.join(os.tmpdir(), 'deploy-command-'));
+		records = [];
+		retained = [];
+		events = [];
+		messages = [];
+		healthCheck = { status: 'healthy', summary: 'All healthy', endpoints: [], duration: 1 };
+		policy = { violations: [], requireTypedConfirmation: false };
+		const record = (message: string) => {
+			messages.push(message);
+			return Promise.resolve(undefined);
+		};
+		window.showWarningMessage = record;
+		window.showInformationMessage = record;
+		window.showErrorMessage = record;
+
+		const historyManager = {
+			addDeployment: async (r: Omit<DeploymentRecord, 'id'>) => {
+				records.push({ ...r, id: String(records.length + 1) });
+				return String(records.length);
+			},
+			updateDeployment: async (id: string, updates: Partial<DeploymentRecord>) => {
+				Object.assign(records.find((r) => r.id === id)!, updates);
+			},
+			getAllHistory: () => records,
+			saveDeploymentLog: async () => undefined,
+			retainPackage: async (id: string) => {
+				retained.push(id);
+			},
+		} as unknown as HistoryManager;
+		const deploymentService = {
+			deploy: async () => {
+				const rollbackPackage = path.join(dir, 'build.zip');
+				fs.writeFileSync(rollbackPackage, 'zip');
+				return { success: true, output: 'Publish succeeded.', rollbackPackage };
+			},
+		} as unknown as IDeploymentService;
+		const output = {
+			append: () => undefined,
+			appendLine: () => undefined,
+			show: () => undefined,
+		} as unknown as vscode.OutputChannel;
+
+		command = new DeployProfileCommand(
+			output,
+			() => undefined,
+			historyManager,
+			deploymentService,
+			{ isEnabled: () => false } as unknown as IPreDeployGateService,
+			{ getRollbackPackageCount: () => 3 } as unknown as IConfigurationService,
+			{ evaluate: () => policy } as unknown as IDeployPolicyService,
+			{ run: async () => healthCheck } as unknown as IHealthCheckService,
+			{
+				notify: async (event: WebhookEvent) => {
+					events.push(event);
+				},
+			} as unknown as IWebhookService
+		);
+	});
+
+	teardown(() => {
+		Object.assign(window, originals);
+		fs.rmSync(dir, { recursive: true, force: true });
+	});
+
+	/**
+	 * Deploy through the tree command; the modal answers "Deploy", the input box the typed text
+	 */
+	const execute = (typed?: string) => {
+		const prompts: string[] = [];
+		window.showWarningMessage = (message: string, options?: { modal?: boolean }) => {
+			prompts.push(options?.modal ? 'modal' : message);
+			return Promise.resolve(options?.modal ? 'Deploy' : undefined);
+		};
+		window.showInputBox = () => {
+			prompts.push('typed');
+			return Promise.resolve(typed);
+		};
+		const item = {
+			profileInfo: profile,
+			projectName: 'Api',
+			projectPath: path.join(dir, 'Api.csproj'),
+		} as unknown as PublishTreeItem;
+		return command.execute(item).then(() => prompts);
+	};
+
+	const deploy = () =>
+		command.runDeployment(profile, 'Api', path.join(dir, 'Api.csproj'), {
+			progress: () => undefined,
+		});
+
+	test('healthy deployments keep their build for rollback', async () => {
+		assert.strictEqual(await deploy(), 'success');
+
+		assert.deepStrictEqual(retained, ['1']);
+		assert.deepStrictEqual(events, ['start', 'success']);
+	});
+
+	test('cancelled health checks are not reported as a success', async () => {
+		healthCheck = { status: 'cancelled', summary: 'Cancelled', endpoints: [], duration: 1 };
+
+		assert.strictEqual(await deploy(), 'cancelled');
+
+		assert.strictEqual(records[0].status, 'cancelled');
+		assert.strictEqual(records[0].healthCheck?.status, 'cancelled');
+		assert.deepStrictEqual(retained, []);
+		assert.strictEqual(fs.existsSync(path.join(dir, 'build.zip')), false);
+		assert.deepStrictEqual(events, ['start', 'cancelled']);
+		assert.ok(messages.some((m) => m.includes('health checks were cancelled')));
+	});
+
+	test('policy violations block before any confirmation', async () => {
+		policy = {
+			violations: [{ rule: 'blockedWindow', message: 'Deployments are frozen' }],
+			requireTypedConfirmation: false,
+		};
+
+		assert.deepStrictEqual(await execute(), []);
+
+		assert.deepStrictEqual(records, []);
+		assert.ok(messages.some((m) => m.includes('Deployments are frozen')));
+	});
+
+	test('a required typed confirmation replaces the modal and is asked once', async () => {
+		policy = { violations: [], requireTypedConfirmation: true };
+
+		assert.deepStrictEqual(await execute('staging'), ['typed']);
+
+		assert.strictEqual(records.length, 1);
+	});
+
+	test('without a typed confirmation nothing is deployed', async () => {
+		policy = { violations: [], requireTypedConfirmation: true };
+
+		assert.deepStrictEqual(await execute('wrong'), ['typed']);
+
+		assert.deepStrictEqual(records, []);
+	});
+});
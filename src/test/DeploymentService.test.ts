@@ -0,0 +1,276 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import type * as vscode from 'vscode';
+import { DeploymentService } from '../services/DeploymentService';
+import { KnownErrorAdvisor } from '../services/KnownErrorAdvisor';
+import { IConfigurationService } from '../services/IConfigurationService';
+import { IPasswordStorage } from '../strategies/IPasswordStorage';
+import { MsBuildDiagnosticParser } from '../parsers/MsBuildDiagnosticParser';
+import {
+	DEFAULT_RETRYABLE_ERRORS,
+	DeployEnvironment,
+	PublishProfileInfo,
+} from '../models/ProjectModels';
+import { ProfilePropertyReader } from '../utils/ProfilePropertyReader';
+
+/**
+ * Stand-in for the dotnet CLI: records its arguments and prints whatever the test put
+ * in its "script" file (one "exit N" line ends the run with that code; "hang" keeps it
+ * running with a child process of its own, whose pid goes to child.pid)
+ */
+const FAKE_DOTNET = `#!/usr/bin/env node
+const fs = require('fs');
+const path = require('path');
+fs.appendFileSync(path.join(__dirname, 'calls.log'), JSON.stringify(process.argv.slice(2)) + '\\n');
+const calls = fs.readFileSync(path.join(__dirname, 'calls.log'), 'utf8').trim().split('\\n').length;
+const script = fs.readFileSync(path.join(__dirname, 'script-' + calls), 'utf8');
+for (const line of script.split('\\n')) {
+	const exit = /^exit (\\d+)$/.exec(line);
+	if (exit) process.exit(Number(exit[1]));
+	if (line === 'hang') {
+		const child = require('child_process').spawn(process.execPath, ['-e', 'setInterval(() => undefined, 1000)'], { stdio: 'ignore' });
+		fs.writeFileSync(path.join(__dirname, 'child.pid'), String(child.pid));
+		setInterval(() => undefined, 1000);
+	} else if (line) console.log(line);
+}
+`;
+
+/**
+ * Minimal cancellation token whose cancel() notifies listeners like VS Code's does
+ */
+const createCancellation = () => {
+	const listeners: (() => void)[] = [];
+	const token = {
+		isCancellationRequested: false,
+		onCancellationRequested: (listener: () => void) => {
+			listeners.push(listener);
+			return { dispose: () => listeners.splice(listeners.indexOf(listener), 1) };
+		},
+	};
+	return {
+		token: token as unknown as vscode.CancellationToken,
+		cancel: () => {
+			token.isCancellationRequested = true;
+			[...listeners].forEach((listener) => listener());
+		},
+	};
+};
+
+const isRunning = (pid: number) => {
+	try {
+		process.kill(pid, 0);
+		return true;
+	} catch {
+		return false;
+	}
+};
+
+const waitFor = async (condition: () => boolean, timeoutMs = 5000) => {
+	const deadline = Date.now() + timeoutMs;
+	while (!condition()) {
+		if (Date.now() > deadline) {
+			throw new Error('Timed out');
+		}
+		await new Promise((resolve) => setTimeout(resolve, 20));
+	}
+};
+
+suite('DeploymentService', () => {
+	let dir: string;
+	let projectPath: string;
+	let log: string[];
+	let service: DeploymentService;
+
+	const profile = (overrides: Partial<PublishProfileInfo> = {}): PublishProfileInfo => ({
+		name: 'staging',
+		path: path.join(dir, 'Properties', 'PublishProfiles', 'staging.pubxml'),
+		fileName: 'staging',
+		environment: DeployEnvironment.Staging,
+		isProduction: false,
+		publishMethod: 'MSDeploy',
+		publishUrl: 'deploy.example.com',
+		...overrides,
+	});
+	/** What the fake dotnet does on its nth run */
+	const script = (run: number, ...lines: string[]) =>
+		fs.writeFileSync(path.join(dir, 'bin', `script-${run}`), lines.join('\n'));
+	const calls = (): string[][] =>
+		fs
+			.readFileSync(path.join(dir, 'bin', 'calls.log'), 'utf8')
+			.trim()
+			.split('\n')
+			.map((line) => JSON.parse(line));
+
+	setup(function () {
+		if (process.platform === 'win32') {
+			this.skip();
+		}
+
+		// A space in the path: arguments must reach dotnet unquoted and unsplit
+		dir = fs.mkdtempSync(path.join(os.tmpdir(), 'deploy service-'));
+		projectPath = path.join(dir, 'My Api.csproj');
+		fs.writeFileSync(projectPath, '<Project />');
+		fs.mkdirSync(path.join(dir, 'bin'));
+		const dotnetPath = path.join(dir, 'bin', 'dotnet');
+		fs.writeFileSync(dotnetPath, FAKE_DOTNET, { mode: 0o755 });
+
+		log = [];
+		const output = {
+			append: (text: string) => log.push(text),
+			appendLine: (text: string) => log.push(text),
+		} as unknown as vscode.OutputChannel;
+		const passwordStorage = {
+			generateKey: (project: string, profileName: string) => `${project}/${profileName}`,
+			retrieve: async () => 'p@ss "word"',
+		} as unknown as IPasswordStorage;
+		const configService = {
+			getDotnetPath: () => dotnetPath,
+		} as unknown as IConfigurationService;
+		const unused = {} as never;
+
+		service = new DeploymentService(
+			output,
+			passwordStorage,
+			configService,
+			new MsBuildDiagnosticParser(),
+			new KnownErrorAdvisor(),
+			unused,
+			unused,
+			unused,
+			unused
+		);
+	});
+
+	teardown(() => {
+		if (dir) {
+			fs.rmSync(dir, { recursive: true, force: true });
+		}
+	});
+
+	test('spawns the configured dotnet directly, without a shell', async () => {
+		script(1, 'Publish succeeded.', 'exit 0');
+
+		const result = await service.deploy(projectPath, 'Api', profile());
+
+		assert.strictEqual(result.success, true);
+		assert.deepStrictEqual(calls()[0], [
+			'publish',
+			projectPath,
+			'/p:PublishProfile=staging',
+			'/p:Password=p@ss "word"',
+			'/p:Configuration=Release',
+			'/p:AllowUntrustedCertificate=true',
+		]);
+		assert.ok(log.some((l) => l.includes('Publish succeeded.')));
+	});
+
+	test('masks the password in the logged command line', async () => {
+		script(1, 'exit 0');
+
+		await service.deploy(projectPath, 'Api', profile());
+
+		const executing = log.find((l) => l.includes('Executing:'));
+		assert.ok(executing?.includes('/p:Password=***'));
+		assert.ok(!log.some((l) => l.includes('p@ss')));
+	});
+
+	test('a non-zero exit code fails the deployment', async () => {
+		script(1, 'Something went wrong', 'exit 1');
+
+		const result = await service.deploy(projectPath, 'Api', profile());
+
+		assert.strictEqual(result.success, false);
+		assert.ok(result.output.includes('Something went wrong'));
+	});
+
+	test('cancelling kills dotnet together with its child processes', async () => {
+		script(1, 'Building...', 'hang');
+		const pidFile = path.join(dir, 'bin', 'child.pid');
+		const { token, cancel } = createCancellation();
+
+		const deployment = service.deploy(projectPath, 'Api', profile(), undefined, token);
+		await waitFor(() => fs.existsSync(pidFile) && fs.statSync(pidFile).size > 0);
+		const childPid = Number(fs.readFileSync(pidFile, 'utf8'));
+		cancel();
+		const result = await deployment;
+
+		assert.strictEqual(result.cancelled, true);
+		assert.strictEqual(result.success, false);
+		await waitFor(() => !isRunning(childPid));
+	});
+
+	test('retries transient failures with backoff until an attempt succeeds', async () => {
+		const locked =
+			'error : Web deployment task failed. (#ERROR_FILE_IN_USE: Api.dll is locked.)';
+		script(1, locked, 'exit 1');
+		script(2, 'Publish succeeded.', 'exit 0');
+
+		const result = await service.deploy(
+			projectPath,
+			'Api',
+			profile({ retry: { maxAttempts: 3, backoffMs: 10, retryOn: ['file-in-use'] } })
+		);
+
+		assert.strictEqual(result.success, true);
+		assert.strictEqual(result.attempts, 2);
+		assert.strictEqual(calls().length, 2);
+		assert.ok(result.output.includes('===== Attempt 1/3 ====='));
+		assert.ok(result.output.includes('ERROR_FILE_IN_USE'));
+	});
+
+	test('does not retry errors outside the retryable classes', async () => {
+		script(1, 'error : Web deployment task failed. (#ERROR_USER_UNAUTHORIZED)', 'exit 1');
+
+		const result = await service.deploy(
+			projectPath,
+			'Api',
+			profile({ retry: { maxAttempts: 3, backoffMs: 10, retryOn: ['file-in-use'] } })
+		);
+
+		assert.strictEqual(result.success, false);
+		assert.strictEqual(result.attempts, 1);
+		assert.strictEqual(result.knownError?.ruleId, 'unauthorized');
+		assert.strictEqual(calls().length, 1);
+	});
+
+	test('cancelling during the backoff stops retrying', async () => {
+		script(1, 'error : (#ERROR_FILE_IN_USE)', 'exit 1');
+		const { token, cancel } = createCancellation();
+
+		const deployment = service.deploy(
+			projectPath,
+			'Api',
+			profile({ retry: { maxAttempts: 3, backoffMs: 60000, retryOn: ['file-in-use'] } }),
+			undefined,
+			token
+		);
+		await waitFor(() => log.some((l) => l.includes('retrying in 60s')));
+		cancel();
+		const result = await deployment;
+
+		assert.strictEqual(result.cancelled, true);
+		assert.strictEqual(calls().length, 1);
+	});
+
+	test('profiles opt into retries with DeployRetryMaxAttempts', () => {
+		assert.strictEqual(ProfilePropertyReader.readExtendedProperties({}).retry, undefined);
+		assert.strictEqual(
+			ProfilePropertyReader.readExtendedProperties({ DeployRetryMaxAttempts: '1' }).retry,
+			undefined
+		);
+		assert.deepStrictEqual(
+			ProfilePropertyReader.readExtendedProperties({ DeployRetryMaxAttempts: '4' }).retry,
+			{ maxAttempts: 4, backoffMs: 5000, retryOn: DEFAULT_RETRYABLE_ERRORS }
+		);
+		assert.deepStrictEqual(
+			ProfilePropertyReader.readExtendedProperties({
+				DeployRetryMaxAttempts: 2,
+				DeployRetryBackoffMs: '250',
+				DeployRetryOn: 'connection-reset; certificate',
+			}).retry,
+			{ maxAttempts: 2, backoffMs: 250, retryOn: ['connection-reset', 'certificate'] }
+		);
+	});
+});
@@ -0,0 +1,99 @@
+import * as assert from 'assert';
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import type * as vscode from 'vscode';
+import { HealthCheckService } from '../services/HealthCheckService';
+import { HealthCheckSettings } from '../models/ProjectModels';
+import { ProfilePropertyReader } from '../utils/ProfilePropertyReader';
+
+suite('HealthCheckService', () => {
+	let server: http.Server;
+	let siteUrl: string;
+	let readyAfter: number;
+	let requests: number;
+
+	const output = { appendLine: () => undefined } as unknown as vscode.OutputChannel;
+	const settings = (overrides: Partial<HealthCheckSettings>): HealthCheckSettings => ({
+		urls: ['/health'],
+		expectedStatus: [200],
+		timeoutMs: 2000,
+		retries: 0,
+		retryDelayMs: 10,
+		...overrides,
+	});
+
+	setup(async () => {
+		readyAfter = 0;
+		requests = 0;
+		server = http.createServer((req, res) => {
+			requests++;
+			if (req.url === '/health') {
+				const ready = requests > readyAfter;
+				res.writeHead(ready ? 200 : 503);
+				res.end(ready ? '{"status":"Healthy"}' : 'starting');
+			} else {
+				res.writeHead(404);
+				res.end();
+			}
+		});
+		await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+		siteUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/`;
+	});
+
+	teardown(async () => {
+		await new Promise((resolve) => server.close(resolve));
+	});
+
+	test('resolves relative paths against the site URL', async () => {
+		const outcome = await new HealthCheckService(output).run(
+			settings({ bodyPattern: 'Healthy' }),
+			siteUrl
+		);
+
+		assert.strictEqual(outcome.status, 'healthy');
+		assert.strictEqual(outcome.endpoints[0].url, `${siteUrl}health`);
+		assert.strictEqual(outcome.endpoints[0].statusCode, 200);
+	});
+
+	test('retries until the app comes up', async () => {
+		readyAfter = 2;
+		const outcome = await new HealthCheckService(output).run(settings({ retries: 3 }), siteUrl);
+
+		assert.strictEqual(outcome.status, 'healthy');
+		assert.strictEqual(outcome.endpoints[0].attempts, 3);
+	});
+
+	test('reports unexpected status codes and body mismatches', async () => {
+		const outcome = await new HealthCheckService(output).run(
+			settings({ urls: ['/missing', '/health'], bodyPattern: 'Degraded' }),
+			siteUrl
+		);
+
+		assert.strictEqual(outcome.status, 'unhealthy');
+		assert.deepStrictEqual(
+			outcome.endpoints.map((e) => e.healthy),
+			[false, false]
+		);
+		assert.match(outcome.endpoints[0].error ?? '', /HTTP 404/);
+		assert.match(outcome.endpoints[1].error ?? '', /does not match/);
+	});
+
+	test('relative paths without a site URL fail without a request', async () => {
+		const outcome = await new HealthCheckService(output).run(settings({}), undefined);
+
+		assert.strictEqual(outcome.status, 'unhealthy');
+		assert.strictEqual(requests, 0);
+	});
+
+	test('profiles whose HealthCheckUrls hold only separators have no health check', () => {
+		assert.strictEqual(
+			ProfilePropertyReader.readExtendedProperties({ HealthCheckUrls: ' ; ;' }).healthCheck,
+			undefined
+		);
+		assert.deepStrictEqual(
+			ProfilePropertyReader.readExtendedProperties({ HealthCheckUrls: '/health; /ready' })
+				.healthCheck?.urls,
+			['/health', '/ready']
+		);
+	});
+});
@@ -0,0 +1,75 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { HistoryArchive } from '../services/HistoryArchive';
+import { DeploymentRecord } from '../models/DeploymentRecord';
+
+suite('HistoryArchive', () => {
+	let dir: string;
+
+	const record = (id: string, startTime: string): DeploymentRecord => ({
+		id,
+		profileName: 'staging',
+		projectName: 'Api',
+		environment: 'STAGING',
+		status: 'success',
+		startTime,
+		logFile: `logs/${id}.log`,
+		packageFile: `packages/${id}.zip`,
+	});
+
+	setup(async () => {
+		dir = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'history-archive-'));
+	});
+
+	teardown(async () => {
+		await fs.promises.rm(dir, { recursive: true, force: true });
+	});
+
+	test('writes one file per month and reads every appended batch back, newest first', async () => {
+		const archive = new HistoryArchive(path.join(dir, 'archive'));
+		await archive.append([
+			record('b', '2026-02-03T10:00:00Z'),
+			record('a', '2026-01-31T10:00:00Z'),
+		]);
+		await archive.append([record('c', '2026-02-10T10:00:00Z')]);
+
+		assert.deepStrictEqual((await fs.promises.readdir(archive.directory)).sort(), [
+			'deployment-history-2026-01.jsonl.gz',
+			'deployment-history-2026-02.jsonl.gz',
+		]);
+		const records = await archive.read();
+		assert.deepStrictEqual(
+			records.map((r) => r.id),
+			['c', 'b', 'a']
+		);
+		assert.strictEqual(records[0].logFile, undefined);
+		assert.strictEqual(records[0].packageFile, undefined);
+	});
+
+	test('skips damaged archives and unrelated files', async () => {
+		const archive = new HistoryArchive(dir);
+		await archive.append([record('a', '2026-01-31T10:00:00Z')]);
+		await fs.promises.writeFile(
+			path.join(dir, 'deployment-history-2025-12.jsonl.gz'),
+			'not gzip'
+		);
+		await fs.promises.writeFile(path.join(dir, 'notes.txt'), 'hello');
+
+		const originalError = console.error;
+		console.error = () => undefined;
+		try {
+			assert.deepStrictEqual(
+				(await archive.read()).map((r) => r.id),
+				['a']
+			);
+		} finally {
+			console.error = originalError;
+		}
+	});
+
+	test('a missing archive folder has no records', async () => {
+		assert.deepStrictEqual(await new HistoryArchive(path.join(dir, 'missing')).read(), []);
+	});
+});
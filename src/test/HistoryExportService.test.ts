@@ -0,0 +1,91 @@
+import * as assert from 'assert';
+import { HistoryExportService } from '../services/HistoryExportService';
+import { DeploymentRecord } from '../models/DeploymentRecord';
+
+suite('HistoryExportService', () => {
+	const service = new HistoryExportService();
+	const exportedAt = new Date('2026-10-19T12:00:00Z');
+
+	const record = (id: string, overrides: Partial<DeploymentRecord> = {}): DeploymentRecord => ({
+		id,
+		profileName: 'staging',
+		projectName: 'Api',
+		environment: 'STAGING',
+		status: 'success',
+		startTime: '2026-10-16T10:00:00Z',
+		duration: 2000,
+		user: 'ana',
+		logFile: `logs/${id}.log`,
+		packageFile: `packages/${id}.zip`,
+		...overrides,
+	});
+	const csvRows = (records: DeploymentRecord[]) =>
+		service.render(records, 'csv', { exportedAt }).split('\r\n');
+
+	test('CSV has a header, CRLF rows and quotes separators and quotes', () => {
+		const rows = csvRows([
+			record('1', {
+				status: 'failed',
+				errorMessage: 'Build failed: "CS1002", see log\nline 2',
+			}),
+		]);
+
+		assert.strictEqual(rows[0].split(',')[0], 'id');
+		assert.strictEqual(rows.length, 3);
+		assert.strictEqual(rows[2], '');
+		assert.ok(rows[1].startsWith('1,Api,staging,STAGING,deploy,failed,ana,'));
+		assert.ok(rows[1].endsWith(',"Build failed: ""CS1002"", see log\nline 2"'));
+	});
+
+	test('CSV cells that a spreadsheet would run as a formula are escaped', () => {
+		const cell = (errorMessage: string) =>
+			csvRows([record('1', { errorMessage })])[1]
+				.split(',')
+				.at(-1);
+
+		assert.strictEqual(cell('=HYPERLINK("http://evil")'), `"'=HYPERLINK(""http://evil"")"`);
+		assert.strictEqual(cell('+SUM(A1)'), "'+SUM(A1)");
+		assert.strictEqual(cell('-1'), "'-1");
+		assert.strictEqual(cell('@cmd'), "'@cmd");
+		assert.strictEqual(cell('\tindented'), "'\tindented");
+		assert.strictEqual(cell('a = b'), 'a = b');
+	});
+
+	test('JSON leaves out local file references', () => {
+		const report = JSON.parse(
+			service.render([record('1')], 'json', { exportedAt, filterDescription: 'STAGING' })
+		);
+
+		assert.strictEqual(report.exportedAt, '2026-10-19T12:00:00.000Z');
+		assert.strictEqual(report.filter, 'STAGING');
+		assert.strictEqual(report.count, 1);
+		assert.strictEqual(report.records[0].id, '1');
+		assert.strictEqual('logFile' in report.records[0], false);
+		assert.strictEqual('packageFile' in report.records[0], false);
+	});
+
+	test('Markdown summarises outcomes per environment and escapes table cells', () => {
+		const markdown = service.render(
+			[
+				record('3', { status: 'in-progress', duration: undefined }),
+				record('2', { status: 'failed', errorMessage: 'a | b', duration: 4000 }),
+				record('1', { environment: 'PRODUCTION' }),
+			],
+			'markdown',
+			{ exportedAt }
+		);
+
+		assert.ok(markdown.includes('| STAGING | 2 | 0 | 0 | 1 | 0 | 0% | 4.0s |'));
+		assert.ok(markdown.includes('| PRODUCTION | 1 | 1 | 0 | 0 | 0 | 100% | 2.0s |'));
+		assert.ok(markdown.includes('a \\| b'));
+		assert.ok(!markdown.includes('logs/'));
+	});
+
+	test('an empty export still renders a report', () => {
+		const markdown = service.render([], 'markdown', { exportedAt });
+
+		assert.ok(markdown.includes('- Records: 0'));
+		assert.ok(markdown.includes('No deployments.'));
+		assert.strictEqual(csvRows([]).length, 2);
+	});
+});
@@ -0,0 +1,97 @@
+import * as assert from 'assert';
+import { HistoryFilterHelper } from '../models/HistoryViewModels';
+import { DeploymentRecord } from '../models/DeploymentRecord';
+
+/** Record started at a local date and time, so the tests pass in any time zone */
+const record = (
+	id: string,
+	localStart: [month: number, day: number, hour: number],
+	overrides: Partial<DeploymentRecord> = {}
+): DeploymentRecord => ({
+	id,
+	profileName: 'staging',
+	projectName: 'Api',
+	environment: 'STAGING',
+	status: 'success',
+	startTime: new Date(2026, localStart[0] - 1, localStart[1], localStart[2]).toISOString(),
+	user: 'ana',
+	...overrides,
+});
+
+suite('HistoryFilterHelper', () => {
+	const records = [
+		record('1', [10, 16, 23], {
+			status: 'failed',
+			errorMessage: 'Web deployment task failed',
+			diagnostics: [{ severity: 'error', code: 'CS1002', message: '; expected' }],
+		}),
+		record('2', [10, 15, 9], { environment: 'PRODUCTION', profileName: 'production' }),
+		record('3', [10, 14, 0], {
+			status: 'unhealthy',
+			projectName: 'Web',
+			user: 'ben',
+			healthCheck: {
+				status: 'unhealthy',
+				summary: '/health returned HTTP 503',
+				endpoints: [],
+				duration: 10,
+			},
+		}),
+	];
+	const ids = (filter: Parameters<typeof HistoryFilterHelper.apply>[1]) =>
+		HistoryFilterHelper.apply(records, filter).map((r) => r.id);
+
+	test('an empty filter keeps every record', () => {
+		assert.strictEqual(HistoryFilterHelper.isActive({ statuses: [] }), false);
+		assert.strictEqual(HistoryFilterHelper.apply(records, {}), records);
+	});
+
+	test('matches project, profile, user, statuses and environment case-insensitively', () => {
+		assert.deepStrictEqual(ids({ project: 'Web' }), ['3']);
+		assert.deepStrictEqual(ids({ profile: 'production' }), ['2']);
+		assert.deepStrictEqual(ids({ user: 'ana' }), ['1', '2']);
+		assert.deepStrictEqual(ids({ statuses: ['failed', 'unhealthy'] }), ['1', '3']);
+		assert.deepStrictEqual(ids({ environment: 'staging' }), ['1', '3']);
+		assert.deepStrictEqual(ids({ environment: 'staging', user: 'ben' }), ['3']);
+	});
+
+	test('date ranges include both local days', () => {
+		assert.deepStrictEqual(ids({ from: '2026-10-15' }), ['1', '2']);
+		assert.deepStrictEqual(ids({ until: '2026-10-15' }), ['2', '3']);
+		assert.deepStrictEqual(ids({ from: '2026-10-16', until: '2026-10-16' }), ['1']);
+	});
+
+	test('text searches errors, diagnostics and health check results', () => {
+		assert.deepStrictEqual(ids({ text: 'TASK FAILED' }), ['1']);
+		assert.deepStrictEqual(ids({ text: 'cs1002' }), ['1']);
+		assert.deepStrictEqual(ids({ text: 'HTTP 503' }), ['3']);
+		assert.deepStrictEqual(ids({ text: 'timeout' }), []);
+	});
+
+	test('describes the set fields', () => {
+		assert.strictEqual(
+			HistoryFilterHelper.describe({
+				environment: 'staging',
+				statuses: ['failed'],
+				from: '2026-10-01',
+				text: '503',
+			}),
+			'STAGING · failed · since 2026-10-01 · "503"'
+		);
+		assert.strictEqual(
+			HistoryFilterHelper.describe({ user: 'ana', from: '2026-10-01', until: '2026-10-31' }),
+			'by ana · 2026-10-01 to 2026-10-31'
+		);
+	});
+
+	test('parses only real calendar dates', () => {
+		assert.strictEqual(HistoryFilterHelper.parseDate('2026-02-30'), undefined);
+		assert.strictEqual(HistoryFilterHelper.parseDate('16/10/2026'), undefined);
+		assert.strictEqual(
+			HistoryFilterHelper.toDateKey(
+				HistoryFilterHelper.parseDate(' 2026-10-16 ')!.toISOString()
+			),
+			'2026-10-16'
+		);
+	});
+});
@@ -0,0 +1,293 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { DeploymentRecord } from '../models/DeploymentRecord';
+import {
+	DEFAULT_HISTORY_RETENTION,
+	HistoryRetentionPolicy,
+} from '../models/HistoryRetentionModels';
+import { HistoryManager } from '../services/HistoryManager';
+import { IConfigurationService } from '../services/IConfigurationService';
+import { SharedHistoryStore } from '../services/SharedHistoryStore';
+
+suite('HistoryManager', () => {
+	let root: string;
+	let sharedPath: string | undefined;
+	let retention: HistoryRetentionPolicy;
+	let context: vscode.ExtensionContext;
+	let manager: HistoryManager;
+
+	const record = (profileName: string, startTime: string): Omit<DeploymentRecord, 'id'> => ({
+		profileName,
+		projectName: 'Api',
+		environment: 'STAGING',
+		status: 'success',
+		startTime,
+	});
+	const ids = () => manager.getAllHistory().map((r) => r.id);
+	const storagePath = (...segments: string[]) => path.join(root, 'storage', ...segments);
+	const removedIds = async (): Promise<string[]> =>
+		JSON.parse(await fs.promises.readFile(storagePath('deployment-history.json'), 'utf-8'))
+			.removedIds;
+
+	/**
+	 * Create the manager (sharing is read once, when it starts watching the shared file)
+	 */
+	const start = async (shared?: string) => {
+		sharedPath = shared;
+		const configService = {
+			getSharedHistoryPath: () => sharedPath,
+			getHistoryRetention: () => retention,
+			getWorkspaceRoot: () => root,
+		} as unknown as IConfigurationService;
+		manager = new HistoryManager(context, configService);
+		await manager.applyRetention();
+	};
+
+	setup(async () => {
+		root = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'history-'));
+		retention = { ...DEFAULT_HISTORY_RETENTION, archive: false };
+		context = {
+			storageUri: vscode.Uri.file(storagePath()),
+			subscriptions: [],
+		} as unknown as vscode.ExtensionContext;
+	});
+
+	teardown(async () => {
+		context.subscriptions.forEach((d) => d.dispose());
+		await fs.promises.rm(root, { recursive: true, force: true });
+	});
+
+	suite('deployment logs', () => {
+		setup(() => start());
+
+		test('stores the full output per record and finds it again', async () => {
+			const id = await manager.addDeployment(record('staging', '2026-01-01T10:00:00Z'), '');
+			await manager.saveDeploymentLog(id, 'Build succeeded.\nPublish succeeded.', '');
+			await manager.refreshHistory();
+
+			const stored = manager.getAllHistory().find((r) => r.id === id)!;
+			assert.strictEqual(stored.logFile, path.join('logs', `${id}.log`));
+			const logPath = manager.getLogFilePath(stored);
+			assert.strictEqual(
+				await fs.promises.readFile(logPath!, 'utf-8'),
+				'Build succeeded.\nPublish succeeded.'
+			);
+		});
+
+		test('removing a record deletes its log', async () => {
+			const id = await manager.addDeployment(record('staging', '2026-01-01T10:00:00Z'), '');
+			await manager.saveDeploymentLog(id, 'output', '');
+
+			await manager.clearEntry(id);
+
+			assert.strictEqual(fs.existsSync(storagePath('logs', `${id}.log`)), false);
+		});
+
+		test('records without a log have no log path', async () => {
+			const id = await manager.addDeployment(record('staging', '2026-01-01T10:00:00Z'), '');
+			await manager.saveDeploymentLog(id, '', '');
+
+			const stored = manager.getAllHistory().find((r) => r.id === id)!;
+			assert.strictEqual(manager.getLogFilePath(stored), undefined);
+		});
+	});
+
+	suite('retained packages', () => {
+		setup(() => start());
+
+		const build = async (name: string) => {
+			const zip = path.join(root, `${name}.zip`);
+			await fs.promises.writeFile(zip, name);
+			return zip;
+		};
+
+		test('moves the zip into storage and keeps only the newest per profile', async () => {
+			const first = await manager.addDeployment(
+				record('staging', '2026-01-01T10:00:00Z'),
+				''
+			);
+			const second = await manager.addDeployment(
+				record('staging', '2026-01-02T10:00:00Z'),
+				''
+			);
+			const other = await manager.addDeployment(
+				record('production', '2026-01-02T11:00:00Z'),
+				''
+			);
+			const third = await manager.addDeployment(
+				record('staging', '2026-01-03T10:00:00Z'),
+				''
+			);
+			for (const id of [first, second, other, third]) {
+				await manager.retainPackage(id, await build(id), 2, '/ws/profile.pubxml');
+			}
+
+			const packages = manager
+				.getAllHistory()
+				.filter((r) => manager.getPackagePath(r))
+				.map((r) => r.id);
+			assert.deepStrictEqual(packages, [third, other, second]);
+			assert.strictEqual(fs.existsSync(storagePath('packages', `${first}.zip`)), false);
+			assert.strictEqual(fs.existsSync(path.join(root, `${third}.zip`)), false);
+		});
+
+		test('discards the zip when no packages are kept', async () => {
+			const id = await manager.addDeployment(record('staging', '2026-01-01T10:00:00Z'), '');
+			const zip = await build(id);
+
+			await manager.retainPackage(id, zip, 0, '/ws/profile.pubxml');
+
+			assert.strictEqual(fs.existsSync(zip), false);
+			assert.strictEqual(manager.getPackagePath(manager.getAllHistory()[0]), undefined);
+		});
+	});
+
+	suite('retention', () => {
+		setup(() => start());
+
+		const daysAgo = (days: number) => new Date(Date.now() - days * 86400000).toISOString();
+
+		test('applies project limits first, then caps the total, archiving what it prunes', async () => {
+			retention = {
+				...retention,
+				maxEntries: 3,
+				projects: { Web: { maxEntries: 1 } },
+				archive: true,
+			};
+			const add = (projectName: string, startTime: string) =>
+				manager.addDeployment({ ...record('staging', startTime), projectName }, '');
+			const a = await add('Api', '2026-01-01T10:00:00Z');
+			const b = await add('Web', '2026-01-02T10:00:00Z');
+			const c = await add('Web', '2026-01-03T10:00:00Z');
+			const d = await add('Api', '2026-01-04T10:00:00Z');
+			const e = await add('Api', '2026-01-05T10:00:00Z');
+
+			assert.deepStrictEqual(ids(), [e, d, c]);
+			assert.deepStrictEqual(
+				(await manager.getArchivedHistory()).map((r) => r.id),
+				[b, a]
+			);
+		});
+
+		test('prunes old records except in-progress ones and projects that keep everything', async () => {
+			retention = {
+				...retention,
+				maxEntries: 0,
+				maxAgeDays: 30,
+				projects: { Web: { maxAgeDays: 0 } },
+			};
+			const recent = await manager.addDeployment(record('staging', daysAgo(1)), '');
+			const running = await manager.addDeployment(
+				{ ...record('staging', daysAgo(40)), status: 'in-progress' },
+				''
+			);
+			const web = await manager.addDeployment(
+				{ ...record('staging', daysAgo(400)), projectName: 'Web' },
+				''
+			);
+			await manager.addDeployment(record('staging', daysAgo(40)), '');
+
+			assert.deepStrictEqual(ids().sort(), [recent, running, web].sort());
+			assert.deepStrictEqual(await manager.getArchivedHistory(), []);
+		});
+	});
+
+	suite('shared history', () => {
+		setup(() => start(path.join(root, 'shared', 'deployment-history.jsonl')));
+
+		test('clearEntry hides the own record while the shared file keeps it', async () => {
+			const first = await manager.addDeployment(
+				record('staging', '2026-01-01T10:00:00Z'),
+				''
+			);
+			const second = await manager.addDeployment(
+				record('staging', '2026-01-02T10:00:00Z'),
+				''
+			);
+
+			await manager.clearEntry(first);
+			await manager.refreshHistory();
+
+			assert.deepStrictEqual(ids(), [second]);
+			const shared = await new SharedHistoryStore(sharedPath!).read();
+			assert.ok(shared.some((r) => r.id === first));
+		});
+
+		test('clearHistory removes own records but keeps teammates’ records', async () => {
+			await manager.addDeployment(record('staging', '2026-01-01T10:00:00Z'), '');
+			await new SharedHistoryStore(sharedPath!).append({
+				...record('production', '2026-01-03T10:00:00Z'),
+				id: 'teammate',
+			});
+			await manager.refreshHistory();
+
+			await manager.clearHistory();
+			await manager.refreshHistory();
+
+			assert.deepStrictEqual(ids(), ['teammate']);
+			assert.strictEqual(manager.isLocalRecord('teammate'), false);
+		});
+
+		test('retention pruning shrinks the merged view', async () => {
+			retention = { ...retention, maxEntries: 1 };
+			await manager.addDeployment(record('staging', '2026-01-01T10:00:00Z'), '');
+			const newest = await manager.addDeployment(
+				record('staging', '2026-01-02T10:00:00Z'),
+				''
+			);
+			await manager.refreshHistory();
+
+			assert.deepStrictEqual(ids(), [newest]);
+		});
+
+		test('forgets removed ids the shared file no longer holds', async () => {
+			const first = await manager.addDeployment(
+				record('staging', '2026-01-01T10:00:00Z'),
+				''
+			);
+			const second = await manager.addDeployment(
+				record('staging', '2026-01-02T10:00:00Z'),
+				''
+			);
+			await manager.clearEntry(first);
+			assert.deepStrictEqual(await removedIds(), [first]);
+
+			// The shared file was reset by the team; only the second record is left
+			const shared = (await new SharedHistoryStore(sharedPath!).read()).find(
+				(r) => r.id === second
+			)!;
+			await fs.promises.rm(sharedPath!);
+			await new SharedHistoryStore(sharedPath!).append(shared);
+			await manager.clearEntry(second);
+
+			assert.deepStrictEqual(await removedIds(), [second]);
+		});
+
+		test('removed ids are not tracked once sharing is turned off', async () => {
+			const id = await manager.addDeployment(record('staging', '2026-01-01T10:00:00Z'), '');
+			sharedPath = undefined;
+
+			await manager.clearEntry(id);
+
+			assert.deepStrictEqual(await removedIds(), []);
+		});
+
+		test('an update queued behind clearHistory does not bring records back', async () => {
+			const id = await manager.addDeployment(
+				{ ...record('staging', '2026-01-01T10:00:00Z'), status: 'in-progress' },
+				''
+			);
+
+			await Promise.all([
+				manager.clearHistory(),
+				manager.updateDeployment(id, { status: 'success' }, ''),
+			]);
+			await manager.refreshHistory();
+
+			assert.deepStrictEqual(ids(), []);
+		});
+	});
+});
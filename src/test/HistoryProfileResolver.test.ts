@@ -0,0 +1,101 @@
+import * as assert from 'assert';
+import * as vscode from 'vscode';
+import { HistoryProfileResolver } from '../services/HistoryProfileResolver';
+import { DeploymentRecord } from '../models/DeploymentRecord';
+import { DeployEnvironment, PublishProfileInfo, getProfileTarget } from '../models/ProjectModels';
+import { ProjectScanner } from '../utils/ProjectScanner';
+
+const profile = (fileName: string, publishUrl = 'deploy.example.com'): PublishProfileInfo => ({
+	name: fileName,
+	path: `/ws/Api/Properties/PublishProfiles/${fileName}.pubxml`,
+	fileName,
+	environment: DeployEnvironment.Staging,
+	isProduction: false,
+	publishMethod: 'MSDeploy',
+	publishUrl,
+	siteName: 'Default Web Site/api',
+});
+
+suite('HistoryProfileResolver', () => {
+	const window = vscode.window as any;
+	const originals = {
+		showErrorMessage: window.showErrorMessage,
+		showQuickPick: window.showQuickPick,
+	};
+	let errors: string[];
+	let picks: string[][];
+	let pick: string | undefined;
+
+	const resolve = (profiles: PublishProfileInfo[], record: Partial<DeploymentRecord>) => {
+		const projectScanner = {
+			scanWorkspace: async () => ({
+				projects: [{ name: 'Api', csprojPath: '/ws/Api/Api.csproj', profiles }],
+				hasServerClientStructure: false,
+			}),
+		} as unknown as ProjectScanner;
+		const output = { appendLine: () => undefined } as unknown as vscode.OutputChannel;
+		return new HistoryProfileResolver(output, projectScanner).resolve({
+			id: '1',
+			projectName: 'Api',
+			profileName: 'staging',
+			environment: 'STAGING',
+			status: 'success',
+			startTime: '2026-01-01T10:00:00Z',
+			profileTarget: getProfileTarget(profile('staging')),
+			...record,
+		});
+	};
+
+	setup(() => {
+		errors = [];
+		picks = [];
+		pick = undefined;
+		window.showErrorMessage = async (message: string) => {
+			errors.push(message);
+			return undefined;
+		};
+		window.showQuickPick = async (items: { label: string }[]) => {
+			picks.push(items.map((i) => i.label));
+			return items.find((i) => i.label === pick);
+		};
+	});
+
+	teardown(() => {
+		Object.assign(window, originals);
+	});
+
+	test('finds the profile by its file name', async () => {
+		const resolved = await resolve([profile('production'), profile('staging')], {});
+
+		assert.strictEqual(resolved?.profile.fileName, 'staging');
+		assert.strictEqual(resolved.project.name, 'Api');
+	});
+
+	test('follows a renamed profile to the one with the same target', async () => {
+		const resolved = await resolve(
+			[profile('other', 'other.example.com'), profile('staging-eu')],
+			{}
+		);
+
+		assert.strictEqual(resolved?.profile.fileName, 'staging-eu');
+		assert.deepStrictEqual(picks, []);
+	});
+
+	test('asks which profile to use when several share the target', async () => {
+		pick = 'staging-b';
+
+		const resolved = await resolve([profile('staging-a'), profile('staging-b')], {});
+
+		assert.deepStrictEqual(picks, [['staging-a', 'staging-b']]);
+		assert.strictEqual(resolved?.profile.fileName, 'staging-b');
+	});
+
+	test('reports profiles and projects that no longer exist', async () => {
+		assert.strictEqual(await resolve([profile('other', 'other.example.com')], {}), undefined);
+		assert.strictEqual(await resolve([], { projectName: 'Web' }), undefined);
+		assert.deepStrictEqual(errors, [
+			'Profile Api / staging no longer exists',
+			'Project Web no longer exists',
+		]);
+	});
+});
@@ -0,0 +1,85 @@
+import * as assert from 'assert';
+import { KnownErrorAdvisor } from '../services/KnownErrorAdvisor';
+
+suite('KnownErrorAdvisor', () => {
+	const diagnose = (output: string) => new KnownErrorAdvisor().diagnose(output)?.ruleId;
+
+	test('recognises common Web Deploy failures', () => {
+		assert.strictEqual(
+			diagnose(
+				'Web deployment task failed. (Could not authorize ... #ERROR_USER_UNAUTHORIZED.)'
+			),
+			'unauthorized'
+		);
+		assert.strictEqual(
+			diagnose('#ERROR_DESTINATION_NOT_REACHABLE: the server did not respond'),
+			'destination-not-reachable'
+		);
+		assert.strictEqual(
+			diagnose(
+				"The process cannot access the file 'Api.dll' because it is being used by another process."
+			),
+			'file-in-use'
+		);
+		assert.strictEqual(
+			diagnose('An existing connection was forcibly closed by the remote host.'),
+			'connection-reset'
+		);
+	});
+
+	test('recognises SDK, SSH and registry failures', () => {
+		assert.strictEqual(
+			diagnose('A compatible .NET SDK was not found.\nRequested SDK version: 9.0.100'),
+			'sdk-mismatch'
+		);
+		assert.strictEqual(diagnose('deploy@web1: Permission denied (publickey).'), 'ssh-auth');
+		assert.strictEqual(
+			diagnose('ssh: connect to host web1 port 22: Connection refused'),
+			'ssh-unreachable'
+		);
+		assert.strictEqual(
+			diagnose('CONTAINER1013: Failed to push: Unauthorized'),
+			'registry-auth'
+		);
+	});
+
+	test('a path that merely mentions global.json is not an SDK mismatch', () => {
+		assert.strictEqual(
+			diagnose('Copying /src/Api/global.json to the output folder'),
+			undefined
+		);
+	});
+
+	test('matches diagnostic codes when the output alone does not', () => {
+		const match = new KnownErrorAdvisor().diagnose('Publish failed', [
+			{
+				severity: 'error',
+				code: 'ERROR_FILE_IN_USE',
+				message: 'Web deployment task failed.',
+			},
+		]);
+
+		assert.strictEqual(match?.ruleId, 'file-in-use');
+		assert.ok(match.actions.some((a) => a.kind === 'retryWithAppOffline'));
+	});
+
+	test('registered rules take precedence over the built-in ones', () => {
+		const advisor = new KnownErrorAdvisor();
+		advisor.registerRule({
+			id: 'corporate-proxy',
+			patterns: [/\(401\) Unauthorized/],
+			title: 'Proxy login required',
+			explanation: 'Sign in to the corporate proxy.',
+			actions: [],
+		});
+
+		assert.strictEqual(
+			advisor.diagnose('The remote server returned an error: (401) Unauthorized.')?.ruleId,
+			'corporate-proxy'
+		);
+	});
+
+	test('output without a known error has no match', () => {
+		assert.strictEqual(diagnose('error CS1002: ; expected'), undefined);
+	});
+});
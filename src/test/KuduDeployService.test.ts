@@ -0,0 +1,141 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as http from 'http';
+import * as os from 'os';
+import * as path from 'path';
+import { AddressInfo } from 'net';
+import type * as vscode from 'vscode';
+import { KuduDeployService } from '../services/KuduDeployService';
+import { DeployEnvironment, PublishProfileInfo } from '../models/ProjectModels';
+
+suite('KuduDeployService', () => {
+	let dir: string;
+	let zipPath: string;
+	let server: http.Server;
+	let profile: PublishProfileInfo;
+	let handler: (req: http.IncomingMessage, res: http.ServerResponse) => void;
+	const uploads: string[] = [];
+
+	const output = { appendLine: () => undefined } as unknown as vscode.OutputChannel;
+	const json = (res: http.ServerResponse, statusCode: number, body: object) => {
+		res.writeHead(statusCode, { 'Content-Type': 'application/json' });
+		res.end(JSON.stringify(body));
+	};
+
+	setup(async () => {
+		dir = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'kudu-'));
+		zipPath = path.join(dir, 'site.zip');
+		await fs.promises.writeFile(zipPath, 'PK fake zip');
+		uploads.length = 0;
+
+		server = http.createServer((req, res) => {
+			if (req.method === 'POST') {
+				const chunks: Buffer[] = [];
+				req.on('data', (c: Buffer) => chunks.push(c));
+				req.on('end', () => {
+					uploads.push(Buffer.concat(chunks).toString());
+					handler(req, res);
+				});
+				return;
+			}
+			handler(req, res);
+		});
+		await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+		profile = {
+			name: 'app-service',
+			path: path.join(dir, 'app-service.pubxml'),
+			fileName: 'app-service',
+			environment: DeployEnvironment.Staging,
+			isProduction: false,
+			publishMethod: 'ZipDeploy',
+			publishUrl: `http://127.0.0.1:${(server.address() as AddressInfo).port}`,
+			userName: '$app',
+		};
+	});
+
+	teardown(async () => {
+		await new Promise((resolve) => server.close(resolve));
+		await fs.promises.rm(dir, { recursive: true, force: true });
+	});
+
+	test('polls the Location returned for the push until it succeeds', async () => {
+		let polls = 0;
+		handler = (req, res) => {
+			if (req.method === 'POST') {
+				assert.strictEqual(
+					req.headers.authorization,
+					`Basic ${Buffer.from('$app:secret').toString('base64')}`
+				);
+				res.writeHead(202, { Location: '/api/deployments/abc' });
+				res.end();
+			} else if (req.url === '/api/deployments/abc') {
+				const done = ++polls > 1;
+				json(res, done ? 200 : 202, { id: 'abc', status: done ? 4 : 1, complete: done });
+			}
+		};
+
+		const result = await new KuduDeployService(output, 5).deploy(zipPath, profile, 'secret');
+
+		assert.strictEqual(result.success, true);
+		assert.strictEqual(result.deploymentId, 'abc');
+		assert.deepStrictEqual(uploads, ['PK fake zip']);
+	});
+
+	test('keeps polling after a status check loses its connection', async () => {
+		let polls = 0;
+		handler = (req, res) => {
+			if (req.method === 'POST') {
+				res.writeHead(202, { Location: '/api/deployments/abc' });
+				res.end();
+			} else if (++polls === 1) {
+				req.socket.destroy();
+			} else {
+				json(res, 200, { id: 'abc', status: 4, complete: true });
+			}
+		};
+
+		const result = await new KuduDeployService(output, 5).deploy(zipPath, profile, 'secret');
+
+		assert.strictEqual(result.success, true);
+		assert.strictEqual(polls, 2);
+		assert.ok(result.output.includes('Status check failed'));
+	});
+
+	test('without a Location, ignores the latest entry until it is this push', async () => {
+		let polls = 0;
+		handler = (req, res) => {
+			if (req.method === 'POST') {
+				res.writeHead(202);
+				res.end();
+			} else if (req.url === '/api/deployments/latest') {
+				// An earlier failed deployment is reported before this one shows up
+				const earlier = ++polls <= 2;
+				json(res, 200, {
+					id: earlier ? 'old' : 'new',
+					status: earlier ? 3 : 4,
+					complete: true,
+					received_time: earlier
+						? new Date(Date.now() - 60 * 60 * 1000).toISOString()
+						: new Date().toISOString(),
+				});
+			}
+		};
+
+		const result = await new KuduDeployService(output, 5).deploy(zipPath, profile, 'secret');
+
+		assert.strictEqual(result.success, true);
+		assert.strictEqual(result.deploymentId, 'new');
+	});
+
+	test('reports rejected credentials', async () => {
+		handler = (_req, res) => {
+			res.writeHead(401);
+			res.end();
+		};
+
+		const result = await new KuduDeployService(output, 5).deploy(zipPath, profile, 'wrong');
+
+		assert.strictEqual(result.success, false);
+		assert.match(result.errorMessage ?? '', /credentials \(HTTP 401\)/);
+	});
+});
@@ -0,0 +1,66 @@
+import * as assert from 'assert';
+import * as path from 'path';
+import { MsBuildDiagnosticParser } from '../parsers/MsBuildDiagnosticParser';
+
+suite('MsBuildDiagnosticParser', () => {
+	const parser = new MsBuildDiagnosticParser();
+
+	test('reads file, position, code and project from compiler errors', () => {
+		const diagnostics = parser.parse(
+			'Controllers/OrdersController.cs(42,17): error CS1002: ; expected [/src/Api/Api.csproj]',
+			'/src/Api'
+		);
+
+		assert.deepStrictEqual(diagnostics, [
+			{
+				severity: 'error',
+				code: 'CS1002',
+				message: '; expected',
+				file: path.join('/src/Api', 'Controllers/OrdersController.cs'),
+				line: 42,
+				column: 17,
+				project: '/src/Api/Api.csproj',
+			},
+		]);
+	});
+
+	test('keeps absolute Windows paths and drops the end position', () => {
+		const [diagnostic] = parser.parse(
+			'C:\\src\\Api\\Program.cs(3,1,3,9): warning CS8321: unused local function',
+			'C:\\src\\Api'
+		);
+
+		assert.strictEqual(diagnostic.severity, 'warning');
+		assert.strictEqual(diagnostic.file, 'C:\\src\\Api\\Program.cs');
+		assert.strictEqual(diagnostic.line, 3);
+		assert.strictEqual(diagnostic.column, 1);
+	});
+
+	test('tool origins have no file and Web Deploy codes come from the message', () => {
+		const [diagnostic] = parser.parse(
+			'MSDEPLOY : error : Web deployment task failed. (Could not authorize. ' +
+				'Learn more at: https://go.microsoft.com/fwlink/?LinkId=221672#ERROR_USER_UNAUTHORIZED.)'
+		);
+
+		assert.strictEqual(diagnostic.file, undefined);
+		assert.strictEqual(diagnostic.code, 'ERROR_USER_UNAUTHORIZED');
+	});
+
+	test('skips the repeated build summary and ordinary output', () => {
+		const line =
+			'Startup.cs(10,5): error CS0103: The name x does not exist [/src/Api/Api.csproj]';
+		const diagnostics = parser.parse(
+			[
+				'Restore complete (0.4s)',
+				line,
+				'Build FAILED.',
+				line,
+				'    0 Warning(s)',
+				'    1 Error(s)',
+			].join('\r\n')
+		);
+
+		assert.strictEqual(diagnostics.length, 1);
+		assert.strictEqual(diagnostics[0].code, 'CS0103');
+	});
+});
@@ -0,0 +1,50 @@
+import * as assert from 'assert';
+import { MsDeploy } from '../utils/MsDeploy';
+import { DeployEnvironment, PublishProfileInfo } from '../models/ProjectModels';
+
+suite('MsDeploy', () => {
+	const profile = (publishUrl: string, siteName?: string): PublishProfileInfo => ({
+		name: 'production',
+		path: '/ws/production.pubxml',
+		fileName: 'production',
+		environment: DeployEnvironment.Production,
+		isProduction: true,
+		publishUrl,
+		siteName,
+	});
+
+	test('quotes values containing separators, quotes or spaces', () => {
+		assert.strictEqual(MsDeploy.quoteValue('secret'), 'secret');
+		assert.strictEqual(MsDeploy.quoteValue('a,b'), '"a,b"');
+		assert.strictEqual(MsDeploy.quoteValue('k=v'), '"k=v"');
+		assert.strictEqual(MsDeploy.quoteValue('Default Web Site'), '"Default Web Site"');
+		assert.strictEqual(MsDeploy.quoteValue('say "hi"'), '"say ""hi"""');
+	});
+
+	test('formats provider settings', () => {
+		assert.strictEqual(
+			MsDeploy.formatSettings([
+				['contentPath', 'Default Web Site/api'],
+				['userName', 'deployer'],
+				['password', 'p,w'],
+			]),
+			'contentPath="Default Web Site/api",userName=deployer,password="p,w"'
+		);
+	});
+
+	test('points bare hosts at the msdeploy.axd handler over https', () => {
+		assert.strictEqual(
+			MsDeploy.buildEndpoint(profile('deploy.example.com:8172/', 'Default Web Site/api')),
+			'https://deploy.example.com:8172/msdeploy.axd?site=Default%20Web%20Site%2Fapi'
+		);
+		assert.strictEqual(
+			MsDeploy.buildEndpoint(profile('http://deploy.example.com', 'api')),
+			'http://deploy.example.com/msdeploy.axd?site=api'
+		);
+	});
+
+	test('keeps publish URLs that already name the handler', () => {
+		const url = 'https://deploy.example.com:8172/msdeploy.axd?site=api';
+		assert.strictEqual(MsDeploy.buildEndpoint(profile(url, 'other')), url);
+	});
+});
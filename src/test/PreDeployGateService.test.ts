@@ -0,0 +1,132 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import type * as vscode from 'vscode';
+import { PreDeployGateService } from '../services/PreDeployGateService';
+import { IConfigurationService } from '../services/IConfigurationService';
+import { PreDeployGateSettings } from '../models/PreDeployGateModels';
+
+/**
+ * Stand-in for the dotnet CLI: records its arguments, prints <command>.out and exits
+ * with the code in <command>.exit (both optional, next to the script)
+ */
+const FAKE_DOTNET = `#!/usr/bin/env node
+const fs = require('fs');
+const path = require('path');
+const read = (name) => fs.existsSync(path.join(__dirname, name)) ? fs.readFileSync(path.join(__dirname, name), 'utf8') : '';
+fs.appendFileSync(path.join(__dirname, 'calls.log'), JSON.stringify(process.argv.slice(2)) + '\\n');
+process.stdout.write(read(process.argv[2] + '.out'));
+process.exit(Number(read(process.argv[2] + '.exit') || 0));
+`;
+
+suite('PreDeployGateService', () => {
+	let root: string;
+	let projectPath: string;
+	let settings: PreDeployGateSettings;
+	let service: PreDeployGateService;
+
+	const bin = (...segments: string[]) => path.join(root, 'bin', ...segments);
+	const calls = (): string[][] =>
+		fs
+			.readFileSync(bin('calls.log'), 'utf8')
+			.trim()
+			.split('\n')
+			.map((line) => JSON.parse(line));
+
+	setup(function () {
+		if (process.platform === 'win32') {
+			this.skip();
+		}
+
+		root = fs.mkdtempSync(path.join(os.tmpdir(), 'gate-'));
+		fs.writeFileSync(path.join(root, 'Shop.sln'), '');
+		fs.mkdirSync(path.join(root, 'src', 'Api'), { recursive: true });
+		projectPath = path.join(root, 'src', 'Api', 'Api.csproj');
+		fs.writeFileSync(projectPath, '<Project />');
+		fs.mkdirSync(bin());
+		fs.writeFileSync(bin('dotnet'), FAKE_DOTNET, { mode: 0o755 });
+
+		settings = { enabled: true, runTests: true, testProjects: [] };
+		const configService = {
+			getPreDeployGateSettings: () => settings,
+			getDotnetPath: () => bin('dotnet'),
+			getWorkspaceRoot: () => root,
+		} as unknown as IConfigurationService;
+		const output = {
+			append: () => undefined,
+			appendLine: () => undefined,
+		} as unknown as vscode.OutputChannel;
+		service = new PreDeployGateService(output, configService);
+	});
+
+	teardown(() => {
+		if (root) {
+			fs.rmSync(root, { recursive: true, force: true });
+		}
+	});
+
+	test('builds the enclosing solution and sums the test counts of every assembly', async () => {
+		fs.writeFileSync(
+			bin('test.out'),
+			'Passed!  - Failed:     0, Passed:    12, Skipped:     1, Total:    13 - Api.Tests.dll\n' +
+				'Passed!  - Failed:     0, Passed:     4, Skipped:     0, Total:     4 - Domain.Tests.dll\n'
+		);
+
+		const outcome = await service.run(projectPath);
+
+		assert.strictEqual(outcome.status, 'passed');
+		assert.strictEqual(outcome.summary, 'Build succeeded, 16/17 tests passed');
+		assert.deepStrictEqual(outcome.tests, { passed: 16, failed: 0, skipped: 1, total: 17 });
+		const sln = path.join(root, 'Shop.sln');
+		assert.deepStrictEqual(calls(), [
+			['build', sln],
+			['test', sln, '--no-build'],
+		]);
+	});
+
+	test('a failed build stops the gate before the tests', async () => {
+		fs.writeFileSync(bin('build.exit'), '1');
+
+		const outcome = await service.run(projectPath);
+
+		assert.strictEqual(outcome.status, 'failed');
+		assert.strictEqual(outcome.failedStage, 'build');
+		assert.strictEqual(calls().length, 1);
+	});
+
+	test('failing tests fail the gate with their counts', async () => {
+		fs.writeFileSync(
+			bin('test.out'),
+			'Failed!  - Failed:     2, Passed:     8, Skipped:     0, Total:    10 - Api.Tests.dll\n'
+		);
+		fs.writeFileSync(bin('test.exit'), '1');
+
+		const outcome = await service.run(projectPath);
+
+		assert.strictEqual(outcome.status, 'failed');
+		assert.strictEqual(outcome.failedStage, 'test');
+		assert.strictEqual(outcome.summary, '2 test(s) failed, 8/10 tests passed');
+	});
+
+	test('configured test projects resolve against the workspace root and build themselves', async () => {
+		settings.testProjects = ['tests/Api.Tests/Api.Tests.csproj'];
+
+		await service.run(projectPath);
+
+		assert.deepStrictEqual(calls()[1], [
+			'test',
+			path.join(root, 'tests', 'Api.Tests', 'Api.Tests.csproj'),
+		]);
+	});
+
+	test('only builds when tests are turned off', async () => {
+		settings.runTests = false;
+
+		const outcome = await service.run(projectPath);
+
+		assert.strictEqual(outcome.status, 'passed');
+		assert.strictEqual(outcome.tests, undefined);
+		assert.strictEqual(calls().length, 1);
+	});
+});
@@ -0,0 +1,73 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { ProfileXmlGenerator } from '../generators/ProfileXmlGenerator';
+import { DeployEnvironment } from '../models/ProjectModels';
+import { ProfileWizardData } from '../services/ProfileService';
+import { PublishProfileParser } from '../utils/PublishProfileParser';
+
+suite('ProfileXmlGenerator', () => {
+	let dir: string;
+
+	const wizardData = (overrides: Partial<ProfileWizardData>): ProfileWizardData => ({
+		profileName: 'staging',
+		environment: DeployEnvironment.Staging,
+		publishUrl: 'deploy.example.com',
+		siteName: 'Default Web Site/api',
+		username: 'deployer',
+		password: '',
+		...overrides,
+	});
+	const roundTrip = (data: ProfileWizardData) => {
+		const pubxmlPath = path.join(dir, `${data.profileName}.pubxml`);
+		fs.writeFileSync(pubxmlPath, new ProfileXmlGenerator().generate(data, 'net8.0'));
+		return new PublishProfileParser().parseProfile(pubxmlPath);
+	};
+
+	setup(() => {
+		dir = fs.mkdtempSync(path.join(os.tmpdir(), 'pubxml-'));
+	});
+
+	teardown(() => {
+		fs.rmSync(dir, { recursive: true, force: true });
+	});
+
+	test('FileSystem profiles keep the folder and method through parsing', () => {
+		const profile = roundTrip(
+			wizardData({
+				publishMethod: 'FileSystem',
+				publishUrl: '\\\\fileserver\\drops\\R&D',
+				deleteExistingFiles: true,
+			})
+		);
+
+		assert.strictEqual(profile?.publishMethod, 'FileSystem');
+		assert.strictEqual(profile?.publishUrl, '\\\\fileserver\\drops\\R&D');
+		assert.strictEqual(profile?.targetId, 'Folder');
+		assert.strictEqual(profile?.deleteExistingFiles, true);
+	});
+
+	test('escapes free text in MSDeploy profiles, including the log path', () => {
+		const xml = new ProfileXmlGenerator().generate(
+			wizardData({
+				siteName: 'R&D <api>',
+				username: 'corp\\a&b',
+				enableStdoutLog: true,
+				logPath: 'C:\\logs\\R&D<1>',
+			}),
+			'net8.0'
+		);
+
+		assert.ok(xml.includes('<LogPath>C:\\logs\\R&amp;D&lt;1&gt;</LogPath>'));
+		assert.ok(xml.includes('<DeployIisAppPath>R&amp;D &lt;api&gt;</DeployIisAppPath>'));
+		assert.ok(xml.includes('<UserName>corp\\a&amp;b</UserName>'));
+	});
+
+	test('MSDeploy values read back unescaped', () => {
+		const profile = roundTrip(wizardData({ siteName: 'R&D <api>', logPath: 'C:\\a&b' }));
+
+		assert.strictEqual(profile?.siteName, 'R&D <api>');
+		assert.strictEqual(profile?.userName, 'deployer');
+	});
+});
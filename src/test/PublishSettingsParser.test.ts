@@ -0,0 +1,50 @@
+import * as assert from 'assert';
+import { FastXmlParser } from '../parsers/FastXmlParser';
+import { PublishSettingsParser } from '../parsers/PublishSettingsParser';
+
+suite('PublishSettingsParser', () => {
+	const parser = new PublishSettingsParser(new FastXmlParser());
+
+	test('reads every publish profile downloaded from the portal', () => {
+		const profiles = parser.parse(`<publishData>
+  <publishProfile profileName="my-app - Web Deploy" publishMethod="MSDeploy"
+    publishUrl="my-app.scm.azurewebsites.net:443" msdeploySite="my-app"
+    userName="$my-app" userPWD="s3cr&amp;t" destinationAppUrl="https://my-app.azurewebsites.net" />
+  <publishProfile profileName="my-app - Zip Deploy" publishMethod="ZipDeploy"
+    publishUrl="my-app.scm.azurewebsites.net:443" userName="$my-app" userPWD="s3cr&amp;t" />
+</publishData>`);
+
+		assert.deepStrictEqual(profiles, [
+			{
+				profileName: 'my-app - Web Deploy',
+				publishMethod: 'MSDeploy',
+				publishUrl: 'my-app.scm.azurewebsites.net:443',
+				siteName: 'my-app',
+				userName: '$my-app',
+				password: 's3cr&t',
+				destinationAppUrl: 'https://my-app.azurewebsites.net',
+			},
+			{
+				profileName: 'my-app - Zip Deploy',
+				publishMethod: 'ZipDeploy',
+				publishUrl: 'my-app.scm.azurewebsites.net:443',
+				siteName: undefined,
+				userName: '$my-app',
+				password: 's3cr&t',
+				destinationAppUrl: undefined,
+			},
+		]);
+	});
+
+	test('skips entries without an endpoint or user name', () => {
+		const profiles = parser.parse(`<publishData>
+  <publishProfile profileName="my-app - ReadOnly - FTP" publishMethod="FTP" publishUrl="" userName="" />
+</publishData>`);
+
+		assert.deepStrictEqual(profiles, []);
+	});
+
+	test('content that is not a publish settings file has no profiles', () => {
+		assert.deepStrictEqual(parser.parse('<Project Sdk="Microsoft.NET.Sdk" />'), []);
+	});
+});
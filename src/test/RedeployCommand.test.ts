@@ -0,0 +1,114 @@
+import * as assert from 'assert';
+import * as cp from 'child_process';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { RedeployCommand } from '../commands/RedeployCommand';
+import { DeployProfileCommand } from '../commands/DeployProfileCommand';
+import { IHistoryProfileResolver } from '../services/HistoryProfileResolver';
+import { DeploymentRecord } from '../models/DeploymentRecord';
+import { DeployEnvironment, ProjectInfo, PublishProfileInfo } from '../models/ProjectModels';
+
+suite('RedeployCommand', () => {
+	const window = vscode.window as any;
+	const originals = { showWarningMessage: window.showWarningMessage };
+	let repoDir: string;
+	let details: string[];
+	let redeployed: string[];
+	let command: RedeployCommand;
+
+	const git = (...args: string[]) =>
+		cp.execFileSync('git', args, { cwd: repoDir, encoding: 'utf-8' }).trim();
+	const commit = (subject: string) => {
+		fs.appendFileSync(path.join(repoDir, 'Program.cs'), `// ${subject}\n`);
+		git('add', '.');
+		git('-c', 'user.name=Dev', '-c', 'user.email=dev@example.com', 'commit', '-qm', subject);
+	};
+	const record = (): DeploymentRecord => ({
+		id: 'abc',
+		profileName: 'staging',
+		projectName: 'Api',
+		environment: 'STAGING',
+		status: 'success',
+		startTime: '2026-01-01T10:00:00Z',
+		git: {
+			branch: 'main',
+			commit: git('rev-parse', 'HEAD'),
+			message: git('log', '-1', '--format=%s'),
+			author: 'Dev',
+			dirty: false,
+		},
+	});
+
+	setup(() => {
+		repoDir = fs.mkdtempSync(path.join(os.tmpdir(), 'redeploy-'));
+		git('init', '-q', '-b', 'main');
+		commit('add orders endpoint');
+		details = [];
+		redeployed = [];
+		window.showWarningMessage = async (_message: string, options: { detail: string }) => {
+			details.push(options.detail);
+			return 'Deploy';
+		};
+
+		const project = {
+			name: 'Api',
+			csprojPath: path.join(repoDir, 'Api.csproj'),
+		} as ProjectInfo;
+		const profile: PublishProfileInfo = {
+			name: 'staging',
+			path: path.join(repoDir, 'Properties', 'PublishProfiles', 'staging.pubxml'),
+			fileName: 'staging',
+			environment: DeployEnvironment.Staging,
+			isProduction: false,
+		};
+		const resolver: IHistoryProfileResolver = { resolve: async () => ({ project, profile }) };
+		const deployCommand = {
+			runDeployment: async (
+				_profile: PublishProfileInfo,
+				_projectName: string,
+				_projectPath: string,
+				options: { record: { redeployOf: string } }
+			) => {
+				redeployed.push(options.record.redeployOf);
+				return 'success';
+			},
+		} as unknown as DeployProfileCommand;
+		const output = { appendLine: () => undefined } as unknown as vscode.OutputChannel;
+		command = new RedeployCommand(output, resolver, deployCommand);
+	});
+
+	teardown(() => {
+		Object.assign(window, originals);
+		fs.rmSync(repoDir, { recursive: true, force: true });
+	});
+
+	test('an unchanged source is redeployed without warnings', async () => {
+		await command.execute({ record: record() });
+
+		assert.deepStrictEqual(redeployed, ['abc']);
+		assert.ok(!details[0].includes('⚠️'));
+	});
+
+	test('warns when the source moved past the recorded commit', async () => {
+		const deployed = record();
+		commit('rename orders endpoint');
+
+		await command.execute({ record: deployed });
+
+		assert.match(
+			details[0],
+			/The source is now at [0-9a-f]{7} \(rename orders endpoint\), not [0-9a-f]{7} \(add orders endpoint\)/
+		);
+		assert.ok(!details[0].includes('uncommitted'));
+	});
+
+	test('warns about uncommitted changes', async () => {
+		fs.appendFileSync(path.join(repoDir, 'Program.cs'), '// local edit\n');
+
+		await command.execute({ record: record() });
+
+		assert.ok(details[0].includes('⚠️ The working tree has uncommitted changes.'));
+	});
+});
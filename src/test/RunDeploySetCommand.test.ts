@@ -0,0 +1,91 @@
+import * as assert from 'assert';
+import * as vscode from 'vscode';
+import { RunDeploySetCommand } from '../commands/RunDeploySetCommand';
+import { DeployProfileCommand, PreparedDeployment } from '../commands/DeployProfileCommand';
+import { DeploySetConfigService } from '../services/DeploySetConfigService';
+import { DeploySet } from '../models/DeploySetModels';
+import { DeploymentStatus } from '../models/DeploymentRecord';
+import { DeployEnvironment, PublishProfileInfo } from '../models/ProjectModels';
+import { ProjectScanner } from '../utils/ProjectScanner';
+
+const profile = (fileName: string): PublishProfileInfo => ({
+	name: fileName,
+	path: `/ws/${fileName}.pubxml`,
+	fileName,
+	environment: DeployEnvironment.Production,
+	isProduction: true,
+});
+
+suite('RunDeploySetCommand', () => {
+	const window = vscode.window as any;
+	const originals = {
+		showWarningMessage: window.showWarningMessage,
+		showInformationMessage: window.showInformationMessage,
+		showErrorMessage: window.showErrorMessage,
+	};
+
+	setup(() => {
+		window.showWarningMessage = async () => 'Deploy';
+		window.showInformationMessage = async () => undefined;
+		window.showErrorMessage = async () => undefined;
+	});
+
+	teardown(() => {
+		Object.assign(window, originals);
+	});
+
+	test('parallel sets prepare one profile at a time before publishing any', async () => {
+		const events: string[] = [];
+		let preparing = 0;
+		const deployCommand = {
+			prepareDeployment: async (p: PublishProfileInfo) => {
+				preparing++;
+				assert.strictEqual(preparing, 1, 'prompts must not overlap');
+				events.push(`prepare ${p.fileName}`);
+				await new Promise((resolve) => setTimeout(resolve, 10));
+				preparing--;
+				return p.fileName === 'blocked'
+					? 'cancelled'
+					: ({ historyId: p.fileName, startTime: new Date() } as PreparedDeployment);
+			},
+			publishPrepared: async (prepared: PreparedDeployment): Promise<DeploymentStatus> => {
+				events.push(`publish ${prepared.historyId}`);
+				return 'success';
+			},
+		} as unknown as DeployProfileCommand;
+
+		const names = ['api', 'blocked', 'web'];
+		const projectScanner = {
+			scanWorkspace: async () => ({
+				projects: [
+					{ name: 'App', csprojPath: '/ws/App.csproj', profiles: names.map(profile) },
+				],
+				hasServerClientStructure: false,
+			}),
+		} as unknown as ProjectScanner;
+		const set: DeploySet = {
+			id: 'set',
+			name: 'Release',
+			mode: 'parallel',
+			entries: names.map((profileName) => ({ projectName: 'App', profileName })),
+		};
+
+		const output = vscode.window.createOutputChannel('deploy-set-test');
+		const command = new RunDeploySetCommand(
+			output,
+			{} as DeploySetConfigService,
+			projectScanner,
+			deployCommand
+		);
+		await command.execute({ deploySet: set });
+		output.dispose();
+
+		assert.deepStrictEqual(events, [
+			'prepare api',
+			'prepare blocked',
+			'prepare web',
+			'publish api',
+			'publish web',
+		]);
+	});
+});
@@ -0,0 +1,74 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { DeploymentRecord } from '../models/DeploymentRecord';
+import { SharedHistoryStore } from '../services/SharedHistoryStore';
+
+suite('SharedHistoryStore', () => {
+	let dir: string;
+	let filePath: string;
+
+	const record = (id: string, status: DeploymentRecord['status']): DeploymentRecord => ({
+		id,
+		profileName: 'staging',
+		projectName: 'Api',
+		environment: 'STAGING',
+		status,
+		startTime: '2026-01-01T10:00:00Z',
+	});
+	const lines = async () =>
+		(await fs.promises.readFile(filePath, 'utf-8')).split('\n').filter((l) => l.trim());
+
+	setup(async () => {
+		dir = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'shared-history-'));
+		filePath = path.join(dir, 'deployment-history.jsonl');
+	});
+
+	teardown(async () => {
+		await fs.promises.rm(dir, { recursive: true, force: true });
+	});
+
+	test('breaks a lock left behind by a crashed writer', async () => {
+		const lockPath = `${filePath}.lock`;
+		await fs.promises.writeFile(lockPath, 'other-host 1234');
+		const longAgo = new Date(Date.now() - 60 * 1000);
+		await fs.promises.utimes(lockPath, longAgo, longAgo);
+
+		await new SharedHistoryStore(filePath).append(record('a', 'success'));
+
+		assert.deepStrictEqual(
+			(await new SharedHistoryStore(filePath).read()).map((r) => r.id),
+			['a']
+		);
+		assert.deepStrictEqual(await fs.promises.readdir(dir), ['deployment-history.jsonl']);
+	});
+
+	test('compacts superseded snapshots once the file is large enough', async () => {
+		const store = new SharedHistoryStore(filePath, 0);
+		await store.append(record('a', 'in-progress'));
+		await store.append(record('b', 'in-progress'));
+		await store.append(record('a', 'success'));
+		assert.strictEqual((await lines()).length, 3);
+
+		await store.append(record('b', 'failed'));
+
+		assert.strictEqual((await lines()).length, 2);
+		assert.deepStrictEqual(
+			(await store.read()).map((r) => [r.id, r.status]),
+			[
+				['a', 'success'],
+				['b', 'failed'],
+			]
+		);
+	});
+
+	test('small files are left as they are', async () => {
+		const store = new SharedHistoryStore(filePath);
+		await store.append(record('a', 'in-progress'));
+		await store.append(record('a', 'success'));
+
+		assert.strictEqual((await lines()).length, 2);
+		assert.strictEqual((await store.read())[0].status, 'success');
+	});
+});
@@ -0,0 +1,191 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import type * as vscode from 'vscode';
+import { SshDeployService } from '../services/SshDeployService';
+import { DeployEnvironment, PublishProfileInfo, SshPublishSettings } from '../models/ProjectModels';
+
+/**
+ * Stand-in for ssh, rsync and scp: records the tool, its arguments and what SSH_ASKPASS
+ * answers, then exits with the code in <tool>.exit (optional, next to the script)
+ */
+const FAKE_TOOL = `#!/usr/bin/env node
+const fs = require('fs');
+const path = require('path');
+const tool = path.basename(process.argv[1]);
+const askpass = process.env.SSH_ASKPASS
+	? require('child_process').execFileSync(process.env.SSH_ASKPASS, { encoding: 'utf8' }).trim()
+	: undefined;
+fs.appendFileSync(path.join(__dirname, 'calls.log'), JSON.stringify({ tool, args: process.argv.slice(2), askpass, helper: process.env.SSH_ASKPASS }) + '\\n');
+const exit = path.join(__dirname, tool + '.exit');
+process.exit(fs.existsSync(exit) ? Number(fs.readFileSync(exit, 'utf8')) : 0);
+`;
+
+interface Call {
+	tool: string;
+	args: string[];
+	askpass?: string;
+	helper?: string;
+}
+
+suite('SshDeployService', () => {
+	let dir: string;
+	let publishDir: string;
+	const originalPath = process.env.PATH;
+
+	const bin = (...segments: string[]) => path.join(dir, 'bin', ...segments);
+	const calls = (): Call[] =>
+		fs
+			.readFileSync(bin('calls.log'), 'utf8')
+			.trim()
+			.split('\n')
+			.map((line) => JSON.parse(line));
+	const profile = (
+		ssh: Partial<SshPublishSettings>,
+		overrides: Partial<PublishProfileInfo> = {}
+	): PublishProfileInfo => ({
+		name: 'linux',
+		path: path.join(dir, 'linux.pubxml'),
+		fileName: 'linux',
+		environment: DeployEnvironment.Production,
+		isProduction: true,
+		publishMethod: 'SSH',
+		publishUrl: 'ssh://web1.example.com:2222',
+		userName: 'deploy',
+		ssh: { remotePath: '/srv/api', authType: 'password', transfer: 'rsync', ...ssh },
+		...overrides,
+	});
+	const deploy = (info: PublishProfileInfo, secret?: string) => {
+		const output = {
+			append: () => undefined,
+			appendLine: () => undefined,
+		} as unknown as vscode.OutputChannel;
+		return new SshDeployService(output).deploy(publishDir, info, secret);
+	};
+
+	setup(function () {
+		if (process.platform === 'win32') {
+			this.skip();
+		}
+
+		dir = fs.mkdtempSync(path.join(os.tmpdir(), 'ssh-deploy-'));
+		publishDir = path.join(dir, 'publish');
+		fs.mkdirSync(path.join(publishDir, 'wwwroot'), { recursive: true });
+		fs.writeFileSync(path.join(publishDir, 'Api.dll'), 'build');
+		fs.mkdirSync(bin());
+		for (const tool of ['ssh', 'rsync', 'scp']) {
+			fs.writeFileSync(bin(tool), FAKE_TOOL, { mode: 0o755 });
+		}
+		process.env.PATH = `${bin()}${path.delimiter}${originalPath}`;
+	});
+
+	teardown(() => {
+		process.env.PATH = originalPath;
+		if (dir) {
+			fs.rmSync(dir, { recursive: true, force: true });
+		}
+	});
+
+	test('runs the remote commands around an rsync upload', async () => {
+		const result = await deploy(
+			profile(
+				{ preCommand: 'systemctl stop api', postCommand: 'systemctl start api' },
+				{ deleteExistingFiles: true }
+			)
+		);
+
+		assert.strictEqual(result.success, true);
+		assert.deepStrictEqual(
+			result.steps.map((s) => s.name),
+			['pre-command', 'upload', 'post-command']
+		);
+		const [pre, prepare, rsync, post] = calls();
+		assert.deepStrictEqual(pre.args.slice(-4), [
+			'-p',
+			'2222',
+			'deploy@web1.example.com',
+			'systemctl stop api',
+		]);
+		assert.strictEqual(prepare.args.at(-1), "mkdir -p -- '/srv/api'");
+		assert.strictEqual(rsync.tool, 'rsync');
+		assert.deepStrictEqual(rsync.args.slice(0, 4), ['-az', '--protect-args', '--delete', '-e']);
+		assert.match(rsync.args[4], /^ssh -p 2222 -o StrictHostKeyChecking=accept-new /);
+		assert.deepStrictEqual(rsync.args.slice(-2), [
+			`${publishDir}${path.sep}`,
+			'deploy@web1.example.com:/srv/api/',
+		]);
+		assert.strictEqual(post.args.at(-1), 'systemctl start api');
+	});
+
+	test('rsync takes remote folders with spaces literally', async () => {
+		await deploy(profile({ remotePath: '~/my api/' }));
+
+		const rsync = calls().find((c) => c.tool === 'rsync')!;
+		assert.ok(rsync.args.includes('--protect-args'));
+		assert.strictEqual(rsync.args.at(-1), 'deploy@web1.example.com:my api/');
+	});
+
+	test('answers password prompts through a temporary askpass helper', async () => {
+		await deploy(profile({}), "it's secret");
+
+		assert.deepStrictEqual(
+			calls().map((c) => c.askpass),
+			["it's secret", "it's secret"]
+		);
+		assert.ok(
+			calls()[0].args.includes('PreferredAuthentications=password,keyboard-interactive')
+		);
+		assert.strictEqual(fs.existsSync(calls()[0].helper!), false);
+	});
+
+	test('SFTP uploads empty the remote folder first when replacing files', async () => {
+		const result = await deploy(
+			profile(
+				{
+					transfer: 'sftp',
+					remotePath: "~/apps/bob's api",
+					authType: 'key',
+					privateKeyPath: '/keys/id',
+				},
+				{ deleteExistingFiles: true, publishUrl: 'web1.example.com' }
+			)
+		);
+
+		assert.strictEqual(result.success, true);
+		const [prepare, scp] = calls();
+		assert.strictEqual(
+			prepare.args.at(-1),
+			`mkdir -p -- "$HOME"/'apps/bob'\\''s api' && find "$HOME"/'apps/bob'\\''s api' -mindepth 1 -delete`
+		);
+		assert.ok(prepare.args.includes('22'));
+		assert.strictEqual(scp.tool, 'scp');
+		assert.deepStrictEqual(scp.args.slice(0, 4), ['-s', '-r', '-P', '22']);
+		assert.ok(scp.args.includes('/keys/id'));
+		assert.deepStrictEqual(
+			scp.args.slice(-3).sort(),
+			[
+				path.join(publishDir, 'Api.dll'),
+				path.join(publishDir, 'wwwroot'),
+				"deploy@web1.example.com:apps/bob's api/",
+			].sort()
+		);
+	});
+
+	test('a failing pre-deploy command stops before uploading', async () => {
+		fs.writeFileSync(bin('ssh.exit'), '1');
+
+		const result = await deploy(profile({ preCommand: 'systemctl stop api' }));
+
+		assert.strictEqual(result.success, false);
+		assert.match(result.errorMessage ?? '', /Pre-deploy command failed \(exit code 1\)/);
+		assert.strictEqual(calls().length, 1);
+	});
+
+	test('profiles without a host are rejected without connecting', async () => {
+		const result = await deploy(profile({}, { publishUrl: '' }));
+
+		assert.strictEqual(result.success, false);
+		assert.strictEqual(fs.existsSync(bin('calls.log')), false);
+	});
+});
@@ -0,0 +1,197 @@
+import * as assert from 'assert';
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import type * as vscode from 'vscode';
+import { WebhookService } from '../services/WebhookService';
+import { IConfigurationService } from '../services/IConfigurationService';
+import { IPasswordStorage } from '../strategies/IPasswordStorage';
+import { DeploymentRecord } from '../models/DeploymentRecord';
+import { WebhookSettings } from '../models/WebhookModels';
+
+suite('WebhookService', () => {
+	let server: http.Server;
+	let baseUrl: string;
+	let received: { path: string; body: any }[];
+	let respond: (req: http.IncomingMessage, res: http.ServerResponse) => void;
+	let webhooks: WebhookSettings[];
+	let urls: Record<string, string>;
+	let log: string[];
+	let service: WebhookService;
+
+	const record: DeploymentRecord = {
+		id: '42',
+		profileName: 'production',
+		projectName: 'Api',
+		environment: 'PRODUCTION',
+		status: 'failed',
+		startTime: '2026-10-16T10:00:00Z',
+		duration: 83000,
+		user: 'Dev',
+		errorMessage: 'ERROR_FILE_IN_USE',
+		git: {
+			branch: 'main',
+			commit: '0123456789abcdef0123456789abcdef01234567',
+			message: 'release',
+			author: 'Dev',
+			dirty: true,
+		},
+	};
+	const webhook = (overrides: Partial<WebhookSettings>): WebhookSettings => ({
+		name: 'Team Chat',
+		type: 'slack',
+		environments: ['production'],
+		events: ['start', 'success', 'failure', 'cancelled'],
+		...overrides,
+	});
+
+	setup(async () => {
+		received = [];
+		respond = (_req, res) => {
+			res.writeHead(200);
+			res.end('ok');
+		};
+		server = http.createServer((req, res) => {
+			const chunks: Buffer[] = [];
+			req.on('data', (c: Buffer) => chunks.push(c));
+			req.on('end', () => {
+				received.push({
+					path: req.url!,
+					body: JSON.parse(Buffer.concat(chunks).toString()),
+				});
+				respond(req, res);
+			});
+		});
+		await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+		baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+		webhooks = [];
+		urls = {};
+		log = [];
+		const configService = {
+			getWebhooks: () => webhooks,
+		} as unknown as IConfigurationService;
+		const passwordStorage = {
+			retrieve: async (key: string) => urls[key],
+		} as unknown as IPasswordStorage;
+		const output = {
+			appendLine: (text: string) => log.push(text),
+		} as unknown as vscode.OutputChannel;
+		// Short timeout so unanswered requests fail quickly
+		service = new WebhookService(output, configService, passwordStorage, 500);
+	});
+
+	teardown(async () => {
+		await new Promise((resolve) => server.close(resolve));
+	});
+
+	test('posts the filled default message to webhooks for the environment and event', async () => {
+		webhooks = [
+			webhook({}),
+			webhook({ name: 'Staging only', environments: ['staging'] }),
+			webhook({ name: 'Starts only', events: ['start'] }),
+		];
+		for (const w of webhooks) {
+			urls[service.getUrlKey(w.name)] = `${baseUrl}/${w.name.replace(/ /g, '-')}`;
+		}
+
+		await service.notify('failure', record);
+
+		assert.deepStrictEqual(received, [
+			{
+				path: '/Team-Chat',
+				body: {
+					text:
+						'❌ Deployment of Api (production) to PRODUCTION by Dev failed after 1m 23s: ' +
+						'ERROR_FILE_IN_USE',
+				},
+			},
+		]);
+	});
+
+	test('formats Teams, Discord and generic payloads', async () => {
+		webhooks = [
+			webhook({ name: 'teams', type: 'teams' }),
+			webhook({
+				name: 'discord',
+				type: 'discord',
+				template: '{commit} on {branch} {unknown}',
+			}),
+			webhook({ name: 'generic', type: 'generic' }),
+		];
+		for (const w of webhooks) {
+			urls[service.getUrlKey(w.name)] = `${baseUrl}/${w.name}`;
+		}
+
+		await service.notify('success', { ...record, status: 'success' });
+
+		const [teams, discord, generic] = received.map((r) => r.body);
+		assert.strictEqual(teams['@type'], 'MessageCard');
+		assert.strictEqual(teams.themeColor, '2EB886');
+		assert.deepStrictEqual(discord, {
+			content: '0123456 (uncommitted changes) on main {unknown}',
+		});
+		assert.strictEqual(generic.event, 'success');
+		assert.strictEqual(generic.deployment.id, '42');
+		assert.strictEqual(generic.deployment.git.branch, 'main');
+	});
+
+	test('keeps notifications of one deployment in order', async () => {
+		webhooks = [webhook({})];
+		urls[service.getUrlKey('Team Chat')] = baseUrl;
+		respond = (_req, res) => {
+			// The start message is answered last
+			setTimeout(() => res.end('ok'), received.length === 1 ? 100 : 0);
+		};
+
+		await Promise.all([
+			service.notify('start', record),
+			service.notify('success', { ...record, status: 'success' }),
+		]);
+
+		assert.deepStrictEqual(
+			received.map((r) => r.body.text.split(' ')[0]),
+			['🚀', '✅']
+		);
+	});
+
+	test('failed deliveries are logged without rejecting', async () => {
+		webhooks = [webhook({}), webhook({ name: 'Missing URL' })];
+		urls[service.getUrlKey('Team Chat')] = baseUrl;
+		respond = (_req, res) => {
+			res.writeHead(500);
+			res.end('invalid_payload');
+		};
+
+		await service.notify('start', record);
+
+		assert.ok(log.some((l) => l.includes('Team Chat: start notification failed: HTTP 500')));
+		assert.ok(log.some((l) => l.includes('Missing URL: no URL stored')));
+	});
+
+	test('timeouts are logged without the secret webhook URL', async () => {
+		webhooks = [webhook({})];
+		const url = `${baseUrl}/services/T000/B000/s3cr3tT0ken`;
+		urls[service.getUrlKey('Team Chat')] = url;
+		respond = () => undefined;
+
+		await service.notify('start', record);
+
+		assert.ok(
+			log.some((l) => l.includes('Team Chat: start notification failed: Request timed out'))
+		);
+		assert.ok(!log.some((l) => l.includes('s3cr3tT0ken') || l.includes(url)));
+	});
+
+	test('test messages reject when the webhook refuses them', async () => {
+		respond = (_req, res) => {
+			res.writeHead(404);
+			res.end('no_team');
+		};
+
+		await assert.rejects(service.sendTest(webhook({}), baseUrl), /HTTP 404: no_team/);
+	});
+
+	test('URL keys are derived from the webhook name', () => {
+		assert.strictEqual(service.getUrlKey('Team Chat #ops'), 'DEPLOY_WEBHOOK_TEAM_CHAT_OPS');
+	});
+});
@@ -0,0 +1,115 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as zlib from 'zlib';
+import { ZipArchiveReader } from '../utils/ZipArchiveReader';
+import { ZipArchiveWriter } from '../utils/ZipArchiveWriter';
+
+/**
+ * Minimal archive as Windows tools write it (DOS attributes); CRCs are left at 0 since
+ * the reader does not check them
+ */
+const buildZip = (entries: [name: string, content: string, deflate?: boolean][]): Buffer => {
+	const locals: Buffer[] = [];
+	const centrals: Buffer[] = [];
+	let offset = 0;
+
+	for (const [name, content, deflate] of entries) {
+		const nameBytes = Buffer.from(name);
+		const data = deflate ? zlib.deflateRawSync(content) : Buffer.from(content);
+
+		const local = Buffer.alloc(30);
+		local.writeUInt32LE(0x04034b50, 0);
+		local.writeUInt16LE(deflate ? 8 : 0, 8);
+		local.writeUInt32LE(data.length, 18);
+		local.writeUInt32LE(Buffer.byteLength(content), 22);
+		local.writeUInt16LE(nameBytes.length, 26);
+
+		const central = Buffer.alloc(46);
+		central.writeUInt32LE(0x02014b50, 0);
+		central.writeUInt16LE(20, 4);
+		central.writeUInt16LE(deflate ? 8 : 0, 10);
+		central.writeUInt32LE(data.length, 20);
+		central.writeUInt32LE(Buffer.byteLength(content), 24);
+		central.writeUInt16LE(nameBytes.length, 28);
+		central.writeUInt32LE(offset, 42);
+
+		locals.push(local, nameBytes, data);
+		centrals.push(central, nameBytes);
+		offset += local.length + nameBytes.length + data.length;
+	}
+
+	const directory = Buffer.concat(centrals);
+	const end = Buffer.alloc(22);
+	end.writeUInt32LE(0x06054b50, 0);
+	end.writeUInt16LE(entries.length, 8);
+	end.writeUInt16LE(entries.length, 10);
+	end.writeUInt32LE(directory.length, 12);
+	end.writeUInt32LE(offset, 16);
+	return Buffer.concat([...locals, directory, end]);
+};
+
+suite('ZipArchiveReader', () => {
+	let root: string;
+	let zipPath: string;
+	let destDir: string;
+
+	setup(async () => {
+		root = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'zip-reader-'));
+		zipPath = path.join(root, 'package.zip');
+		destDir = path.join(root, 'extracted');
+	});
+
+	teardown(async () => {
+		await fs.promises.rm(root, { recursive: true, force: true });
+	});
+
+	test('extracts stored and deflated entries, including folder entries', async () => {
+		await fs.promises.writeFile(
+			zipPath,
+			buildZip([
+				['wwwroot/', ''],
+				['wwwroot/index.html', '<h1>Hi</h1>'],
+				['appsettings.json', '{ "Logging": {} }', true],
+			])
+		);
+
+		assert.strictEqual(await ZipArchiveReader.extract(zipPath, destDir), 2);
+		assert.strictEqual(
+			await fs.promises.readFile(path.join(destDir, 'wwwroot', 'index.html'), 'utf8'),
+			'<h1>Hi</h1>'
+		);
+		assert.strictEqual(
+			await fs.promises.readFile(path.join(destDir, 'appsettings.json'), 'utf8'),
+			'{ "Logging": {} }'
+		);
+	});
+
+	test('refuses entries that would land outside the extraction folder', async () => {
+		await fs.promises.writeFile(zipPath, buildZip([['../evil.dll', 'pwned']]));
+
+		await assert.rejects(ZipArchiveReader.extract(zipPath, destDir), /escapes/);
+		assert.strictEqual(fs.existsSync(path.join(root, 'evil.dll')), false);
+	});
+
+	test('restores Unix file modes recorded by ZipArchiveWriter', async function () {
+		if (process.platform === 'win32') {
+			this.skip();
+		}
+		const publishDir = path.join(root, 'publish');
+		await fs.promises.mkdir(publishDir);
+		await fs.promises.writeFile(path.join(publishDir, 'Api'), '#!/bin/sh', { mode: 0o755 });
+		await ZipArchiveWriter.zipFolder(publishDir, zipPath);
+
+		await ZipArchiveReader.extract(zipPath, destDir);
+
+		assert.strictEqual((await fs.promises.stat(path.join(destDir, 'Api'))).mode & 0o777, 0o755);
+	});
+
+	test('rejects files that are not zip archives', async () => {
+		await fs.promises.writeFile(zipPath, 'not a zip');
+
+		await assert.rejects(ZipArchiveReader.extract(zipPath, destDir), /Not a zip archive/);
+	});
+});
@@ -0,0 +1,75 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import type * as vscode from 'vscode';
+import { ZipArchiveReader } from '../utils/ZipArchiveReader';
+import { ZipArchiveWriter } from '../utils/ZipArchiveWriter';
+
+suite('ZipArchiveWriter', () => {
+	let root: string;
+	let sourceDir: string;
+
+	setup(async () => {
+		root = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'zip-writer-'));
+		sourceDir = path.join(root, 'publish');
+		await fs.promises.mkdir(path.join(sourceDir, 'wwwroot', 'css'), { recursive: true });
+		await fs.promises.writeFile(path.join(sourceDir, 'web.config'), '<configuration />');
+		await fs.promises.writeFile(path.join(sourceDir, 'wwwroot', 'css', 'site.css'), 'body {}');
+		await fs.promises.writeFile(path.join(sourceDir, 'app.dll'), Buffer.alloc(512 * 1024, 7));
+	});
+
+	teardown(async () => {
+		await fs.promises.rm(root, { recursive: true, force: true });
+	});
+
+	test('round-trips every file through ZipArchiveReader', async () => {
+		const zipPath = path.join(root, 'out.zip');
+		const count = await ZipArchiveWriter.zipFolder(sourceDir, zipPath);
+		assert.strictEqual(count, 3);
+
+		const extracted = path.join(root, 'extracted');
+		assert.strictEqual(await ZipArchiveReader.extract(zipPath, extracted), 3);
+		assert.strictEqual(
+			await fs.promises.readFile(path.join(extracted, 'wwwroot', 'css', 'site.css'), 'utf8'),
+			'body {}'
+		);
+		assert.deepStrictEqual(
+			await fs.promises.readFile(path.join(extracted, 'app.dll')),
+			Buffer.alloc(512 * 1024, 7)
+		);
+	});
+
+	test('produces the same bytes for the same input', async () => {
+		const first = path.join(root, 'first.zip');
+		const second = path.join(root, 'second.zip');
+		await ZipArchiveWriter.zipFolder(sourceDir, first);
+		await ZipArchiveWriter.zipFolder(sourceDir, second);
+		assert.deepStrictEqual(
+			await fs.promises.readFile(first),
+			await fs.promises.readFile(second)
+		);
+	});
+
+	test('rejects and removes the partial zip when cancelled before starting', async () => {
+		const zipPath = path.join(root, 'cancelled.zip');
+		const token = { isCancellationRequested: true } as vscode.CancellationToken;
+
+		await assert.rejects(ZipArchiveWriter.zipFolder(sourceDir, zipPath, token), /cancelled/);
+		assert.strictEqual(fs.existsSync(zipPath), false);
+	});
+
+	test('settles and cleans up when cancelled mid-stream', async () => {
+		const zipPath = path.join(root, 'mid.zip');
+		let reads = 0;
+		// Flip to cancelled after a few checks, i.e. while a file is being streamed
+		const token = {
+			get isCancellationRequested() {
+				return ++reads > 3;
+			},
+		} as vscode.CancellationToken;
+
+		await assert.rejects(ZipArchiveWriter.zipFolder(sourceDir, zipPath, token), /cancelled/);
+		assert.strictEqual(fs.existsSync(zipPath), false);
+	});
+});
@@ -0,0 +1,191 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import { Changelog } from '../models/ChangelogModels';
+import { IChangelogService } from '../services/ChangelogService';
+
+/**
+ * Changelog Webview Panel
+ * Lists the commits between two deployments; clicking a commit opens its diff
+ */
+export class ChangelogPanel {
+	// One panel, reused for every changelog
+	private static current: ChangelogPanel | undefined;
+
+	private disposables: vscode.Disposable[] = [];
+
+	private constructor(
+		private readonly panel: vscode.WebviewPanel,
+		private readonly extensionUri: vscode.Uri,
+		private changelog: Changelog,
+		private readonly changelogService: IChangelogService,
+		private readonly outputChannel: vscode.OutputChannel
+	) {
+		this.update();
+
+		this.panel.webview.onDidReceiveMessage(
+			async (message) => {
+				const { repoDir, from, to } = this.changelog.range;
+				switch (message.command) {
+					case 'openCommit':
+						await this.changelogService.openDiff(
+							repoDir,
+							`${message.sha}^`,
+							message.sha,
+							`${String(message.sha).substring(0, 7)} (commit)`
+						);
+						break;
+					case 'openRange':
+						await this.changelogService.openDiff(
+							repoDir,
+							from.ref,
+							to.ref,
+							`${from.ref.substring(0, 7)}..${to.ref === 'HEAD' ? 'HEAD' : to.ref.substring(0, 7)}`
+						);
+						break;
+				}
+			},
+			null,
+			this.disposables
+		);
+
+		this.panel.onDidDispose(() => this.dispose(), null, this.disposables);
+	}
+
+	public static show(
+		extensionUri: vscode.Uri,
+		changelog: Changelog,
+		changelogService: IChangelogService,
+		outputChannel: vscode.OutputChannel
+	) {
+		if (ChangelogPanel.current) {
+			ChangelogPanel.current.changelog = changelog;
+			ChangelogPanel.current.update();
+			ChangelogPanel.current.panel.reveal();
+			return;
+		}
+
+		const panel = vscode.window.createWebviewPanel(
+			'dotnetToolkitChangelog',
+			'Deployment Changes',
+			vscode.ViewColumn.Active,
+			{
+				enableScripts: true,
+				localResourceRoots: [vscode.Uri.joinPath(extensionUri, 'media')],
+			}
+		);
+
+		ChangelogPanel.current = new ChangelogPanel(
+			panel,
+			extensionUri,
+			changelog,
+			changelogService,
+			outputChannel
+		);
+	}
+
+	private update() {
+		this.panel.title = `Changes: ${this.changelog.range.from.label}`;
+		this.panel.webview.html = this.getHtmlContent();
+	}
+
+	private getHtmlContent(): string {
+		try {
+			const htmlPath = vscode.Uri.joinPath(this.extensionUri, 'media', 'changelog.html');
+			const cssUri = this.panel.webview.asWebviewUri(
+				vscode.Uri.joinPath(this.extensionUri, 'media', 'changelog.css')
+			);
+			const jsUri = this.panel.webview.asWebviewUri(
+				vscode.Uri.joinPath(this.extensionUri, 'media', 'changelog.js')
+			);
+			const nonce = this.getNonce();
+			const cspSource = this.panel.webview.cspSource;
+			const cspMeta = `<meta http-equiv="Content-Security-Policy" content="default-src 'none'; style-src ${cspSource}; script-src 'nonce-${nonce}';">`;
+
+			return fs
+				.readFileSync(htmlPath.fsPath, 'utf-8')
+				.replace('{{CSP_META}}', cspMeta)
+				.replace('{{NONCE}}', nonce)
+				.replace('{{CSS_URI}}', cssUri.toString())
+				.replace('{{JS_URI}}', jsUri.toString())
+				.replace('{{CONTENT}}', () => this.renderChangelog()); // Commit subjects may contain $&
+		} catch (error) {
+			this.outputChannel.appendLine(`[Changelog] Error loading HTML: ${error}`);
+			return `<html><body><h1>Error loading changelog.html</h1><p>${error}</p></body></html>`;
+		}
+	}
+
+	private renderChangelog(): string {
+		const { range, commits, errorMessage } = this.changelog;
+		const notes: string[] = [];
+		if (range.from.dirty) {
+			notes.push(
+				`${this.escapeHtml(range.from.label)} was deployed with uncommitted changes.`
+			);
+		}
+		if (range.to.dirty) {
+			notes.push(
+				`${this.escapeHtml(range.to.label)} includes uncommitted changes not listed here.`
+			);
+		}
+
+		const header = `
+        <div class="range">
+            <div class="range-end"><span class="range-caption">From</span> ${this.escapeHtml(range.from.label)} <code>${this.escapeHtml(range.from.ref.substring(0, 7))}</code></div>
+            <div class="range-end"><span class="range-caption">To</span> ${this.escapeHtml(range.to.label)} <code>${this.escapeHtml(range.to.ref === 'HEAD' ? 'HEAD' : range.to.ref.substring(0, 7))}</code></div>
+        </div>
+        ${notes.map((n) => `<div class="note">⚠️ ${n}</div>`).join('')}`;
+
+		if (errorMessage) {
+			return `${header}<div class="placeholder error">${this.escapeHtml(errorMessage)}</div>`;
+		}
+		if (commits.length === 0) {
+			return `${header}<div class="placeholder">No commits between these deployments.</div>`;
+		}
+
+		const rows = commits
+			.map(
+				(c) => `
+            <li class="commit">
+                <a href="#" class="commit-sha" data-sha="${this.escapeHtml(c.sha)}" title="Open the changes of this commit">${this.escapeHtml(c.shortSha)}</a>
+                <span class="commit-subject">${this.escapeHtml(c.subject)}</span>
+                <span class="commit-meta">${this.escapeHtml(c.author)} · ${new Date(c.date).toLocaleString()}</span>
+            </li>`
+			)
+			.join('');
+
+		return `${header}
+        <div class="toolbar">
+            <span>${commits.length} commit${commits.length === 1 ? '' : 's'}</span>
+            <button type="button" id="openRange">Open All Changes</button>
+        </div>
+        <ul class="commits">${rows}</ul>`;
+	}
+
+	private getNonce() {
+		let text = '';
+		const possible = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789';
+		for (let i = 0; i < 32; i++) {
+			text += possible.charAt(Math.floor(Math.random() * possible.length));
+		}
+		return text;
+	}
+
+	private escapeHtml(text: string): string {
+		return text
+			.replace(/&/g, '&amp;')
+			.replace(/</g, '&lt;')
+			.replace(/>/g, '&gt;')
+			.replace(/"/g, '&quot;');
+	}
+
+	public dispose() {
+		ChangelogPanel.current = undefined;
+		this.panel.dispose();
+		while (this.disposables.length) {
+			const d = this.disposables.pop();
+			if (d) {
+				d.dispose();
+			}
+		}
+	}
+}
@@ -1,11 +1,23 @@
 import * as vscode from 'vscode';
 import * as path from 'path';
 import * as fs from 'fs';
-import { PublishProfileInfo, ProjectInfo, DeployEnvironment } from '../models/ProjectModels';
+import {
+	PublishProfileInfo,
+	ProjectInfo,
+	DeployEnvironment,
+	DEFAULT_RETRYABLE_ERRORS,
+	DEFAULT_HEALTH_CHECK,
+	DEFAULT_CONTAINER_TAG_TEMPLATE,
+	isAzureWebAppProfile,
+	isContainerPublishMethod,
+	isFileSystemPublishMethod,
+	isSshPublishMethod,
+	isZipArtifactPublishMethod,
+} from '../models/ProjectModels';
 import { IProfileService, ProfileWizardData } from '../services/ProfileService';
 import { IPasswordStorage } from '../strategies/IPasswordStorage';
 import { HistoryManager } from '../services/HistoryManager';
-import { DeploymentRecordHelper } from '../models/DeploymentRecord';
+import { DeploymentRecord, DeploymentRecordHelper } from '../models/DeploymentRecord';
 
 /**
  * Profile Info Webview Panel
@@ -114,6 +126,9 @@ export class ProfileInfoPanel {
 							projectName: this.currentProjectName,
 						});
 						break;
+					case 'remediate':
+						await this.applyRemediation(message.recordId, message.actionIndex);
+						break;
 					case 'ready':
 						await this.sendUpdateData();
 						break;
@@ -316,12 +331,62 @@ export class ProfileInfoPanel {
 					environment: data.environment,
 					isProduction: data.environment === DeployEnvironment.Production,
 					publishUrl: data.publishUrl,
+					publishMethod: data.publishMethod || 'MSDeploy',
+					targetId: data.publishMethod === 'ZipDeploy' ? 'AzureWebApp' : undefined,
+					deleteExistingFiles: data.deleteExistingFiles,
+					kuduAuthType: data.kuduAuthType,
+					ssh:
+						data.publishMethod === 'SSH' && data.sshRemotePath
+							? {
+									remotePath: data.sshRemotePath,
+									authType: data.sshAuthType ?? 'password',
+									privateKeyPath: data.sshPrivateKeyPath,
+									transfer: data.sshTransfer ?? 'rsync',
+									preCommand: data.sshPreCommand,
+									postCommand: data.sshPostCommand,
+								}
+							: undefined,
+					container:
+						data.publishMethod === 'Container' && data.containerRepository
+							? {
+									registry: data.containerRegistry,
+									repository: data.containerRepository,
+									tagTemplate:
+										data.containerImageTags ?? DEFAULT_CONTAINER_TAG_TEMPLATE,
+									build: data.containerBuildMode ?? 'sdk',
+									dockerfilePath: data.dockerfilePath,
+									dockerfileContext: data.dockerfileContext,
+								}
+							: undefined,
 					siteName: data.siteName,
 					siteUrl: data.siteUrl || '',
 					userName: data.username,
 					openBrowserOnDeploy: data.openBrowserOnDeploy,
 					enableStdoutLog: data.enableStdoutLog,
 					logPath: data.logPath,
+					retry:
+						data.retryMaxAttempts && data.retryMaxAttempts > 1
+							? {
+									maxAttempts: data.retryMaxAttempts,
+									backoffMs: data.retryBackoffMs ?? 5000,
+									retryOn: data.retryOn ?? DEFAULT_RETRYABLE_ERRORS,
+								}
+							: undefined,
+					healthCheck: data.healthCheckUrls?.length
+						? {
+								urls: data.healthCheckUrls,
+								expectedStatus:
+									data.healthCheckExpectedStatus ??
+									DEFAULT_HEALTH_CHECK.expectedStatus,
+								bodyPattern: data.healthCheckBodyPattern,
+								timeoutMs:
+									data.healthCheckTimeoutMs ?? DEFAULT_HEALTH_CHECK.timeoutMs,
+								retries: data.healthCheckRetries ?? DEFAULT_HEALTH_CHECK.retries,
+								retryDelayMs:
+									data.healthCheckRetryDelayMs ??
+									DEFAULT_HEALTH_CHECK.retryDelayMs,
+							}
+						: undefined,
 				};
 
 				this.panel.title = `${this.currentProjectName} / ${this.currentProfileInfo.fileName}`;
@@ -360,12 +425,46 @@ export class ProfileInfoPanel {
 			profileFileName: profile.fileName,
 			environment: profile.environment,
 			publishUrl: profile.publishUrl,
+			publishMethod: isAzureWebAppProfile(profile)
+				? 'ZipDeploy'
+				: isZipArtifactPublishMethod(profile.publishMethod)
+					? 'ZipArtifact'
+					: isSshPublishMethod(profile.publishMethod)
+						? 'SSH'
+						: isContainerPublishMethod(profile.publishMethod)
+							? 'Container'
+							: isFileSystemPublishMethod(profile.publishMethod)
+								? 'FileSystem'
+								: 'MSDeploy',
+			kuduAuthType: profile.kuduAuthType,
+			sshRemotePath: profile.ssh?.remotePath,
+			sshAuthType: profile.ssh?.authType,
+			sshPrivateKeyPath: profile.ssh?.privateKeyPath,
+			sshTransfer: profile.ssh?.transfer,
+			sshPreCommand: profile.ssh?.preCommand,
+			sshPostCommand: profile.ssh?.postCommand,
+			containerRegistry: profile.container?.registry,
+			containerRepository: profile.container?.repository,
+			containerImageTags: profile.container?.tagTemplate,
+			containerBuildMode: profile.container?.build,
+			dockerfilePath: profile.container?.dockerfilePath,
+			dockerfileContext: profile.container?.dockerfileContext,
+			deleteExistingFiles: profile.deleteExistingFiles,
 			siteName: profile.siteName,
 			siteUrl: profile.siteUrl,
 			username: profile.userName,
 			openBrowserOnDeploy: profile.openBrowserOnDeploy,
 			enableStdoutLog: profile.enableStdoutLog,
 			logPath: profile.logPath,
+			retryMaxAttempts: profile.retry?.maxAttempts,
+			retryBackoffMs: profile.retry?.backoffMs,
+			retryOn: profile.retry?.retryOn,
+			healthCheckUrls: profile.healthCheck?.urls,
+			healthCheckExpectedStatus: profile.healthCheck?.expectedStatus,
+			healthCheckBodyPattern: profile.healthCheck?.bodyPattern,
+			healthCheckTimeoutMs: profile.healthCheck?.timeoutMs,
+			healthCheckRetries: profile.healthCheck?.retries,
+			healthCheckRetryDelayMs: profile.healthCheck?.retryDelayMs,
 			passwordKey: passwordKey,
 			isDeploying: this._isDeploying || this.isDeploying(profile.fileName),
 			isCreateMode: this.isCreateMode,
@@ -476,20 +575,28 @@ export class ProfileInfoPanel {
 				const statusIcon =
 					h.status === 'success'
 						? '✅'
-						: h.status === 'failed'
-							? '❌'
-							: '<div class="spinner"></div>';
+						: h.status === 'unhealthy'
+							? '⚠️'
+							: h.status === 'failed'
+								? '❌'
+								: h.status === 'cancelled'
+									? '⏹️'
+									: '<div class="spinner"></div>';
 				const duration = h.duration
 					? DeploymentRecordHelper.formatDuration(h.duration)
 					: '';
 				const startTime = new Date(h.startTime).toLocaleString();
+				const deployedBy = h.user ? ` · ${this.escapeHtml(h.user)}` : '';
 				const statusText = isInProgress ? 'DEPLOYING...' : h.status.toUpperCase();
 
 				return `
                 <div class="history-item ${h.status}">
                     <div class="history-info">
                         <div class="history-status">${statusIcon} ${statusText}</div>
-                        <div class="history-time">${startTime}</div>
+                        <div class="history-time">${startTime}${deployedBy}</div>
+                        ${this.renderGitInfo(h)}
+                        ${this.renderHealthCheck(h)}
+                        ${this.renderKnownErrorHint(h)}
                     </div>
                     <div class="history-duration">${duration}</div>
                 </div>`;
@@ -499,6 +606,83 @@ export class ProfileInfoPanel {
 		return `<div class="history-list">${items}</div>`;
 	}
 
+	/**
+	 * Branch, commit and author of the deployed code
+	 */
+	private renderGitInfo(record: DeploymentRecord): string {
+		const git = record.git;
+		if (!git) {
+			return '';
+		}
+
+		const dirty = git.dirty
+			? ' <span class="history-git-dirty" title="Deployed with uncommitted changes">● uncommitted</span>'
+			: '';
+		return `
+                        <div class="history-git" title="${this.escapeHtml(git.commit)}">
+                            ${this.escapeHtml(git.branch ?? 'detached HEAD')} @ <code>${git.commit.substring(0, 7)}</code>${dirty}
+                            <div class="history-git-message">${this.escapeHtml(git.message)} — ${this.escapeHtml(git.author)}</div>
+                        </div>`;
+	}
+
+	/**
+	 * Which health check endpoints failed after an otherwise successful deployment
+	 */
+	private renderHealthCheck(record: DeploymentRecord): string {
+		if (record.status !== 'unhealthy' || !record.healthCheck) {
+			return '';
+		}
+
+		return `
+                        <div class="history-health">🩺 ${this.escapeHtml(record.healthCheck.summary)}</div>`;
+	}
+
+	/**
+	 * Explanation and remediation buttons for failures matched by the knowledge base
+	 */
+	private renderKnownErrorHint(record: DeploymentRecord): string {
+		if (record.status !== 'failed' || !record.knownError) {
+			return '';
+		}
+
+		const { title, explanation, actions } = record.knownError;
+		const buttons = actions
+			.map(
+				(action, index) =>
+					`<button type="button" class="btn-secondary btn-remediation" data-record-id="${this.escapeHtml(record.id)}" data-action-index="${index}">${this.escapeHtml(action.label)}</button>`
+			)
+			.join('');
+
+		return `
+                        <div class="history-hint">
+                            <div class="history-hint-title">💡 ${this.escapeHtml(title)}</div>
+                            <div class="history-hint-text">${this.escapeHtml(explanation)}</div>
+                            <div class="history-hint-actions">${buttons}</div>
+                        </div>`;
+	}
+
+	private async applyRemediation(recordId: string, actionIndex: number) {
+		const record = this.historyManager.getAllHistory().find((h) => h.id === recordId);
+		const action = record?.knownError?.actions[actionIndex];
+		if (!action) {
+			return;
+		}
+
+		await vscode.commands.executeCommand('dotnet-project-toolkit.applyRemediation', {
+			action,
+			profileInfo: this.currentProfileInfo,
+			projectName: this.currentProjectName,
+		});
+	}
+
+	private escapeHtml(text: string): string {
+		return text
+			.replace(/&/g, '&amp;')
+			.replace(/</g, '&lt;')
+			.replace(/>/g, '&gt;')
+			.replace(/"/g, '&quot;');
+	}
+
 	private isDeploying(profileName: string): boolean {
 		const allHistory = this.historyManager.getAllHistory();
 		const latest = allHistory.find((h) => h.profileName === profileName);
@@ -510,7 +694,9 @@ export class ProfileInfoPanel {
 		this.panel.dispose();
 		while (this.disposables.length) {
 			const d = this.disposables.pop();
-			if (d) d.dispose();
+			if (d) {
+				d.dispose();
+			}
 		}
 	}
 }
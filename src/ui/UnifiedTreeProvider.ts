@@ -21,6 +21,7 @@ import {
 } from './debug/DebugTreeProvider';
 import { HistoryTreeProvider, HistoryTreeItem } from './history/HistoryTreeProvider';
 import { HistoryManager } from '../services/HistoryManager';
+import { HistoryViewStateService } from '../services/HistoryViewStateService';
 
 export class UnifiedTreeProvider implements vscode.TreeDataProvider<vscode.TreeItem> {
 	private _onDidChangeTreeData: vscode.EventEmitter<vscode.TreeItem | undefined | null | void> =
@@ -37,13 +38,14 @@ export class UnifiedTreeProvider implements vscode.TreeDataProvider<vscode.TreeI
 	constructor(
 		workspaceRoot: string | undefined,
 		historyManager: HistoryManager,
+		historyViewState: HistoryViewStateService,
 		watchTreeProvider: WatchTreeProvider,
 		debugTreeProvider: DebugTreeProvider
 	) {
 		this.publishProvider = new PublishTreeProvider(workspaceRoot);
 		this.watchProvider = watchTreeProvider;
 		this.debugProvider = debugTreeProvider;
-		this.historyProvider = new HistoryTreeProvider(historyManager);
+		this.historyProvider = new HistoryTreeProvider(historyManager, historyViewState);
 
 		// Forward events from child providers
 		this.publishProvider.onDidChangeTreeData(() => this._onDidChangeTreeData.fire());
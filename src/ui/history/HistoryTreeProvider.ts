@@ -1,6 +1,9 @@
 import * as vscode from 'vscode';
+import * as path from 'path';
 import { HistoryManager } from '../../services/HistoryManager';
 import { DeploymentRecord, DeploymentRecordHelper } from '../../models/DeploymentRecord';
+import { HistoryFilterHelper, HistoryGroupMode } from '../../models/HistoryViewModels';
+import { HistoryViewStateService } from '../../services/HistoryViewStateService';
 
 export class HistoryTreeProvider implements vscode.TreeDataProvider<HistoryTreeItem> {
 	private _onDidChangeTreeData: vscode.EventEmitter<HistoryTreeItem | undefined | null | void> =
@@ -8,7 +11,10 @@ export class HistoryTreeProvider implements vscode.TreeDataProvider<HistoryTreeI
 	readonly onDidChangeTreeData: vscode.Event<HistoryTreeItem | undefined | null | void> =
 		this._onDidChangeTreeData.event;
 
-	constructor(private readonly historyManager: HistoryManager) {}
+	constructor(
+		private readonly historyManager: HistoryManager,
+		private readonly viewState: HistoryViewStateService
+	) {}
 
 	refresh(): void {
 		this._onDidChangeTreeData.fire();
@@ -20,8 +26,15 @@ export class HistoryTreeProvider implements vscode.TreeDataProvider<HistoryTreeI
 
 	async getChildren(element?: HistoryTreeItem): Promise<HistoryTreeItem[]> {
 		if (!element) {
-			// Root level - show date groups or empty message
+			// Root level - active filter, then groups or empty message
 			const history = this.historyManager.getAllHistory();
+			const { filter, groupBy } = this.viewState.getState();
+			const filterActive = HistoryFilterHelper.isActive(filter);
+			void vscode.commands.executeCommand(
+				'setContext',
+				'dotnetToolkit.historyFiltered',
+				filterActive
+			);
 
 			if (history.length === 0) {
 				return [
@@ -33,26 +46,57 @@ export class HistoryTreeProvider implements vscode.TreeDataProvider<HistoryTreeI
 				];
 			}
 
-			// Group by Project
-			const groups = this.groupByProject(history);
-			return Object.entries(groups).map(
-				([groupName, records]) =>
+			const items: HistoryTreeItem[] = [];
+			const filtered = HistoryFilterHelper.apply(history, filter);
+			if (filterActive) {
+				const filterItem = new HistoryTreeItem(
+					`Filter: ${HistoryFilterHelper.describe(filter)}`,
+					vscode.TreeItemCollapsibleState.None,
+					'historyFilter'
+				);
+				filterItem.description = `${filtered.length} of ${history.length}`;
+				items.push(filterItem);
+			}
+
+			if (filtered.length === 0) {
+				items.push(
 					new HistoryTreeItem(
+						'No deployments match the filter',
+						vscode.TreeItemCollapsibleState.None,
+						'empty'
+					)
+				);
+				return items;
+			}
+
+			if (groupBy === 'flat') {
+				return [...items, ...filtered.map((record) => this.createDeploymentItem(record))];
+			}
+
+			const groups = this.group(filtered, groupBy);
+			return [
+				...items,
+				...groups.map(([groupName, records]) => {
+					const item = new HistoryTreeItem(
 						`${groupName} (${records.length})`,
 						vscode.TreeItemCollapsibleState.Expanded,
-						'projectGroup',
+						'historyGroup',
 						undefined,
 						records
-					)
-			);
+					);
+					item.iconPath = new vscode.ThemeIcon(this.getGroupIcon(groupBy));
+					return item;
+				}),
+			];
 		}
 
-		if (element.contextValue === 'projectGroup' && element.records) {
-			// Show deployments in this project group
-			return element.records.map((record) => this.createDeploymentItem(record));
+		if (element.contextValue === 'historyGroup' && element.records) {
+			// Show deployments in this group (the day already shows in day groups)
+			const showDate = this.viewState.getGroupMode() !== 'day';
+			return element.records.map((record) => this.createDeploymentItem(record, showDate));
 		}
 
-		if (element.contextValue === 'deployment' && element.record) {
+		if (element.contextValue.startsWith('deployment') && element.record) {
 			// Show deployment details
 			return this.createDeploymentDetails(element.record);
 		}
@@ -60,22 +104,76 @@ export class HistoryTreeProvider implements vscode.TreeDataProvider<HistoryTreeI
 		return [];
 	}
 
-	private groupByProject(history: DeploymentRecord[]): Record<string, DeploymentRecord[]> {
-		const groups: Record<string, DeploymentRecord[]> = {};
+	/**
+	 * Group records (kept newest first within each group); days sort newest first,
+	 * everything else by name
+	 */
+	private group(
+		history: DeploymentRecord[],
+		mode: Exclude<HistoryGroupMode, 'flat'>
+	): [string, DeploymentRecord[]][] {
+		const groups = new Map<string, DeploymentRecord[]>();
 
 		for (const record of history) {
-			const project = record.projectName || 'Unknown Project';
-			if (!groups[project]) {
-				groups[project] = [];
+			const key = this.getGroupKey(record, mode);
+			const group = groups.get(key);
+			if (group) {
+				group.push(record);
+			} else {
+				groups.set(key, [record]);
 			}
-			groups[project].push(record);
 		}
 
-		// Sort groups by key (project name)
-		return Object.fromEntries(Object.entries(groups).sort(([a], [b]) => a.localeCompare(b)));
+		const entries = [...groups.entries()];
+		if (mode === 'day') {
+			return entries
+				.sort(([a], [b]) => b.localeCompare(a))
+				.map(([key, records]) => [this.formatDay(key), records]);
+		}
+		return entries.sort(([a], [b]) => a.localeCompare(b));
+	}
+
+	private getGroupKey(record: DeploymentRecord, mode: Exclude<HistoryGroupMode, 'flat'>) {
+		switch (mode) {
+			case 'environment':
+				return record.environment || 'UNKNOWN';
+			case 'profile':
+				return `${record.profileName} · ${record.projectName || 'Unknown Project'}`;
+			case 'day':
+				return HistoryFilterHelper.toDateKey(record.startTime);
+			default:
+				return record.projectName || 'Unknown Project';
+		}
+	}
+
+	private formatDay(dateKey: string): string {
+		const date = HistoryFilterHelper.parseDate(dateKey);
+		const label = date
+			? date.toLocaleDateString([], {
+					weekday: 'short',
+					year: 'numeric',
+					month: 'short',
+					day: 'numeric',
+				})
+			: dateKey;
+		const group = DeploymentRecordHelper.getDateGroup(date?.toISOString() ?? dateKey);
+		return group === 'Today' || group === 'Yesterday' ? `${group}, ${label}` : label;
 	}
 
-	private createDeploymentItem(record: DeploymentRecord): HistoryTreeItem {
+	private getGroupIcon(mode: HistoryGroupMode): string {
+		switch (mode) {
+			case 'environment':
+				return 'server-environment';
+			case 'profile':
+				return 'file-code';
+			case 'day':
+				return 'calendar';
+			default:
+				return 'package';
+		}
+	}
+
+	private createDeploymentItem(record: DeploymentRecord, showDate = true): HistoryTreeItem {
 		const statusIcon = this.getStatusIcon(record.status);
 		const durationText = record.duration
 			? ` (${DeploymentRecordHelper.formatDuration(record.duration)})`
@@ -84,14 +182,24 @@ export class HistoryTreeProvider implements vscode.TreeDataProvider<HistoryTreeI
 			hour: '2-digit',
 			minute: '2-digit',
 		});
-		const label = `${statusIcon} ${record.profileName}${durationText}`;
+		const rollbackText = record.type === 'rollback' ? ' ↩ rollback' : '';
+		const label = `${statusIcon} ${record.profileName}${rollbackText}${durationText}`;
 
-		return new HistoryTreeItem(
+		// Successful deployments can be rolled back to; rollbacks cannot be redeployed
+		const item = new HistoryTreeItem(
 			label,
 			vscode.TreeItemCollapsibleState.Collapsed,
-			'deployment',
+			record.type === 'rollback'
+				? 'deploymentRollback'
+				: record.status === 'success'
+					? 'deploymentSuccess'
+					: 'deployment',
 			record
 		);
+		if (showDate) {
+			item.description = `${new Date(record.startTime).toLocaleDateString()} ${item.description}`;
+		}
+		return item;
 	}
 
 	private createDeploymentDetails(record: DeploymentRecord): HistoryTreeItem[] {
@@ -115,6 +223,17 @@ export class HistoryTreeProvider implements vscode.TreeDataProvider<HistoryTreeI
 			)
 		);
 
+		// Who deployed (records from the shared history come from teammates)
+		if (record.user) {
+			details.push(
+				new HistoryTreeItem(
+					`Deployed by: ${record.user}`,
+					vscode.TreeItemCollapsibleState.None,
+					'detail'
+				)
+			);
+		}
+
 		// Start time
 		const startTime = new Date(record.startTime).toLocaleString();
 		details.push(
@@ -159,6 +278,43 @@ export class HistoryTreeProvider implements vscode.TreeDataProvider<HistoryTreeI
 			);
 		}
 
+		// Failed health check endpoints
+		for (const endpoint of (record.healthCheck?.endpoints || []).filter((e) => !e.healthy)) {
+			const item = new HistoryTreeItem(
+				`Unhealthy: ${endpoint.url}`,
+				vscode.TreeItemCollapsibleState.None,
+				'error'
+			);
+			item.description = endpoint.error;
+			item.tooltip = `${endpoint.error ?? ''}\nAttempts: ${endpoint.attempts}`;
+			details.push(item);
+		}
+
+		// Build / Web Deploy errors - click to jump to the source location
+		for (const diagnostic of (record.diagnostics || []).filter((d) => d.severity === 'error')) {
+			const code = diagnostic.code ? `${diagnostic.code}: ` : '';
+			const item = new HistoryTreeItem(
+				`${code}${diagnostic.message}`,
+				vscode.TreeItemCollapsibleState.None,
+				'error'
+			);
+			if (diagnostic.file) {
+				const line = Math.max((diagnostic.line ?? 1) - 1, 0);
+				const column = Math.max((diagnostic.column ?? 1) - 1, 0);
+				item.description = `${path.basename(diagnostic.file)}:${diagnostic.line ?? 1}`;
+				item.tooltip = diagnostic.file;
+				item.command = {
+					command: 'vscode.open',
+					title: 'Open File',
+					arguments: [
+						vscode.Uri.file(diagnostic.file),
+						{ selection: new vscode.Range(line, column, line, column) },
+					],
+				};
+			}
+			details.push(item);
+		}
+
 		return details;
 	}
 
@@ -166,8 +322,12 @@ export class HistoryTreeProvider implements vscode.TreeDataProvider<HistoryTreeI
 		switch (status) {
 			case 'success':
 				return '✅';
+			case 'unhealthy':
+				return '⚠️';
 			case 'failed':
 				return '❌';
+			case 'cancelled':
+				return '⏹️';
 			case 'in-progress':
 				return '⏳';
 			default:
@@ -190,16 +350,24 @@ export class HistoryTreeItem extends vscode.TreeItem {
 
 	private setupItem() {
 		switch (this.contextValue) {
-			case 'projectGroup':
+			case 'historyGroup':
 				this.iconPath = new vscode.ThemeIcon('package'); // or 'folder'
 				break;
+			case 'historyFilter':
+				this.iconPath = new vscode.ThemeIcon('filter');
+				this.command = {
+					command: 'dotnet-project-toolkit.filterHistory',
+					title: 'Filter History',
+				};
+				break;
 			case 'deployment':
+			case 'deploymentSuccess':
+			case 'deploymentRollback':
 				if (this.record) {
 					this.iconPath = this.getStatusThemeIcon(this.record.status);
 					this.tooltip = this.createTooltip();
-					this.description = DeploymentRecordHelper.formatTimestamp(
-						this.record.startTime
-					);
+					const time = DeploymentRecordHelper.formatTimestamp(this.record.startTime);
+					this.description = this.record.user ? `${time} · ${this.record.user}` : time;
 				}
 				break;
 			case 'detail':
@@ -218,8 +386,18 @@ export class HistoryTreeItem extends vscode.TreeItem {
 		switch (status) {
 			case 'success':
 				return new vscode.ThemeIcon('pass', new vscode.ThemeColor('testing.iconPassed'));
+			case 'unhealthy':
+				return new vscode.ThemeIcon(
+					'warning',
+					new vscode.ThemeColor('problemsWarningIcon.foreground')
+				);
 			case 'failed':
 				return new vscode.ThemeIcon('error', new vscode.ThemeColor('testing.iconFailed'));
+			case 'cancelled':
+				return new vscode.ThemeIcon(
+					'circle-slash',
+					new vscode.ThemeColor('testing.iconSkipped')
+				);
 			case 'in-progress':
 				return new vscode.ThemeIcon(
 					'sync~spin',
@@ -238,6 +416,7 @@ export class HistoryTreeItem extends vscode.TreeItem {
 			`Project: ${this.record.projectName}`,
 			`Environment: ${this.record.environment}`,
 			`Status: ${this.record.status}`,
+			...(this.record.user ? [`Deployed by: ${this.record.user}`] : []),
 			`Started: ${new Date(this.record.startTime).toLocaleString()}`,
 		];
 
@@ -249,10 +428,83 @@ export class HistoryTreeItem extends vscode.TreeItem {
 			lines.push(`Duration: ${DeploymentRecordHelper.formatDuration(this.record.duration)}`);
 		}
 
+		if (this.record.batchName) {
+			lines.push(`Deploy set: ${this.record.batchName}`);
+		}
+
+		const git = this.record.git;
+		if (git) {
+			lines.push(
+				`Commit: ${git.commit.substring(0, 7)} on ${git.branch ?? 'detached HEAD'}` +
+					(git.dirty ? ' (uncommitted changes)' : '')
+			);
+			lines.push(`Message: ${git.message}`);
+			lines.push(`Author: ${git.author}`);
+		}
+
+		if (this.record.redeployOf) {
+			lines.push(`Redeploy of: ${this.record.redeployOf}`);
+		}
+
+		if (this.record.type === 'rollback') {
+			const source =
+				this.record.rollbackSource === 'server-backup' ? 'server backup' : 'retained build';
+			lines.push(`Rollback of: ${this.record.rollbackOf ?? 'unknown'} (${source})`);
+		}
+
+		if (this.record.preDeployGate) {
+			lines.push(
+				`Pre-deploy checks: ${this.record.preDeployGate.status} - ${this.record.preDeployGate.summary}`
+			);
+		}
+
+		if (this.record.healthCheck) {
+			lines.push(
+				`Health checks: ${this.record.healthCheck.status} - ${this.record.healthCheck.summary}`
+			);
+		}
+
+		if (this.record.attempts && this.record.attempts > 1) {
+			lines.push(`Attempts: ${this.record.attempts}`);
+		}
+
+		if (this.record.artifact) {
+			lines.push(`Artifact: ${this.record.artifact.path}`);
+			lines.push(`SHA-256: ${this.record.artifact.sha256}`);
+		}
+
+		if (this.record.image) {
+			lines.push(
+				`Image: ${this.record.image.repository}:${this.record.image.tags.join(', ')}`
+			);
+			if (this.record.image.digest) {
+				lines.push(`Digest: ${this.record.image.digest}`);
+			}
+		}
+
+		if (this.record.packageFile) {
+			lines.push('Build package kept for rollback');
+		}
+
+		if (this.record.kuduDeploymentId) {
+			lines.push(`Kudu deployment: ${this.record.kuduDeploymentId}`);
+		}
+
+		if (this.record.remoteSteps?.length) {
+			const steps = this.record.remoteSteps.map(
+				(s) => `${s.name} ${s.exitCode === 0 ? '✓' : `✗ (exit ${s.exitCode})`}`
+			);
+			lines.push(`Remote steps: ${steps.join(', ')}`);
+		}
+
 		if (this.record.errorMessage) {
 			lines.push(`Error: ${this.record.errorMessage}`);
 		}
 
+		if (this.record.knownError) {
+			lines.push(`Hint: ${this.record.knownError.title}`);
+		}
+
 		return lines.join('\n');
 	}
 }
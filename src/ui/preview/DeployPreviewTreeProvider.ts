@@ -0,0 +1,170 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { PublishProfileInfo } from '../../models/ProjectModels';
+import {
+	DeployPreviewChange,
+	DeployPreviewResult,
+	PreviewChangeKind,
+} from '../../models/DeployPreviewModels';
+
+/**
+ * The profile a preview was made for (enough to start the real deployment)
+ */
+export interface PreviewedProfile {
+	profileInfo: PublishProfileInfo;
+	projectName: string;
+	csprojPath: string;
+}
+
+const CHANGE_GROUPS: { kind: PreviewChangeKind; label: string; icon: string; color: string }[] = [
+	{
+		kind: 'added',
+		label: 'Added',
+		icon: 'diff-added',
+		color: 'gitDecoration.addedResourceForeground',
+	},
+	{
+		kind: 'updated',
+		label: 'Updated',
+		icon: 'diff-modified',
+		color: 'gitDecoration.modifiedResourceForeground',
+	},
+	{
+		kind: 'deleted',
+		label: 'Deleted',
+		icon: 'diff-removed',
+		color: 'gitDecoration.deletedResourceForeground',
+	},
+];
+
+export type PreviewTreeItem = PreviewGroupItem | PreviewChangeItem | PreviewInfoItem;
+
+/**
+ * Deploy Preview view - files a deployment would add, update or delete
+ */
+export class DeployPreviewTreeProvider implements vscode.TreeDataProvider<PreviewTreeItem> {
+	private _onDidChangeTreeData: vscode.EventEmitter<PreviewTreeItem | undefined | null | void> =
+		new vscode.EventEmitter<PreviewTreeItem | undefined | null | void>();
+	readonly onDidChangeTreeData: vscode.Event<PreviewTreeItem | undefined | null | void> =
+		this._onDidChangeTreeData.event;
+
+	private current?: { profile: PreviewedProfile; result: DeployPreviewResult };
+
+	/**
+	 * Show a new preview (undefined clears the view)
+	 */
+	setPreview(profile?: PreviewedProfile, result?: DeployPreviewResult): void {
+		this.current = profile && result ? { profile, result } : undefined;
+		void vscode.commands.executeCommand(
+			'setContext',
+			'dotnetToolkit.hasDeployPreview',
+			!!this.current
+		);
+		this._onDidChangeTreeData.fire();
+	}
+
+	getPreviewedProfile(): PreviewedProfile | undefined {
+		return this.current?.profile;
+	}
+
+	getTreeItem(element: PreviewTreeItem): vscode.TreeItem {
+		return element;
+	}
+
+	getChildren(element?: PreviewTreeItem): PreviewTreeItem[] {
+		if (!this.current) {
+			return [new PreviewInfoItem('Run "Preview Deploy" on a publish profile')];
+		}
+
+		const { profile, result } = this.current;
+		if (!element) {
+			const header = new PreviewInfoItem(
+				`${profile.projectName} / ${profile.profileInfo.name}`,
+				result.target
+			);
+			if (result.changes.length === 0) {
+				return [header, new PreviewInfoItem('No changes - target is up to date')];
+			}
+
+			const groups = CHANGE_GROUPS.map(
+				(group) =>
+					new PreviewGroupItem(
+						group.kind,
+						group.label,
+						result.changes.filter((c) => c.kind === group.kind),
+						group.icon,
+						group.color
+					)
+			).filter((g) => g.changes.length > 0);
+			return [header, ...groups];
+		}
+
+		if (element instanceof PreviewGroupItem) {
+			return [...element.changes]
+				.sort((a, b) => a.path.localeCompare(b.path))
+				.map((change) => new PreviewChangeItem(change));
+		}
+
+		return [];
+	}
+}
+
+export class PreviewGroupItem extends vscode.TreeItem {
+	constructor(
+		public readonly kind: PreviewChangeKind,
+		label: string,
+		public readonly changes: DeployPreviewChange[],
+		icon: string,
+		color: string
+	) {
+		super(
+			label,
+			kind === 'deleted'
+				? vscode.TreeItemCollapsibleState.Expanded // Deletions are the surprises
+				: vscode.TreeItemCollapsibleState.Collapsed
+		);
+		this.description = `${changes.length}`;
+		this.contextValue = 'previewGroup';
+		this.iconPath = new vscode.ThemeIcon(icon, new vscode.ThemeColor(color));
+	}
+}
+
+export class PreviewChangeItem extends vscode.TreeItem {
+	constructor(public readonly change: DeployPreviewChange) {
+		super(path.posix.basename(change.path), vscode.TreeItemCollapsibleState.None);
+		const folder = path.posix.dirname(change.path);
+		this.description = folder === '.' ? undefined : folder;
+		this.tooltip = change.path;
+		this.contextValue = 'previewChange';
+		this.iconPath = change.isDirectory ? vscode.ThemeIcon.Folder : vscode.ThemeIcon.File;
+		this.resourceUri = vscode.Uri.file(change.localPath || change.targetPath || change.path);
+
+		// Diff when both sides are on this machine, otherwise open whichever exists
+		if (change.localPath && change.targetPath) {
+			this.command = {
+				command: 'vscode.diff',
+				title: 'Compare',
+				arguments: [
+					vscode.Uri.file(change.targetPath),
+					vscode.Uri.file(change.localPath),
+					`${change.path} (target ↔ new)`,
+				],
+			};
+		} else if (!change.isDirectory && (change.localPath || change.targetPath)) {
+			this.command = {
+				command: 'vscode.open',
+				title: 'Open',
+				arguments: [vscode.Uri.file((change.localPath || change.targetPath)!)],
+			};
+		}
+	}
+}
+
+export class PreviewInfoItem extends vscode.TreeItem {
+	constructor(label: string, description?: string) {
+		super(label, vscode.TreeItemCollapsibleState.None);
+		this.description = description;
+		this.contextValue = 'previewInfo';
+		this.iconPath = new vscode.ThemeIcon('info');
+	}
+}
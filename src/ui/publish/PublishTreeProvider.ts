@@ -1,6 +1,8 @@
 import * as vscode from 'vscode';
 import { ProjectScanner } from '../../utils/ProjectScanner';
 import { ProjectInfo, PublishProfileInfo, DeployEnvironment } from '../../models/ProjectModels';
+import { DeploySet } from '../../models/DeploySetModels';
+import { DeploySetConfigService } from '../../services/DeploySetConfigService';
 
 export class PublishTreeProvider implements vscode.TreeDataProvider<PublishTreeItem> {
 	private _onDidChangeTreeData: vscode.EventEmitter<PublishTreeItem | undefined | null | void> =
@@ -10,7 +12,10 @@ export class PublishTreeProvider implements vscode.TreeDataProvider<PublishTreeI
 
 	private scanner: ProjectScanner;
 
-	constructor(private workspaceRoot: string | undefined) {
+	constructor(
+		private workspaceRoot: string | undefined,
+		private readonly deploySets?: DeploySetConfigService
+	) {
 		this.scanner = new ProjectScanner();
 	}
 
@@ -62,6 +67,17 @@ export class PublishTreeProvider implements vscode.TreeDataProvider<PublishTreeI
 
 			const items: PublishTreeItem[] = [];
 
+			// Deploy sets (only in the Publish view, which owns the set commands)
+			if (this.deploySets) {
+				items.push(
+					new PublishTreeItem(
+						'Deploy Sets',
+						vscode.TreeItemCollapsibleState.Collapsed,
+						'deploySetsContainer'
+					)
+				);
+			}
+
 			// Show publishable projects (API & Web)
 			for (const project of [...apiProjects, ...webProjects, ...otherProjects]) {
 				const hasProfiles = project.profiles.length > 0;
@@ -80,6 +96,33 @@ export class PublishTreeProvider implements vscode.TreeDataProvider<PublishTreeI
 			return items;
 		}
 
+		if (element.contextValue === 'deploySetsContainer' && this.deploySets) {
+			const sets = this.deploySets.getSets();
+			if (sets.length === 0) {
+				return [
+					new PublishTreeItem(
+						'No deploy sets created',
+						vscode.TreeItemCollapsibleState.None,
+						'placeholder',
+						undefined,
+						'Group profiles that are deployed together'
+					),
+				];
+			}
+			return sets.map((set) => new DeploySetTreeItem(set));
+		}
+
+		if (element instanceof DeploySetTreeItem) {
+			return element.deploySet.entries.map(
+				(entry) =>
+					new PublishTreeItem(
+						`${entry.projectName} / ${entry.profileName}`,
+						vscode.TreeItemCollapsibleState.None,
+						'deploySetEntry'
+					)
+			);
+		}
+
 		if (element.contextValue === 'project' && element.projectInfo) {
 			// Project level - show profiles or placeholder
 			const project = element.projectInfo;
@@ -248,9 +291,26 @@ export class PublishTreeItem extends vscode.TreeItem {
 					};
 				}
 				break;
+			case 'deploySetsContainer':
+				this.iconPath = new vscode.ThemeIcon('layers');
+				break;
+			case 'deploySetEntry':
+				this.iconPath = new vscode.ThemeIcon('rocket');
+				break;
 			case 'placeholder':
 				this.iconPath = new vscode.ThemeIcon('info');
 				break;
 		}
 	}
 }
+
+/**
+ * Named group of profiles deployed together
+ */
+export class DeploySetTreeItem extends PublishTreeItem {
+	constructor(public readonly deploySet: DeploySet) {
+		super(deploySet.name, vscode.TreeItemCollapsibleState.Collapsed, 'deploySet');
+		this.description = `${deploySet.mode} · ${deploySet.entries.length} profile${deploySet.entries.length === 1 ? '' : 's'}`;
+		this.iconPath = new vscode.ThemeIcon('layers-active');
+	}
+}
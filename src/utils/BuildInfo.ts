@@ -0,0 +1,113 @@
+import * as os from 'os';
+import { GitCommitInfo } from '../models/DeploymentRecord';
+import { ProcessRunner } from './ProcessRunner';
+
+/**
+ * Build provenance helpers
+ * Shared by zip artifact names, container image tags and history records so all
+ * identify a build the same way
+ */
+export class BuildInfo {
+	/**
+	 * Short commit hash of the repository containing dir, suffixed with -dirty when
+	 * tracked files have local changes (undefined outside a git repository)
+	 */
+	static async readCommit(dir: string): Promise<string | undefined> {
+		const head = await ProcessRunner.run('git', ['rev-parse', '--short', 'HEAD'], {
+			cwd: dir,
+		});
+		if (head.exitCode !== 0) {
+			return undefined;
+		}
+
+		const dirty = await this.hasLocalChanges(dir);
+		return `${head.stdout.trim()}${dirty ? '-dirty' : ''}`;
+	}
+
+	/**
+	 * HEAD commit, author, branch and dirty state (undefined outside a git repository)
+	 */
+	static async readGitInfo(dir: string): Promise<GitCommitInfo | undefined> {
+		const log = await ProcessRunner.run('git', ['log', '-1', '--format=%H%n%an%n%s'], {
+			cwd: dir,
+		});
+		if (log.exitCode !== 0) {
+			return undefined;
+		}
+
+		const [commit, author, message] = log.stdout.trim().split('\n');
+		if (!commit) {
+			return undefined;
+		}
+
+		const [branch, dirty] = await Promise.all([
+			this.readBranch(dir),
+			this.hasLocalChanges(dir),
+		]);
+		return { branch, commit, message: message ?? '', author: author ?? '', dirty };
+	}
+
+	/**
+	 * Current branch name (undefined outside a git repository or on a detached HEAD)
+	 */
+	static async readBranch(dir: string): Promise<string | undefined> {
+		const result = await ProcessRunner.run('git', ['rev-parse', '--abbrev-ref', 'HEAD'], {
+			cwd: dir,
+		});
+		const branch = result.stdout.trim();
+		return result.exitCode === 0 && branch && branch !== 'HEAD' ? branch : undefined;
+	}
+
+	/**
+	 * Who is deploying: git user.name of the repository containing dir, or the OS account
+	 */
+	static async readUserName(dir: string | undefined): Promise<string> {
+		if (dir) {
+			const result = await ProcessRunner.run('git', ['config', 'user.name'], { cwd: dir });
+			const name = result.stdout.trim();
+			if (result.exitCode === 0 && name) {
+				return name;
+			}
+		}
+
+		try {
+			return os.userInfo().username;
+		} catch {
+			return 'unknown';
+		}
+	}
+
+	/**
+	 * Branch name against a pattern such as release/*, where * matches any characters
+	 */
+	static matchesBranchPattern(branch: string, pattern: string): boolean {
+		const escaped = pattern
+			.split('*')
+			.map((part) => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+			.join('.*');
+		return new RegExp(`^${escaped}$`).test(branch);
+	}
+
+	/**
+	 * Whether tracked files have uncommitted changes
+	 */
+	private static async hasLocalChanges(dir: string): Promise<boolean> {
+		const status = await ProcessRunner.run(
+			'git',
+			['status', '--porcelain', '--untracked-files=no'],
+			{ cwd: dir }
+		);
+		return status.exitCode === 0 && status.stdout.trim().length > 0;
+	}
+
+	/**
+	 * yyyyMMdd-HHmmss in local time
+	 */
+	static formatTimestamp(date: Date): string {
+		const pad = (n: number) => String(n).padStart(2, '0');
+		return (
+			`${date.getFullYear()}${pad(date.getMonth() + 1)}${pad(date.getDate())}-` +
+			`${pad(date.getHours())}${pad(date.getMinutes())}${pad(date.getSeconds())}`
+		);
+	}
+}
@@ -0,0 +1,29 @@
+import * as vscode from 'vscode';
+
+/**
+ * Cancellable waits between retries and polls
+ */
+export class Delay {
+	/**
+	 * Wait for delayMs, or until the token is cancelled
+	 * @returns false when cancelled before or while waiting
+	 */
+	static wait(delayMs: number, token?: vscode.CancellationToken): Promise<boolean> {
+		return new Promise((resolve) => {
+			if (token?.isCancellationRequested) {
+				resolve(false);
+				return;
+			}
+
+			const cancellation = token?.onCancellationRequested(() => {
+				clearTimeout(timer);
+				cancellation?.dispose();
+				resolve(false);
+			});
+			const timer = setTimeout(() => {
+				cancellation?.dispose();
+				resolve(true);
+			}, delayMs);
+		});
+	}
+}
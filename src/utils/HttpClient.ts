@@ -0,0 +1,102 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as http from 'http';
+import * as https from 'https';
+
+/**
+ * Options for an HTTP request
+ */
+export interface HttpRequestOptions {
+	method?: string;
+	headers?: Record<string, string>;
+	/** Request body, or a file streamed from disk (e.g. a zip package) */
+	body?: string | Buffer | { filePath: string };
+	/** Milliseconds without any response before giving up */
+	timeoutMs?: number;
+	/** Cancelling the token aborts the request */
+	token?: vscode.CancellationToken;
+}
+
+/**
+ * HTTP response with the body read as text
+ */
+export interface HttpResponse {
+	statusCode: number;
+	headers: http.IncomingHttpHeaders;
+	body: string;
+}
+
+/**
+ * Minimal HTTP(S) client on top of Node's http/https modules
+ * Works with plain http:// URLs too, so a local stand-in server can replace a real endpoint
+ */
+export class HttpClient {
+	/**
+	 * Send a request and read the whole response
+	 * Rejects on network errors, timeouts and cancellation - not on HTTP error statuses
+	 */
+	static async request(url: string, options: HttpRequestOptions = {}): Promise<HttpResponse> {
+		const target = new URL(url);
+		const transport = target.protocol === 'http:' ? http : https;
+		const headers = { ...options.headers };
+
+		let body: string | Buffer | undefined;
+		let filePath: string | undefined;
+		if (options.body && typeof options.body === 'object' && 'filePath' in options.body) {
+			filePath = options.body.filePath;
+			headers['Content-Length'] = String((await fs.promises.stat(filePath)).size);
+		} else if (options.body !== undefined) {
+			body = options.body as string | Buffer;
+			headers['Content-Length'] = String(Buffer.byteLength(body));
+		}
+
+		return new Promise((resolve, reject) => {
+			let cancellation: vscode.Disposable | undefined;
+			const fail = (error: Error) => {
+				cancellation?.dispose();
+				reject(error);
+			};
+
+			const request = transport.request(
+				target,
+				{ method: options.method ?? 'GET', headers, timeout: options.timeoutMs },
+				(response) => {
+					const chunks: Buffer[] = [];
+					response.on('data', (chunk: Buffer) => chunks.push(chunk));
+					response.on('end', () => {
+						cancellation?.dispose();
+						resolve({
+							statusCode: response.statusCode ?? 0,
+							headers: response.headers,
+							body: Buffer.concat(chunks).toString('utf8'),
+						});
+					});
+					response.on('error', fail);
+				}
+			);
+
+			cancellation = options.token?.onCancellationRequested(() => {
+				request.destroy(new Error('Request cancelled'));
+			});
+
+			// The URL stays out of error messages: webhook URLs carry their access token
+			request.on('timeout', () =>
+				request.destroy(new Error(`Request timed out after ${options.timeoutMs}ms`))
+			);
+			request.on('error', fail);
+
+			if (filePath) {
+				fs.createReadStream(filePath).on('error', fail).pipe(request);
+			} else {
+				request.end(body);
+			}
+		});
+	}
+
+	/**
+	 * Authorization header value for basic authentication
+	 */
+	static basicAuth(userName: string, password: string): string {
+		return `Basic ${Buffer.from(`${userName}:${password}`).toString('base64')}`;
+	}
+}
@@ -0,0 +1,53 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { PublishProfileInfo } from '../models/ProjectModels';
+
+/**
+ * Web Deploy (msdeploy) helpers shared by deployment preview and rollback
+ */
+export class MsDeploy {
+	/**
+	 * msdeploy.exe from the default Web Deploy V3 install on Windows, otherwise msdeploy on PATH
+	 */
+	static getExecutablePath(): string {
+		if (process.platform === 'win32') {
+			const programFiles = process.env['ProgramFiles'] || 'C:\\Program Files';
+			const installed = path.join(
+				programFiles,
+				'IIS',
+				'Microsoft Web Deploy V3',
+				'msdeploy.exe'
+			);
+			if (fs.existsSync(installed)) {
+				return installed;
+			}
+		}
+		return 'msdeploy';
+	}
+
+	/**
+	 * Provider settings as msdeploy expects them after -source:/-dest:, e.g.
+	 * contentPath=site,computerName=...,password="p,w=d"
+	 * Values containing separators, quotes or spaces are quoted ("" for a quote inside)
+	 */
+	static formatSettings(settings: [string, string][]): string {
+		return settings.map(([name, value]) => `${name}=${MsDeploy.quoteValue(value)}`).join(',');
+	}
+
+	static quoteValue(value: string): string {
+		return /[,="\s]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+	}
+
+	/**
+	 * Normalize the profile's publish URL to the msdeploy.axd handler
+	 */
+	static buildEndpoint(profileInfo: PublishProfileInfo): string {
+		const publishUrl = (profileInfo.publishUrl || '').replace(/\/+$/, '');
+		if (/msdeploy\.axd/i.test(publishUrl)) {
+			return publishUrl;
+		}
+
+		const base = /^https?:\/\//i.test(publishUrl) ? publishUrl : `https://${publishUrl}`;
+		return `${base}/msdeploy.axd?site=${encodeURIComponent(profileInfo.siteName || '')}`;
+	}
+}
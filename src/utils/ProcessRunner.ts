@@ -0,0 +1,134 @@
+import * as vscode from 'vscode';
+import * as cp from 'child_process';
+
+/**
+ * Options for running a child process
+ */
+export interface ProcessRunOptions {
+	cwd: string;
+	/** Cancelling the token kills the whole process tree */
+	token?: vscode.CancellationToken;
+	/** Called with every stdout/stderr chunk as it arrives */
+	onOutput?: (text: string) => void;
+	/** Extra environment variables (merged over the current environment) */
+	env?: Record<string, string>;
+}
+
+/**
+ * Outcome of a child process run
+ */
+export interface ProcessRunResult {
+	exitCode: number;
+	/** stdout and stderr interleaved as they arrived (for logs) */
+	output: string;
+	/** stdout alone, for parsing a tool's answer without its warnings */
+	stdout: string;
+	cancelled: boolean;
+}
+
+/**
+ * Spawns CLI tools (dotnet, msdeploy...) directly without a shell
+ * Works the same on Windows, Linux and macOS
+ */
+export class ProcessRunner {
+	/**
+	 * Spawn a process and capture its combined output (and stdout on its own)
+	 */
+	static run(
+		command: string,
+		args: string[],
+		options: ProcessRunOptions
+	): Promise<ProcessRunResult> {
+		return new Promise((resolve) => {
+			let output = '';
+			let stdout = '';
+			let cancelled = false;
+
+			const child = cp.spawn(command, args, {
+				cwd: options.cwd,
+				env: options.env ? { ...process.env, ...options.env } : undefined,
+				shell: false,
+				windowsHide: true,
+				// Own process group on Unix so the whole tree can be signalled
+				detached: process.platform !== 'win32',
+			});
+
+			const cancellation = options.token?.onCancellationRequested(() => {
+				cancelled = true;
+				this.killProcessTree(child);
+			});
+
+			const append = (data: Buffer) => {
+				const text = data.toString();
+				output += text;
+				options.onOutput?.(text);
+			};
+			child.stdout?.on('data', (data: Buffer) => {
+				stdout += data.toString();
+				append(data);
+			});
+			child.stderr?.on('data', append);
+
+			child.on('close', (code: number | null) => {
+				cancellation?.dispose();
+				resolve({
+					// A null exit code means the process was terminated by a signal
+					exitCode: code ?? 1,
+					output,
+					stdout,
+					cancelled,
+				});
+			});
+
+			child.on('error', (error: Error) => {
+				cancellation?.dispose();
+				const message = `\nProcess error: ${error.message}\n`;
+				output += message;
+				options.onOutput?.(message);
+				resolve({
+					exitCode: 1,
+					output,
+					stdout,
+					cancelled,
+				});
+			});
+		});
+	}
+
+	/**
+	 * Kill a process and all of its descendants
+	 * - Windows: taskkill /T walks the process tree
+	 * - Unix: signal the process group created by spawning detached
+	 */
+	static killProcessTree(child: cp.ChildProcess): void {
+		const pid = child.pid;
+		if (pid === undefined || child.exitCode !== null) {
+			return;
+		}
+
+		if (process.platform === 'win32') {
+			const taskkill = cp.spawn('taskkill', ['/pid', String(pid), '/T', '/F'], {
+				windowsHide: true,
+			});
+			// taskkill unavailable: at least stop the direct child
+			taskkill.on('error', () => child.kill());
+			return;
+		}
+
+		try {
+			process.kill(-pid, 'SIGTERM');
+		} catch {
+			child.kill('SIGTERM');
+		}
+
+		// Escalate if the tree ignores SIGTERM
+		const escalation = setTimeout(() => {
+			try {
+				process.kill(-pid, 'SIGKILL');
+			} catch {
+				// Already exited
+			}
+		}, 5000);
+		child.once('exit', () => clearTimeout(escalation));
+	}
+}
@@ -0,0 +1,142 @@
+import {
+	DEFAULT_CONTAINER_TAG_TEMPLATE,
+	DEFAULT_HEALTH_CHECK,
+	DEFAULT_RETRYABLE_ERRORS,
+	PublishProfileInfo,
+} from '../models/ProjectModels';
+
+/**
+ * Reads toolkit-specific .pubxml properties
+ * Shared by PublishProfileParser (tree views) and ProfileService (profile panel)
+ * so both see the same profile settings
+ */
+export class ProfilePropertyReader {
+	/**
+	 * Extract toolkit settings from a parsed PropertyGroup
+	 */
+	static readExtendedProperties(props: any): Partial<PublishProfileInfo> {
+		return {
+			enableAppOffline: this.toBoolean(props?.EnableMsDeployAppOffline),
+			enableMsDeployBackup: this.toBoolean(props?.EnableMSDeployBackup),
+			skipExtraFilesOnServer: this.toBoolean(props?.SkipExtraFilesOnServer),
+			deleteExistingFiles: this.toBoolean(props?.DeleteExistingFiles),
+			targetId: props?._TargetId || undefined,
+			kuduAuthType:
+				String(props?.KuduAuthType ?? '').toLowerCase() === 'token' ? 'token' : undefined,
+			retry: this.readRetryOptions(props),
+			healthCheck: this.readHealthCheckSettings(props),
+			ssh: this.readSshSettings(props),
+			container: this.readContainerSettings(props),
+		};
+	}
+
+	/**
+	 * Parse an MSBuild boolean (fast-xml-parser may already return a boolean)
+	 */
+	static toBoolean(value: unknown): boolean | undefined {
+		if (value === undefined || value === null || value === '') {
+			return undefined;
+		}
+		return typeof value === 'boolean' ? value : String(value).toLowerCase() === 'true';
+	}
+
+	/**
+	 * Parse an integer property
+	 */
+	static toNumber(value: unknown): number | undefined {
+		if (value === undefined || value === null || value === '') {
+			return undefined;
+		}
+		const parsed = parseInt(String(value), 10);
+		return isNaN(parsed) ? undefined : parsed;
+	}
+
+	/**
+	 * Parse an MSBuild list property ("a;b;c")
+	 */
+	static toList(value: unknown): string[] | undefined {
+		if (value === undefined || value === null || value === '') {
+			return undefined;
+		}
+		return String(value)
+			.split(';')
+			.map((v) => v.trim())
+			.filter((v) => v.length > 0);
+	}
+
+	private static readSshSettings(props: any): PublishProfileInfo['ssh'] {
+		if (!props?.SshRemotePath) {
+			return undefined;
+		}
+
+		return {
+			remotePath: String(props.SshRemotePath),
+			authType: String(props.SshAuthType ?? '').toLowerCase() === 'key' ? 'key' : 'password',
+			privateKeyPath: props.SshPrivateKeyPath ? String(props.SshPrivateKeyPath) : undefined,
+			transfer: String(props.SshTransfer ?? '').toLowerCase() === 'sftp' ? 'sftp' : 'rsync',
+			preCommand: props.SshPreDeployCommand ? String(props.SshPreDeployCommand) : undefined,
+			postCommand: props.SshPostDeployCommand
+				? String(props.SshPostDeployCommand)
+				: undefined,
+		};
+	}
+
+	private static readContainerSettings(props: any): PublishProfileInfo['container'] {
+		if (!props?.ContainerRepository) {
+			return undefined;
+		}
+
+		return {
+			registry: props.ContainerRegistry ? String(props.ContainerRegistry) : undefined,
+			repository: String(props.ContainerRepository),
+			tagTemplate: props.ContainerImageTags
+				? String(props.ContainerImageTags)
+				: DEFAULT_CONTAINER_TAG_TEMPLATE,
+			build:
+				String(props.ContainerBuildMode ?? '').toLowerCase() === 'dockerfile'
+					? 'dockerfile'
+					: 'sdk',
+			dockerfilePath: props.DockerfilePath ? String(props.DockerfilePath) : undefined,
+			dockerfileContext: props.DockerfileContext
+				? String(props.DockerfileContext)
+				: undefined,
+		};
+	}
+
+	private static readRetryOptions(props: any): PublishProfileInfo['retry'] {
+		const maxAttempts = this.toNumber(props?.DeployRetryMaxAttempts);
+		if (!maxAttempts || maxAttempts <= 1) {
+			return undefined;
+		}
+
+		return {
+			maxAttempts,
+			backoffMs: this.toNumber(props?.DeployRetryBackoffMs) ?? 5000,
+			retryOn: this.toList(props?.DeployRetryOn) ?? DEFAULT_RETRYABLE_ERRORS,
+		};
+	}
+
+	private static readHealthCheckSettings(props: any): PublishProfileInfo['healthCheck'] {
+		const urls = this.toList(props?.HealthCheckUrls);
+		if (!urls?.length) {
+			return undefined;
+		}
+
+		const expectedStatus = this.toList(props?.HealthCheckExpectedStatus)
+			?.map((s) => parseInt(s, 10))
+			.filter((s) => !isNaN(s));
+		return {
+			urls,
+			expectedStatus: expectedStatus?.length
+				? expectedStatus
+				: DEFAULT_HEALTH_CHECK.expectedStatus,
+			bodyPattern: props?.HealthCheckBodyPattern
+				? String(props.HealthCheckBodyPattern)
+				: undefined,
+			timeoutMs: this.toNumber(props?.HealthCheckTimeoutMs) ?? DEFAULT_HEALTH_CHECK.timeoutMs,
+			retries: this.toNumber(props?.HealthCheckRetries) ?? DEFAULT_HEALTH_CHECK.retries,
+			retryDelayMs:
+				this.toNumber(props?.HealthCheckRetryDelayMs) ?? DEFAULT_HEALTH_CHECK.retryDelayMs,
+		};
+	}
+}
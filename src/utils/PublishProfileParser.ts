@@ -2,6 +2,7 @@ import * as fs from 'fs';
 import * as path from 'path';
 import { XMLParser } from 'fast-xml-parser';
 import { PublishProfileInfo, DeployEnvironment } from '../models/ProjectModels';
+import { ProfilePropertyReader } from './ProfilePropertyReader';
 
 /**
  * Parser for .NET publish profile (.pubxml) files
@@ -54,6 +55,7 @@ export class PublishProfileParser {
 				siteUrl: siteUrl,
 				siteName: siteName,
 				userName: userName,
+				...ProfilePropertyReader.readExtendedProperties(propertyGroup),
 			};
 		} catch (error) {
 			console.error(`Failed to parse publish profile ${pubxmlPath}:`, error);
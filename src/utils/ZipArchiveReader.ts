@@ -0,0 +1,95 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as zlib from 'zlib';
+
+/** End of central directory record: 22 bytes plus a comment of up to 64 KB */
+const EOCD_MAX_SIZE = 22 + 0xffff;
+
+/**
+ * Extracts .zip archives using Node's zlib (no external dependency)
+ * Supports what ZipArchiveWriter and common tools produce: stored and deflated
+ * entries, no Zip64, no encryption
+ */
+export class ZipArchiveReader {
+	/**
+	 * Extract every entry of zipPath into destDir
+	 * @returns number of files extracted
+	 */
+	static async extract(zipPath: string, destDir: string): Promise<number> {
+		const archive = await fs.promises.readFile(zipPath);
+		const root = path.resolve(destDir);
+		await fs.promises.mkdir(root, { recursive: true });
+
+		const eocd = this.findEndOfCentralDirectory(archive);
+		const count = archive.readUInt16LE(eocd + 10);
+		let offset = archive.readUInt32LE(eocd + 16);
+		let extracted = 0;
+
+		for (let i = 0; i < count; i++) {
+			if (archive.readUInt32LE(offset) !== 0x02014b50) {
+				throw new Error(`Corrupt zip central directory in ${zipPath}`);
+			}
+
+			const method = archive.readUInt16LE(offset + 10);
+			const compressedSize = archive.readUInt32LE(offset + 20);
+			const nameLength = archive.readUInt16LE(offset + 28);
+			const extraLength = archive.readUInt16LE(offset + 30);
+			const commentLength = archive.readUInt16LE(offset + 32);
+			const madeBy = archive.readUInt16LE(offset + 4) >> 8;
+			const externalAttributes = archive.readUInt32LE(offset + 38);
+			const localOffset = archive.readUInt32LE(offset + 42);
+			const name = archive.toString('utf8', offset + 46, offset + 46 + nameLength);
+			offset += 46 + nameLength + extraLength + commentLength;
+
+			// Never write outside destDir (entries like ../../evil or /etc/passwd)
+			const target = path.resolve(root, ...name.split(/[\\/]/).filter(Boolean));
+			const relative = path.relative(root, target);
+			if (!relative || relative.startsWith('..') || path.isAbsolute(relative)) {
+				throw new Error(`Zip entry escapes the extraction folder: ${name}`);
+			}
+
+			if (name.endsWith('/')) {
+				await fs.promises.mkdir(target, { recursive: true });
+				continue;
+			}
+
+			// Local header name/extra lengths can differ from the central directory
+			const dataStart =
+				localOffset +
+				30 +
+				archive.readUInt16LE(localOffset + 26) +
+				archive.readUInt16LE(localOffset + 28);
+			const data = archive.subarray(dataStart, dataStart + compressedSize);
+
+			let content: Buffer;
+			if (method === 0) {
+				content = data;
+			} else if (method === 8) {
+				content = zlib.inflateRawSync(data);
+			} else {
+				throw new Error(`Unsupported zip compression method ${method} for ${name}`);
+			}
+
+			// Unix permissions (e.g. an executable apphost) when the archive recorded them
+			const mode = madeBy === 3 ? (externalAttributes >>> 16) & 0o777 : 0;
+			await fs.promises.mkdir(path.dirname(target), { recursive: true });
+			await fs.promises.writeFile(target, content, mode ? { mode } : undefined);
+			extracted++;
+		}
+
+		return extracted;
+	}
+
+	/**
+	 * Scan backwards for the end of central directory signature
+	 */
+	private static findEndOfCentralDirectory(archive: Buffer): number {
+		const stop = Math.max(0, archive.length - EOCD_MAX_SIZE);
+		for (let i = archive.length - 22; i >= stop; i--) {
+			if (archive.readUInt32LE(i) === 0x06054b50) {
+				return i;
+			}
+		}
+		throw new Error('Not a zip archive (end of central directory not found)');
+	}
+}
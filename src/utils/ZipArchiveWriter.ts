@@ -0,0 +1,236 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as zlib from 'zlib';
+import { pipeline } from 'stream/promises';
+
+interface CentralDirectoryEntry {
+	name: Buffer;
+	crc: number;
+	compressedSize: number;
+	size: number;
+	method: number;
+	dosTime: number;
+	dosDate: number;
+	mode: number;
+	offset: number;
+}
+
+/** Classic zip format limit (no Zip64 support) */
+const MAX_ZIP_SIZE = 0xffffffff;
+
+const CRC_TABLE = (() => {
+	const table = new Uint32Array(256);
+	for (let n = 0; n < 256; n++) {
+		let c = n;
+		for (let k = 0; k < 8; k++) {
+			c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+		}
+		table[n] = c >>> 0;
+	}
+	return table;
+})();
+
+/** General purpose flags: sizes and CRC follow the data (bit 3), UTF-8 names (bit 11) */
+const ENTRY_FLAGS = 0x0808;
+
+/**
+ * Writes a folder into a .zip archive using Node's zlib (no external dependency)
+ * Entries are added in sorted order so the same input gives the same layout. Files are
+ * streamed through an async deflate, so large publish output never blocks the extension host
+ */
+export class ZipArchiveWriter {
+	/**
+	 * Zip every file under sourceDir into zipPath
+	 * A failed or cancelled run removes the partial zip and rejects
+	 * @returns number of files added
+	 */
+	static async zipFolder(
+		sourceDir: string,
+		zipPath: string,
+		token?: vscode.CancellationToken
+	): Promise<number> {
+		const files = (await this.listFiles(sourceDir)).sort();
+		const handle = await fs.promises.open(zipPath, 'w');
+		const entries: CentralDirectoryEntry[] = [];
+		let offset = 0;
+
+		const write = async (buffer: Buffer) => {
+			if (offset + buffer.length > MAX_ZIP_SIZE) {
+				throw new Error('Archive exceeds the 4 GB zip limit');
+			}
+			await handle.write(buffer);
+			offset += buffer.length;
+		};
+		const throwIfCancelled = () => {
+			if (token?.isCancellationRequested) {
+				throw new Error('Packaging cancelled');
+			}
+		};
+
+		try {
+			for (const relative of files) {
+				throwIfCancelled();
+				const fullPath = path.join(sourceDir, relative);
+				const stat = await fs.promises.stat(fullPath);
+				const { dosTime, dosDate } = this.toDosDateTime(stat.mtime);
+
+				const entry: CentralDirectoryEntry = {
+					name: Buffer.from(relative.split(path.sep).join('/'), 'utf8'),
+					crc: 0,
+					compressedSize: 0,
+					size: 0,
+					method: 8,
+					dosTime,
+					dosDate,
+					mode: stat.mode,
+					offset,
+				};
+				await write(this.localFileHeader(entry));
+
+				// Read, checksum and compress chunk by chunk. pipeline tears every stage down on
+				// error or cancellation, so no stage is left waiting for the others
+				let crc = 0;
+				await pipeline(
+					fs.createReadStream(fullPath),
+					async function* (source: AsyncIterable<Buffer>) {
+						for await (const chunk of source) {
+							throwIfCancelled();
+							crc = ZipArchiveWriter.crc32(chunk, crc);
+							entry.size += chunk.length;
+							yield chunk;
+						}
+					},
+					zlib.createDeflateRaw(),
+					async (compressed: AsyncIterable<Buffer>) => {
+						for await (const chunk of compressed) {
+							throwIfCancelled();
+							await write(chunk);
+							entry.compressedSize += chunk.length;
+						}
+					}
+				);
+
+				entry.crc = crc;
+				await write(this.dataDescriptor(entry));
+				entries.push(entry);
+			}
+
+			const centralStart = offset;
+			for (const entry of entries) {
+				await write(this.centralDirectoryHeader(entry));
+			}
+			await write(
+				this.endOfCentralDirectory(entries.length, offset - centralStart, centralStart)
+			);
+		} catch (error) {
+			await handle.close().catch(() => undefined);
+			await fs.promises.rm(zipPath, { force: true }).catch(() => undefined);
+			throw error;
+		}
+
+		await handle.close();
+		return entries.length;
+	}
+
+	private static localFileHeader(entry: CentralDirectoryEntry): Buffer {
+		const header = Buffer.alloc(30);
+		header.writeUInt32LE(0x04034b50, 0);
+		header.writeUInt16LE(20, 4); // Version needed to extract
+		header.writeUInt16LE(ENTRY_FLAGS, 6);
+		header.writeUInt16LE(entry.method, 8);
+		header.writeUInt16LE(entry.dosTime, 10);
+		header.writeUInt16LE(entry.dosDate, 12);
+		// CRC and sizes are zero here and follow the data in the data descriptor
+		header.writeUInt16LE(entry.name.length, 26);
+		header.writeUInt16LE(0, 28); // Extra field length
+		return Buffer.concat([header, entry.name]);
+	}
+
+	private static centralDirectoryHeader(entry: CentralDirectoryEntry): Buffer {
+		const header = Buffer.alloc(46);
+		header.writeUInt32LE(0x02014b50, 0);
+		header.writeUInt16LE((3 << 8) | 20, 4); // Made by Unix, so unzip restores file modes
+		header.writeUInt16LE(20, 6); // Version needed to extract
+		header.writeUInt16LE(ENTRY_FLAGS, 8);
+		header.writeUInt16LE(entry.method, 10);
+		header.writeUInt16LE(entry.dosTime, 12);
+		header.writeUInt16LE(entry.dosDate, 14);
+		header.writeUInt32LE(entry.crc, 16);
+		header.writeUInt32LE(entry.compressedSize, 20);
+		header.writeUInt32LE(entry.size, 24);
+		header.writeUInt16LE(entry.name.length, 28);
+		// Extra field, comment, disk number, internal attributes: all zero
+		header.writeUInt32LE(((entry.mode & 0xffff) << 16) >>> 0, 38);
+		header.writeUInt32LE(entry.offset, 42);
+		return Buffer.concat([header, entry.name]);
+	}
+
+	private static dataDescriptor(entry: CentralDirectoryEntry): Buffer {
+		const descriptor = Buffer.alloc(16);
+		descriptor.writeUInt32LE(0x08074b50, 0);
+		descriptor.writeUInt32LE(entry.crc, 4);
+		descriptor.writeUInt32LE(entry.compressedSize, 8);
+		descriptor.writeUInt32LE(entry.size, 12);
+		return descriptor;
+	}
+
+	private static endOfCentralDirectory(count: number, size: number, offset: number): Buffer {
+		if (count > 0xffff) {
+			throw new Error('Archive exceeds the 65535 file zip limit');
+		}
+
+		const record = Buffer.alloc(22);
+		record.writeUInt32LE(0x06054b50, 0);
+		record.writeUInt16LE(count, 8);
+		record.writeUInt16LE(count, 10);
+		record.writeUInt32LE(size, 12);
+		record.writeUInt32LE(offset, 16);
+		return record;
+	}
+
+	/**
+	 * Continue a CRC-32 over the next chunk (start with 0)
+	 */
+	private static crc32(buffer: Buffer, previous: number): number {
+		let crc = previous ^ 0xffffffff;
+		for (let i = 0; i < buffer.length; i++) {
+			crc = CRC_TABLE[(crc ^ buffer[i]) & 0xff] ^ (crc >>> 8);
+		}
+		return (crc ^ 0xffffffff) >>> 0;
+	}
+
+	/**
+	 * Zip timestamps use MS-DOS format (local time, 2 second resolution, from 1980)
+	 */
+	private static toDosDateTime(date: Date): { dosTime: number; dosDate: number } {
+		const year = Math.max(date.getFullYear(), 1980);
+		return {
+			dosTime:
+				(date.getHours() << 11) |
+				(date.getMinutes() << 5) |
+				Math.floor(date.getSeconds() / 2),
+			dosDate: ((year - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+		};
+	}
+
+	/**
+	 * Relative paths of all files under root
+	 */
+	private static async listFiles(root: string): Promise<string[]> {
+		const files: string[] = [];
+		const walk = async (dir: string): Promise<void> => {
+			for (const entry of await fs.promises.readdir(dir, { withFileTypes: true })) {
+				const fullPath = path.join(dir, entry.name);
+				if (entry.isDirectory()) {
+					await walk(fullPath);
+				} else if (entry.isFile()) {
+					files.push(path.relative(root, fullPath));
+				}
+			}
+		};
+
+		await walk(root);
+		return files;
+	}
+}